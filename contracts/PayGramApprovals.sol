@@ -0,0 +1,457 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title PayGramApprovals
+ * @notice N-of-M approval layer for sensitive PayGramCore actions. Approvers
+ *         propose a call, co-sign it from their own wallets, and any
+ *         approver executes it once the threshold is met and before the
+ *         proposal expires.
+ *
+ * @dev Install by calling PayGramCore.setApprovalGate(address(this)); from
+ *      then on payroll execution, escrow release, cancellations, salary
+ *      updates and transferEmployer are only accepted from this contract.
+ *
+ *      Encrypted inputs in a proposal must be encrypted for this contract
+ *      as the sender, since it is the account that calls PayGramCore.
+ *
+ *      Approver set, threshold, proposal lifetime and extra targets are
+ *      changed by proposals that target this contract itself.
+ */
+contract PayGramApprovals {
+    // ──────────────────────────────────────────────────────────────────
+    //  Constants
+    // ──────────────────────────────────────────────────────────────────
+
+    uint256 public constant MAX_APPROVERS = 20;
+    uint256 public constant MIN_LIFETIME  = 1 hours;
+    uint256 public constant MAX_LIFETIME  = 30 days;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Enums
+    // ──────────────────────────────────────────────────────────────────
+
+    enum ProposalState {
+        None,      // 0 — default / uninitialized
+        Pending,   // 1 — collecting approvals (may have expired)
+        Executed,  // 2 — call succeeded
+        Cancelled  // 3 — withdrawn by its proposer
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Structs
+    // ──────────────────────────────────────────────────────────────────
+
+    struct Proposal {
+        address       target;
+        bytes         data;
+        address       proposer;
+        uint256       createdAt;
+        uint256       expiresAt;
+        ProposalState state;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  State
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @notice PayGramCore this contract gates.
+    address public core;
+
+    /// @notice Approvals needed to execute a proposal.
+    uint256 public threshold;
+
+    /// @notice Seconds a proposal stays executable after it is created.
+    uint256 public proposalLifetime;
+
+    mapping(address => bool) public isApprover;
+    address[] private _approvers;
+
+    /// @dev Stamp of each approver's current membership, from a counter
+    ///      bumped on every addition. Zero for accounts never added.
+    mapping(address => uint256) private _membership;
+    uint256 private _membershipCount;
+
+    /// @dev Proposals keyed by ID (0-based).
+    mapping(uint256 => Proposal) private _proposals;
+    uint256 public proposalCount;
+
+    /// @dev Membership stamp an approver signed each proposal with. A
+    ///      removed and re-added approver has a new stamp, so approvals
+    ///      from an earlier membership no longer count.
+    mapping(uint256 => mapping(address => uint256)) private _approvals;
+
+    /// @notice Contracts besides PayGramCore that proposals may call, such
+    ///         as modules that accept this gate in place of a core role.
+    mapping(address => bool) public isTarget;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Events
+    // ──────────────────────────────────────────────────────────────────
+
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        address indexed target,
+        bytes4 selector,
+        uint256 expiresAt
+    );
+    event ProposalApproved(
+        uint256 indexed proposalId,
+        address indexed approver,
+        uint256 approvals
+    );
+    event ApprovalRevoked(
+        uint256 indexed proposalId,
+        address indexed approver,
+        uint256 approvals
+    );
+    event ProposalExecuted(uint256 indexed proposalId, address indexed executor);
+    event ProposalCancelled(uint256 indexed proposalId);
+    event ApproverAdded(address indexed approver);
+    event ApproverRemoved(address indexed approver);
+    event ThresholdChanged(uint256 threshold);
+    event ProposalLifetimeChanged(uint256 lifetime);
+    event TargetUpdated(address indexed target, bool allowed);
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Errors
+    // ──────────────────────────────────────────────────────────────────
+
+    error NotApprover();
+    error NotSelf();
+    error ZeroAddress();
+    error InvalidTarget();
+    error InvalidThreshold();
+    error InvalidLifetime();
+    error TooManyApprovers();
+    error AlreadyApprover();
+    error ProposalNotFound();
+    error ProposalNotPending();
+    error ProposalExpired();
+    error AlreadyApproved();
+    error NotApproved();
+    error ThresholdNotMet();
+    error NotProposer();
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Modifiers
+    // ──────────────────────────────────────────────────────────────────
+
+    modifier onlyApprover() {
+        if (!isApprover[msg.sender]) revert NotApprover();
+        _;
+    }
+
+    /// @dev Settings change only through an executed proposal.
+    modifier onlySelf() {
+        if (msg.sender != address(this)) revert NotSelf();
+        _;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Constructor
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @param _core       PayGramCore to gate.
+     * @param approvers   Initial approver set (M).
+     * @param _threshold  Approvals required (N), 1 <= N <= M.
+     * @param lifetime    Seconds a proposal stays executable.
+     */
+    constructor(
+        address _core,
+        address[] memory approvers,
+        uint256 _threshold,
+        uint256 lifetime
+    ) {
+        if (_core == address(0)) revert ZeroAddress();
+        core = _core;
+
+        for (uint256 i = 0; i < approvers.length; i++) {
+            _addApprover(approvers[i]);
+        }
+        _setThreshold(_threshold);
+        _setProposalLifetime(lifetime);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Proposals
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Proposes a call to PayGramCore, an allowed module, or this
+     *         contract. The proposer's approval is recorded immediately.
+     * @param target PayGramCore, an isTarget module, or this contract for
+     *               settings changes.
+     * @param data   ABI-encoded call.
+     * @return proposalId Identifier of the new proposal.
+     */
+    function propose(
+        address target,
+        bytes calldata data
+    ) external onlyApprover returns (uint256 proposalId) {
+        if (target != core && target != address(this) && !isTarget[target])
+            revert InvalidTarget();
+
+        proposalId = proposalCount++;
+        Proposal storage p = _proposals[proposalId];
+        p.target    = target;
+        p.data      = data;
+        p.proposer  = msg.sender;
+        p.createdAt = block.timestamp;
+        p.expiresAt = block.timestamp + proposalLifetime;
+        p.state     = ProposalState.Pending;
+
+        emit ProposalCreated(
+            proposalId,
+            msg.sender,
+            target,
+            bytes4(data),
+            p.expiresAt
+        );
+        _approve(proposalId);
+    }
+
+    /**
+     * @notice Adds the caller's approval to a pending proposal.
+     * @param proposalId Identifier of the proposal.
+     */
+    function approve(uint256 proposalId) external onlyApprover {
+        _requireOpen(proposalId);
+        _approve(proposalId);
+    }
+
+    /**
+     * @notice Withdraws the caller's approval from a pending proposal.
+     * @param proposalId Identifier of the proposal.
+     */
+    function revokeApproval(uint256 proposalId) external onlyApprover {
+        _requireOpen(proposalId);
+        if (!hasApproved(proposalId, msg.sender)) revert NotApproved();
+
+        delete _approvals[proposalId][msg.sender];
+
+        emit ApprovalRevoked(proposalId, msg.sender, approvalCount(proposalId));
+    }
+
+    /**
+     * @notice Executes a proposal that has reached the threshold.
+     * @dev    Reverts with the target's revert data if the call fails, so a
+     *         failed execution leaves the proposal pending.
+     * @param proposalId Identifier of the proposal.
+     */
+    function execute(uint256 proposalId) external onlyApprover {
+        Proposal storage p = _requireOpen(proposalId);
+        if (approvalCount(proposalId) < threshold) revert ThresholdNotMet();
+
+        p.state = ProposalState.Executed;
+        Address.functionCall(p.target, p.data);
+
+        emit ProposalExecuted(proposalId, msg.sender);
+    }
+
+    /**
+     * @notice Withdraws a pending proposal. Only its proposer may cancel.
+     * @param proposalId Identifier of the proposal.
+     */
+    function cancel(uint256 proposalId) external {
+        Proposal storage p = _proposals[proposalId];
+        if (p.state == ProposalState.None) revert ProposalNotFound();
+        if (p.state != ProposalState.Pending) revert ProposalNotPending();
+        if (msg.sender != p.proposer) revert NotProposer();
+
+        p.state = ProposalState.Cancelled;
+        emit ProposalCancelled(proposalId);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Settings (via proposals to this contract)
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Adds an approver.
+     * @param approver Address to add.
+     */
+    function addApprover(address approver) external onlySelf {
+        _addApprover(approver);
+    }
+
+    /**
+     * @notice Removes an approver. The threshold must still be reachable.
+     * @dev    Approvals the account already gave stop counting, and do not
+     *         count again if it is added back.
+     * @param approver Address to remove.
+     */
+    function removeApprover(address approver) external onlySelf {
+        if (!isApprover[approver]) revert NotApprover();
+        if (_approvers.length - 1 < threshold) revert InvalidThreshold();
+
+        isApprover[approver] = false;
+        delete _membership[approver];
+        uint256 last = _approvers.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            if (_approvers[i] == approver) {
+                _approvers[i] = _approvers[last];
+                _approvers.pop();
+                break;
+            }
+        }
+
+        emit ApproverRemoved(approver);
+    }
+
+    /**
+     * @notice Changes the number of approvals required.
+     * @param _threshold New threshold, 1 <= N <= M.
+     */
+    function setThreshold(uint256 _threshold) external onlySelf {
+        _setThreshold(_threshold);
+    }
+
+    /**
+     * @notice Changes how long new proposals stay executable.
+     * @param lifetime Seconds, between MIN_LIFETIME and MAX_LIFETIME.
+     */
+    function setProposalLifetime(uint256 lifetime) external onlySelf {
+        _setProposalLifetime(lifetime);
+    }
+
+    /**
+     * @notice Allows or disallows proposals that call `target`.
+     * @param target  Contract to allow, e.g. a PayGramCompensation module.
+     * @param allowed Whether proposals may call it.
+     */
+    function setTarget(address target, bool allowed) external onlySelf {
+        if (target == address(0)) revert ZeroAddress();
+        isTarget[target] = allowed;
+        emit TargetUpdated(target, allowed);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  View Functions
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Returns the current approver set.
+     */
+    function getApprovers() external view returns (address[] memory) {
+        return _approvers;
+    }
+
+    /**
+     * @notice Returns a proposal.
+     * @param proposalId Identifier of the proposal.
+     */
+    function getProposal(uint256 proposalId)
+        external
+        view
+        returns (Proposal memory)
+    {
+        if (_proposals[proposalId].state == ProposalState.None)
+            revert ProposalNotFound();
+        return _proposals[proposalId];
+    }
+
+    /**
+     * @notice Whether an approver has signed a proposal during their
+     *         current membership.
+     * @param proposalId Identifier of the proposal.
+     * @param approver   Approver address.
+     */
+    function hasApproved(
+        uint256 proposalId,
+        address approver
+    ) public view returns (bool) {
+        uint256 stamp = _approvals[proposalId][approver];
+        return stamp != 0 && stamp == _membership[approver];
+    }
+
+    /**
+     * @notice Approvals on a proposal from current approvers.
+     * @param proposalId Identifier of the proposal.
+     */
+    function approvalCount(uint256 proposalId) public view returns (uint256 count) {
+        for (uint256 i = 0; i < _approvers.length; i++) {
+            if (hasApproved(proposalId, _approvers[i])) count++;
+        }
+    }
+
+    /**
+     * @notice Lists pending, unexpired proposal IDs, newest first.
+     * @param maxCount Maximum number of IDs to return.
+     */
+    function getPendingProposals(uint256 maxCount)
+        external
+        view
+        returns (uint256[] memory ids)
+    {
+        uint256[] memory found = new uint256[](maxCount);
+        uint256 count = 0;
+        for (uint256 i = proposalCount; i > 0 && count < maxCount; i--) {
+            Proposal storage p = _proposals[i - 1];
+            if (
+                p.state == ProposalState.Pending &&
+                block.timestamp <= p.expiresAt
+            ) {
+                found[count++] = i - 1;
+            }
+        }
+
+        ids = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = found[i];
+        }
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal
+    // ──────────────────────────────────────────────────────────────────
+
+    function _requireOpen(uint256 proposalId)
+        internal
+        view
+        returns (Proposal storage p)
+    {
+        p = _proposals[proposalId];
+        if (p.state == ProposalState.None) revert ProposalNotFound();
+        if (p.state != ProposalState.Pending) revert ProposalNotPending();
+        if (block.timestamp > p.expiresAt) revert ProposalExpired();
+    }
+
+    function _approve(uint256 proposalId) internal {
+        if (hasApproved(proposalId, msg.sender)) revert AlreadyApproved();
+
+        _approvals[proposalId][msg.sender] = _membership[msg.sender];
+
+        emit ProposalApproved(proposalId, msg.sender, approvalCount(proposalId));
+    }
+
+    function _addApprover(address approver) internal {
+        if (approver == address(0)) revert ZeroAddress();
+        if (isApprover[approver]) revert AlreadyApprover();
+        if (_approvers.length >= MAX_APPROVERS) revert TooManyApprovers();
+
+        isApprover[approver] = true;
+        _approvers.push(approver);
+        _membership[approver] = ++_membershipCount;
+
+        emit ApproverAdded(approver);
+    }
+
+    function _setThreshold(uint256 _threshold) internal {
+        if (_threshold == 0 || _threshold > _approvers.length)
+            revert InvalidThreshold();
+        threshold = _threshold;
+        emit ThresholdChanged(_threshold);
+    }
+
+    function _setProposalLifetime(uint256 lifetime) internal {
+        if (lifetime < MIN_LIFETIME || lifetime > MAX_LIFETIME)
+            revert InvalidLifetime();
+        proposalLifetime = lifetime;
+        emit ProposalLifetimeChanged(lifetime);
+    }
+}
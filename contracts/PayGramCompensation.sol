@@ -0,0 +1,329 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @dev The PayGramCore surface this module reads.
+interface IPayGramCoreView {
+    function employer() external view returns (address);
+    function approvalGate() external view returns (address);
+    function hasRole(address account, uint8 role) external view returns (bool);
+    function isActiveEmployee(address wallet) external view returns (bool);
+    function getTeam()
+        external
+        view
+        returns (address[] memory accounts, uint8[] memory masks);
+}
+
+/**
+ * @title PayGramCompensation
+ * @notice Encrypted pay components for a PayGramCore roster. The core's
+ *         encrypted salary is the base pay; this module adds recurring
+ *         allowances, a one-off bonus and recurring deductions, and
+ *         computes net pay homomorphically when payroll runs:
+ *
+ *             gross = base + allowances + bonus
+ *             net   = gross - min(deductions, gross)
+ *
+ *         The gross sum saturates at MAX_GROSS rather than wrapping.
+ *         On a partial period (a first or final paycheck) the base,
+ *         allowances and deductions are pro-rated to the days worked;
+ *         the one-off bonus is paid in full.
+ *
+ * @dev Install with PayGramCore.setCompensation(address(this)). Components
+ *      are set by HR on the core, or by its approval gate when one is
+ *      installed. Every component and the last net pay are
+ *      readable by the employee and the employer, and the components
+ *      also by the core's HR team members.
+ *
+ *      Deducted amounts are not transferred; they stay in the core's
+ *      balance for the employer to remit.
+ */
+contract PayGramCompensation is ZamaEthereumConfig {
+    // ──────────────────────────────────────────────────────────────────
+    //  Constants
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @dev Mirrors PayGramCore.Role.HR.
+    uint8 private constant ROLE_HR = 1;
+
+    /// @notice Cap on gross pay, low enough that pro-rating it by up to
+    ///         30 days stays within 64 bits.
+    uint64 public constant MAX_GROSS = type(uint64).max / 31;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Structs
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @dev Handles stay uninitialized until first set, which reads as zero.
+    struct Components {
+        euint64 allowances; // paid every run
+        euint64 bonus;      // paid by the next run, then reset to zero
+        euint64 deductions; // withheld every run
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  State
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @notice PayGramCore whose roster this module prices.
+    address public core;
+
+    mapping(address => Components) private _components;
+
+    /// @dev Net pay paid by the employee's latest payroll run.
+    mapping(address => euint64) private _lastNetPay;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Events
+    // ──────────────────────────────────────────────────────────────────
+
+    event ComponentsUpdated(address indexed employee);
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Errors
+    // ──────────────────────────────────────────────────────────────────
+
+    error ZeroAddress();
+    error NotAuthorized();
+    error NotCore();
+    error EmployeeNotActive();
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Modifiers
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @dev Same rule as PayGramCore.updateSalary: the approval gate if
+    ///      one is installed, otherwise the HR role.
+    modifier onlyHR() {
+        address gate = IPayGramCoreView(core).approvalGate();
+        bool allowed = gate != address(0)
+            ? msg.sender == gate
+            : IPayGramCoreView(core).hasRole(msg.sender, ROLE_HR);
+        if (!allowed) revert NotAuthorized();
+        _;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Constructor
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @param _core PayGramCore this module serves.
+     */
+    constructor(address _core) {
+        if (_core == address(0)) revert ZeroAddress();
+        core = _core;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Components
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Sets an employee's encrypted pay components. Replaces any
+     *         bonus that has not been paid yet.
+     * @param employee    Active employee on the core.
+     * @param allowances  Encrypted recurring allowances per pay period.
+     * @param bonus       Encrypted one-off bonus for the next run.
+     * @param deductions  Encrypted recurring deductions per pay period.
+     * @param inputProof  ZKPoK proof covering all three values.
+     */
+    function setComponents(
+        address employee,
+        externalEuint64 allowances,
+        externalEuint64 bonus,
+        externalEuint64 deductions,
+        bytes calldata inputProof
+    ) external onlyHR {
+        _requireActive(employee);
+        _setComponents(
+            employee,
+            FHE.fromExternal(allowances, inputProof),
+            FHE.fromExternal(bonus, inputProof),
+            FHE.fromExternal(deductions, inputProof)
+        );
+    }
+
+    /**
+     * @notice Plaintext variant of setComponents for testing.
+     */
+    function setComponentsPlaintext(
+        address employee,
+        uint64 allowances,
+        uint64 bonus,
+        uint64 deductions
+    ) external onlyHR {
+        _requireActive(employee);
+        _setComponents(
+            employee,
+            FHE.asEuint64(allowances),
+            FHE.asEuint64(bonus),
+            FHE.asEuint64(deductions)
+        );
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Payroll
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Computes an employee's net pay from their base salary for
+     *         `daysWorked` of a `daysInPeriod`-day pay period.
+     * @dev    Only the core may call, and it must grant this contract
+     *         transient access to `base` first. The result is granted to
+     *         the core for the rest of the transaction. Nothing is
+     *         written: a payroll run follows up with settlePay once it
+     *         knows whether the amount was paid.
+     * @param employee     Employee being paid.
+     * @param base         Encrypted base salary from the core.
+     * @param daysWorked   Days worked, at most `daysInPeriod`.
+     * @param daysInPeriod Days in the employee's pay period.
+     * @return net Encrypted net pay.
+     */
+    function netPay(
+        address employee,
+        euint64 base,
+        uint64 daysWorked,
+        uint64 daysInPeriod
+    ) external returns (euint64 net) {
+        if (msg.sender != core) revert NotCore();
+
+        Components storage c = _components[employee];
+        net = base;
+        if (FHE.isInitialized(c.allowances)) net = _addCapped(net, c.allowances);
+        net = _prorate(net, daysWorked, daysInPeriod);
+        if (FHE.isInitialized(c.bonus)) net = _addCapped(net, c.bonus);
+        if (FHE.isInitialized(c.deductions)) {
+            euint64 deductions = _prorate(c.deductions, daysWorked, daysInPeriod);
+            net = FHE.sub(net, FHE.min(deductions, net));
+        }
+
+        FHE.allowTransient(net, msg.sender);
+    }
+
+    /**
+     * @notice Records what a payroll run paid an employee.
+     * @dev    Only the core may call, with transient access to `paid` and
+     *         `fits`. The bonus is reset only where `fits` is true, so a
+     *         payment zeroed by the run's budget keeps it for the next
+     *         run; an uninitialized `fits` (an uncapped run) always
+     *         resets it. `paid` becomes the employee's last net pay.
+     * @param employee Employee that was paid.
+     * @param paid     Encrypted amount actually paid.
+     * @param fits     Whether the net pay fit the run's budget.
+     */
+    function settlePay(address employee, euint64 paid, ebool fits) external {
+        if (msg.sender != core) revert NotCore();
+
+        Components storage c = _components[employee];
+        if (FHE.isInitialized(c.bonus)) {
+            c.bonus = FHE.isInitialized(fits)
+                ? FHE.select(fits, FHE.asEuint64(0), c.bonus)
+                : FHE.asEuint64(0);
+            _allowComponent(employee, c.bonus);
+        }
+        _allow(employee, paid);
+        _lastNetPay[employee] = paid;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  View Functions
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Returns an employee's encrypted pay components.
+     * @dev    Zero (uninitialized) handles have never been set and read
+     *         as zero.
+     */
+    function getComponents(
+        address employee
+    )
+        external
+        view
+        returns (euint64 allowances, euint64 bonus, euint64 deductions)
+    {
+        Components storage c = _components[employee];
+        return (c.allowances, c.bonus, c.deductions);
+    }
+
+    /**
+     * @notice Returns the net pay paid by the employee's latest run, or
+     *         zero if the run's budget withheld it.
+     */
+    function getLastNetPay(address employee) external view returns (euint64) {
+        return _lastNetPay[employee];
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal
+    // ──────────────────────────────────────────────────────────────────
+
+    function _setComponents(
+        address employee,
+        euint64 allowances,
+        euint64 bonus,
+        euint64 deductions
+    ) internal {
+        _allowComponent(employee, allowances);
+        _allowComponent(employee, bonus);
+        _allowComponent(employee, deductions);
+
+        Components storage c = _components[employee];
+        c.allowances = allowances;
+        c.bonus      = bonus;
+        c.deductions = deductions;
+
+        emit ComponentsUpdated(employee);
+    }
+
+    function _requireActive(address employee) internal view {
+        if (!IPayGramCoreView(core).isActiveEmployee(employee))
+            revert EmployeeNotActive();
+    }
+
+    /**
+     * @dev Grants read access to this contract, the employee and the
+     *      core's employer.
+     */
+    function _allow(address employee, euint64 value) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, employee);
+        FHE.allow(value, IPayGramCoreView(core).employer());
+    }
+
+    /**
+     * @dev _allow, plus every HR team member on the core, who set
+     *      components and need to read them back.
+     */
+    function _allowComponent(address employee, euint64 value) internal {
+        _allow(employee, value);
+        (address[] memory team, uint8[] memory masks) =
+            IPayGramCoreView(core).getTeam();
+        for (uint256 i = 0; i < team.length; i++) {
+            if (masks[i] & (uint8(1) << ROLE_HR) != 0) FHE.allow(value, team[i]);
+        }
+    }
+
+    /**
+     * @dev `amount` × `worked` / `daysInPeriod`, as PayGramCore pro-rates
+     *      a salary; a whole period returns `amount` unchanged.
+     */
+    function _prorate(
+        euint64 amount,
+        uint64 worked,
+        uint64 daysInPeriod
+    ) internal returns (euint64) {
+        if (worked == daysInPeriod) return amount;
+        return FHE.div(FHE.mul(amount, worked), daysInPeriod);
+    }
+
+    /**
+     * @dev `a + b`, capped at MAX_GROSS. `a` is at most MAX_GROSS, as the
+     *      core keeps salaries below it, so the sum cannot wrap.
+     */
+    function _addCapped(euint64 a, euint64 b) internal returns (euint64) {
+        return FHE.min(FHE.add(a, FHE.min(b, MAX_GROSS)), MAX_GROSS);
+    }
+}
@@ -2,10 +2,14 @@
 pragma solidity ^0.8.27;
 
 import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
-import {Ownable2Step, Ownable} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {TrustScoring} from "./TrustScoring.sol";
+import {PayGramCompensation} from "./PayGramCompensation.sol";
 import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {PayGramCoreBase} from "./PayGramCoreBase.sol";
+import {PayGramCoreExtension} from "./PayGramCoreExtension.sol";
+import {PayGramRoutingPolicy} from "./PayGramRoutingPolicy.sol";
 
 /**
  * @title PayGramCore
@@ -21,138 +25,25 @@ import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984
  *      3. LOW trust   (score <  40) → milestone-gated escrow
  *
  *      Employees without a trust score are treated as LOW trust.
+ *      Each payment is one record holding an encrypted amount per path,
+ *      two of them encrypted zeros, so records, events and transfers look
+ *      the same for every tier.
  *      The PayGramCore contract holds tokens pre-funded by the employer.
  *      All payroll disbursements are confidential ERC-7984 transfers from
  *      the contract's own balance to employees.
+ *
+ *      State, events, errors and internal logic live in PayGramCoreBase.
+ *      Some functions only forward to PayGramCoreExtension, which shares
+ *      that base and runs against this contract's storage; both contracts
+ *      would not fit in one under the EIP-170 code-size limit.
  */
-contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
-    // ──────────────────────────────────────────────────────────────────
-    //  Constants
-    // ──────────────────────────────────────────────────────────────────
-
-    uint256 public constant DELAY_PERIOD   = 24 hours;
-    uint256 public constant MAX_BATCH_SIZE = 50;
-
-    // ──────────────────────────────────────────────────────────────────
-    //  Enums
-    // ──────────────────────────────────────────────────────────────────
-
-    enum PaymentStatus {
-        None,       // 0 — default / uninitialized
-        Instant,    // 1 — immediate transfer (high trust)
-        Delayed,    // 2 — time-locked release (medium trust)
-        Escrowed,   // 3 — milestone-gated (low trust / unscored)
-        Released,   // 4 — funds disbursed
-        Completed   // 5 — finalized or cancelled
-    }
-
+contract PayGramCore is PayGramCoreBase {
     // ──────────────────────────────────────────────────────────────────
-    //  Structs
+    //  Extension
     // ──────────────────────────────────────────────────────────────────
 
-    struct Employee {
-        address wallet;
-        euint64 encryptedSalary;
-        bool    isActive;
-        uint256 hireDate;
-        uint256 lastPayDate;
-        string  role;
-    }
-
-    struct PendingPayment {
-        uint256       id;
-        address       employee;
-        euint64       encryptedAmount;
-        PaymentStatus status;
-        uint256       createdAt;
-        uint256       releaseTime;
-        string        milestone;
-    }
-
-    // ──────────────────────────────────────────────────────────────────
-    //  State
-    // ──────────────────────────────────────────────────────────────────
-
-    TrustScoring public trustScoring;
-    address      public payToken;
-    address      public employer;
-
-    mapping(address => Employee) private _employees;
-    address[] public employeeList;
-
-    mapping(uint256 => PendingPayment) public pendingPayments;
-    uint256 public nextPaymentId;
-
-    uint256 public totalPayrollsExecuted;
-
-    /// @dev Simple reentrancy lock for payroll execution.
-    bool private _payrollLock;
-
-    // ──────────────────────────────────────────────────────────────────
-    //  Events
-    // ──────────────────────────────────────────────────────────────────
-
-    event EmployeeAdded(address indexed employee, string role, uint256 hireDate);
-    event EmployeeRemoved(address indexed employee);
-    event EmployeeUpdated(address indexed employee);
-    event SalaryUpdated(address indexed employee);
-    event PayrollExecuted(
-        uint256 indexed payrollId,
-        uint256 timestamp,
-        uint256 employeeCount
-    );
-    event InstantPayment(address indexed employee, uint256 timestamp);
-    event PaymentDelayed(
-        uint256 indexed paymentId,
-        address indexed employee,
-        uint256 releaseTime
-    );
-    event PaymentEscrowed(
-        uint256 indexed paymentId,
-        address indexed employee,
-        string milestone
-    );
-    event PaymentReleased(uint256 indexed paymentId, address indexed employee);
-    event PaymentCancelled(uint256 indexed paymentId, address indexed employee);
-    event TrustScoringUpdated(address indexed newTrustScoring);
-    event PayTokenUpdated(address indexed newPayToken);
-    event EmployerTransferred(
-        address indexed previousEmployer,
-        address indexed newEmployer
-    );
-
-    // ──────────────────────────────────────────────────────────────────
-    //  Errors
-    // ──────────────────────────────────────────────────────────────────
-
-    error NotEmployer();
-    error EmployeeAlreadyExists();
-    error EmployeeNotFound();
-    error EmployeeNotActive();
-    error PaymentNotFound();
-    error PaymentNotReleasable();
-    error PaymentAlreadyProcessed();
-    error DelayNotElapsed();
-    error PayrollLocked();
-    error BatchTooLarge();
-    error ZeroAddress();
-    error ArrayLengthMismatch();
-
-    // ──────────────────────────────────────────────────────────────────
-    //  Modifiers
-    // ──────────────────────────────────────────────────────────────────
-
-    modifier onlyEmployer() {
-        if (msg.sender != employer) revert NotEmployer();
-        _;
-    }
-
-    modifier noReentrantPayroll() {
-        if (_payrollLock) revert PayrollLocked();
-        _payrollLock = true;
-        _;
-        _payrollLock = false;
-    }
+    /// @notice Code contract that forwarded functions run on.
+    address public immutable EXTENSION;
 
     // ──────────────────────────────────────────────────────────────────
     //  Constructor
@@ -170,13 +61,33 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         address _trustScoring,
         address _payToken
     ) Ownable(initialOwner) {
-        if (employerAddress == address(0)) revert ZeroAddress();
-        if (_trustScoring == address(0)) revert ZeroAddress();
-        if (_payToken == address(0)) revert ZeroAddress();
+        EXTENSION = address(new PayGramCoreExtension());
+        _initialize(employerAddress, _trustScoring, _payToken);
+    }
+
+    /**
+     * @notice Initializes a minimal-proxy clone deployed by PayGramFactory.
+     * @dev    Clones skip the constructor, so this repeats its work: the
+     *         coprocessor config, the owner and the core addresses. The
+     *         implementation itself is initialized by its constructor and
+     *         cannot be initialized again.
+     * @param initialOwner    Admin (for Ownable2Step).
+     * @param employerAddress The employer authorized to manage payroll.
+     * @param _trustScoring   Deployed TrustScoring contract.
+     * @param _payToken       Deployed PayGramToken (ERC-7984) address.
+     */
+    function initialize(
+        address initialOwner,
+        address employerAddress,
+        address _trustScoring,
+        address _payToken
+    ) external {
+        if (_initialized) revert AlreadyInitialized();
+        if (initialOwner == address(0)) revert ZeroAddress();
 
-        employer     = employerAddress;
-        trustScoring = TrustScoring(_trustScoring);
-        payToken     = _payToken;
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        _transferOwnership(initialOwner);
+        _initialize(employerAddress, _trustScoring, _payToken);
     }
 
     // ──────────────────────────────────────────────────────────────────
@@ -195,7 +106,7 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         externalEuint64 encryptedSalary,
         bytes calldata inputProof,
         string calldata role
-    ) external onlyEmployer {
+    ) external onlyRole(Role.HR) {
         if (wallet == address(0)) revert ZeroAddress();
         if (_employees[wallet].wallet != address(0))
             revert EmployeeAlreadyExists();
@@ -214,7 +125,7 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         address wallet,
         uint64 salary,
         string calldata role
-    ) external onlyEmployer {
+    ) external onlyRole(Role.HR) {
         if (wallet == address(0)) revert ZeroAddress();
         if (_employees[wallet].wallet != address(0))
             revert EmployeeAlreadyExists();
@@ -223,21 +134,47 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         _storeEmployee(wallet, encrypted, role);
     }
 
+    /**
+     * @notice Terminates an employee and pays their final paycheck.
+     * @dev    The final paycheck is the salary pro-rated for the days
+     *         worked from the last paycheck (or the hire date) through
+     *         `terminationDate`, routed through the employee's trust tier
+     *         as its own off-cycle payroll run. Salary changes effective
+     *         by then apply first; later ones are dropped. With a
+     *         compensation module installed the employee gets net pay
+     *         with allowances and deductions pro-rated like the salary, as
+     *         in a payroll run, and the whole bonus, which is used up.
+     * @param wallet          Active employee.
+     * @param terminationDate Last day worked, between the last paycheck
+     *                        (or the hire date) and now.
+     */
+    function terminateEmployee(
+        address wallet,
+        uint256 terminationDate
+    ) external {
+        (wallet, terminationDate);
+        _delegate();
+    }
+
     /**
      * @notice Deactivates an employee. Record retained for audit.
+     * @dev    Pays nothing; see terminateEmployee for a final paycheck.
      * @param wallet Employee to deactivate.
      */
-    function removeEmployee(address wallet) external onlyEmployer {
+    function removeEmployee(address wallet) external onlyRole(Role.HR) {
         Employee storage emp = _employees[wallet];
         if (emp.wallet == address(0)) revert EmployeeNotFound();
         if (!emp.isActive) revert EmployeeNotActive();
 
         emp.isActive = false;
+        delete _salaryChanges[wallet];
         emit EmployeeRemoved(wallet);
     }
 
     /**
      * @notice Updates the encrypted salary for an active employee.
+     * @dev    Takes effect immediately, including for a run in progress.
+     *         Use scheduleSalaryChange for a change from a given date.
      * @param wallet          Employee address.
      * @param encryptedSalary New FHE-encrypted salary.
      * @param inputProof      ZKPoK proof for the new value.
@@ -246,7 +183,7 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         address wallet,
         externalEuint64 encryptedSalary,
         bytes calldata inputProof
-    ) external onlyEmployer {
+    ) external gated(Role.HR) {
         _requireActiveEmployee(wallet);
 
         euint64 salary = FHE.fromExternal(encryptedSalary, inputProof);
@@ -264,7 +201,7 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
     function updateSalaryPlaintext(
         address wallet,
         uint64 salary
-    ) external onlyEmployer {
+    ) external gated(Role.HR) {
         _requireActiveEmployee(wallet);
 
         euint64 encrypted = FHE.asEuint64(salary);
@@ -274,6 +211,54 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         emit SalaryUpdated(wallet);
     }
 
+    /**
+     * @notice Queues an encrypted salary change for an active employee.
+     * @dev    The new salary is paid from the first payroll run opened at
+     *         or after `effectiveAt`; runs opened before it keep paying
+     *         the current salary. Queuing another change for the same
+     *         timestamp replaces it. Readable by the employee as soon as
+     *         it is queued.
+     * @param wallet          Employee address.
+     * @param encryptedSalary New FHE-encrypted salary.
+     * @param inputProof      ZKPoK proof for the new value.
+     * @param effectiveAt     Future timestamp from which it applies.
+     */
+    function scheduleSalaryChange(
+        address wallet,
+        externalEuint64 encryptedSalary,
+        bytes calldata inputProof,
+        uint256 effectiveAt
+    ) external {
+        (wallet, encryptedSalary, inputProof, effectiveAt);
+        _delegate();
+    }
+
+    /**
+     * @notice Queues a salary change from a plaintext value (testing
+     *         convenience).
+     * @param wallet      Employee address.
+     * @param salary      New plaintext salary.
+     * @param effectiveAt Future timestamp from which it applies.
+     */
+    function scheduleSalaryChangePlaintext(
+        address wallet,
+        uint64 salary,
+        uint256 effectiveAt
+    ) external {
+        (wallet, salary, effectiveAt);
+        _delegate();
+    }
+
+    /**
+     * @notice Cancels a queued salary change that has not been applied.
+     * @param wallet      Employee address.
+     * @param effectiveAt Effective timestamp of the change to cancel.
+     */
+    function cancelSalaryChange(address wallet, uint256 effectiveAt) external {
+        (wallet, effectiveAt);
+        _delegate();
+    }
+
     /**
      * @notice Updates the role label for an active employee.
      * @param wallet  Employee address.
@@ -282,56 +267,200 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
     function updateEmployeeRole(
         address wallet,
         string calldata newRole
-    ) external onlyEmployer {
+    ) external onlyRole(Role.HR) {
         _requireActiveEmployee(wallet);
         _employees[wallet].role = newRole;
         emit EmployeeUpdated(wallet);
     }
 
+    /**
+     * @notice Sets the contract-wide pay frequency.
+     * @dev    Takes effect from each employee's next payment; the currently
+     *         scheduled pay date is left unchanged.
+     * @param frequency New default frequency (ContractDefault is invalid).
+     */
+    function setDefaultPayFrequency(
+        PayFrequency frequency
+    ) external onlyRole(Role.PayrollAdmin) {
+        if (frequency == PayFrequency.ContractDefault)
+            revert InvalidPayFrequency();
+        defaultPayFrequency = frequency;
+        emit DefaultPayFrequencyUpdated(frequency);
+    }
+
+    /**
+     * @notice Overrides the pay frequency for a single employee.
+     * @param wallet    Employee address.
+     * @param frequency Individual frequency, or ContractDefault to clear it.
+     */
+    function setEmployeePayFrequency(
+        address wallet,
+        PayFrequency frequency
+    ) external onlyRole(Role.PayrollAdmin) {
+        _requireActiveEmployee(wallet);
+        _employees[wallet].payFrequency = frequency;
+        emit EmployeePayFrequencyUpdated(wallet, frequency);
+    }
+
     // ──────────────────────────────────────────────────────────────────
     //  Payroll Execution
     // ──────────────────────────────────────────────────────────────────
 
     /**
-     * @notice Runs payroll for all active employees.
+     * @notice Runs payroll for all active employees, in chunks of at most
+     *         PAYROLL_BATCH_SIZE employees per call.
      * @dev    For each active employee:
      *         - If the employee has a trust score, uses FHE tier evaluation
      *           to route salary through instant / delayed / escrow paths.
      *         - If no trust score exists, defaults to escrow (LOW trust).
      *
      *         FHE.select ensures the routing is fully oblivious — no tier
-     *         information is revealed on-chain.
+     *         information is revealed on-chain. Each employee gets one
+     *         payment record with an encrypted instant, delayed and
+     *         escrowed part, and one PaymentRouted event, whatever the tier.
+     *
+     *         The instant part transfers immediately from the contract
+     *         balance. The delayed part unlocks after delayPeriod and the
+     *         escrowed part waits for approval.
+     *
+     *         Every payment record created here carries the run ID, and the
+     *         run's payment IDs are retrievable via getPayrollRun.
+     *
+     *         A call that reaches the batch limit before the end of the roster
+     *         leaves the run open and emits PayrollChunkProcessed; the next
+     *         call resumes from payrollCursor. PayrollExecuted is emitted once
+     *         the whole roster has been covered. Each employee records the
+     *         last run that paid them, so nobody is paid twice in one run.
      *
-     *         Instant payments transfer immediately from the contract balance.
-     *         Delayed and escrowed payments are held until released.
+     *         Employees whose next pay date has not been reached are skipped,
+     *         so calling this again within a pay period pays nobody twice.
+
+     *         An employee's first paycheck is pro-rated: pay × days since
+     *         hire / days in their pay period, computed homomorphically on
+     *         the salary and, with a compensation module, the allowances
+     *         and deductions (not the one-off bonus). It also restarts
+     *         their pay schedule from that run. Someone hired in the same
+     *         block as the run has worked no time yet and waits for the
+     *         next call, keeping their pay date.
+     *
+     *         With a payroll budget set, each salary is added to the run's
+     *         encrypted total in roster order and compared against the
+     *         budget with FHE.le. A salary that would take the total over
+     *         the budget is obliviously replaced by an encrypted zero and
+     *         the run's encrypted budgetExceeded flag is raised; see
+     *         getPayrollRunBudget.
      */
-    function executePayroll() external onlyEmployer noReentrantPayroll {
-        uint256 processed = 0;
-        uint256 len = employeeList.length;
+    function executePayroll() external {
+        _delegate();
+    }
 
-        for (uint256 i = 0; i < len && processed < MAX_BATCH_SIZE; i++) {
-            Employee storage emp = _employees[employeeList[i]];
-            if (!emp.isActive) continue;
+    /**
+     * @notice Caps the total paid by each payroll run at an encrypted
+     *         budget. Applies from the next run that opens; a run already
+     *         in progress keeps its budget.
+     * @param encryptedBudget FHE-encrypted budget per run.
+     * @param inputProof      ZKPoK proof for the encrypted value.
+     */
+    function setPayrollBudget(
+        externalEuint64 encryptedBudget,
+        bytes calldata inputProof
+    ) external gated(Role.PayrollAdmin) {
+        _setPayrollBudget(FHE.fromExternal(encryptedBudget, inputProof));
+    }
 
-            processed++;
+    /**
+     * @notice Plaintext variant of setPayrollBudget for testing.
+     * @param budget Budget per run in token units.
+     */
+    function setPayrollBudgetPlaintext(
+        uint64 budget
+    ) external gated(Role.PayrollAdmin) {
+        _setPayrollBudget(FHE.asEuint64(budget));
+    }
 
-            if (!trustScoring.hasScore(emp.wallet)) {
-                // No trust score → default to escrow (LOW trust)
-                _processEscrowPayment(emp);
-            } else {
-                // Scored → FHE tier evaluation and oblivious routing
-                _processWithTrustTier(emp);
-            }
+    /**
+     * @notice Removes the payroll budget; runs opened afterwards are uncapped.
+     */
+    function clearPayrollBudget() external gated(Role.PayrollAdmin) {
+        _payrollBudget = euint64.wrap(0);
+        emit PayrollBudgetUpdated(false);
+    }
 
-            emp.lastPayDate = block.timestamp;
-        }
+    /**
+     * @notice Preflight for executePayroll: compares the contract's
+     *         encrypted token balance against everything it owes.
+     * @dev    Obligations are the pay of every employee the next
+     *         executePayroll calls would pay (the rest of an open run, or
+     *         a new one), plus the outstanding delayed and escrowed
+     *         totals. A confidential transfer the balance cannot cover
+     *         moves zero instead of reverting, so running payroll while
+     *         insolvent silently underpays.
+     *
+     *         The result is stored for getSolvency and readable by the
+     *         employer and the caller. Cost grows with the roster.
+     * @return solvent Encrypted true if balance >= obligations.
+     */
+    function checkSolvency() external returns (ebool) {
+        _delegate();
+    }
 
-        totalPayrollsExecuted++;
-        emit PayrollExecuted(
-            totalPayrollsExecuted,
-            block.timestamp,
-            processed
-        );
+    // ──────────────────────────────────────────────────────────────────
+    //  Off-Cycle Payments
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Pays an employee a one-off encrypted bonus outside the
+     *         payroll cycle.
+     * @dev    Opens an off-cycle payroll run of one and routes the amount
+     *         through the same trust tiers as salary (instant, delayed or
+     *         escrow). Off-cycle runs share the payroll run ID sequence
+     *         but are not capped by the payroll budget and leave pay
+     *         schedules unchanged.
+     * @param employee        Active employee to pay.
+     * @param encryptedAmount FHE-encrypted bonus amount.
+     * @param inputProof      ZKPoK proof for the encrypted value.
+     * @param memo            Reason shown in payment history.
+     */
+    function payBonus(
+        address employee,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        string calldata memo
+    ) external {
+        (employee, encryptedAmount, inputProof, memo);
+        _delegate();
+    }
+
+    /**
+     * @notice Plaintext variant of payBonus for testing.
+     */
+    function payBonusPlaintext(
+        address employee,
+        uint64 amount,
+        string calldata memo
+    ) external {
+        (employee, amount, memo);
+        _delegate();
+    }
+
+    /**
+     * @notice Pays a batch of employees off-cycle, e.g. a company-wide
+     *         bonus or a correction, as one off-cycle payroll run. Each
+     *         amount is routed like a bonus; see payBonus.
+     * @param employees        Active employees to pay, at most
+     *                         PAYROLL_BATCH_SIZE.
+     * @param encryptedAmounts FHE-encrypted amounts, one per employee.
+     * @param inputProof       ZKPoK proof covering all amounts.
+     * @param memo             Reason shown in payment history.
+     */
+    function payOffCycle(
+        address[] calldata employees,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof,
+        string calldata memo
+    ) external {
+        (employees, encryptedAmounts, inputProof, memo);
+        _delegate();
     }
 
     // ──────────────────────────────────────────────────────────────────
@@ -339,56 +468,322 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
     // ──────────────────────────────────────────────────────────────────
 
     /**
-     * @notice Releases a delayed or escrowed payment.
-     * @dev    - Delayed: anyone may release once releaseTime has passed.
-     *         - Escrowed: only the employer may release (milestone approval).
+     * @notice Releases the escrowed part of a payment.
+     * @dev    Only the employer or an approver may release. Escrows with a
+     *         defined milestone must go through approveMilestone instead.
+     *         Every payment is escrowed until then, an encrypted zero for
+     *         HIGH and MEDIUM trust; approve them alike so release timing
+     *         does not reveal the tier. The delayed part is released
+     *         separately, see releaseDelayed.
      *         Executes a confidential ERC-7984 transfer from the contract's
      *         token balance to the employee.
      * @param paymentId Identifier of the payment to release.
      */
-    function releasePayment(uint256 paymentId) external {
+    function releasePayment(uint256 paymentId) external gated(Role.Approver) {
         PendingPayment storage p = pendingPayments[paymentId];
         if (p.status == PaymentStatus.None) revert PaymentNotFound();
+        if (p.status != PaymentStatus.Escrowed) revert PaymentNotReleasable();
+        if (_milestones[paymentId].state != MilestoneState.None)
+            revert InvalidMilestoneState();
 
-        if (p.status == PaymentStatus.Delayed) {
-            if (block.timestamp < p.releaseTime) revert DelayNotElapsed();
-        } else if (p.status == PaymentStatus.Escrowed) {
-            if (msg.sender != employer) revert NotEmployer();
-        } else {
-            revert PaymentNotReleasable();
-        }
+        _releasePayment(paymentId, p);
+    }
+
+    /**
+     * @notice Releases the delayed part of a payment once its release
+     *         time has passed. Callable by anyone, like releaseMatured.
+     * @dev    Every payment has a delayed part, an encrypted zero unless
+     *         the employee has MEDIUM trust, so releasing it reveals
+     *         nothing about the tier.
+     * @param paymentId Identifier of the payment.
+     */
+    function releaseDelayed(uint256 paymentId) external {
+        paymentId;
+        _delegate();
+    }
 
-        p.status = PaymentStatus.Released;
+    /**
+     * @notice Releases the matured delayed parts of several of the
+     *         caller's own payments in one transaction.
+     * @dev    Each payment must belong to the caller and pass the same
+     *         checks as releaseDelayed.
+     * @param paymentIds Identifiers of the caller's payments, at most
+     *                   MAX_BATCH_SIZE.
+     */
+    function claimDelayed(uint256[] calldata paymentIds) external {
+        paymentIds;
+        _delegate();
+    }
+
+    /**
+     * @notice Releases an encrypted portion of an escrowed payment.
+     * @dev    The released amount is min(requested, remaining), computed
+     *         under encryption; the remainder stays pending on the same
+     *         record.
+     * @param paymentId       Identifier of the payment.
+     * @param encryptedAmount FHE-encrypted amount to release.
+     * @param inputProof      ZKPoK proof for the encrypted value.
+     */
+    function releasePartial(
+        uint256 paymentId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external {
+        (paymentId, encryptedAmount, inputProof);
+        _delegate();
+    }
+
+    /**
+     * @notice Releases a portion of a payment from a plaintext amount
+     *         (testing convenience).
+     * @param paymentId Identifier of the payment.
+     * @param amount    Plaintext amount to release.
+     */
+    function releasePartialPlaintext(
+        uint256 paymentId,
+        uint64 amount
+    ) external {
+        (paymentId, amount);
+        _delegate();
+    }
 
-        // Execute confidential transfer from contract balance to employee
-        FHE.allow(p.encryptedAmount, payToken);
-        IERC7984(payToken).confidentialTransfer(p.employee, p.encryptedAmount);
+    /**
+     * @notice Splits encrypted tranches off an escrowed payment.
+     * @dev    Each tranche becomes its own escrowed payment record with
+     *         the same employee and payroll run, and can be released,
+     *         cancelled or given a milestone independently. Every tranche
+     *         is capped at what is left in escrow, so the tranches never
+     *         add up to more than the original amount. The parent keeps
+     *         its delayed part.
+     * @param paymentId        Identifier of the payment to split.
+     * @param encryptedAmounts FHE-encrypted tranche amounts.
+     * @param inputProof       ZKPoK proof covering all amounts.
+     * @return trancheIds      IDs of the newly created payment records.
+     */
+    function splitPayment(
+        uint256 paymentId,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof
+    ) external returns (uint256[] memory) {
+        (paymentId, encryptedAmounts, inputProof);
+        _delegate();
+    }
 
-        emit PaymentReleased(paymentId, p.employee);
+    /**
+     * @notice Splits tranches off a payment from plaintext amounts
+     *         (testing convenience).
+     * @param paymentId Identifier of the payment to split.
+     * @param amounts   Plaintext tranche amounts.
+     * @return trancheIds IDs of the newly created payment records.
+     */
+    function splitPaymentPlaintext(
+        uint256 paymentId,
+        uint64[] calldata amounts
+    ) external returns (uint256[] memory) {
+        (paymentId, amounts);
+        _delegate();
     }
 
     /**
-     * @notice Cancels a pending payment (delayed or escrowed only).
+     * @notice Cancels a pending payment (escrowed only).
+     * @dev    Cancels the escrowed part and, if it has not been released
+     *         yet, the delayed part. The instant part is already paid.
      * @param paymentId Identifier of the payment to cancel.
      */
-    function cancelPayment(uint256 paymentId) external onlyEmployer {
+    function cancelPayment(uint256 paymentId) external gated(Role.PayrollAdmin) {
         PendingPayment storage p = pendingPayments[paymentId];
         if (p.status == PaymentStatus.None) revert PaymentNotFound();
-        if (
-            p.status != PaymentStatus.Delayed &&
-            p.status != PaymentStatus.Escrowed
-        ) revert PaymentAlreadyProcessed();
+        if (p.status != PaymentStatus.Escrowed) revert PaymentAlreadyProcessed();
+
+        euint64 held = p.escrowAmount;
+        _untrackOutstanding(PaymentStatus.Escrowed, p.escrowAmount);
+        if (p.releaseTime != 0) held = FHE.add(held, _dropDelayed(paymentId, p));
+        _treasury.unallocated = FHE.add(_treasury.unallocated, held);
+        _setTreasuryPermissions(_treasury.unallocated);
 
         p.status = PaymentStatus.Completed;
         emit PaymentCancelled(paymentId, p.employee);
     }
 
+    /**
+     * @notice Sends every cancelled amount held by the contract back to the
+     *         employer and deducts what was sent from the unallocated
+     *         balance.
+     * @dev    A transfer the contract's balance cannot cover moves zero, so
+     *         the amount stays unallocated until it can be withdrawn.
+     */
+    function withdrawUnallocated() external onlyEmployer {
+        if (!FHE.isInitialized(_treasury.unallocated)) revert NothingToWithdraw();
+        euint64 amount = _treasury.unallocated;
+
+        FHE.allow(amount, payToken);
+        euint64 sent = IERC7984(payToken).confidentialTransfer(employer, amount);
+
+        _treasury.unallocated = FHE.sub(amount, sent);
+        _setTreasuryPermissions(_treasury.unallocated);
+
+        emit UnallocatedWithdrawn(employer);
+    }
+
+    /**
+     * @notice Grants the caller read access to the contract's current
+     *         encrypted token balance, as returned by getContractBalance.
+     * @dev    The balance handle changes with every transfer, so the grant
+     *         has to be renewed before each decryption. No-op while the
+     *         contract has never held tokens.
+     * @return balance The encrypted balance handle.
+     */
+    function allowBalanceAccess()
+        external
+        onlyRole(Role.Auditor)
+        returns (euint64 balance)
+    {
+        balance = IERC7984(payToken).confidentialBalanceOf(address(this));
+        if (FHE.isInitialized(balance)) FHE.allow(balance, msg.sender);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Milestones
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Attaches (or replaces) the milestone of an escrowed payment.
+     * @dev    Not allowed while a claim is awaiting review.
+     * @param paymentId   Escrowed payment identifier.
+     * @param description What the employee must deliver.
+     * @param deadline    Last timestamp at which a claim may be submitted.
+     */
+    function defineMilestone(
+        uint256 paymentId,
+        string calldata description,
+        uint256 deadline
+    ) external onlyRole(Role.Approver) {
+        PendingPayment storage p = _requireEscrowed(paymentId);
+        Milestone storage m = _milestones[paymentId];
+        if (m.state == MilestoneState.Claimed) revert InvalidMilestoneState();
+        if (deadline <= block.timestamp) revert InvalidDeadline();
+
+        m.description = description;
+        m.deadline    = deadline;
+        m.state       = MilestoneState.Defined;
+        m.evidence    = "";
+        m.claimedAt   = 0;
+        p.milestone   = description;
+
+        emit MilestoneDefined(paymentId, description, deadline);
+    }
+
+    /**
+     * @notice Submits a completion claim for a milestone.
+     * @param paymentId Escrowed payment identifier.
+     * @param evidence  URI or content hash pointing to the deliverable.
+     */
+    function submitMilestoneClaim(
+        uint256 paymentId,
+        string calldata evidence
+    ) external {
+        PendingPayment storage p = _requireEscrowed(paymentId);
+        if (msg.sender != p.employee) revert NotPaymentRecipient();
+
+        Milestone storage m = _milestones[paymentId];
+        if (
+            m.state != MilestoneState.Defined &&
+            m.state != MilestoneState.Rejected
+        ) revert InvalidMilestoneState();
+        if (block.timestamp > m.deadline) revert MilestoneDeadlinePassed();
+
+        m.state     = MilestoneState.Claimed;
+        m.evidence  = evidence;
+        m.claimedAt = block.timestamp;
+
+        emit MilestoneClaimed(paymentId, msg.sender, evidence);
+    }
+
+    /**
+     * @notice Approves a milestone claim and releases the escrowed payment.
+     * @param paymentId Escrowed payment identifier.
+     */
+    function approveMilestone(uint256 paymentId) external gated(Role.Approver) {
+        PendingPayment storage p = _requireEscrowed(paymentId);
+        Milestone storage m = _milestones[paymentId];
+        if (m.state != MilestoneState.Claimed) revert InvalidMilestoneState();
+
+        m.state = MilestoneState.Approved;
+        emit MilestoneApproved(paymentId);
+
+        _releasePayment(paymentId, p);
+    }
+
+    /**
+     * @notice Rejects a milestone claim. The employee may resubmit before
+     *         the deadline; the employer may also redefine or cancel.
+     * @param paymentId Escrowed payment identifier.
+     * @param reason    Feedback for the employee.
+     */
+    function rejectMilestone(
+        uint256 paymentId,
+        string calldata reason
+    ) external onlyRole(Role.Approver) {
+        _requireEscrowed(paymentId);
+        Milestone storage m = _milestones[paymentId];
+        if (m.state != MilestoneState.Claimed) revert InvalidMilestoneState();
+
+        m.state = MilestoneState.Rejected;
+        emit MilestoneRejected(paymentId, reason);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Keeper Automation
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Releases every delayed part whose time lock has passed, for
+     *         up to `maxCount` payments. Callable by anyone, like
+     *         releaseDelayed.
+     * @dev    Counts above MAX_BATCH_SIZE are capped. Escrowed parts are
+     *         never touched; they still need employer approval.
+     * @param maxCount Maximum number of payments to release.
+     * @return released Number of payments released.
+     */
+    function releaseMatured(uint256 maxCount) external returns (uint256) {
+        maxCount;
+        _delegate();
+    }
+
+    /**
+     * @notice Keeper check (Chainlink Automation compatible).
+     * @param checkData Optional abi-encoded uint256 batch size; empty means
+     *                  MAX_BATCH_SIZE.
+     * @return upkeepNeeded True if at least one delayed part has matured.
+     * @return performData  abi-encoded number of payments to release.
+     */
+    function checkUpkeep(
+        bytes calldata checkData
+    ) external view returns (bool upkeepNeeded, bytes memory performData) {
+        uint256 maxCount = checkData.length == 0
+            ? MAX_BATCH_SIZE
+            : abi.decode(checkData, (uint256));
+        uint256 count = _findMatured(maxCount).length;
+        return (count > 0, abi.encode(count));
+    }
+
+    /**
+     * @notice Keeper action (Chainlink Automation compatible). Re-checks
+     *         maturity on-chain, so stale performData is harmless.
+     * @param performData abi-encoded batch size from checkUpkeep.
+     */
+    function performUpkeep(bytes calldata performData) external {
+        performData;
+        _delegate();
+    }
+
     // ──────────────────────────────────────────────────────────────────
     //  View Functions
     // ──────────────────────────────────────────────────────────────────
 
     /**
      * @notice Returns non-encrypted employee information.
+     * @dev    terminationDate is 0 unless terminateEmployee was used.
      * @param wallet Employee address.
      */
     function getEmployee(
@@ -401,12 +796,56 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
             bool    isActive,
             uint256 hireDate,
             uint256 lastPayDate,
-            string memory role
+            string memory role,
+            uint256 terminationDate
         )
     {
         Employee storage emp = _employees[wallet];
         if (emp.wallet == address(0)) revert EmployeeNotFound();
-        return (emp.wallet, emp.isActive, emp.hireDate, emp.lastPayDate, emp.role);
+        return (
+            emp.wallet,
+            emp.isActive,
+            emp.hireDate,
+            emp.lastPayDate,
+            emp.role,
+            emp.terminationDate
+        );
+    }
+
+    /**
+     * @notice Returns the encrypted salary handle for an employee.
+     * @dev    Callers must hold an FHE decryption grant (the employee and the
+     *         employer are granted on every salary write) to read the plaintext.
+     * @param wallet Employee address.
+     */
+    function getEncryptedSalary(address wallet) external view returns (euint64) {
+        Employee storage emp = _employees[wallet];
+        if (emp.wallet == address(0)) revert EmployeeNotFound();
+        return emp.encryptedSalary;
+    }
+
+    /**
+     * @notice Returns an employee's queued salary changes, earliest first.
+     * @dev    Changes are applied, and removed from the queue, by the first
+     *         payroll run opened at or after their effective time.
+     * @param wallet Employee address.
+     * @return salaries     Encrypted new salaries, readable like the salary.
+     * @return effectiveAts Timestamp from which each change applies.
+     */
+    function getPendingSalaryChanges(
+        address wallet
+    )
+        external
+        view
+        returns (euint64[] memory salaries, uint256[] memory effectiveAts)
+    {
+        SalaryChange[] storage queue = _salaryChanges[wallet];
+        salaries     = new euint64[](queue.length);
+        effectiveAts = new uint256[](queue.length);
+        for (uint256 i = 0; i < queue.length; i++) {
+            salaries[i]     = queue[i].salary;
+            effectiveAts[i] = queue[i].effectiveAt;
+        }
     }
 
     /**
@@ -440,12 +879,218 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
             PaymentStatus status,
             uint256       createdAt,
             uint256       releaseTime,
-            string memory milestone
+            string memory milestone,
+            uint256       runId
+        )
+    {
+        PendingPayment storage p = pendingPayments[paymentId];
+        if (p.status == PaymentStatus.None) revert PaymentNotFound();
+        return (
+            p.employee,
+            p.status,
+            p.createdAt,
+            p.releaseTime,
+            p.milestone,
+            p.runId
+        );
+    }
+
+    /**
+     * @notice Returns the encrypted amount handle of a payment.
+     * @dev    The paid employee and the employer hold decryption grants.
+     * @param paymentId Payment identifier.
+     */
+    function getEncryptedPaymentAmount(
+        uint256 paymentId
+    ) external view returns (euint64) {
+        PendingPayment storage p = pendingPayments[paymentId];
+        if (p.status == PaymentStatus.None) revert PaymentNotFound();
+        return p.encryptedAmount;
+    }
+
+    /**
+     * @notice Returns how a payment is split across the trust-tier paths.
+     * @dev    Only one part carries the amount; the others are encrypted
+     *         zeros. Readable by the same accounts as the amount.
+     * @param paymentId Payment identifier.
+     * @return instantAmount Paid when the payment was created.
+     * @return delayedAmount Paid once releaseTime has passed.
+     * @return escrowAmount  Still held in escrow for approval.
+     */
+    function getPaymentBreakdown(
+        uint256 paymentId
+    )
+        external
+        view
+        returns (
+            euint64 instantAmount,
+            euint64 delayedAmount,
+            euint64 escrowAmount
         )
     {
         PendingPayment storage p = pendingPayments[paymentId];
         if (p.status == PaymentStatus.None) revert PaymentNotFound();
-        return (p.employee, p.status, p.createdAt, p.releaseTime, p.milestone);
+        return (p.instantAmount, p.delayedAmount, p.escrowAmount);
+    }
+
+    /**
+     * @notice Returns the milestone attached to an escrowed payment.
+     * @param paymentId Payment identifier.
+     */
+    function getMilestone(
+        uint256 paymentId
+    )
+        external
+        view
+        returns (
+            string memory  description,
+            uint256        deadline,
+            MilestoneState state,
+            string memory  evidence,
+            uint256        claimedAt
+        )
+    {
+        if (pendingPayments[paymentId].status == PaymentStatus.None)
+            revert PaymentNotFound();
+        Milestone storage m = _milestones[paymentId];
+        return (m.description, m.deadline, m.state, m.evidence, m.claimedAt);
+    }
+
+    /**
+     * @notice Returns the payments created by a payroll run.
+     * @param runId Payroll run identifier (as emitted in PayrollExecuted).
+     * @return paymentIds    IDs of every payment record the run created.
+     * @return timestamp     Block timestamp of the run.
+     * @return employeesPaid Number of active employees processed.
+     */
+    function getPayrollRun(
+        uint256 runId
+    )
+        external
+        view
+        returns (
+            uint256[] memory paymentIds,
+            uint256          timestamp,
+            uint256          employeesPaid
+        )
+    {
+        PayrollRun storage run = _payrollRuns[runId];
+        if (run.timestamp == 0) revert PayrollRunNotFound();
+        return (run.paymentIds, run.timestamp, run.employeeCount);
+    }
+
+    /**
+     * @notice Returns the encrypted budget applied to future payroll runs.
+     * @dev    Zero (uninitialized) when runs are uncapped. Readable by the
+     *         employer, auditors and whoever set it.
+     */
+    function getPayrollBudget() external view returns (euint64) {
+        return _payrollBudget;
+    }
+
+    /**
+     * @notice Returns a payroll run's budget check.
+     * @dev    All handles are zero for uncapped runs. The employer can
+     *         decrypt each of them.
+     * @param runId Payroll run identifier.
+     * @return budget   Encrypted budget the run was capped at.
+     * @return spent    Encrypted total of the salaries that fit the budget.
+     * @return exceeded Encrypted flag, true if any salary was zeroed.
+     */
+    function getPayrollRunBudget(
+        uint256 runId
+    )
+        external
+        view
+        returns (euint64 budget, euint64 spent, ebool exceeded)
+    {
+        PayrollRun storage run = _payrollRuns[runId];
+        if (run.timestamp == 0) revert PayrollRunNotFound();
+        return (run.budget, run.spent, run.budgetExceeded);
+    }
+
+    /**
+     * @notice Returns the encrypted cost of a payroll run: the sum of
+     *         every payment it recorded, whatever has been released since.
+     * @dev    Readable by the employer. Zero (uninitialized) for a run
+     *         that paid nobody.
+     * @param runId Payroll run identifier.
+     */
+    function getPayrollRunCost(uint256 runId) external view returns (euint64) {
+        PayrollRun storage run = _payrollRuns[runId];
+        if (run.timestamp == 0) revert PayrollRunNotFound();
+        return run.cost;
+    }
+
+    /**
+     * @notice Returns an employee's pay schedule.
+     * @param wallet Employee address.
+     * @return frequency   Effective pay frequency (never ContractDefault).
+     * @return nextPayDate Earliest timestamp the employee will be paid again.
+     * @return isDue       True if the next payroll run would pay them.
+     */
+    function getPaySchedule(
+        address wallet
+    )
+        external
+        view
+        returns (PayFrequency frequency, uint256 nextPayDate, bool isDue)
+    {
+        Employee storage emp = _employees[wallet];
+        if (emp.wallet == address(0)) revert EmployeeNotFound();
+        return (
+            _effectiveFrequency(emp),
+            emp.nextPayDate,
+            emp.isActive && block.timestamp >= emp.nextPayDate
+        );
+    }
+
+    /**
+     * @notice Returns the pay date of every active employee.
+     * @return wallets      Active employee addresses, in roster order.
+     * @return nextPayDates Next pay date for each address.
+     * @return dueCount     How many of them are due now.
+     */
+    function getPaySchedules()
+        external
+        view
+        returns (
+            address[] memory wallets,
+            uint256[] memory nextPayDates,
+            uint256          dueCount
+        )
+    {
+        uint256 len = employeeList.length;
+        uint256 activeCount = 0;
+        for (uint256 i = 0; i < len; i++) {
+            if (_employees[employeeList[i]].isActive) activeCount++;
+        }
+
+        wallets      = new address[](activeCount);
+        nextPayDates = new uint256[](activeCount);
+        uint256 idx = 0;
+        for (uint256 i = 0; i < len; i++) {
+            Employee storage emp = _employees[employeeList[i]];
+            if (!emp.isActive) continue;
+            wallets[idx]      = emp.wallet;
+            nextPayDates[idx] = emp.nextPayDate;
+            if (block.timestamp >= emp.nextPayDate) dueCount++;
+            idx++;
+        }
+    }
+
+    /**
+     * @notice Returns the progress of the payroll run currently open.
+     * @return runId      Open run ID, or 0 when no run is in progress.
+     * @return cursor     Roster index the next chunk starts from.
+     * @return rosterSize Current length of the employee list.
+     */
+    function getPayrollProgress()
+        external
+        view
+        returns (uint256 runId, uint256 cursor, uint256 rosterSize)
+    {
+        return (currentRunId, payrollCursor, employeeList.length);
     }
 
     /**
@@ -476,7 +1121,7 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
 
     /**
      * @notice Returns IDs of payments that are ready to be released.
-     * @dev    Delayed payments where releaseTime has passed, plus any
+     * @dev    Payments with a delayed part past its releaseTime, plus any
      *         escrowed payments awaiting employer approval.
      */
     function getReleasablePayments()
@@ -488,12 +1133,7 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         uint256 matchCount = 0;
 
         for (uint256 i = 0; i < total; i++) {
-            PaymentStatus s = pendingPayments[i].status;
-            if (
-                (s == PaymentStatus.Delayed &&
-                    block.timestamp >= pendingPayments[i].releaseTime) ||
-                s == PaymentStatus.Escrowed
-            ) {
+            if (_isReleasable(pendingPayments[i])) {
                 matchCount++;
             }
         }
@@ -501,18 +1141,24 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         uint256[] memory result = new uint256[](matchCount);
         uint256 idx = 0;
         for (uint256 i = 0; i < total; i++) {
-            PaymentStatus s = pendingPayments[i].status;
-            if (
-                (s == PaymentStatus.Delayed &&
-                    block.timestamp >= pendingPayments[i].releaseTime) ||
-                s == PaymentStatus.Escrowed
-            ) {
+            if (_isReleasable(pendingPayments[i])) {
                 result[idx++] = i;
             }
         }
         return result;
     }
 
+    /**
+     * @notice Returns IDs of up to `maxCount` payments whose delayed part
+     *         releaseMatured would release now, in release order.
+     * @param maxCount Maximum number of IDs (capped at MAX_BATCH_SIZE).
+     */
+    function getMaturedPayments(
+        uint256 maxCount
+    ) external view returns (uint256[] memory) {
+        return _findMatured(maxCount);
+    }
+
     /**
      * @notice Returns the contract's encrypted token balance.
      * @dev    Callers must hold an FHE decryption grant to read the plaintext.
@@ -521,6 +1167,60 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
         return IERC7984(payToken).confidentialBalanceOf(address(this));
     }
 
+    /**
+     * @notice Returns the encrypted split of the contract's funds: amounts
+     *         time-locked for medium-trust employees, amounts held in
+     *         escrow, and cancelled amounts free to withdraw.
+     * @dev    Handles are readable by the employer. A handle is zero
+     *         (uninitialized) until the first payment of that kind.
+     */
+    function getTreasurySplit()
+        external
+        view
+        returns (
+            euint64 pendingDelayed,
+            euint64 committedEscrow,
+            euint64 unallocated
+        )
+    {
+        Treasury storage t = _treasury;
+        return (t.pendingDelayed, t.committedEscrow, t.unallocated);
+    }
+
+    /**
+     * @notice Returns the encrypted payroll totals behind the employer
+     *         dashboard: everything transferred to employees so far, and
+     *         what is still owed as delayed or escrowed amounts.
+     * @dev    Readable by the employer and auditors. A handle is zero
+     *         (uninitialized) until the first payment that moves it.
+     */
+    function getPayrollTotals()
+        external
+        view
+        returns (
+            euint64 disbursed,
+            euint64 pendingDelayed,
+            euint64 committedEscrow
+        )
+    {
+        Treasury storage t = _treasury;
+        return (t.disbursed, t.pendingDelayed, t.committedEscrow);
+    }
+
+    /**
+     * @notice Returns the result of the latest checkSolvency call.
+     * @return solvent   Encrypted flag, readable by the employer and
+     *                   whoever ran the check. Zero if never checked.
+     * @return checkedAt Timestamp of the check.
+     */
+    function getSolvency()
+        external
+        view
+        returns (ebool solvent, uint256 checkedAt)
+    {
+        return (_solvent, solvencyCheckedAt);
+    }
+
     /**
      * @notice Returns true if `wallet` is a registered active employee.
      */
@@ -561,196 +1261,215 @@ contract PayGramCore is ZamaEthereumConfig, Ownable2Step {
 
     /**
      * @notice Transfers the employer role to a new address.
+     * @dev    Owner-only, or gate-only once an approval gate is set.
      * @param newEmployer Address of the new employer.
      */
-    function transferEmployer(address newEmployer) external onlyOwner {
+    function transferEmployer(address newEmployer) external {
+        _checkOwnerOrGate();
         if (newEmployer == address(0)) revert ZeroAddress();
         address prev = employer;
         employer = newEmployer;
+
+        _allowTreasury(newEmployer);
+
         emit EmployerTransferred(prev, newEmployer);
     }
 
-    // ──────────────────────────────────────────────────────────────────
-    //  Internal — Employee Helpers
-    // ──────────────────────────────────────────────────────────────────
+    /**
+     * @notice Routes sensitive actions (payroll execution, escrow release,
+     *         cancellations, salary updates, transferEmployer) through an
+     *         N-of-M approval contract such as PayGramApprovals.
+     * @dev    The owner sets the first gate; after that only the gate can
+     *         replace or remove itself, so no single key can bypass it.
+     * @param gate Approval contract, or zero to let roles act alone.
+     */
+    function setApprovalGate(address gate) external {
+        _checkOwnerOrGate();
+        approvalGate = gate;
+        emit ApprovalGateUpdated(gate);
+    }
 
     /**
-     * @dev Stores a new Employee struct, sets FHE permissions, updates list.
+     * @notice Installs a PayGramCompensation module. Payroll then pays each
+     *         employee's net pay (salary plus allowances and bonus, less
+     *         deductions) instead of the bare salary.
+     * @dev    Owner, or the approval gate once one is installed.
+     * @param module Compensation module for this core, or zero to remove.
      */
-    function _storeEmployee(
-        address wallet,
-        euint64 salary,
-        string calldata role
-    ) internal {
-        _setSalaryPermissions(wallet, salary);
+    function setCompensation(address module) external {
+        _checkOwnerOrGate();
+        compensation = PayGramCompensation(module);
+        emit CompensationUpdated(module);
+    }
 
-        _employees[wallet] = Employee({
-            wallet:          wallet,
-            encryptedSalary: salary,
-            isActive:        true,
-            hireDate:        block.timestamp,
-            lastPayDate:     0,
-            role:            role
-        });
-        employeeList.push(wallet);
+    /**
+     * @notice Changes the routing policy, the MEDIUM-tier delay period used
+     *         without one, and the timelock on future changes. Applies at
+     *         once while configDelay is 0; otherwise it is scheduled for
+     *         configDelay from now and replaces any change already
+     *         scheduled.
+     * @dev    Owner, or the approval gate once one is installed. Payments
+     *         already routed keep their parts and release times.
+     * @param newDelayPeriod   Between MIN_DELAY_PERIOD and MAX_DELAY_PERIOD.
+     * @param newRoutingPolicy PayGramRoutingPolicy registered with
+     *                         TrustScoring, or zero for its three tiers.
+     *                         Checked when set, so a bad address never
+     *                         waits out the timelock.
+     * @param newConfigDelay   Timelock for later changes, at most MAX_CONFIG_DELAY.
+     */
+    function setPaymentConfig(
+        uint256 newDelayPeriod,
+        address newRoutingPolicy,
+        uint256 newConfigDelay
+    ) external {
+        (newDelayPeriod, newRoutingPolicy, newConfigDelay);
+        _delegate();
+    }
 
-        emit EmployeeAdded(wallet, role, block.timestamp);
+    /**
+     * @notice Applies the scheduled payment configuration once its
+     *         timelock has passed. Callable by anyone.
+     */
+    function applyPaymentConfig() external {
+        _delegate();
     }
 
     /**
-     * @dev Grants FHE read permission on a salary ciphertext to the
-     *      contract itself, the employer, and the employee.
+     * @notice Drops the scheduled payment configuration.
+     * @dev    Owner, or the approval gate once one is installed.
      */
-    function _setSalaryPermissions(address wallet, euint64 salary) internal {
-        FHE.allowThis(salary);
-        FHE.allow(salary, employer);
-        FHE.allow(salary, wallet);
+    function cancelPaymentConfig() external {
+        _delegate();
     }
 
     /**
-     * @dev Reverts if `wallet` is not a registered, active employee.
+     * @notice Returns the scheduled payment configuration.
+     * @return pendingDelayPeriod   Delay period to apply.
+     * @return pendingRoutingPolicy Routing policy to apply.
+     * @return pendingConfigDelay   Timelock to apply.
+     * @return eta                  Earliest apply time, 0 when nothing is scheduled.
      */
-    function _requireActiveEmployee(address wallet) internal view {
-        Employee storage emp = _employees[wallet];
-        if (emp.wallet == address(0)) revert EmployeeNotFound();
-        if (!emp.isActive) revert EmployeeNotActive();
+    function getPendingPaymentConfig()
+        external
+        view
+        returns (
+            uint256 pendingDelayPeriod,
+            address pendingRoutingPolicy,
+            uint256 pendingConfigDelay,
+            uint256 eta
+        )
+    {
+        PaymentConfig storage c = _pendingConfig;
+        return (c.delayPeriod, c.routingPolicy, c.configDelay, c.eta);
+    }
+
+    /**
+     * @notice Returns the tiers payments are routed through, highest
+     *         first: the installed routing policy's, or the three
+     *         TrustScoring tiers when there is none.
+     */
+    function getRoutingTiers()
+        external
+        view
+        returns (PayGramRoutingPolicy.Tier[] memory)
+    {
+        return _routingTiers();
     }
 
     // ──────────────────────────────────────────────────────────────────
-    //  Internal — Payroll Processing
+    //  Organization Roles
     // ──────────────────────────────────────────────────────────────────
 
     /**
-     * @dev Routes a scored employee's salary through trust tiers using
-     *      FHE.select for fully oblivious branching.
-     *
-     *      Computes three encrypted amounts (instant / delayed / escrow)
-     *      such that exactly one is non-zero based on the encrypted tier.
-     *      All three paths are always executed — only the correct one
-     *      carries value.
+     * @notice Grants a role to a member of the employer's team.
+     * @dev    Auditors get read access to salaries and payments created
+     *         from now on; use grantAuditAccess for existing ones. The
+     *         treasury totals stay readable by the employer only.
+     * @param account Team member address.
+     * @param role    Role to grant.
      */
-    function _processWithTrustTier(Employee storage emp) internal {
-        ebool isHigh = trustScoring.isHighTrust(emp.wallet);
-        ebool isMed  = trustScoring.isMediumTrust(emp.wallet);
-
-        // Ensure this contract can operate on the returned encrypted booleans
-        FHE.allowThis(isHigh);
-        FHE.allowThis(isMed);
-
-        euint64 zero = FHE.asEuint64(0);
-
-        // Oblivious amount computation:
-        // HIGH  → full salary as instant, 0 delayed, 0 escrow
-        // MED   → 0 instant, full salary as delayed, 0 escrow
-        // LOW   → 0 instant, 0 delayed, full salary as escrow
-        euint64 instantAmt = FHE.select(isHigh, emp.encryptedSalary, zero);
-        euint64 remaining  = FHE.sub(emp.encryptedSalary, instantAmt);
-        euint64 delayedAmt = FHE.select(isMed, remaining, zero);
-        euint64 escrowAmt  = FHE.sub(remaining, delayedAmt);
-
-        // Process all three paths (two will carry encrypted zero)
-        _processInstantPayment(emp.wallet, instantAmt);
-        _processDelayedPayment(emp.wallet, delayedAmt);
-        _processEscrowPaymentEncrypted(emp.wallet, escrowAmt);
+    function grantRole(address account, Role role) external {
+        (account, role);
+        _delegate();
     }
 
     /**
-     * @dev Handles an instant payment (HIGH trust path).
-     *      Executes an immediate confidential transfer from the contract's
-     *      token balance to the employee.
+     * @notice Revokes a role.
+     * @dev    FHE read grants cannot be withdrawn: a revoked auditor keeps
+     *         access to ciphertexts shared before, but not to new ones.
+     * @param account Team member address.
+     * @param role    Role to revoke.
      */
-    function _processInstantPayment(
-        address employee,
-        euint64 amount
-    ) internal {
-        FHE.allowThis(amount);
-
-        // Execute immediate confidential transfer
-        FHE.allow(amount, payToken);
-        IERC7984(payToken).confidentialTransfer(employee, amount);
-
-        // Record for audit trail
-        uint256 id = nextPaymentId++;
-
-        pendingPayments[id] = PendingPayment({
-            id:              id,
-            employee:        employee,
-            encryptedAmount: amount,
-            status:          PaymentStatus.Instant,
-            createdAt:       block.timestamp,
-            releaseTime:     0,
-            milestone:       ""
-        });
-
-        emit InstantPayment(employee, block.timestamp);
+    function revokeRole(address account, Role role) external {
+        (account, role);
+        _delegate();
     }
 
     /**
-     * @dev Handles a delayed payment (MEDIUM trust path).
+     * @notice Shares existing salary and payment ciphertexts with an
+     *         auditor. Ciphertexts created after the auditor was added are
+     *         shared automatically.
+     * @param auditor    Account holding the Auditor role.
+     * @param wallets    Employees whose current salary to share.
+     * @param paymentIds Payments whose current amounts to share.
      */
-    function _processDelayedPayment(
-        address employee,
-        euint64 amount
-    ) internal {
-        uint256 id          = nextPaymentId++;
-        uint256 releaseTime = block.timestamp + DELAY_PERIOD;
-
-        FHE.allowThis(amount);
-
-        pendingPayments[id] = PendingPayment({
-            id:              id,
-            employee:        employee,
-            encryptedAmount: amount,
-            status:          PaymentStatus.Delayed,
-            createdAt:       block.timestamp,
-            releaseTime:     releaseTime,
-            milestone:       ""
-        });
-
-        emit PaymentDelayed(id, employee, releaseTime);
+    function grantAuditAccess(
+        address auditor,
+        address[] calldata wallets,
+        uint256[] calldata paymentIds
+    ) external {
+        (auditor, wallets, paymentIds);
+        _delegate();
     }
 
     /**
-     * @dev Handles an escrow payment from the FHE routing path.
+     * @notice Lists team members that currently hold at least one role.
+     * @return accounts Member addresses.
+     * @return masks    Role bitmask per member (bit i = Role(i)).
      */
-    function _processEscrowPaymentEncrypted(
-        address employee,
-        euint64 amount
-    ) internal {
-        uint256 id = nextPaymentId++;
-
-        FHE.allowThis(amount);
-
-        pendingPayments[id] = PendingPayment({
-            id:              id,
-            employee:        employee,
-            encryptedAmount: amount,
-            status:          PaymentStatus.Escrowed,
-            createdAt:       block.timestamp,
-            releaseTime:     0,
-            milestone:       "Pending employer approval"
-        });
+    function getTeam()
+        external
+        view
+        returns (address[] memory accounts, uint8[] memory masks)
+    {
+        uint256 count = 0;
+        for (uint256 i = 0; i < _team.length; i++) {
+            if (roles[_team[i]] != 0) count++;
+        }
 
-        emit PaymentEscrowed(id, employee, "Pending employer approval");
+        accounts = new address[](count);
+        masks    = new uint8[](count);
+        uint256 idx = 0;
+        for (uint256 i = 0; i < _team.length; i++) {
+            uint8 mask = roles[_team[i]];
+            if (mask != 0) {
+                accounts[idx] = _team[i];
+                masks[idx++]  = mask;
+            }
+        }
     }
 
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Extension
+    // ──────────────────────────────────────────────────────────────────
+
     /**
-     * @dev Handles an escrow payment for unscored employees.
-     *      Uses the employee's stored encrypted salary directly.
+     * @dev Runs the current call on the extension with DELEGATECALL and
+     *      returns or reverts with its result. Never returns to the caller.
+     *      The extension decodes the arguments from calldata; forwarders
+     *      only name their parameters for the ABI and NatSpec, and list
+     *      them in an expression statement so they do not read as unused.
      */
-    function _processEscrowPayment(Employee storage emp) internal {
-        uint256 id = nextPaymentId++;
-
-        pendingPayments[id] = PendingPayment({
-            id:              id,
-            employee:        emp.wallet,
-            encryptedAmount: emp.encryptedSalary,
-            status:          PaymentStatus.Escrowed,
-            createdAt:       block.timestamp,
-            releaseTime:     0,
-            milestone:       "Pending employer approval"
-        });
-
-        emit PaymentEscrowed(id, emp.wallet, "Pending employer approval");
+    function _delegate() internal {
+        address target = EXTENSION;
+        // solhint-disable-next-line no-inline-assembly
+        assembly ("memory-safe") {
+            let ptr := mload(0x40)
+            calldatacopy(ptr, 0, calldatasize())
+            let ok := delegatecall(gas(), target, ptr, calldatasize(), 0, 0)
+            returndatacopy(ptr, 0, returndatasize())
+            if iszero(ok) { revert(ptr, returndatasize()) }
+            return(ptr, returndatasize())
+        }
     }
 }
@@ -0,0 +1,1360 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Ownable2Step} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {TrustScoring} from "./TrustScoring.sol";
+import {PayGramCompensation} from "./PayGramCompensation.sol";
+import {PayGramRoutingPolicy} from "./PayGramRoutingPolicy.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+
+/**
+ * @title PayGramCoreBase
+ * @notice Storage layout, events, errors and internal logic of PayGramCore.
+ *
+ * @dev Shared by PayGramCore and PayGramCoreExtension so that extension
+ *      code, run through DELEGATECALL, reads and writes the core's storage
+ *      with the same layout. State variables may only be appended.
+ */
+// solhint-disable-next-line max-states-count
+abstract contract PayGramCoreBase is ZamaEthereumConfig, Ownable2Step {
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Constants
+    // ──────────────────────────────────────────────────────────────────
+
+    uint256 public constant DEFAULT_DELAY_PERIOD = 24 hours;
+    uint256 public constant MIN_DELAY_PERIOD = 1 hours;
+    uint256 public constant MAX_DELAY_PERIOD = 30 days;
+    uint256 public constant MAX_CONFIG_DELAY = 30 days;
+    uint16  internal constant BPS = 10_000;
+    /// @dev Mirrors PayGramRoutingPolicy.MAX_TIERS.
+    uint256 internal constant MAX_ROUTING_TIERS = 8;
+    /// @dev Releasing a payment costs about a million HCU under the
+    ///      default routing policy, and FHEVM caps a transaction at 20
+    ///      million.
+    uint256 public constant MAX_BATCH_SIZE = 10;
+    /// @dev Employees paid per executePayroll or payOffCycle call. With a
+    ///      compensation module, a budget and a pro-rated first paycheck,
+    ///      one employee costs close to seven million HCU.
+    uint256 public constant PAYROLL_BATCH_SIZE = 2;
+    uint256 public constant MAX_TRANCHES   = 10;
+    uint256 public constant MAX_AUDITORS   = 10;
+    uint256 public constant MAX_SALARY_CHANGES = 5;
+
+    /// @dev Pay-period lengths. Semi-monthly and monthly periods are a
+    ///      24th and a 12th of a 365-day year.
+    uint256 internal constant WEEK_PERIOD         = 7 days;
+    uint256 internal constant BIWEEK_PERIOD       = 14 days;
+    uint256 internal constant SEMIMONTHLY_PERIOD  = 365 days / 24;
+    uint256 internal constant MONTH_PERIOD        = 365 days / 12;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Enums
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @dev Every payment is created Escrowed whatever the employee's
+    ///      tier; Instant and Delayed only name the treasury buckets now
+    ///      and keep the numbering of the later states.
+    enum PaymentStatus {
+        None,       // 0 — default / uninitialized
+        Instant,    // 1 — instant path (high trust)
+        Delayed,    // 2 — time-locked path (medium trust)
+        Escrowed,   // 3 — awaiting approval of the escrowed part
+        Released,   // 4 — escrowed part disbursed
+        Completed   // 5 — finalized or cancelled
+    }
+
+    enum MilestoneState {
+        None,     // 0 — no milestone defined, employer may release directly
+        Defined,  // 1 — description and deadline set, awaiting claim
+        Claimed,  // 2 — employee submitted completion evidence
+        Approved, // 3 — employer approved, payment released
+        Rejected  // 4 — employer rejected the claim, employee may resubmit
+    }
+
+    enum PayFrequency {
+        ContractDefault, // 0 — employee follows the contract-wide frequency
+        Weekly,          // 1
+        BiWeekly,        // 2
+        SemiMonthly,     // 3
+        Monthly          // 4
+    }
+
+    /// @dev The employer implicitly holds every role.
+    enum Role {
+        PayrollAdmin, // 0 — runs payroll, pay schedules, cancels and splits
+        HR,           // 1 — roster edits: add, remove, salary, job title
+        Approver,     // 2 — escrow release and milestone review
+        Auditor       // 3 — read grants on salaries and payments
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Structs
+    // ──────────────────────────────────────────────────────────────────
+
+    struct Employee {
+        address wallet;
+        euint64 encryptedSalary;
+        bool    isActive;
+        uint256 hireDate;
+        uint256 lastPayDate;
+        string  role;
+        uint256 lastPaidRunId;
+        uint256 nextPayDate;
+        PayFrequency payFrequency;
+        uint256 terminationDate;
+    }
+
+    /// @dev One record per employee per payment, split obliviously
+    ///      across the trust-tier paths: only the employee's tier carries
+    ///      the amount, the others hold encrypted zeros. delayedAmount is
+    ///      the total of the delayed parts (see _delayedParts), and
+    ///      releaseTime when the next of them unlocks, 0 once all have been
+    ///      paid out or cancelled. escrowAmount is what is still held for
+    ///      approval.
+    struct PendingPayment {
+        uint256       id;
+        address       employee;
+        euint64       encryptedAmount;
+        PaymentStatus status;
+        uint256       createdAt;
+        uint256       releaseTime;
+        string        milestone;
+        uint256       runId;
+        euint64       instantAmount;
+        euint64       delayedAmount;
+        euint64       escrowAmount;
+    }
+
+    struct Milestone {
+        string         description;
+        uint256        deadline;
+        MilestoneState state;
+        string         evidence;
+        uint256        claimedAt;
+    }
+
+    /// @dev budget is a snapshot of payrollBudget taken when the run
+    ///      opens; spent and budgetExceeded stay uninitialized for
+    ///      uncapped runs. cost is the encrypted sum of every payment
+    ///      the run recorded, uninitialized until its first payment.
+    struct PayrollRun {
+        uint256   timestamp;
+        uint256   employeeCount;
+        uint256[] paymentIds;
+        euint64   budget;
+        euint64   spent;
+        ebool     budgetExceeded;
+        euint64   cost;
+    }
+
+    /// @dev Encrypted treasury split. Delayed and escrowed amounts still
+    ///      owed to employees, cancelled amounts the employer may
+    ///      withdraw, and everything transferred to employees so far.
+    struct Treasury {
+        euint64 pendingDelayed;
+        euint64 committedEscrow;
+        euint64 unallocated;
+        euint64 disbursed;
+    }
+
+    /// @dev A queued salary that replaces the current one from the first
+    ///      payroll run opened at or after effectiveAt.
+    struct SalaryChange {
+        euint64 salary;
+        uint256 effectiveAt;
+    }
+
+    /// @dev A payment configuration waiting out the timelock; eta is 0
+    ///      when nothing is scheduled.
+    struct PaymentConfig {
+        uint256 delayPeriod;
+        address routingPolicy;
+        uint256 configDelay;
+        uint256 eta;
+    }
+
+    /// @dev Part of a payment held until releaseTime. Every payment has
+    ///      one per delayed tier of the routing policy, with the same
+    ///      release times whatever the employee's tier.
+    struct DelayedPart {
+        euint64 amount;
+        uint256 releaseTime;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  State
+    // ──────────────────────────────────────────────────────────────────
+
+    TrustScoring public trustScoring;
+    address      public payToken;
+    address      public employer;
+
+    /// @notice Multisig that must submit sensitive actions, or zero when
+    ///         roles act alone. See gated.
+    address      public approvalGate;
+
+    /// @notice Pay components module, or zero to pay the salary as is.
+    ///         See _payFor.
+    PayGramCompensation public compensation;
+
+    mapping(address => Employee) internal _employees;
+    address[] public employeeList;
+
+    mapping(uint256 => PendingPayment) public pendingPayments;
+    uint256 public nextPaymentId;
+
+    /// @dev Milestone workflow for escrowed payments, keyed by payment ID.
+    mapping(uint256 => Milestone) internal _milestones;
+
+    /// @notice Number of partial releases made from each payment.
+    mapping(uint256 => uint256) public releasedTranches;
+
+    /// @dev Running encrypted totals, see Treasury.
+    Treasury internal _treasury;
+
+    /// @notice Runs opened so far, off-cycle runs included; also the
+    ///         latest run ID.
+    uint256 public totalPayrollsExecuted;
+
+    /// @notice Pay frequency for employees without an individual override.
+    PayFrequency public defaultPayFrequency;
+
+    /// @dev Payroll runs keyed by run ID (1-based, matches PayrollExecuted).
+    mapping(uint256 => PayrollRun) internal _payrollRuns;
+
+    /// @dev Encrypted spending cap for each payroll run, uninitialized
+    ///      when runs are uncapped.
+    euint64 internal _payrollBudget;
+
+    /// @dev Result of the latest checkSolvency call.
+    ebool internal _solvent;
+
+    /// @notice Timestamp of the latest checkSolvency call, 0 if never run.
+    uint256 public solvencyCheckedAt;
+
+    /// @notice Run currently being processed in chunks, 0 when none is open.
+    uint256 public currentRunId;
+
+    /// @notice Index into employeeList where the open run resumes.
+    uint256 public payrollCursor;
+
+    /// @notice Lowest payment ID that may still be an unreleased delayed
+    ///         payment. releaseMatured starts scanning here.
+    uint256 public maturedScanFrom;
+
+    /// @notice Role bitmask per account, bit i set for Role(i).
+    mapping(address => uint8) public roles;
+
+    /// @dev Every account that has ever held a role, for enumeration.
+    address[] internal _team;
+
+    /// @dev Current auditors; new ciphertexts are shared with each of them.
+    address[] internal _auditors;
+
+    /// @dev Simple reentrancy lock for payroll execution.
+    bool internal _payrollLock;
+
+    /// @dev Set once by the constructor or, for factory clones, initialize.
+    bool internal _initialized;
+
+    /// @dev Queued salary changes per employee, sorted by effectiveAt,
+    ///      at most one per timestamp.
+    mapping(address => SalaryChange[]) internal _salaryChanges;
+
+    /// @notice How long the delayed part of a MEDIUM-tier payment is held
+    ///         when no routing policy is installed. Payments keep the
+    ///         release time set when they were routed.
+    uint256 public delayPeriod;
+
+    /// @notice Wait between scheduling and applying a payment configuration
+    ///         change, 0 to apply changes at once.
+    uint256 public configDelay;
+
+    /// @dev Scheduled configuration change, see PaymentConfig.
+    PaymentConfig internal _pendingConfig;
+
+    /// @notice Tiers payments are routed through, or zero for the three
+    ///         TrustScoring tiers. See _routingTiers.
+    PayGramRoutingPolicy public routingPolicy;
+
+    /// @dev Delayed parts of each payment still held, latest release
+    ///      first, so the next one to unlock is last.
+    mapping(uint256 => DelayedPart[]) internal _delayedParts;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Events
+    // ──────────────────────────────────────────────────────────────────
+
+    event EmployeeAdded(address indexed employee, string role, uint256 hireDate);
+    event EmployeeRemoved(address indexed employee);
+    event EmployeeTerminated(
+        address indexed employee,
+        uint256 indexed payrollId,
+        uint256 terminationDate
+    );
+    event EmployeeUpdated(address indexed employee);
+    event SalaryUpdated(address indexed employee);
+    event SalaryChangeScheduled(address indexed employee, uint256 effectiveAt);
+    event SalaryChangeCancelled(address indexed employee, uint256 effectiveAt);
+    event PayrollExecuted(
+        uint256 indexed payrollId,
+        uint256 timestamp,
+        uint256 employeeCount
+    );
+    event PayrollChunkProcessed(
+        uint256 indexed payrollId,
+        uint256 processed,
+        uint256 cursor,
+        uint256 rosterSize
+    );
+    event PaymentRouted(
+        uint256 indexed paymentId,
+        address indexed employee,
+        uint256 indexed runId,
+        uint256 releaseTime
+    );
+    event DelayedAmountReleased(
+        uint256 indexed paymentId,
+        address indexed employee,
+        uint256 nextReleaseTime
+    );
+    event BonusPaid(
+        uint256 indexed payrollId,
+        address indexed employee,
+        string memo
+    );
+    event OffCyclePayrollExecuted(
+        uint256 indexed payrollId,
+        uint256 employeeCount,
+        string memo
+    );
+    event PaymentReleased(uint256 indexed paymentId, address indexed employee);
+    event PaymentCancelled(uint256 indexed paymentId, address indexed employee);
+    event MaturedPaymentsReleased(uint256 released, uint256 scanFrom);
+    event UnallocatedWithdrawn(address indexed employer);
+    event PaymentPartiallyReleased(
+        uint256 indexed paymentId,
+        address indexed employee,
+        uint256 tranche
+    );
+    event PaymentSplit(
+        uint256 indexed paymentId,
+        uint256 indexed trancheId,
+        address indexed employee
+    );
+    event MilestoneDefined(
+        uint256 indexed paymentId,
+        string description,
+        uint256 deadline
+    );
+    event MilestoneClaimed(
+        uint256 indexed paymentId,
+        address indexed employee,
+        string evidence
+    );
+    event MilestoneApproved(uint256 indexed paymentId);
+    event MilestoneRejected(uint256 indexed paymentId, string reason);
+    event PayrollBudgetUpdated(bool capped);
+    event SolvencyChecked(address indexed caller, uint256 timestamp);
+    event DefaultPayFrequencyUpdated(PayFrequency frequency);
+    event EmployeePayFrequencyUpdated(
+        address indexed employee,
+        PayFrequency frequency
+    );
+    event RoleGranted(address indexed account, Role role);
+    event RoleRevoked(address indexed account, Role role);
+    event AuditAccessGranted(
+        address indexed auditor,
+        uint256 employees,
+        uint256 payments
+    );
+    event TrustScoringUpdated(address indexed newTrustScoring);
+    event PayTokenUpdated(address indexed newPayToken);
+    event ApprovalGateUpdated(address indexed gate);
+    event CompensationUpdated(address indexed compensation);
+    event PaymentConfigUpdated(
+        uint256 delayPeriod,
+        address routingPolicy,
+        uint256 configDelay
+    );
+    event PaymentConfigScheduled(
+        uint256 delayPeriod,
+        address routingPolicy,
+        uint256 configDelay,
+        uint256 eta
+    );
+    event PaymentConfigCancelled();
+    event EmployerTransferred(
+        address indexed previousEmployer,
+        address indexed newEmployer
+    );
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Errors
+    // ──────────────────────────────────────────────────────────────────
+
+    error NotEmployer();
+    error EmployeeAlreadyExists();
+    error EmployeeNotFound();
+    error EmployeeNotActive();
+    error PaymentNotFound();
+    error PayrollRunNotFound();
+    error PaymentNotReleasable();
+    error PaymentAlreadyProcessed();
+    error DelayNotElapsed();
+    error PayrollLocked();
+    error BatchTooLarge();
+    error ZeroAddress();
+    error ArrayLengthMismatch();
+    error InvalidPayFrequency();
+    error NotPaymentRecipient();
+    error PaymentNotEscrowed();
+    error InvalidMilestoneState();
+    error InvalidDeadline();
+    error MilestoneDeadlinePassed();
+    error NothingToWithdraw();
+    error TooManyAuditors();
+    error AlreadyInitialized();
+    error ApprovalRequired();
+    error InvalidEffectiveDate();
+    error TooManySalaryChanges();
+    error SalaryChangeNotFound();
+    error InvalidTerminationDate();
+    error InvalidDelayPeriod();
+    error InvalidConfigDelay();
+    error NoPendingConfig();
+    error ConfigNotReady();
+    error InvalidRoutingPolicy();
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Modifiers
+    // ──────────────────────────────────────────────────────────────────
+
+    modifier onlyEmployer() {
+        if (msg.sender != employer) revert NotEmployer();
+        _;
+    }
+
+    /// @dev Reverts with NotEmployer so callers see the same error whether
+    ///      they lack the role or the employer address.
+    modifier onlyRole(Role role) {
+        if (!hasRole(msg.sender, role)) revert NotEmployer();
+        _;
+    }
+
+    /// @dev Sensitive actions: with an approval gate set only the gate may
+    ///      call, otherwise `role` applies as for onlyRole.
+    modifier gated(Role role) {
+        _checkGated(role);
+        _;
+    }
+
+    modifier noReentrantPayroll() {
+        if (_payrollLock) revert PayrollLocked();
+        _payrollLock = true;
+        _;
+        _payrollLock = false;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Roles
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice True if `account` is the employer or holds `role`.
+     */
+    function hasRole(address account, Role role) public view returns (bool) {
+        return account == employer || roles[account] & _roleBit(role) != 0;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Access
+    // ──────────────────────────────────────────────────────────────────
+
+    function _checkGated(Role role) internal view {
+        address gate = approvalGate;
+        if (gate != address(0)) {
+            if (msg.sender != gate) revert ApprovalRequired();
+        } else if (!hasRole(msg.sender, role)) {
+            revert NotEmployer();
+        }
+    }
+
+    function _checkOwnerOrGate() internal view {
+        address gate = approvalGate;
+        if (gate != address(0)) {
+            if (msg.sender != gate) revert ApprovalRequired();
+        } else {
+            _checkOwner();
+        }
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Initialization
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @dev Shared by the constructor and initialize.
+     */
+    function _initialize(
+        address employerAddress,
+        address _trustScoring,
+        address _payToken
+    ) internal {
+        if (employerAddress == address(0)) revert ZeroAddress();
+        if (_trustScoring == address(0)) revert ZeroAddress();
+        if (_payToken == address(0)) revert ZeroAddress();
+
+        _initialized        = true;
+        employer            = employerAddress;
+        trustScoring        = TrustScoring(_trustScoring);
+        payToken            = _payToken;
+        defaultPayFrequency = PayFrequency.Monthly;
+        delayPeriod         = DEFAULT_DELAY_PERIOD;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Employee Helpers
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @dev Stores a new Employee struct, sets FHE permissions, updates list.
+     */
+    function _storeEmployee(
+        address wallet,
+        euint64 salary,
+        string calldata role
+    ) internal {
+        _setSalaryPermissions(wallet, salary);
+
+        _employees[wallet] = Employee({
+            wallet:          wallet,
+            encryptedSalary: salary,
+            isActive:        true,
+            hireDate:        block.timestamp,
+            lastPayDate:     0,
+            role:            role,
+            lastPaidRunId:   0,
+            nextPayDate:     block.timestamp,
+            payFrequency:    PayFrequency.ContractDefault,
+            terminationDate: 0
+        });
+        employeeList.push(wallet);
+
+        emit EmployeeAdded(wallet, role, block.timestamp);
+    }
+
+    /**
+     * @dev Grants FHE read permission on a salary ciphertext to the
+     *      contract itself, the employer, and the employee.
+     */
+    function _setSalaryPermissions(address wallet, euint64 salary) internal {
+        FHE.allowThis(salary);
+        FHE.allow(salary, employer);
+        FHE.allow(salary, wallet);
+        _allowAuditors(salary);
+    }
+
+    /**
+     * @dev Grants FHE read permission on a payment amount to the contract,
+     *      the employer, and the paid employee.
+     */
+    function _setPaymentPermissions(address employee, euint64 amount) internal {
+        FHE.allowThis(amount);
+        FHE.allow(amount, employer);
+        FHE.allow(amount, employee);
+        _allowAuditors(amount);
+    }
+
+    /**
+     * @dev Grants every current auditor read permission on a ciphertext.
+     */
+    function _allowAuditors(euint64 value) internal {
+        for (uint256 i = 0; i < _auditors.length; i++) {
+            FHE.allow(value, _auditors[i]);
+        }
+    }
+
+    /**
+     * @dev Bit for `role` in the roles bitmask.
+     */
+    function _roleBit(Role role) internal pure returns (uint8) {
+        return uint8(1) << uint8(role);
+    }
+
+    /**
+     * @dev True if `account` was ever added to the team list.
+     */
+    function _isTeamMember(address account) internal view returns (bool) {
+        for (uint256 i = 0; i < _team.length; i++) {
+            if (_team[i] == account) return true;
+        }
+        return false;
+    }
+
+    /**
+     * @dev Moves an employee's next pay date one period forward. If payroll
+     *      ran late enough that the following date has also passed, the
+     *      schedule restarts from now rather than letting periods stack up.
+     */
+    function _advancePayDate(Employee storage emp) internal {
+        uint256 period = _payPeriod(_effectiveFrequency(emp));
+        uint256 next   = emp.nextPayDate + period;
+        if (next <= block.timestamp) next = block.timestamp + period;
+        emp.nextPayDate = next;
+    }
+
+    /**
+     * @dev Resolves ContractDefault to the contract-wide frequency.
+     */
+    function _effectiveFrequency(
+        Employee storage emp
+    ) internal view returns (PayFrequency) {
+        return emp.payFrequency == PayFrequency.ContractDefault
+            ? defaultPayFrequency
+            : emp.payFrequency;
+    }
+
+    /**
+     * @dev Length of one pay period for a (resolved) frequency.
+     */
+    function _payPeriod(PayFrequency frequency) internal pure returns (uint256) {
+        if (frequency == PayFrequency.Weekly) return WEEK_PERIOD;
+        if (frequency == PayFrequency.BiWeekly) return BIWEEK_PERIOD;
+        if (frequency == PayFrequency.SemiMonthly) return SEMIMONTHLY_PERIOD;
+        return MONTH_PERIOD;
+    }
+
+    /**
+     * @dev Queues `salary` for `wallet` from `effectiveAt`, keeping the
+     *      queue sorted. A change already queued for the same timestamp
+     *      is replaced.
+     */
+    function _scheduleSalaryChange(
+        address wallet,
+        euint64 salary,
+        uint256 effectiveAt
+    ) internal {
+        if (effectiveAt <= block.timestamp) revert InvalidEffectiveDate();
+        _setSalaryPermissions(wallet, salary);
+
+        SalaryChange[] storage queue = _salaryChanges[wallet];
+        uint256 i = 0;
+        while (i < queue.length && queue[i].effectiveAt < effectiveAt) i++;
+
+        if (i < queue.length && queue[i].effectiveAt == effectiveAt) {
+            queue[i].salary = salary;
+        } else {
+            if (queue.length >= MAX_SALARY_CHANGES) revert TooManySalaryChanges();
+            queue.push();
+            for (uint256 j = queue.length - 1; j > i; j--) {
+                queue[j] = queue[j - 1];
+            }
+            queue[i] = SalaryChange({salary: salary, effectiveAt: effectiveAt});
+        }
+
+        emit SalaryChangeScheduled(wallet, effectiveAt);
+    }
+
+    /**
+     * @dev Makes the latest change due at `asOf` the employee's salary and
+     *      drops every due change from the queue.
+     */
+    function _applySalaryChanges(Employee storage emp, uint256 asOf) internal {
+        SalaryChange[] storage queue = _salaryChanges[emp.wallet];
+        uint256 due = _countDue(queue, asOf);
+        if (due == 0) return;
+
+        emp.encryptedSalary = queue[due - 1].salary;
+        uint256 left = queue.length - due;
+        for (uint256 i = 0; i < left; i++) {
+            queue[i] = queue[i + due];
+        }
+        for (uint256 i = 0; i < due; i++) {
+            queue.pop();
+        }
+
+        emit SalaryUpdated(emp.wallet);
+    }
+
+    /**
+     * @dev Salary a run opened at `asOf` pays the employee, counting queued
+     *      changes without applying them.
+     */
+    function _salaryAt(
+        Employee storage emp,
+        uint256 asOf
+    ) internal view returns (euint64) {
+        SalaryChange[] storage queue = _salaryChanges[emp.wallet];
+        uint256 due = _countDue(queue, asOf);
+        return due == 0 ? emp.encryptedSalary : queue[due - 1].salary;
+    }
+
+    /**
+     * @dev Number of queued changes effective at `asOf`.
+     */
+    function _countDue(
+        SalaryChange[] storage queue,
+        uint256 asOf
+    ) internal view returns (uint256 due) {
+        while (due < queue.length && queue[due].effectiveAt <= asOf) due++;
+    }
+
+    /**
+     * @dev Days worked from `from` to `to`, capped at the days in the
+     *      employee's pay period, and the days in that period. A started
+     *      day counts as worked.
+     */
+    function _daysWorked(
+        Employee storage emp,
+        uint256 from,
+        uint256 to
+    ) internal view returns (uint64 worked, uint64 daysInPeriod) {
+        daysInPeriod = uint64(_payPeriod(_effectiveFrequency(emp)) / 1 days);
+        uint256 d = to > from ? (to - from + 1 days - 1) / 1 days : 0;
+        worked = d < daysInPeriod ? uint64(d) : daysInPeriod;
+    }
+
+    /**
+     * @dev `amount` × `worked` / `daysInPeriod`, for first and final
+     *      paychecks; a whole period returns `amount` unchanged. The
+     *      product is computed in 64 bits, so amounts must stay below
+     *      2^64 / 31.
+     */
+    function _prorate(
+        euint64 amount,
+        uint64 worked,
+        uint64 daysInPeriod
+    ) internal returns (euint64) {
+        if (worked == daysInPeriod) return amount;
+        return FHE.div(FHE.mul(amount, worked), daysInPeriod);
+    }
+
+    /**
+     * @dev Whether run `runId` (0 for one not opened yet) pays `emp` now:
+     *      active, not paid by that run, and past their next pay date. A
+     *      first paycheck also waits until a block after the hire, so its
+     *      pro-rated period is never empty.
+     */
+    function _isDue(
+        Employee storage emp,
+        uint256 runId
+    ) internal view returns (bool) {
+        if (!emp.isActive || block.timestamp < emp.nextPayDate) return false;
+        if (emp.lastPaidRunId == 0) return emp.hireDate < block.timestamp;
+        return runId == 0 || emp.lastPaidRunId != runId;
+    }
+
+    /**
+     * @dev Reverts if `wallet` is not a registered, active employee.
+     */
+    function _requireActiveEmployee(address wallet) internal view {
+        Employee storage emp = _employees[wallet];
+        if (emp.wallet == address(0)) revert EmployeeNotFound();
+        if (!emp.isActive) revert EmployeeNotActive();
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Payment Helpers
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @dev Marks a payment released and transfers its escrowed amount
+     *      from the contract balance to the employee. A delayed part
+     *      still held is left to _releaseDelayed.
+     */
+    function _releasePayment(
+        uint256 paymentId,
+        PendingPayment storage p
+    ) internal {
+        _untrackOutstanding(PaymentStatus.Escrowed, p.escrowAmount);
+        p.status = PaymentStatus.Released;
+
+        _disburse(p.employee, p.escrowAmount);
+
+        emit PaymentReleased(paymentId, p.employee);
+    }
+
+    /**
+     * @dev Transfers a payment's next delayed part to the employee once
+     *      its release time has passed, and moves the release time on to
+     *      the following part, or clears it after the last.
+     */
+    function _releaseDelayed(
+        uint256 paymentId,
+        PendingPayment storage p
+    ) internal {
+        DelayedPart[] storage parts = _delayedParts[paymentId];
+        euint64 amount = parts[parts.length - 1].amount;
+        parts.pop();
+        p.releaseTime = parts.length == 0 ? 0 : parts[parts.length - 1].releaseTime;
+
+        _untrackOutstanding(PaymentStatus.Delayed, amount);
+        _disburse(p.employee, amount);
+
+        emit DelayedAmountReleased(paymentId, p.employee, p.releaseTime);
+    }
+
+    /**
+     * @dev Drops the delayed parts a payment still holds and returns their
+     *      total, which stays in the contract.
+     */
+    function _dropDelayed(
+        uint256 paymentId,
+        PendingPayment storage p
+    ) internal returns (euint64 held) {
+        DelayedPart[] storage parts = _delayedParts[paymentId];
+        held = FHE.asEuint64(0);
+        for (uint256 i = 0; i < parts.length; i++) {
+            held = FHE.add(held, parts[i].amount);
+        }
+        delete _delayedParts[paymentId];
+        p.releaseTime = 0;
+
+        _untrackOutstanding(PaymentStatus.Delayed, held);
+    }
+
+    /**
+     * @dev Transfers min(requested, remaining) of an escrowed amount to
+     *      the employee and leaves the rest on the record.
+     */
+    function _releasePartial(
+        uint256 paymentId,
+        PendingPayment storage p,
+        euint64 requested
+    ) internal {
+        euint64 portion = _carve(p, requested);
+        _untrackOutstanding(PaymentStatus.Escrowed, portion);
+
+        _disburse(p.employee, portion);
+
+        uint256 tranche = ++releasedTranches[paymentId];
+        emit PaymentPartiallyReleased(paymentId, p.employee, tranche);
+    }
+
+    /**
+     * @dev Creates one new escrowed record per requested tranche, each
+     *      carved off the parent's escrowed amount. Tranches have no
+     *      instant or delayed part.
+     */
+    function _splitPayment(
+        uint256 paymentId,
+        PendingPayment storage parent,
+        euint64[] memory amounts
+    ) internal returns (uint256[] memory trancheIds) {
+        euint64 zero = FHE.asEuint64(0);
+        _setPaymentPermissions(parent.employee, zero);
+
+        trancheIds = new uint256[](amounts.length);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            uint256 id = nextPaymentId++;
+            euint64 portion = _carve(parent, amounts[i]);
+            parent.encryptedAmount = FHE.sub(parent.encryptedAmount, portion);
+            _setPaymentPermissions(parent.employee, parent.encryptedAmount);
+
+            pendingPayments[id] = PendingPayment({
+                id:              id,
+                employee:        parent.employee,
+                encryptedAmount: portion,
+                status:          PaymentStatus.Escrowed,
+                createdAt:       block.timestamp,
+                releaseTime:     0,
+                milestone:       "",
+                runId:           parent.runId,
+                instantAmount:   zero,
+                delayedAmount:   zero,
+                escrowAmount:    portion
+            });
+            _payrollRuns[parent.runId].paymentIds.push(id);
+            trancheIds[i] = id;
+
+            emit PaymentSplit(paymentId, id, parent.employee);
+        }
+    }
+
+    /**
+     * @dev Removes min(requested, remaining) from a payment's escrowed
+     *      amount and returns the removed portion. Both the portion and the
+     *      new remainder get the usual payment ACL grants.
+     */
+    function _carve(
+        PendingPayment storage p,
+        euint64 requested
+    ) internal returns (euint64 portion) {
+        ebool fits = FHE.le(requested, p.escrowAmount);
+        portion = FHE.select(fits, requested, p.escrowAmount);
+        euint64 rest = FHE.sub(p.escrowAmount, portion);
+
+        _setPaymentPermissions(p.employee, portion);
+        _setPaymentPermissions(p.employee, rest);
+        p.escrowAmount = rest;
+    }
+
+    /**
+     * @dev Transfers `amount` from the contract balance to an employee
+     *      and adds what the token actually moved to the disbursed total.
+     *      A transfer the balance cannot cover moves, and counts, zero.
+     */
+    function _disburse(address employee, euint64 amount) internal {
+        FHE.allow(amount, payToken);
+        euint64 sent = IERC7984(payToken).confidentialTransfer(employee, amount);
+
+        _treasury.disbursed = FHE.add(_treasury.disbursed, sent);
+        _setTreasuryPermissions(_treasury.disbursed);
+    }
+
+    /**
+     * @dev Adds a newly owed amount to the delayed or escrow total.
+     */
+    function _trackOutstanding(PaymentStatus status, euint64 amount) internal {
+        if (status == PaymentStatus.Delayed) {
+            _treasury.pendingDelayed = FHE.add(_treasury.pendingDelayed, amount);
+            _setTreasuryPermissions(_treasury.pendingDelayed);
+        } else if (status == PaymentStatus.Escrowed) {
+            _treasury.committedEscrow = FHE.add(_treasury.committedEscrow, amount);
+            _setTreasuryPermissions(_treasury.committedEscrow);
+        }
+    }
+
+    /**
+     * @dev Removes a released or cancelled amount from the delayed or
+     *      escrow total.
+     */
+    function _untrackOutstanding(PaymentStatus status, euint64 amount) internal {
+        if (status == PaymentStatus.Delayed) {
+            _treasury.pendingDelayed = FHE.sub(_treasury.pendingDelayed, amount);
+            _setTreasuryPermissions(_treasury.pendingDelayed);
+        } else if (status == PaymentStatus.Escrowed) {
+            _treasury.committedEscrow = FHE.sub(_treasury.committedEscrow, amount);
+            _setTreasuryPermissions(_treasury.committedEscrow);
+        }
+    }
+
+    /**
+     * @dev Grants the contract and the employer access to a treasury
+     *      total. Skips handles that have never been written.
+     */
+    function _setTreasuryPermissions(euint64 total) internal {
+        if (!FHE.isInitialized(total)) return;
+        FHE.allowThis(total);
+        FHE.allow(total, employer);
+    }
+
+    /**
+     * @dev Grants `account` read access to every initialized treasury
+     *      total.
+     */
+    function _allowTreasury(address account) internal {
+        Treasury storage t = _treasury;
+        if (FHE.isInitialized(t.pendingDelayed))
+            FHE.allow(t.pendingDelayed, account);
+        if (FHE.isInitialized(t.committedEscrow))
+            FHE.allow(t.committedEscrow, account);
+        if (FHE.isInitialized(t.unallocated))
+            FHE.allow(t.unallocated, account);
+        if (FHE.isInitialized(t.disbursed))
+            FHE.allow(t.disbursed, account);
+    }
+
+    /**
+     * @dev Releases every matured delayed part of up to `maxCount` payments
+     *      from maturedScanFrom onward, counting payments like
+     *      _findMatured, and moves the scan start past every record before
+     *      the first delayed part that is still locked.
+     */
+    function _releaseMatured(uint256 maxCount) internal returns (uint256 released) {
+        if (maxCount > MAX_BATCH_SIZE) maxCount = MAX_BATCH_SIZE;
+
+        uint256 total = nextPaymentId;
+        uint256 next  = maturedScanFrom;
+        bool blocked  = false;
+
+        for (uint256 i = next; i < total && released < maxCount; i++) {
+            PendingPayment storage p = pendingPayments[i];
+            if (p.releaseTime != 0 && block.timestamp >= p.releaseTime) {
+                do {
+                    _releaseDelayed(i, p);
+                } while (p.releaseTime != 0 && block.timestamp >= p.releaseTime);
+                released++;
+            }
+            if (p.releaseTime != 0) blocked = true;
+            if (!blocked) next = i + 1;
+        }
+
+        maturedScanFrom = next;
+        if (released > 0) emit MaturedPaymentsReleased(released, next);
+    }
+
+    /**
+     * @dev Collects up to `maxCount` IDs of payments with a matured
+     *      delayed amount, scanning from maturedScanFrom.
+     */
+    function _findMatured(
+        uint256 maxCount
+    ) internal view returns (uint256[] memory ids) {
+        if (maxCount > MAX_BATCH_SIZE) maxCount = MAX_BATCH_SIZE;
+
+        uint256[] memory buffer = new uint256[](maxCount);
+        uint256 total = nextPaymentId;
+        uint256 found = 0;
+
+        for (uint256 i = maturedScanFrom; i < total && found < maxCount; i++) {
+            PendingPayment storage p = pendingPayments[i];
+            if (p.releaseTime != 0 && block.timestamp >= p.releaseTime) {
+                buffer[found++] = i;
+            }
+        }
+
+        ids = new uint256[](found);
+        for (uint256 i = 0; i < found; i++) {
+            ids[i] = buffer[i];
+        }
+    }
+
+    /**
+     * @dev Returns a payment whose escrowed amount may be partially
+     *      released or split: it must be escrowed, with no milestone claim
+     *      under review.
+     */
+    function _requireDivisible(
+        uint256 paymentId
+    ) internal view returns (PendingPayment storage p) {
+        p = pendingPayments[paymentId];
+        if (p.status == PaymentStatus.None) revert PaymentNotFound();
+        if (p.status != PaymentStatus.Escrowed) revert PaymentNotReleasable();
+        if (_milestones[paymentId].state == MilestoneState.Claimed)
+            revert InvalidMilestoneState();
+    }
+
+    /**
+     * @dev True if part of a payment can be released now: a matured
+     *      delayed amount, or an escrowed amount awaiting approval.
+     */
+    function _isReleasable(
+        PendingPayment storage p
+    ) internal view returns (bool) {
+        return
+            (p.releaseTime != 0 && block.timestamp >= p.releaseTime) ||
+            p.status == PaymentStatus.Escrowed;
+    }
+
+    /**
+     * @dev Returns a payment, reverting unless it is currently escrowed.
+     */
+    function _requireEscrowed(
+        uint256 paymentId
+    ) internal view returns (PendingPayment storage p) {
+        p = pendingPayments[paymentId];
+        if (p.status == PaymentStatus.None) revert PaymentNotFound();
+        if (p.status != PaymentStatus.Escrowed) revert PaymentNotEscrowed();
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Payroll Processing
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @dev Stores a new payroll budget readable by the employer only, not
+     *      by the caller, which may be the approval gate.
+     */
+    function _setPayrollBudget(euint64 budget) internal {
+        FHE.allowThis(budget);
+        FHE.allow(budget, employer);
+        _payrollBudget = budget;
+        emit PayrollBudgetUpdated(true);
+    }
+
+    /**
+     * @dev Snapshots the payroll budget into a newly opened run and starts
+     *      its encrypted total and exceeded flag. No-op when uncapped.
+     */
+    function _openRunBudget(PayrollRun storage run) internal {
+        if (!FHE.isInitialized(_payrollBudget)) return;
+        run.budget = _payrollBudget;
+        _storeRunBudget(run, FHE.asEuint64(0), FHE.asEbool(false));
+    }
+
+    /**
+     * @dev An employee's pay for `worked` of `daysInPeriod` days on
+     *      `salary`: net pay from the compensation module if installed,
+     *      otherwise the pro-rated salary. Nothing is consumed; payroll
+     *      runs follow up with _settlePay.
+     */
+    function _payFor(
+        Employee storage emp,
+        euint64 salary,
+        uint64 worked,
+        uint64 daysInPeriod
+    ) internal returns (euint64) {
+        if (address(compensation) == address(0)) {
+            return _prorate(salary, worked, daysInPeriod);
+        }
+        FHE.allowTransient(salary, address(compensation));
+        return compensation.netPay(emp.wallet, salary, worked, daysInPeriod);
+    }
+
+    /**
+     * @dev What a payroll run pays `emp` on `salary`: pay for one period,
+     *      with a first paycheck pro-rated from the hire date. Shared with
+     *      checkSolvency so the preflight counts what the run pays.
+     */
+    function _runPay(
+        Employee storage emp,
+        euint64 salary
+    ) internal returns (euint64) {
+        (uint64 worked, uint64 daysInPeriod) = _daysWorked(
+            emp,
+            emp.lastPaidRunId == 0 ? emp.hireDate : 0,
+            block.timestamp
+        );
+        return _payFor(emp, salary, worked, daysInPeriod);
+    }
+
+    /**
+     * @dev Tells the compensation module what a run paid `emp` so it
+     *      resets the bonus only where `fits` holds. No-op without one.
+     */
+    function _settlePay(Employee storage emp, euint64 paid, ebool fits) internal {
+        if (address(compensation) == address(0)) return;
+        FHE.allowTransient(paid, address(compensation));
+        if (FHE.isInitialized(fits)) {
+            FHE.allowTransient(fits, address(compensation));
+        }
+        compensation.settlePay(emp.wallet, paid, fits);
+    }
+
+    /**
+     * @dev Returns `salary` if it fits in what is left of the run's budget,
+     *      otherwise an encrypted zero, and adds what was paid to the run
+     *      total. The sum is also checked against the previous total so a
+     *      wrapping addition never passes. Uncapped runs return `salary`
+     *      and leave `fits` uninitialized.
+     */
+    function _applyBudget(
+        PayrollRun storage run,
+        euint64 salary
+    ) internal returns (euint64 paid, ebool fits) {
+        if (!FHE.isInitialized(run.budget)) return (salary, fits);
+
+        euint64 total;
+        (fits, total) = _fitBudget(run.budget, run.spent, salary);
+        _storeRunBudget(
+            run,
+            FHE.select(fits, total, run.spent),
+            FHE.or(run.budgetExceeded, FHE.not(fits))
+        );
+        paid = FHE.select(fits, salary, FHE.asEuint64(0));
+    }
+
+    /**
+     * @dev Adds `amount` to `spent` and checks the total against `budget`
+     *      and against `spent`, so a wrapping addition never fits.
+     */
+    function _fitBudget(
+        euint64 budget,
+        euint64 spent,
+        euint64 amount
+    ) internal returns (ebool fits, euint64 total) {
+        total = FHE.add(spent, amount);
+        fits  = FHE.and(FHE.le(total, budget), FHE.ge(total, spent));
+    }
+
+    /**
+     * @dev Writes a run's budget total and flag, readable by the contract
+     *      and the employer.
+     */
+    function _storeRunBudget(
+        PayrollRun storage run,
+        euint64 spent,
+        ebool exceeded
+    ) internal {
+        FHE.allowThis(spent);
+        FHE.allow(spent, employer);
+        FHE.allowThis(exceeded);
+        FHE.allow(exceeded, employer);
+        run.spent          = spent;
+        run.budgetExceeded = exceeded;
+    }
+
+    /**
+     * @dev Records a completed off-cycle run. It takes the next payroll
+     *      run ID but has no budget snapshot.
+     */
+    function _openOffCycleRun(uint256 employeeCount) internal returns (uint256 runId) {
+        runId = ++totalPayrollsExecuted;
+        PayrollRun storage run = _payrollRuns[runId];
+        run.timestamp     = block.timestamp;
+        run.employeeCount = employeeCount;
+    }
+
+    /**
+     * @dev Tiers of the installed routing policy or, without one, the
+     *      three TrustScoring tiers: HIGH paid at once, MEDIUM held for
+     *      delayPeriod and LOW escrowed.
+     */
+    function _routingTiers()
+        internal
+        view
+        returns (PayGramRoutingPolicy.Tier[] memory tiers)
+    {
+        if (address(routingPolicy) != address(0)) return routingPolicy.getTiers();
+
+        tiers = new PayGramRoutingPolicy.Tier[](3);
+        tiers[0] = PayGramRoutingPolicy.Tier(
+            trustScoring.highTrustThreshold(), BPS, 0, 0, "High Trust"
+        );
+        tiers[1] = PayGramRoutingPolicy.Tier(
+            trustScoring.mediumTrustThreshold(), 0, BPS, uint32(delayPeriod), "Medium Trust"
+        );
+        tiers[2] = PayGramRoutingPolicy.Tier(0, 0, 0, 0, "Low Trust");
+    }
+
+    /**
+     * @dev Splits a payment across the routing tiers and records it. The
+     *      employee's tier index comes from TrustScoring.getTrustTier and
+     *      each tier's share is picked with FHE.select on it:
+     *
+     *          instant part  → paid now
+     *          delayed parts → one per delayed tier, paid after its delay
+     *          escrowed part → the rest, paid on approval
+     *
+     *      Only the employee's tier contributes non-zero amounts. Employees
+     *      without a trust score get the last tier from the same
+     *      getTrustTier call, with no branch on hasScore, so scored and
+     *      unscored employees and every tier produce the same calls,
+     *      records, events and transfers. Shares are applied in basis points, so amounts must
+     *      stay below 2^64 / BPS.
+     */
+    function _routePayment(
+        address employee,
+        euint64 amount,
+        uint256 runId
+    ) internal {
+        PayGramRoutingPolicy.Tier[] memory tiers = _routingTiers();
+
+        euint64 tier = trustScoring.getTrustTier(employee, address(routingPolicy));
+        // Ensure this contract can operate on the returned encrypted tier
+        FHE.allowThis(tier);
+
+        (euint64 instantAmt, euint64 delayedAmt, DelayedPart[] memory parts) =
+            _splitByTier(employee, amount, tier, tiers);
+        euint64 escrowAmt = FHE.sub(FHE.sub(amount, instantAmt), delayedAmt);
+
+        _recordPayment(employee, runId, amount, instantAmt, delayedAmt, escrowAmt, parts);
+    }
+
+    /**
+     * @dev Adds up the instant shares and builds the delayed parts of
+     *      `amount` for the tier at encrypted index `tier`, latest release
+     *      first. Escrow-only tiers are left to the remainder.
+     */
+    function _splitByTier(
+        address employee,
+        euint64 amount,
+        euint64 tier,
+        PayGramRoutingPolicy.Tier[] memory tiers
+    )
+        internal
+        returns (euint64 instantAmt, euint64 delayedAmt, DelayedPart[] memory parts)
+    {
+        uint256 delayedTiers = 0;
+        for (uint256 i = 0; i < tiers.length; i++) {
+            if (tiers[i].delayedBps != 0) delayedTiers++;
+        }
+        parts = new DelayedPart[](delayedTiers);
+
+        euint64 zero = FHE.asEuint64(0);
+        instantAmt = zero;
+        delayedAmt = zero;
+        uint256 n = 0;
+        for (uint256 i = 0; i < tiers.length; i++) {
+            PayGramRoutingPolicy.Tier memory t = tiers[i];
+            if (t.instantBps == 0 && t.delayedBps == 0) continue;
+
+            euint64 share = FHE.select(FHE.eq(tier, uint64(i)), amount, zero);
+            if (t.instantBps != 0) {
+                instantAmt = FHE.add(instantAmt, _bpsOf(share, t.instantBps));
+            }
+            if (t.delayedBps != 0) {
+                euint64 part = _bpsOf(share, t.delayedBps);
+                delayedAmt = FHE.add(delayedAmt, part);
+                _setPaymentPermissions(employee, part);
+                parts[n++] = DelayedPart(part, block.timestamp + t.delay);
+            }
+        }
+
+        for (uint256 i = 1; i < n; i++) {
+            DelayedPart memory part = parts[i];
+            uint256 j = i;
+            for (; j > 0 && parts[j - 1].releaseTime < part.releaseTime; j--) {
+                parts[j] = parts[j - 1];
+            }
+            parts[j] = part;
+        }
+    }
+
+    /**
+     * @dev `bps` basis points of `amount`, rounded down.
+     */
+    function _bpsOf(euint64 amount, uint16 bps) internal returns (euint64) {
+        if (bps == BPS) return amount;
+        return FHE.div(FHE.mul(amount, uint64(bps)), uint64(BPS));
+    }
+
+    /**
+     * @dev Stores a routed payment, transfers its instant part right away,
+     *      adds the held parts to the treasury totals and the whole amount
+     *      to the run's cost. Every record starts escrowed with the same
+     *      delayed parts and release times, whatever it holds.
+     */
+    function _recordPayment(
+        address employee,
+        uint256 runId,
+        euint64 amount,
+        euint64 instantAmt,
+        euint64 delayedAmt,
+        euint64 escrowAmt,
+        DelayedPart[] memory parts
+    ) internal {
+        _setPaymentPermissions(employee, amount);
+        _setPaymentPermissions(employee, instantAmt);
+        _setPaymentPermissions(employee, delayedAmt);
+        _setPaymentPermissions(employee, escrowAmt);
+
+        // Execute immediate confidential transfer (an encrypted zero unless the tier pays at once)
+        _disburse(employee, instantAmt);
+
+        _trackOutstanding(PaymentStatus.Delayed, delayedAmt);
+        _trackOutstanding(PaymentStatus.Escrowed, escrowAmt);
+
+        uint256 id          = nextPaymentId++;
+        uint256 releaseTime = parts.length == 0 ? 0 : parts[parts.length - 1].releaseTime;
+        for (uint256 i = 0; i < parts.length; i++) {
+            _delayedParts[id].push(parts[i]);
+        }
+
+        pendingPayments[id] = PendingPayment({
+            id:              id,
+            employee:        employee,
+            encryptedAmount: amount,
+            status:          PaymentStatus.Escrowed,
+            createdAt:       block.timestamp,
+            releaseTime:     releaseTime,
+            milestone:       "Pending employer approval",
+            runId:           runId,
+            instantAmount:   instantAmt,
+            delayedAmount:   delayedAmt,
+            escrowAmount:    escrowAmt
+        });
+        PayrollRun storage run = _payrollRuns[runId];
+        run.paymentIds.push(id);
+        run.cost = FHE.add(run.cost, amount);
+        FHE.allowThis(run.cost);
+        FHE.allow(run.cost, employer);
+
+        emit PaymentRouted(id, employee, runId, releaseTime);
+    }
+}
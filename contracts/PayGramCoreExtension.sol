@@ -0,0 +1,746 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {PayGramCoreBase} from "./PayGramCoreBase.sol";
+import {PayGramRoutingPolicy} from "./PayGramRoutingPolicy.sol";
+
+/**
+ * @title PayGramCoreExtension
+ * @notice Second code contract of PayGramCore. PayGramCore declares these
+ *         functions in its ABI and forwards them here with DELEGATECALL,
+ *         keeping the core under the EIP-170 code-size limit.
+ *
+ * @dev Deployed by the PayGramCore constructor. Only reached through the
+ *      core: called directly, it runs against its own empty storage.
+ */
+contract PayGramCoreExtension is PayGramCoreBase {
+    constructor() Ownable(msg.sender) {}
+
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Employee Management
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Terminates an employee and pays their final paycheck.
+     * @dev    The final paycheck is the salary pro-rated for the days
+     *         worked from the last paycheck (or the hire date) through
+     *         `terminationDate`, routed through the employee's trust tier
+     *         as its own off-cycle payroll run. Salary changes effective
+     *         by then apply first; later ones are dropped. With a
+     *         compensation module installed the employee gets net pay
+     *         with allowances and deductions pro-rated like the salary, as
+     *         in a payroll run, and the whole bonus, which is used up.
+     * @param wallet          Active employee.
+     * @param terminationDate Last day worked, between the last paycheck
+     *                        (or the hire date) and now.
+     */
+    function terminateEmployee(
+        address wallet,
+        uint256 terminationDate
+    ) external gated(Role.HR) noReentrantPayroll {
+        _requireActiveEmployee(wallet);
+        Employee storage emp = _employees[wallet];
+        uint256 from = emp.lastPaidRunId == 0 ? emp.hireDate : emp.lastPayDate;
+        if (terminationDate < from || terminationDate > block.timestamp)
+            revert InvalidTerminationDate();
+
+        _applySalaryChanges(emp, terminationDate);
+        delete _salaryChanges[wallet];
+
+        uint256 runId = _openOffCycleRun(1);
+        (uint64 worked, uint64 daysInPeriod) =
+            _daysWorked(emp, from, terminationDate);
+        euint64 finalPay = _payFor(
+            emp,
+            emp.encryptedSalary,
+            worked,
+            daysInPeriod
+        );
+        _settlePay(emp, finalPay, ebool.wrap(0));
+        _routePayment(wallet, finalPay, runId);
+
+        emp.isActive        = false;
+        emp.lastPayDate     = block.timestamp;
+        emp.terminationDate = terminationDate;
+
+        emit EmployeeTerminated(wallet, runId, terminationDate);
+    }
+
+    /**
+     * @notice Queues an encrypted salary change for an active employee.
+     * @dev    The new salary is paid from the first payroll run opened at
+     *         or after `effectiveAt`; runs opened before it keep paying
+     *         the current salary. Queuing another change for the same
+     *         timestamp replaces it. Readable by the employee as soon as
+     *         it is queued.
+     * @param wallet          Employee address.
+     * @param encryptedSalary New FHE-encrypted salary.
+     * @param inputProof      ZKPoK proof for the new value.
+     * @param effectiveAt     Future timestamp from which it applies.
+     */
+    function scheduleSalaryChange(
+        address wallet,
+        externalEuint64 encryptedSalary,
+        bytes calldata inputProof,
+        uint256 effectiveAt
+    ) external gated(Role.HR) {
+        _requireActiveEmployee(wallet);
+        _scheduleSalaryChange(
+            wallet,
+            FHE.fromExternal(encryptedSalary, inputProof),
+            effectiveAt
+        );
+    }
+
+    /**
+     * @notice Queues a salary change from a plaintext value (testing
+     *         convenience).
+     * @param wallet      Employee address.
+     * @param salary      New plaintext salary.
+     * @param effectiveAt Future timestamp from which it applies.
+     */
+    function scheduleSalaryChangePlaintext(
+        address wallet,
+        uint64 salary,
+        uint256 effectiveAt
+    ) external gated(Role.HR) {
+        _requireActiveEmployee(wallet);
+        _scheduleSalaryChange(wallet, FHE.asEuint64(salary), effectiveAt);
+    }
+
+    /**
+     * @notice Cancels a queued salary change that has not been applied.
+     * @param wallet      Employee address.
+     * @param effectiveAt Effective timestamp of the change to cancel.
+     */
+    function cancelSalaryChange(
+        address wallet,
+        uint256 effectiveAt
+    ) external gated(Role.HR) {
+        SalaryChange[] storage queue = _salaryChanges[wallet];
+        uint256 len = queue.length;
+        uint256 i = 0;
+        while (i < len && queue[i].effectiveAt != effectiveAt) i++;
+        if (i == len) revert SalaryChangeNotFound();
+
+        for (; i + 1 < len; i++) {
+            queue[i] = queue[i + 1];
+        }
+        queue.pop();
+
+        emit SalaryChangeCancelled(wallet, effectiveAt);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Payroll Execution
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Runs payroll for all active employees, in chunks of at most
+     *         PAYROLL_BATCH_SIZE employees per call.
+     * @dev    For each active employee:
+     *         - If the employee has a trust score, uses FHE tier evaluation
+     *           to route salary through instant / delayed / escrow paths.
+     *         - If no trust score exists, defaults to escrow (LOW trust).
+     *
+     *         FHE.select ensures the routing is fully oblivious — no tier
+     *         information is revealed on-chain. Each employee gets one
+     *         payment record with an encrypted instant, delayed and
+     *         escrowed part, and one PaymentRouted event, whatever the tier.
+     *
+     *         The instant part transfers immediately from the contract
+     *         balance. The delayed part unlocks after delayPeriod and the
+     *         escrowed part waits for approval.
+     *
+     *         Every payment record created here carries the run ID, and the
+     *         run's payment IDs are retrievable via getPayrollRun.
+     *
+     *         A call that reaches the batch limit before the end of the roster
+     *         leaves the run open and emits PayrollChunkProcessed; the next
+     *         call resumes from payrollCursor. PayrollExecuted is emitted once
+     *         the whole roster has been covered. Each employee records the
+     *         last run that paid them, so nobody is paid twice in one run.
+     *
+     *         Employees whose next pay date has not been reached are skipped,
+     *         so calling this again within a pay period pays nobody twice.
+
+     *         An employee's first paycheck is pro-rated: pay × days since
+     *         hire / days in their pay period, computed homomorphically on
+     *         the salary and, with a compensation module, the allowances
+     *         and deductions (not the one-off bonus). It also restarts
+     *         their pay schedule from that run. Someone hired in the same
+     *         block as the run has worked no time yet and waits for the
+     *         next call, keeping their pay date.
+     *
+     *         With a payroll budget set, each salary is added to the run's
+     *         encrypted total in roster order and compared against the
+     *         budget with FHE.le. A salary that would take the total over
+     *         the budget is obliviously replaced by an encrypted zero and
+     *         the run's encrypted budgetExceeded flag is raised; see
+     *         getPayrollRunBudget.
+     */
+    function executePayroll()
+        external
+        gated(Role.PayrollAdmin)
+        noReentrantPayroll
+    {
+        uint256 runId = currentRunId;
+        if (runId == 0) {
+            runId = ++totalPayrollsExecuted;
+            currentRunId = runId;
+            _payrollRuns[runId].timestamp = block.timestamp;
+            _openRunBudget(_payrollRuns[runId]);
+        }
+        PayrollRun storage run = _payrollRuns[runId];
+
+        uint256 processed = 0;
+        uint256 len = employeeList.length;
+        uint256 i = payrollCursor;
+
+        for (; i < len && processed < PAYROLL_BATCH_SIZE; i++) {
+            Employee storage emp = _employees[employeeList[i]];
+            if (!_isDue(emp, runId)) continue;
+
+            processed++;
+
+            _applySalaryChanges(emp, run.timestamp);
+            // A first paycheck restarts the schedule from today
+            if (emp.lastPaidRunId == 0) emp.nextPayDate = block.timestamp;
+            (euint64 paid, ebool fits) = _applyBudget(
+                run,
+                _runPay(emp, emp.encryptedSalary)
+            );
+            _settlePay(emp, paid, fits);
+            _routePayment(emp.wallet, paid, runId);
+
+            emp.lastPayDate   = block.timestamp;
+            emp.lastPaidRunId = runId;
+            _advancePayDate(emp);
+        }
+
+        run.employeeCount += processed;
+
+        if (i < len) {
+            payrollCursor = i;
+            emit PayrollChunkProcessed(runId, processed, i, len);
+            return;
+        }
+
+        payrollCursor = 0;
+        currentRunId  = 0;
+        emit PayrollExecuted(runId, run.timestamp, run.employeeCount);
+    }
+
+    /**
+     * @notice Preflight for executePayroll: compares the contract's
+     *         encrypted token balance against everything it owes.
+     * @dev    Obligations are what the next executePayroll calls would
+     *         pay (the rest of an open run, or a new one), plus the
+     *         outstanding delayed and escrowed totals. Run pay is counted
+     *         as executePayroll computes it: first paychecks pro-rated,
+     *         and pay that would not fit in the run's budget left out. A confidential transfer the balance cannot cover
+     *         moves zero instead of reverting, so running payroll while
+     *         insolvent silently underpays.
+     *
+     *         The result is stored for getSolvency and readable by the
+     *         employer and the caller. Cost grows with the roster.
+     * @return solvent Encrypted true if balance >= obligations.
+     */
+    function checkSolvency()
+        external
+        onlyRole(Role.PayrollAdmin)
+        returns (ebool solvent)
+    {
+        uint256 runId = currentRunId;
+        PayrollRun storage run = _payrollRuns[runId];
+        uint256 asOf = runId != 0 ? run.timestamp : block.timestamp;
+        euint64 budget = runId != 0 ? run.budget : _payrollBudget;
+        euint64 start = FHE.isInitialized(run.spent)
+            ? run.spent
+            : FHE.asEuint64(0);
+        euint64 spent = start;
+
+        uint256 len = employeeList.length;
+        for (uint256 i = 0; i < len; i++) {
+            Employee storage emp = _employees[employeeList[i]];
+            if (!_isDue(emp, runId)) continue;
+            euint64 pay = _runPay(emp, _salaryAt(emp, asOf));
+            if (FHE.isInitialized(budget)) {
+                (ebool fits, euint64 total) = _fitBudget(budget, spent, pay);
+                spent = FHE.select(fits, total, spent);
+            } else {
+                spent = FHE.add(spent, pay);
+            }
+        }
+        euint64 owed = FHE.sub(spent, start);
+
+        Treasury storage t = _treasury;
+        if (FHE.isInitialized(t.pendingDelayed))
+            owed = FHE.add(owed, t.pendingDelayed);
+        if (FHE.isInitialized(t.committedEscrow))
+            owed = FHE.add(owed, t.committedEscrow);
+
+        euint64 balance = IERC7984(payToken).confidentialBalanceOf(address(this));
+        solvent = FHE.isInitialized(balance)
+            ? FHE.ge(balance, owed)
+            : FHE.eq(owed, FHE.asEuint64(0));
+
+        FHE.allowThis(solvent);
+        FHE.allow(solvent, employer);
+        FHE.allow(solvent, msg.sender);
+        _solvent          = solvent;
+        solvencyCheckedAt = block.timestamp;
+
+        emit SolvencyChecked(msg.sender, block.timestamp);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Off-Cycle Payments
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Pays an employee a one-off encrypted bonus outside the
+     *         payroll cycle.
+     * @dev    Opens an off-cycle payroll run of one and routes the amount
+     *         through the same trust tiers as salary (instant, delayed or
+     *         escrow). Off-cycle runs share the payroll run ID sequence
+     *         but are not capped by the payroll budget and leave pay
+     *         schedules unchanged.
+     * @param employee        Active employee to pay.
+     * @param encryptedAmount FHE-encrypted bonus amount.
+     * @param inputProof      ZKPoK proof for the encrypted value.
+     * @param memo            Reason shown in payment history.
+     */
+    function payBonus(
+        address employee,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        string calldata memo
+    ) external gated(Role.PayrollAdmin) noReentrantPayroll {
+        _requireActiveEmployee(employee);
+        uint256 runId = _openOffCycleRun(1);
+        _routePayment(employee, FHE.fromExternal(encryptedAmount, inputProof), runId);
+        emit BonusPaid(runId, employee, memo);
+    }
+
+    /**
+     * @notice Plaintext variant of payBonus for testing.
+     */
+    function payBonusPlaintext(
+        address employee,
+        uint64 amount,
+        string calldata memo
+    ) external gated(Role.PayrollAdmin) noReentrantPayroll {
+        _requireActiveEmployee(employee);
+        uint256 runId = _openOffCycleRun(1);
+        _routePayment(employee, FHE.asEuint64(amount), runId);
+        emit BonusPaid(runId, employee, memo);
+    }
+
+    /**
+     * @notice Pays a batch of employees off-cycle, e.g. a company-wide
+     *         bonus or a correction, as one off-cycle payroll run. Each
+     *         amount is routed like a bonus; see payBonus.
+     * @param employees        Active employees to pay, at most
+     *                         PAYROLL_BATCH_SIZE.
+     * @param encryptedAmounts FHE-encrypted amounts, one per employee.
+     * @param inputProof       ZKPoK proof covering all amounts.
+     * @param memo             Reason shown in payment history.
+     */
+    function payOffCycle(
+        address[] calldata employees,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof,
+        string calldata memo
+    ) external gated(Role.PayrollAdmin) noReentrantPayroll {
+        uint256 count = employees.length;
+        if (count != encryptedAmounts.length) revert ArrayLengthMismatch();
+        if (count == 0 || count > PAYROLL_BATCH_SIZE) revert BatchTooLarge();
+
+        uint256 runId = _openOffCycleRun(count);
+        for (uint256 i = 0; i < count; i++) {
+            _requireActiveEmployee(employees[i]);
+            _routePayment(
+                employees[i],
+                FHE.fromExternal(encryptedAmounts[i], inputProof),
+                runId
+            );
+        }
+        emit OffCyclePayrollExecuted(runId, count, memo);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Payment Management
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Releases the delayed part of a payment once its release
+     *         time has passed. Callable by anyone, like releaseMatured.
+     * @dev    Every payment has a delayed part, an encrypted zero unless
+     *         the employee has MEDIUM trust, so releasing it reveals
+     *         nothing about the tier.
+     * @param paymentId Identifier of the payment.
+     */
+    function releaseDelayed(uint256 paymentId) external {
+        _releaseDue(paymentId);
+    }
+
+    /**
+     * @notice Releases the matured delayed parts of several of the
+     *         caller's own payments in one transaction.
+     * @dev    Each payment must belong to the caller and pass the same
+     *         checks as releaseDelayed.
+     * @param paymentIds Identifiers of the caller's payments, at most
+     *                   MAX_BATCH_SIZE.
+     */
+    function claimDelayed(uint256[] calldata paymentIds) external {
+        if (paymentIds.length == 0 || paymentIds.length > MAX_BATCH_SIZE)
+            revert BatchTooLarge();
+        for (uint256 i = 0; i < paymentIds.length; i++) {
+            if (pendingPayments[paymentIds[i]].employee != msg.sender)
+                revert NotPaymentRecipient();
+            _releaseDue(paymentIds[i]);
+        }
+    }
+
+    /**
+     * @notice Releases an encrypted portion of an escrowed payment.
+     * @dev    The released amount is min(requested, remaining), computed
+     *         under encryption; the remainder stays pending on the same
+     *         record.
+     * @param paymentId       Identifier of the payment.
+     * @param encryptedAmount FHE-encrypted amount to release.
+     * @param inputProof      ZKPoK proof for the encrypted value.
+     */
+    function releasePartial(
+        uint256 paymentId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external gated(Role.Approver) {
+        PendingPayment storage p = _requireDivisible(paymentId);
+        euint64 requested = FHE.fromExternal(encryptedAmount, inputProof);
+        _releasePartial(paymentId, p, requested);
+    }
+
+    /**
+     * @notice Releases a portion of a payment from a plaintext amount
+     *         (testing convenience).
+     * @param paymentId Identifier of the payment.
+     * @param amount    Plaintext amount to release.
+     */
+    function releasePartialPlaintext(
+        uint256 paymentId,
+        uint64 amount
+    ) external gated(Role.Approver) {
+        PendingPayment storage p = _requireDivisible(paymentId);
+        _releasePartial(paymentId, p, FHE.asEuint64(amount));
+    }
+
+    /**
+     * @notice Splits encrypted tranches off an escrowed payment.
+     * @dev    Each tranche becomes its own escrowed payment record with
+     *         the same employee and payroll run, and can be released,
+     *         cancelled or given a milestone independently. Every tranche
+     *         is capped at what is left in escrow, so the tranches never
+     *         add up to more than the original amount. The parent keeps
+     *         its delayed part.
+     * @param paymentId        Identifier of the payment to split.
+     * @param encryptedAmounts FHE-encrypted tranche amounts.
+     * @param inputProof       ZKPoK proof covering all amounts.
+     * @return trancheIds      IDs of the newly created payment records.
+     */
+    function splitPayment(
+        uint256 paymentId,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof
+    ) external onlyRole(Role.PayrollAdmin) returns (uint256[] memory trancheIds) {
+        uint256 count = encryptedAmounts.length;
+        if (count == 0 || count > MAX_TRANCHES) revert BatchTooLarge();
+        PendingPayment storage parent = _requireDivisible(paymentId);
+
+        euint64[] memory amounts = new euint64[](count);
+        for (uint256 i = 0; i < count; i++) {
+            amounts[i] = FHE.fromExternal(encryptedAmounts[i], inputProof);
+        }
+        return _splitPayment(paymentId, parent, amounts);
+    }
+
+    /**
+     * @notice Splits tranches off a payment from plaintext amounts
+     *         (testing convenience).
+     * @param paymentId Identifier of the payment to split.
+     * @param amounts   Plaintext tranche amounts.
+     * @return trancheIds IDs of the newly created payment records.
+     */
+    function splitPaymentPlaintext(
+        uint256 paymentId,
+        uint64[] calldata amounts
+    ) external onlyRole(Role.PayrollAdmin) returns (uint256[] memory trancheIds) {
+        uint256 count = amounts.length;
+        if (count == 0 || count > MAX_TRANCHES) revert BatchTooLarge();
+        PendingPayment storage parent = _requireDivisible(paymentId);
+
+        euint64[] memory encrypted = new euint64[](count);
+        for (uint256 i = 0; i < count; i++) {
+            encrypted[i] = FHE.asEuint64(amounts[i]);
+        }
+        return _splitPayment(paymentId, parent, encrypted);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Keeper Automation
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Releases every delayed part whose time lock has passed, for
+     *         up to `maxCount` payments. Callable by anyone, like
+     *         releaseDelayed.
+     * @dev    Counts above MAX_BATCH_SIZE are capped. Escrowed parts are
+     *         never touched; they still need employer approval.
+     * @param maxCount Maximum number of payments to release.
+     * @return released Number of payments released.
+     */
+    function releaseMatured(uint256 maxCount) external returns (uint256 released) {
+        return _releaseMatured(maxCount);
+    }
+
+    /**
+     * @notice Keeper action (Chainlink Automation compatible). Re-checks
+     *         maturity on-chain, so stale performData is harmless.
+     * @param performData abi-encoded batch size from checkUpkeep.
+     */
+    function performUpkeep(bytes calldata performData) external {
+        _releaseMatured(abi.decode(performData, (uint256)));
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Organization Roles
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Grants a role to a member of the employer's team.
+     * @dev    Auditors get read access to salaries and payments created
+     *         from now on; use grantAuditAccess for existing ones. The
+     *         treasury totals stay readable by the employer only.
+     * @param account Team member address.
+     * @param role    Role to grant.
+     */
+    function grantRole(address account, Role role) external onlyEmployer {
+        if (account == address(0)) revert ZeroAddress();
+        uint8 bit = _roleBit(role);
+        uint8 current = roles[account];
+        if (current & bit != 0) return;
+
+        if (role == Role.Auditor) {
+            if (_auditors.length >= MAX_AUDITORS) revert TooManyAuditors();
+            _auditors.push(account);
+        }
+        if (current == 0 && !_isTeamMember(account)) _team.push(account);
+
+        roles[account] = current | bit;
+        emit RoleGranted(account, role);
+    }
+
+    /**
+     * @notice Revokes a role.
+     * @dev    FHE read grants cannot be withdrawn: a revoked auditor keeps
+     *         access to ciphertexts shared before, but not to new ones.
+     * @param account Team member address.
+     * @param role    Role to revoke.
+     */
+    function revokeRole(address account, Role role) external onlyEmployer {
+        uint8 bit = _roleBit(role);
+        if (roles[account] & bit == 0) return;
+
+        if (role == Role.Auditor) {
+            uint256 last = _auditors.length - 1;
+            for (uint256 i = 0; i <= last; i++) {
+                if (_auditors[i] == account) {
+                    _auditors[i] = _auditors[last];
+                    _auditors.pop();
+                    break;
+                }
+            }
+        }
+
+        roles[account] &= ~bit;
+        emit RoleRevoked(account, role);
+    }
+
+    /**
+     * @notice Shares existing salary and payment ciphertexts with an
+     *         auditor. Ciphertexts created after the auditor was added are
+     *         shared automatically.
+     * @param auditor    Account holding the Auditor role.
+     * @param wallets    Employees whose current salary to share.
+     * @param paymentIds Payments whose current amounts to share.
+     */
+    function grantAuditAccess(
+        address auditor,
+        address[] calldata wallets,
+        uint256[] calldata paymentIds
+    ) external onlyEmployer {
+        if (roles[auditor] & _roleBit(Role.Auditor) == 0) revert NotEmployer();
+        if (wallets.length + paymentIds.length > MAX_BATCH_SIZE)
+            revert BatchTooLarge();
+
+        for (uint256 i = 0; i < wallets.length; i++) {
+            Employee storage emp = _employees[wallets[i]];
+            if (emp.wallet == address(0)) revert EmployeeNotFound();
+            FHE.allow(emp.encryptedSalary, auditor);
+        }
+        for (uint256 i = 0; i < paymentIds.length; i++) {
+            PendingPayment storage p = pendingPayments[paymentIds[i]];
+            if (p.status == PaymentStatus.None) revert PaymentNotFound();
+            FHE.allow(p.encryptedAmount, auditor);
+            FHE.allow(p.instantAmount, auditor);
+            FHE.allow(p.delayedAmount, auditor);
+            FHE.allow(p.escrowAmount, auditor);
+        }
+
+        emit AuditAccessGranted(auditor, wallets.length, paymentIds.length);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Payment Configuration
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Changes the routing policy, the MEDIUM-tier delay period used
+     *         without one, and the timelock on future changes. Applies at
+     *         once while configDelay is 0; otherwise it is scheduled for
+     *         configDelay from now and replaces any change already
+     *         scheduled.
+     * @dev    Owner, or the approval gate once one is installed. Payments
+     *         already routed keep their parts and release times.
+     * @param newDelayPeriod   Between MIN_DELAY_PERIOD and MAX_DELAY_PERIOD.
+     * @param newRoutingPolicy PayGramRoutingPolicy registered with
+     *                         TrustScoring, or zero for its three tiers.
+     *                         Checked when set, so a bad address never
+     *                         waits out the timelock.
+     * @param newConfigDelay   Timelock for later changes, at most MAX_CONFIG_DELAY.
+     */
+    function setPaymentConfig(
+        uint256 newDelayPeriod,
+        address newRoutingPolicy,
+        uint256 newConfigDelay
+    ) external {
+        _checkOwnerOrGate();
+        if (newDelayPeriod < MIN_DELAY_PERIOD || newDelayPeriod > MAX_DELAY_PERIOD)
+            revert InvalidDelayPeriod();
+        if (newConfigDelay > MAX_CONFIG_DELAY) revert InvalidConfigDelay();
+        _checkRoutingPolicy(newRoutingPolicy);
+
+        PaymentConfig memory config = PaymentConfig({
+            delayPeriod:   newDelayPeriod,
+            routingPolicy: newRoutingPolicy,
+            configDelay:   newConfigDelay,
+            eta:           block.timestamp + configDelay
+        });
+
+        if (configDelay == 0) {
+            _applyPaymentConfig(config);
+        } else {
+            _pendingConfig = config;
+            emit PaymentConfigScheduled(
+                newDelayPeriod,
+                newRoutingPolicy,
+                newConfigDelay,
+                config.eta
+            );
+        }
+    }
+
+    /**
+     * @notice Applies the scheduled payment configuration once its
+     *         timelock has passed. Callable by anyone.
+     */
+    function applyPaymentConfig() external {
+        PaymentConfig memory config = _pendingConfig;
+        if (config.eta == 0) revert NoPendingConfig();
+        if (block.timestamp < config.eta) revert ConfigNotReady();
+        delete _pendingConfig;
+        _applyPaymentConfig(config);
+    }
+
+    /**
+     * @notice Drops the scheduled payment configuration.
+     * @dev    Owner, or the approval gate once one is installed.
+     */
+    function cancelPaymentConfig() external {
+        _checkOwnerOrGate();
+        if (_pendingConfig.eta == 0) revert NoPendingConfig();
+        delete _pendingConfig;
+        emit PaymentConfigCancelled();
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Payment Management
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @dev Releases every delayed part of a payment whose time lock has
+     *      passed. Reverts unless at least one has.
+     */
+    function _releaseDue(uint256 paymentId) internal {
+        PendingPayment storage p = pendingPayments[paymentId];
+        if (p.status == PaymentStatus.None) revert PaymentNotFound();
+        if (p.releaseTime == 0) revert PaymentNotReleasable();
+        if (block.timestamp < p.releaseTime) revert DelayNotElapsed();
+
+        do {
+            _releaseDelayed(paymentId, p);
+        } while (p.releaseTime != 0 && block.timestamp >= p.releaseTime);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal — Payment Configuration
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @dev Reverts unless `policy` is zero or a contract registered with
+     *      TrustScoring that answers like a PayGramRoutingPolicy: 1 to
+     *      MAX_ROUTING_TIERS tiers, matching tierCount, the last with a
+     *      minimum score of 0.
+     */
+    function _checkRoutingPolicy(address policy) internal view {
+        if (policy == address(0)) return;
+        if (policy.code.length == 0 || !trustScoring.registeredPolicies(policy))
+            revert InvalidRoutingPolicy();
+
+        PayGramRoutingPolicy routing = PayGramRoutingPolicy(policy);
+        uint256 count;
+        try routing.tierCount() returns (uint256 n) {
+            count = n;
+        } catch {
+            revert InvalidRoutingPolicy();
+        }
+        if (count == 0 || count > MAX_ROUTING_TIERS)
+            revert InvalidRoutingPolicy();
+
+        try routing.getTiers() returns (PayGramRoutingPolicy.Tier[] memory tiers) {
+            if (tiers.length != count || tiers[count - 1].minScore != 0)
+                revert InvalidRoutingPolicy();
+        } catch {
+            revert InvalidRoutingPolicy();
+        }
+    }
+
+    /**
+     * @dev Writes a validated payment configuration and announces it.
+     */
+    function _applyPaymentConfig(PaymentConfig memory config) internal {
+        delayPeriod   = config.delayPeriod;
+        routingPolicy = PayGramRoutingPolicy(config.routingPolicy);
+        configDelay   = config.configDelay;
+        emit PaymentConfigUpdated(
+            config.delayPeriod,
+            config.routingPolicy,
+            config.configDelay
+        );
+    }
+}
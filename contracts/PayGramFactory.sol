@@ -0,0 +1,254 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Ownable2Step, Ownable} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
+
+/// @dev The slice of PayGramCore the factory calls. Kept local so the factory
+///      does not compile the full core alongside it.
+interface IPayGramCoreInit {
+    function initialize(
+        address initialOwner,
+        address employerAddress,
+        address _trustScoring,
+        address _payToken
+    ) external;
+}
+
+/**
+ * @title PayGramFactory
+ * @notice One-transaction tenant deployment for Trusted PayGram. Each call to
+ *         createOrganization deploys a PayGramCore for the caller, wires it to
+ *         a TrustScoring and a PayGramToken, and records it in an enumerable
+ *         on-chain registry that frontends read instead of hard-coded
+ *         addresses.
+ *
+ * @dev Cores are EIP-1167 minimal proxies of a shared implementation, since
+ *      the full PayGramCore creation code does not fit inside another
+ *      contract. Every clone has its own storage and is initialized with the
+ *      caller as both owner and employer.
+ *
+ *      Tenants either pass their own TrustScoring and token instances or
+ *      pass zero addresses to use the factory's shared defaults. A shared
+ *      token needs no rewiring: each core pays out of its own confidential
+ *      balance.
+ */
+contract PayGramFactory is Ownable2Step {
+    // ──────────────────────────────────────────────────────────────────
+    //  Structs
+    // ──────────────────────────────────────────────────────────────────
+
+    struct Organization {
+        string  name;
+        address core;
+        address employer;
+        address trustScoring;
+        address payToken;
+        uint256 createdAt;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  State
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @notice PayGramCore implementation that new organizations clone.
+    address public coreImplementation;
+
+    /// @notice TrustScoring used when a tenant does not bring its own.
+    address public defaultTrustScoring;
+
+    /// @notice PayGramToken used when a tenant does not bring its own.
+    address public defaultPayToken;
+
+    /// @dev Registry, indexed by organization ID.
+    Organization[] private _organizations;
+
+    /// @dev Organization IDs created by each employer.
+    mapping(address => uint256[]) private _employerOrganizations;
+
+    /// @notice True for cores deployed by this factory.
+    mapping(address => bool) public isOrganization;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Events
+    // ──────────────────────────────────────────────────────────────────
+
+    event OrganizationCreated(
+        uint256 indexed orgId,
+        address indexed core,
+        address indexed employer,
+        string name
+    );
+    event CoreImplementationUpdated(address indexed implementation);
+    event DefaultsUpdated(address indexed trustScoring, address indexed payToken);
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Errors
+    // ──────────────────────────────────────────────────────────────────
+
+    error ZeroAddress();
+    error EmptyName();
+    error OrganizationNotFound();
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Constructor
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @param initialOwner    Factory admin (for Ownable2Step).
+     * @param implementation  Deployed PayGramCore to clone.
+     * @param trustScoring    Shared TrustScoring instance.
+     * @param payToken        Shared PayGramToken instance.
+     */
+    constructor(
+        address initialOwner,
+        address implementation,
+        address trustScoring,
+        address payToken
+    ) Ownable(initialOwner) {
+        _setCoreImplementation(implementation);
+        _setDefaults(trustScoring, payToken);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Tenant Deployment
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Deploys a PayGramCore owned and employed by the caller.
+     * @dev    The caller funds the core afterwards with a confidential
+     *         transfer, exactly as with a hand-deployed core.
+     * @param name         Display name for the registry.
+     * @param trustScoring Tenant TrustScoring, or zero for the shared one.
+     * @param payToken     Tenant PayGramToken, or zero for the shared one.
+     * @return orgId Registry index of the new organization.
+     * @return core  Address of the new PayGramCore.
+     */
+    function createOrganization(
+        string calldata name,
+        address trustScoring,
+        address payToken
+    ) external returns (uint256 orgId, address core) {
+        if (bytes(name).length == 0) revert EmptyName();
+        if (trustScoring == address(0)) trustScoring = defaultTrustScoring;
+        if (payToken == address(0)) payToken = defaultPayToken;
+
+        core = Clones.clone(coreImplementation);
+        IPayGramCoreInit(core).initialize(
+            msg.sender,
+            msg.sender,
+            trustScoring,
+            payToken
+        );
+
+        orgId = _organizations.length;
+        _organizations.push(Organization({
+            name:         name,
+            core:         core,
+            employer:     msg.sender,
+            trustScoring: trustScoring,
+            payToken:     payToken,
+            createdAt:    block.timestamp
+        }));
+        _employerOrganizations[msg.sender].push(orgId);
+        isOrganization[core] = true;
+
+        emit OrganizationCreated(orgId, core, msg.sender, name);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Admin
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Points new organizations at another PayGramCore build.
+     *         Existing clones keep their implementation.
+     * @param implementation Deployed PayGramCore to clone.
+     */
+    function setCoreImplementation(address implementation) external onlyOwner {
+        _setCoreImplementation(implementation);
+    }
+
+    /**
+     * @notice Updates the shared TrustScoring and token for new organizations.
+     * @param trustScoring Shared TrustScoring instance.
+     * @param payToken     Shared PayGramToken instance.
+     */
+    function setDefaults(address trustScoring, address payToken) external onlyOwner {
+        _setDefaults(trustScoring, payToken);
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  View Functions
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Number of organizations in the registry.
+     */
+    function organizationCount() external view returns (uint256) {
+        return _organizations.length;
+    }
+
+    /**
+     * @notice Returns a registry entry.
+     * @param orgId Registry index.
+     */
+    function getOrganization(uint256 orgId)
+        external
+        view
+        returns (Organization memory)
+    {
+        if (orgId >= _organizations.length) revert OrganizationNotFound();
+        return _organizations[orgId];
+    }
+
+    /**
+     * @notice Returns a page of the registry in creation order.
+     * @param offset First registry index.
+     * @param limit  Maximum number of entries.
+     */
+    function getOrganizations(uint256 offset, uint256 limit)
+        external
+        view
+        returns (Organization[] memory page)
+    {
+        uint256 total = _organizations.length;
+        if (offset >= total) return new Organization[](0);
+
+        uint256 end = offset + limit > total ? total : offset + limit;
+        page = new Organization[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _organizations[i];
+        }
+    }
+
+    /**
+     * @notice Registry indexes of the organizations an employer created.
+     * @param employer Creator address.
+     */
+    function getOrganizationsByEmployer(address employer)
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return _employerOrganizations[employer];
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Internal
+    // ──────────────────────────────────────────────────────────────────
+
+    function _setCoreImplementation(address implementation) internal {
+        if (implementation == address(0)) revert ZeroAddress();
+        coreImplementation = implementation;
+        emit CoreImplementationUpdated(implementation);
+    }
+
+    function _setDefaults(address trustScoring, address payToken) internal {
+        if (trustScoring == address(0)) revert ZeroAddress();
+        if (payToken == address(0)) revert ZeroAddress();
+        defaultTrustScoring = trustScoring;
+        defaultPayToken     = payToken;
+        emit DefaultsUpdated(trustScoring, payToken);
+    }
+}
@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title PayGramRoutingPolicy
+ * @notice Ordered trust tiers for PayGramCore payment routing. Each tier
+ *         has a minimum trust score and a payout behavior: the share of a
+ *         payment paid at once, the share held for a delay, and the rest
+ *         held in escrow until approved. For example:
+ *
+ *             minScore  instant  delayed        escrow
+ *             80        100%     -              -        instant
+ *             60        70%      30% for 7 days -        split
+ *             30        -        100% for 48 h  -        delayed
+ *             0         -        -              100%     escrow
+ *
+ * @dev Install with PayGramCore.setPaymentConfig. A policy is immutable;
+ *      to change it, deploy a new one and install that. Tiers are listed
+ *      highest first with strictly decreasing minimum scores, and the
+ *      last one has a minimum of 0 so that every score, and employees
+ *      without one, match a tier.
+ */
+contract PayGramRoutingPolicy {
+    // ──────────────────────────────────────────────────────────────────
+    //  Constants
+    // ──────────────────────────────────────────────────────────────────
+
+    uint16  public constant BPS       = 10_000;
+    uint256 public constant MAX_TIERS = 8;
+    uint64  public constant MAX_SCORE = 100;
+    uint32  public constant MIN_DELAY = 1 hours;
+    uint32  public constant MAX_DELAY = 30 days;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Structs
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @dev Shares are in basis points; escrow takes BPS - instantBps -
+    ///      delayedBps. `delay` is set exactly when delayedBps is.
+    struct Tier {
+        uint64 minScore;
+        uint16 instantBps;
+        uint16 delayedBps;
+        uint32 delay;
+        string name;
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  State
+    // ──────────────────────────────────────────────────────────────────
+
+    Tier[] private _tiers;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Errors
+    // ──────────────────────────────────────────────────────────────────
+
+    error InvalidTierCount();
+    error InvalidTierOrder();
+    error InvalidSplit();
+    error InvalidDelay();
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Constructor
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @param tiers 1 to MAX_TIERS tiers, highest first, the last with a
+     *              minimum score of 0.
+     */
+    constructor(Tier[] memory tiers) {
+        uint256 count = tiers.length;
+        if (count == 0 || count > MAX_TIERS) revert InvalidTierCount();
+        if (tiers[0].minScore > MAX_SCORE || tiers[count - 1].minScore != 0)
+            revert InvalidTierOrder();
+
+        for (uint256 i = 0; i < count; i++) {
+            Tier memory t = tiers[i];
+            if (i > 0 && t.minScore >= tiers[i - 1].minScore) revert InvalidTierOrder();
+            if (uint256(t.instantBps) + t.delayedBps > BPS) revert InvalidSplit();
+            if (t.delayedBps == 0) {
+                if (t.delay != 0) revert InvalidDelay();
+            } else if (t.delay < MIN_DELAY || t.delay > MAX_DELAY) {
+                revert InvalidDelay();
+            }
+            _tiers.push(t);
+        }
+    }
+
+    // ──────────────────────────────────────────────────────────────────
+    //  View Functions
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @notice Number of tiers.
+    function tierCount() external view returns (uint256) {
+        return _tiers.length;
+    }
+
+    /// @notice Returns the tier at `index`, 0 being the highest.
+    function getTier(uint256 index) external view returns (Tier memory) {
+        return _tiers[index];
+    }
+
+    /// @notice Returns every tier, highest first.
+    function getTiers() external view returns (Tier[] memory) {
+        return _tiers;
+    }
+}
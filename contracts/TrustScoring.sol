@@ -4,6 +4,7 @@ pragma solidity ^0.8.27;
 import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {Ownable2Step, Ownable} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {PayGramRoutingPolicy} from "./PayGramRoutingPolicy.sol";
 
 /**
  * @title TrustScoring
@@ -12,23 +13,51 @@ import {Ownable2Step, Ownable} from "@openzeppelin/contracts/access/Ownable2Step
  *         happens entirely within FHE, so neither the contract owner nor external observers
  *         can read the underlying numeric value without an explicit decryption grant.
  *
- * @dev Trust tiers drive payment routing in PayGramCore:
- *      - HIGH   (score >= 75): instant encrypted transfer
- *      - MEDIUM (score >= 40): 24-hour delayed release
- *      - LOW    (score <  40): milestone-gated escrow
+ * @dev Trust tiers drive payment routing in PayGramCore, which matches each
+ *      score against its routing policy with getTrustTier. Policies must be
+ *      registered by the owner first. Without a policy it uses the tiers
+ *      defined here:
+ *      - HIGH   (score >= highTrustThreshold, 75 by default): instant encrypted transfer
+ *      - MEDIUM (score >= mediumTrustThreshold, 40 by default): delayed release
+ *      - LOW    (score <  mediumTrustThreshold): milestone-gated escrow
+ *
+ *      Thresholds, the score expiry and the timelock on changing them are set by the
+ *      owner through setTierConfig.
  *
  *      All FHE comparison and select operations modify state (coprocessor interaction),
  *      so tier-check functions are intentionally non-view.
  */
+// solhint-disable-next-line max-states-count
 contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     // ──────────────────────────────────────────────────────────────────
     //  Constants
     // ──────────────────────────────────────────────────────────────────
 
-    uint64  public constant HIGH_TRUST_THRESHOLD   = 75;
-    uint64  public constant MEDIUM_TRUST_THRESHOLD  = 40;
-    uint64  public constant MAX_SCORE               = 100;
-    uint256 public constant SCORE_EXPIRY             = 90 days;
+    uint64  public constant MAX_SCORE        = 100;
+    uint256 public constant MIN_SCORE_EXPIRY = 7 days;
+    uint256 public constant MAX_SCORE_EXPIRY = 365 days;
+    uint256 public constant MAX_CONFIG_DELAY = 30 days;
+
+    // ──────────────────────────────────────────────────────────────────
+    //  Structs
+    // ──────────────────────────────────────────────────────────────────
+
+    /// @dev A tier configuration waiting out the timelock; eta is 0 when
+    ///      nothing is scheduled.
+    struct TierConfig {
+        uint64  highThreshold;
+        uint64  mediumThreshold;
+        uint256 scoreExpiry;
+        uint256 configDelay;
+        uint256 eta;
+    }
+
+    /// @dev Encrypted 0/1 flags for the tier a score was counted in; LOW
+    ///      is neither.
+    struct TierFlags {
+        euint64 high;
+        euint64 medium;
+    }
 
     // ──────────────────────────────────────────────────────────────────
     //  State
@@ -40,6 +69,11 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     /// @dev Whether a trust score has been recorded for an address.
     mapping(address => bool) private _hasScore;
 
+    /// @dev Encrypted zero that getTrustTier evaluates for unscored
+    ///      accounts, stored and granted like a score so that reading it
+    ///      costs the same.
+    euint64 private _zeroScore;
+
     /// @dev Addresses authorized to submit trust scores.
     mapping(address => bool) public authorizedOracles;
 
@@ -49,6 +83,39 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     /// @dev Total number of addresses with active (non-revoked) trust scores.
     uint256 public totalScoredAddresses;
 
+    /// @dev Encrypted aggregates over every active score, expired ones
+    ///      included: the sum of scores and the number of scores in each
+    ///      tier. Readable by the owner only; uninitialized until the
+    ///      first score is set.
+    euint64 private _scoreSum;
+    euint64 private _highCount;
+    euint64 private _mediumCount;
+    euint64 private _lowCount;
+
+    /// @dev Tier each score was counted in, so it leaves the aggregates
+    ///      the way it entered them even if the thresholds changed in
+    ///      between.
+    mapping(address => TierFlags) private _tierFlags;
+
+    /// @notice Minimum score for the HIGH tier.
+    uint64 public highTrustThreshold;
+
+    /// @notice Minimum score for the MEDIUM tier.
+    uint64 public mediumTrustThreshold;
+
+    /// @notice Age after which a score no longer passes tier checks.
+    uint256 public scoreExpiry;
+
+    /// @notice Wait between scheduling and applying a tier configuration
+    ///         change, 0 to apply changes at once.
+    uint256 public configDelay;
+
+    /// @dev Scheduled configuration change, see TierConfig.
+    TierConfig private _pendingConfig;
+
+    /// @notice Routing policies whose tiers getTrustTier evaluates.
+    mapping(address => bool) public registeredPolicies;
+
     // ──────────────────────────────────────────────────────────────────
     //  Events
     // ──────────────────────────────────────────────────────────────────
@@ -57,6 +124,21 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     event OracleAuthorized(address indexed oracle, bool authorized);
     event TrustScoreRevoked(address indexed account);
     event ScoreAccessGranted(address indexed account, address indexed allowedAddress);
+    event TierConfigUpdated(
+        uint64  highThreshold,
+        uint64  mediumThreshold,
+        uint256 scoreExpiry,
+        uint256 configDelay
+    );
+    event TierConfigScheduled(
+        uint64  highThreshold,
+        uint64  mediumThreshold,
+        uint256 scoreExpiry,
+        uint256 configDelay,
+        uint256 eta
+    );
+    event TierConfigCancelled();
+    event RoutingPolicyRegistered(address indexed policy, bool registered);
 
     // ──────────────────────────────────────────────────────────────────
     //  Errors
@@ -68,6 +150,12 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     error InvalidScoreRange();
     error BatchLengthMismatch();
     error ZeroAddress();
+    error InvalidThresholds();
+    error InvalidScoreExpiry();
+    error InvalidConfigDelay();
+    error NoPendingConfig();
+    error ConfigNotReady();
+    error PolicyNotRegistered();
 
     // ──────────────────────────────────────────────────────────────────
     //  Modifiers
@@ -95,7 +183,14 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     /**
      * @param initialOwner Account that owns this contract and can manage oracle access.
      */
-    constructor(address initialOwner) Ownable(initialOwner) {}
+    constructor(address initialOwner) Ownable(initialOwner) {
+        highTrustThreshold   = 75;
+        mediumTrustThreshold = 40;
+        scoreExpiry          = 90 days;
+
+        _zeroScore = FHE.asEuint64(0);
+        FHE.allowThis(_zeroScore);
+    }
 
     // ──────────────────────────────────────────────────────────────────
     //  Oracle Management
@@ -112,6 +207,117 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
         emit OracleAuthorized(oracle, authorized);
     }
 
+    // ──────────────────────────────────────────────────────────────────
+    //  Configuration
+    // ──────────────────────────────────────────────────────────────────
+
+    /**
+     * @notice Registers or unregisters a routing policy for getTrustTier.
+     * @dev    Anyone can learn which of a registered policy's tiers an
+     *         account falls in, so only register policies whose
+     *         thresholds are coarse enough to disclose. Cores with an
+     *         unregistered policy cannot route payments to scored
+     *         employees.
+     * @param policy     PayGramRoutingPolicy address.
+     * @param registered Whether getTrustTier accepts it.
+     */
+    function setRoutingPolicy(address policy, bool registered) external onlyOwner {
+        if (policy == address(0)) revert ZeroAddress();
+        registeredPolicies[policy] = registered;
+        emit RoutingPolicyRegistered(policy, registered);
+    }
+
+    /**
+     * @notice Changes the tier thresholds, the score expiry and the timelock
+     *         on future changes. Applies at once while configDelay is 0;
+     *         otherwise it is scheduled for configDelay from now and
+     *         replaces any change already scheduled.
+     * @dev    Scores are not re-evaluated: tier checks use the new
+     *         thresholds from the moment they apply, while the encrypted
+     *         tier counts keep each score in the tier it was counted in
+     *         until it is next set or revoked.
+     * @param highThreshold   Minimum HIGH score, above mediumThreshold and at most MAX_SCORE.
+     * @param mediumThreshold Minimum MEDIUM score, above zero.
+     * @param newScoreExpiry  Between MIN_SCORE_EXPIRY and MAX_SCORE_EXPIRY.
+     * @param newConfigDelay  Timelock for later changes, at most MAX_CONFIG_DELAY.
+     */
+    function setTierConfig(
+        uint64  highThreshold,
+        uint64  mediumThreshold,
+        uint256 newScoreExpiry,
+        uint256 newConfigDelay
+    ) external onlyOwner {
+        if (
+            mediumThreshold == 0 ||
+            highThreshold <= mediumThreshold ||
+            highThreshold > MAX_SCORE
+        ) revert InvalidThresholds();
+        if (newScoreExpiry < MIN_SCORE_EXPIRY || newScoreExpiry > MAX_SCORE_EXPIRY)
+            revert InvalidScoreExpiry();
+        if (newConfigDelay > MAX_CONFIG_DELAY) revert InvalidConfigDelay();
+
+        TierConfig memory config = TierConfig({
+            highThreshold:   highThreshold,
+            mediumThreshold: mediumThreshold,
+            scoreExpiry:     newScoreExpiry,
+            configDelay:     newConfigDelay,
+            eta:             block.timestamp + configDelay
+        });
+
+        if (configDelay == 0) {
+            _applyTierConfig(config);
+        } else {
+            _pendingConfig = config;
+            emit TierConfigScheduled(
+                highThreshold,
+                mediumThreshold,
+                newScoreExpiry,
+                newConfigDelay,
+                config.eta
+            );
+        }
+    }
+
+    /**
+     * @notice Applies the scheduled tier configuration once its timelock
+     *         has passed. Callable by anyone.
+     */
+    function applyTierConfig() external {
+        TierConfig memory config = _pendingConfig;
+        if (config.eta == 0) revert NoPendingConfig();
+        if (block.timestamp < config.eta) revert ConfigNotReady();
+        delete _pendingConfig;
+        _applyTierConfig(config);
+    }
+
+    /**
+     * @notice Drops the scheduled tier configuration.
+     */
+    function cancelTierConfig() external onlyOwner {
+        if (_pendingConfig.eta == 0) revert NoPendingConfig();
+        delete _pendingConfig;
+        emit TierConfigCancelled();
+    }
+
+    /**
+     * @notice Returns the scheduled tier configuration; `eta` is 0 when
+     *         nothing is scheduled.
+     */
+    function getPendingTierConfig()
+        external
+        view
+        returns (
+            uint64  highThreshold,
+            uint64  mediumThreshold,
+            uint256 pendingScoreExpiry,
+            uint256 pendingConfigDelay,
+            uint256 eta
+        )
+    {
+        TierConfig storage c = _pendingConfig;
+        return (c.highThreshold, c.mediumThreshold, c.scoreExpiry, c.configDelay, c.eta);
+    }
+
     // ──────────────────────────────────────────────────────────────────
     //  Score Management — Encrypted Input
     // ──────────────────────────────────────────────────────────────────
@@ -191,65 +397,87 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     // ──────────────────────────────────────────────────────────────────
 
     /**
-     * @notice Returns an encrypted boolean: true if `account` has HIGH trust (score >= 75).
+     * @notice Returns an encrypted boolean: true if `account` has HIGH trust.
      * @dev    Non-view because FHE.ge and FHE.asEuint64 interact with the coprocessor.
      * @param account Address to evaluate.
-     * @return result  Encrypted boolean — true when score >= HIGH_TRUST_THRESHOLD.
+     * @return result  Encrypted boolean — true when score >= highTrustThreshold.
      */
     function isHighTrust(
         address account
     ) external scored(account) notExpired(account) returns (ebool result) {
-        result = FHE.ge(_trustScores[account], FHE.asEuint64(HIGH_TRUST_THRESHOLD));
+        result = FHE.ge(_trustScores[account], FHE.asEuint64(highTrustThreshold));
         FHE.allowTransient(result, msg.sender);
     }
 
     /**
-     * @notice Returns an encrypted boolean: true if `account` has MEDIUM trust (score >= 40).
+     * @notice Returns an encrypted boolean: true if `account` has at least MEDIUM trust.
      * @param account Address to evaluate.
-     * @return result  Encrypted boolean — true when score >= MEDIUM_TRUST_THRESHOLD.
+     * @return result  Encrypted boolean — true when score >= mediumTrustThreshold.
      */
     function isMediumTrust(
         address account
     ) external scored(account) notExpired(account) returns (ebool result) {
-        result = FHE.ge(_trustScores[account], FHE.asEuint64(MEDIUM_TRUST_THRESHOLD));
+        result = FHE.ge(_trustScores[account], FHE.asEuint64(mediumTrustThreshold));
         FHE.allowTransient(result, msg.sender);
     }
 
     /**
-     * @notice Returns an encrypted boolean: true if `account` has LOW trust (score < 40).
+     * @notice Returns an encrypted boolean: true if `account` has LOW trust.
      * @param account Address to evaluate.
-     * @return result  Encrypted boolean — true when score < MEDIUM_TRUST_THRESHOLD.
+     * @return result  Encrypted boolean — true when score < mediumTrustThreshold.
      */
     function isLowTrust(
         address account
     ) external scored(account) notExpired(account) returns (ebool result) {
-        result = FHE.lt(_trustScores[account], FHE.asEuint64(MEDIUM_TRUST_THRESHOLD));
+        result = FHE.lt(_trustScores[account], FHE.asEuint64(mediumTrustThreshold));
         FHE.allowTransient(result, msg.sender);
     }
 
     /**
-     * @notice Returns an encrypted tier number: 2 = HIGH, 1 = MEDIUM, 0 = LOW.
+     * @notice Returns the encrypted index of the first tier of `policy`
+     *         whose minimum score `account` meets, or of its last tier if
+     *         `account` has no score.
      * @dev    Uses chained FHE.select to compute the tier without decrypting.
-     *         Grants the contract and the owner read access to the result.
+     *         Only the caller gets transient access to the result. The zero
+     *         address stands for this contract's tiers: 0 = HIGH,
+     *         1 = MEDIUM, 2 = LOW.
+     *
+     *         An unscored account is evaluated on an encrypted zero, which
+     *         every tier set places last, through the same operations, so
+     *         callers need not branch on hasScore and the call looks the
+     *         same either way. An expired score still reverts.
      * @param account Address to evaluate.
-     * @return tier    Encrypted tier value.
+     * @param policy  Registered PayGramRoutingPolicy, or zero.
+     * @return tier   Encrypted tier index, highest tier first.
      */
     function getTrustTier(
-        address account
-    ) external scored(account) notExpired(account) returns (euint64 tier) {
-        euint64 score = _trustScores[account];
+        address account,
+        address policy
+    ) external returns (euint64 tier) {
+        bool isScored = _hasScore[account];
+        bool expired  = _isExpired(account);
+        euint64 stored = _trustScores[account];
+        euint64 zero   = _zeroScore;
+        bool stale;
+        euint64 score;
+        // Combine without jumps so both cases take the same path
+        // solhint-disable-next-line no-inline-assembly
+        assembly ("memory-safe") {
+            stale := and(isScored, expired)
+            score := xor(zero, mul(xor(stored, zero), isScored))
+        }
+        if (stale) revert ScoreExpired();
 
-        ebool isHigh = FHE.ge(score, FHE.asEuint64(HIGH_TRUST_THRESHOLD));
-        ebool isMed  = FHE.ge(score, FHE.asEuint64(MEDIUM_TRUST_THRESHOLD));
+        uint64[] memory minScores = _tierMinScores(policy);
 
-        tier = FHE.select(
-            isHigh,
-            FHE.asEuint64(2),
-            FHE.select(isMed, FHE.asEuint64(1), FHE.asEuint64(0))
-        );
+        // From the lowest tier up, so the highest tier met wins
+        tier = FHE.asEuint64(uint64(minScores.length));
+        for (uint256 i = minScores.length; i > 0; i--) {
+            ebool meets = FHE.ge(score, FHE.asEuint64(minScores[i - 1]));
+            tier = FHE.select(meets, FHE.asEuint64(uint64(i - 1)), tier);
+        }
 
         FHE.allowThis(tier);
-        FHE.allow(tier, owner());
         FHE.allowTransient(tier, msg.sender);
     }
 
@@ -269,6 +497,26 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
         score = _trustScores[account];
     }
 
+    /**
+     * @notice Returns the encrypted score aggregates: the sum of all active
+     *         scores and the number of them in each tier.
+     * @dev    Only the owner can decrypt them. Divide the decrypted sum by
+     *         totalScoredAddresses for the average score. Handles are zero
+     *         (uninitialized) until the first score is set.
+     */
+    function getScoreAggregates()
+        external
+        view
+        returns (
+            euint64 scoreSum,
+            euint64 highCount,
+            euint64 mediumCount,
+            euint64 lowCount
+        )
+    {
+        return (_scoreSum, _highCount, _mediumCount, _lowCount);
+    }
+
     /**
      * @notice Whether a trust score has been recorded for `account`.
      */
@@ -277,7 +525,7 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     }
 
     /**
-     * @notice Whether the score for `account` has passed the 90-day expiry window.
+     * @notice Whether the score for `account` is older than scoreExpiry.
      */
     function isScoreExpired(address account) external view returns (bool) {
         if (!_hasScore[account]) return true;
@@ -313,11 +561,14 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     /**
      * @notice Revokes the trust score for `account`, clearing all associated state.
      * @dev    The encrypted ciphertext handle becomes inaccessible after deletion.
-     *         totalScoredAddresses is decremented.
+     *         totalScoredAddresses is decremented and the score is removed
+     *         from the encrypted aggregates.
      * @param account Address whose score to revoke.
      */
     function revokeScore(address account) external onlyOracle scored(account) {
+        _removeFromAggregates(account);
         _trustScores[account] = euint64.wrap(0);
+        delete _tierFlags[account];
         _hasScore[account] = false;
         lastScoreUpdate[account] = 0;
         totalScoredAddresses--;
@@ -332,6 +583,7 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
     /**
      * @dev Shared score-storage logic used by all public setters.
      *      Handles FHE permission grants, timestamp tracking, and counter management.
+     *      A replaced score is taken out of the aggregates before the new one is added.
      */
     function _setScore(address account, euint64 score) internal {
         FHE.allowThis(score);
@@ -339,6 +591,9 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
 
         bool isNewScore = !_hasScore[account];
 
+        if (!isNewScore) _removeFromAggregates(account);
+        _addToAggregates(account, score);
+
         _trustScores[account] = score;
         _hasScore[account] = true;
         lastScoreUpdate[account] = block.timestamp;
@@ -350,11 +605,111 @@ contract TrustScoring is ZamaEthereumConfig, Ownable2Step {
         emit TrustScoreUpdated(account, block.timestamp);
     }
 
+    /**
+     * @dev Adds `score` to the encrypted sum and the count of its tier, and
+     *      remembers the tier flags it was counted with. The tier is found
+     *      with encrypted comparisons, so the aggregates never reveal which
+     *      tier changed.
+     */
+    function _addToAggregates(address account, euint64 score) internal {
+        euint64 high       = FHE.asEuint64(FHE.ge(score, FHE.asEuint64(highTrustThreshold)));
+        euint64 atLeastMed = FHE.asEuint64(FHE.ge(score, FHE.asEuint64(mediumTrustThreshold)));
+        euint64 medium     = FHE.sub(atLeastMed, high);
+        euint64 low        = FHE.sub(FHE.asEuint64(1), atLeastMed);
+
+        _scoreSum    = FHE.add(_scoreSum, score);
+        _highCount   = FHE.add(_highCount, high);
+        _mediumCount = FHE.add(_mediumCount, medium);
+        _lowCount    = FHE.add(_lowCount, low);
+        _allowAggregates(owner());
+
+        FHE.allowThis(high);
+        FHE.allowThis(medium);
+        _tierFlags[account] = TierFlags(high, medium);
+    }
+
+    /**
+     * @dev Takes an account's current score out of the aggregates, using
+     *      the tier flags it was added with.
+     */
+    function _removeFromAggregates(address account) internal {
+        euint64 high   = _tierFlags[account].high;
+        euint64 medium = _tierFlags[account].medium;
+        euint64 low    = FHE.sub(FHE.sub(FHE.asEuint64(1), high), medium);
+
+        _scoreSum    = FHE.sub(_scoreSum, _trustScores[account]);
+        _highCount   = FHE.sub(_highCount, high);
+        _mediumCount = FHE.sub(_mediumCount, medium);
+        _lowCount    = FHE.sub(_lowCount, low);
+        _allowAggregates(owner());
+    }
+
+    /**
+     * @dev Grants the contract and `account` read access to every
+     *      initialized aggregate.
+     */
+    function _allowAggregates(address account) internal {
+        euint64[4] memory handles = [_scoreSum, _highCount, _mediumCount, _lowCount];
+        for (uint256 i = 0; i < handles.length; i++) {
+            if (!FHE.isInitialized(handles[i])) continue;
+            FHE.allowThis(handles[i]);
+            FHE.allow(handles[i], account);
+        }
+    }
+
+    /**
+     * @dev Hands the aggregates to the new owner along with ownership.
+     */
+    function _transferOwnership(address newOwner) internal override {
+        super._transferOwnership(newOwner);
+        if (newOwner != address(0)) _allowAggregates(newOwner);
+    }
+
+    /**
+     * @dev Writes a validated tier configuration and announces it.
+     */
+    function _applyTierConfig(TierConfig memory config) internal {
+        highTrustThreshold   = config.highThreshold;
+        mediumTrustThreshold = config.mediumThreshold;
+        scoreExpiry          = config.scoreExpiry;
+        configDelay          = config.configDelay;
+        emit TierConfigUpdated(
+            config.highThreshold,
+            config.mediumThreshold,
+            config.scoreExpiry,
+            config.configDelay
+        );
+    }
+
+    /**
+     * @dev Minimum scores of every tier but the last (which every score
+     *      meets): this contract's thresholds for the zero address,
+     *      otherwise those of a registered policy.
+     */
+    function _tierMinScores(
+        address policy
+    ) internal view returns (uint64[] memory minScores) {
+        if (policy == address(0)) {
+            minScores = new uint64[](2);
+            minScores[0] = highTrustThreshold;
+            minScores[1] = mediumTrustThreshold;
+            return minScores;
+        }
+        if (!registeredPolicies[policy]) revert PolicyNotRegistered();
+
+        PayGramRoutingPolicy.Tier[] memory tiers =
+            PayGramRoutingPolicy(policy).getTiers();
+        minScores = new uint64[](tiers.length - 1);
+        for (uint256 i = 0; i < minScores.length; i++) {
+            minScores[i] = tiers[i].minScore;
+        }
+    }
+
     /**
      * @dev Returns true if the score for `account` was last updated more than
-     *      SCORE_EXPIRY seconds ago.
+     *      scoreExpiry seconds ago.
      */
     function _isExpired(address account) internal view returns (bool) {
-        return block.timestamp > lastScoreUpdate[account] + SCORE_EXPIRY;
+        return block.timestamp > lastScoreUpdate[account] + scoreExpiry;
     }
 }
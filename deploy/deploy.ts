@@ -24,7 +24,7 @@ const deployAll: DeployFunction = async function (
   log("");
 
   // ── 1. TrustScoring ──────────────────────────────────────────
-  log("  [1/4] Deploying TrustScoring...");
+  log("  [1/5] Deploying TrustScoring...");
   const trustScoring = await deploy("TrustScoring", {
     from: deployer,
     args: [deployer],
@@ -41,7 +41,7 @@ const deployAll: DeployFunction = async function (
   // On networks with Zama coprocessor, we can mint in constructor.
   // On standard networks, deploy with 0 supply and mint later.
   let tokenSupply = INITIAL_SUPPLY;
-  log(`  [2/4] Deploying PayGramToken (supply: ${tokenSupply})...`);
+  log(`  [2/5] Deploying PayGramToken (supply: ${tokenSupply})...`);
 
   let payGramToken;
   try {
@@ -70,7 +70,7 @@ const deployAll: DeployFunction = async function (
   log("");
 
   // ── 3. PayGramCore ───────────────────────────────────────────
-  log("  [3/4] Deploying PayGramCore...");
+  log("  [3/5] Deploying PayGramCore...");
   const payGramCore = await deploy("PayGramCore", {
     from: deployer,
     args: [
@@ -89,7 +89,7 @@ const deployAll: DeployFunction = async function (
   log("");
 
   // ── 4. Wire contracts together ───────────────────────────────
-  log("  [4/4] Wiring contracts...");
+  log("  [4/5] Wiring contracts...");
 
   // 4a. Set PayGramCore on PayGramToken
   const tokenContract = await hre.ethers.getContractAt(
@@ -122,7 +122,28 @@ const deployAll: DeployFunction = async function (
   }
   log("");
 
-  // ── 5. Export deployment addresses ───────────────────────────
+  // ── 5. PayGramFactory ────────────────────────────────────────
+  // The core above doubles as the clone implementation; it is already
+  // initialized, so it cannot be taken over through initialize().
+  log("  [5/5] Deploying PayGramFactory...");
+  const payGramFactory = await deploy("PayGramFactory", {
+    from: deployer,
+    args: [
+      deployer,               // initialOwner
+      payGramCore.address,    // core implementation to clone
+      trustScoring.address,   // shared TrustScoring
+      payGramToken.address,   // shared PayGramToken
+    ],
+    log: true,
+    waitConfirmations: confirmations,
+  });
+  log(`  PayGramFactory deployed at: ${payGramFactory.address}`);
+  if (payGramFactory.transactionHash) {
+    log(`  Tx: ${payGramFactory.transactionHash}`);
+  }
+  log("");
+
+  // ── 6. Export deployment addresses ───────────────────────────
   const addresses = {
     network: hre.network.name,
     chainId: hre.network.config.chainId,
@@ -131,6 +152,7 @@ const deployAll: DeployFunction = async function (
       TrustScoring: trustScoring.address,
       PayGramToken: payGramToken.address,
       PayGramCore: payGramCore.address,
+      PayGramFactory: payGramFactory.address,
     },
     initialSupply: tokenSupply.toString(),
     deployedAt: new Date().toISOString(),
@@ -149,11 +171,18 @@ const deployAll: DeployFunction = async function (
   log("=".repeat(60));
   log("");
   log("  Summary:");
-  log(`    TrustScoring : ${trustScoring.address}`);
-  log(`    PayGramToken : ${payGramToken.address}`);
-  log(`    PayGramCore  : ${payGramCore.address}`);
+  log(`    TrustScoring   : ${trustScoring.address}`);
+  log(`    PayGramToken   : ${payGramToken.address}`);
+  log(`    PayGramCore    : ${payGramCore.address}`);
+  log(`    PayGramFactory : ${payGramFactory.address}`);
   log("=".repeat(60));
 };
 
-deployAll.tags = ["all", "TrustScoring", "PayGramToken", "PayGramCore"];
+deployAll.tags = [
+  "all",
+  "TrustScoring",
+  "PayGramToken",
+  "PayGramCore",
+  "PayGramFactory",
+];
 export default deployAll;
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
 import {
   ChevronRight,
@@ -9,10 +10,13 @@ import {
   ShieldCheck,
   Clock,
   Lock,
+  Split,
   MessageSquare,
   RefreshCw,
 } from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
+import { useTierConfig } from "@/hooks/useTierConfig";
+import { describeTier, maxScore, tierKind } from "@/lib/routing";
 import AddressDisplay from "@/components/ui/AddressDisplay";
 import TrustBadge from "@/components/ui/TrustBadge";
 import Badge from "@/components/ui/Badge";
@@ -20,9 +24,19 @@ import GlassCard from "@/components/ui/GlassCard";
 import NetworkBanner from "@/components/layout/NetworkBanner";
 import SalaryView from "@/components/employee/SalaryView";
 import PaymentHistory from "@/components/employee/PaymentHistory";
+import EncryptedBalance from "@/components/employee/EncryptedBalance";
+
+const KIND_STYLES = {
+  instant: { Icon: ShieldCheck, text: "text-primary", bar: "bg-primary/40" },
+  delayed: { Icon: Clock, text: "text-warning", bar: "bg-warning/40" },
+  split: { Icon: Split, text: "text-warning", bar: "bg-warning/40" },
+  escrow: { Icon: Lock, text: "text-danger", bar: "bg-danger/40" },
+};
 
 export default function EmployeePortal() {
   const { address, isConnected, isSupportedChain } = useWeb3();
+  const [balanceKey, setBalanceKey] = useState(0);
+  const { tiers } = useTierConfig();
 
   const showPortal = isConnected && isSupportedChain;
 
@@ -53,7 +67,7 @@ export default function EmployeePortal() {
         {isConnected && address && (
           <div className="flex items-center gap-3">
             <AddressDisplay address={address} />
-            <TrustBadge tier="high" size="md" />
+            <TrustBadge tier={0} tiers={tiers} size="md" />
           </div>
         )}
       </div>
@@ -80,7 +94,8 @@ export default function EmployeePortal() {
         {/* Left column — wider */}
         <div className="lg:col-span-2 space-y-6">
           <SalaryView />
-          <PaymentHistory />
+          <EncryptedBalance refreshKey={balanceKey} />
+          <PaymentHistory onClaimed={() => setBalanceKey((k) => k + 1)} />
         </div>
 
         {/* Right column — narrower */}
@@ -92,41 +107,46 @@ export default function EmployeePortal() {
             </h3>
 
             <div className="text-center py-4">
-              <TrustBadge tier="high" size="lg" />
+              <TrustBadge tier={0} tiers={tiers} size="lg" />
             </div>
 
             {/* Score meter */}
             <div className="mt-4 space-y-2">
               <div className="flex items-center justify-between text-[10px] text-text-muted">
-                <span>0</span>
-                <span>40</span>
-                <span>75</span>
+                {[...tiers].reverse().map((t) => (
+                  <span key={t.minScore}>{t.minScore}</span>
+                ))}
                 <span>100</span>
               </div>
               <div className="relative h-2 rounded-full bg-white/[0.05] overflow-hidden">
-                <div className="absolute inset-y-0 left-0 w-[40%] bg-danger/40 rounded-l-full" />
-                <div className="absolute inset-y-0 left-[40%] w-[35%] bg-warning/40" />
-                <div className="absolute inset-y-0 left-[75%] w-[25%] bg-primary/40 rounded-r-full" />
+                {tiers.map((t, i) => (
+                  <div
+                    key={t.minScore}
+                    className={`absolute inset-y-0 ${KIND_STYLES[tierKind(t)].bar}`}
+                    style={{
+                      left: `${t.minScore}%`,
+                      width: `${maxScore(tiers, i) + 1 - t.minScore}%`,
+                    }}
+                  />
+                ))}
                 {/* Indicator */}
                 <div className="absolute top-1/2 -translate-y-1/2 left-[82%] w-3 h-3 rounded-full bg-primary border-2 border-background shadow-lg shadow-primary/30" />
               </div>
             </div>
 
             <div className="mt-4 space-y-2 text-xs text-text-muted">
-              <div className="flex items-center gap-2">
-                <ShieldCheck size={12} className="text-primary" />
-                <span>
-                  75-100: Instant encrypted transfer
-                </span>
-              </div>
-              <div className="flex items-center gap-2">
-                <Clock size={12} className="text-warning" />
-                <span>40-74: 24-hour delayed release</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <Lock size={12} className="text-danger" />
-                <span>0-39: Milestone-gated escrow</span>
-              </div>
+              {tiers.map((t, i) => {
+                const { Icon, text } = KIND_STYLES[tierKind(t)];
+                return (
+                  <div key={t.minScore} className="flex items-center gap-2">
+                    <Icon size={12} className={text} />
+                    <span>
+                      {t.minScore}-{maxScore(tiers, i)}: {t.name}{" "}
+                      {"\u2014"} {describeTier(t)}
+                    </span>
+                  </div>
+                );
+              })}
             </div>
 
             <p className="mt-4 text-[10px] text-text-muted">
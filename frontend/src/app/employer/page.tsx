@@ -1,50 +1,53 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState } from "react";
 import Link from "next/link";
-import { Users, DollarSign, Wallet, Shield, ChevronRight, Eye } from "lucide-react";
+import { Users, DollarSign, Wallet, ChevronRight, Eye, UserCog, Building2, ShieldCheck } from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
-import { MOCK_STATS } from "@/lib/mockData";
+import { useOrgRoles } from "@/hooks/useOrgRoles";
+import { usePayrollAnalytics } from "@/hooks/usePayrollAnalytics";
 import AddressDisplay from "@/components/ui/AddressDisplay";
-import StatCard from "@/components/ui/StatCard";
 import Tabs from "@/components/ui/Tabs";
 import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
 import NetworkBanner from "@/components/layout/NetworkBanner";
 import AddEmployee from "@/components/employer/AddEmployee";
+import BonusDialog from "@/components/employer/BonusDialog";
+import SalaryChangeDialog from "@/components/employer/SalaryChangeDialog";
+import TerminateDialog from "@/components/employer/TerminateDialog";
 import EmployeeList from "@/components/employer/EmployeeList";
 import ExecutePayroll from "@/components/employer/ExecutePayroll";
 import PayrollHistory from "@/components/employer/PayrollHistory";
+import PayrollStats from "@/components/employer/PayrollStats";
+import PayrollCostChart from "@/components/employer/PayrollCostChart";
+import TreasurySplit from "@/components/employer/TreasurySplit";
+import FundPayroll from "@/components/employer/FundPayroll";
+import TeamRoles from "@/components/employer/TeamRoles";
+import Proposals from "@/components/employer/Proposals";
+import OrganizationDialog from "@/components/wallet/OrganizationDialog";
 
 const TABS = [
   { id: "employees", label: "Employees", icon: <Users size={14} /> },
   { id: "payroll", label: "Run Payroll", icon: <DollarSign size={14} /> },
   { id: "history", label: "Payment History", icon: <Wallet size={14} /> },
+  { id: "team", label: "Team", icon: <UserCog size={14} /> },
+  { id: "approvals", label: "Approvals", icon: <ShieldCheck size={14} /> },
 ];
 
 export default function EmployerDashboard() {
-  const { address, isConnected, isSupportedChain, contractsReady, payGramCore } = useWeb3();
+  const { address, isConnected, isSupportedChain, contractsReady, hasFactory } = useWeb3();
   const [activeTab, setActiveTab] = useState("employees");
   const [addDialogOpen, setAddDialogOpen] = useState(false);
-  const [isOwner, setIsOwner] = useState(false);
-
-  const checkOwner = useCallback(async () => {
-    if (!payGramCore || !address) {
-      setIsOwner(false);
-      return;
-    }
-    try {
-      const owner: string = await payGramCore.owner();
-      setIsOwner(owner.toLowerCase() === address.toLowerCase());
-    } catch {
-      setIsOwner(false);
-    }
-  }, [payGramCore, address]);
-
-  useEffect(() => {
-    checkOwner();
-  }, [checkOwner]);
+  const [bonusDialogOpen, setBonusDialogOpen] = useState(false);
+  const [salaryWallet, setSalaryWallet] = useState<string | null>(null);
+  const [terminateWallet, setTerminateWallet] = useState<string | null>(null);
+  const [orgDialogOpen, setOrgDialogOpen] = useState(false);
+  const { permissions } = useOrgRoles();
+  const isTeamMember = Object.values(permissions).some(Boolean);
+  const analytics = usePayrollAnalytics();
 
   const showDashboard = isConnected && isSupportedChain;
+  const live = showDashboard && contractsReady;
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -61,13 +64,24 @@ export default function EmployerDashboard() {
       <NetworkBanner />
 
       {/* View Mode Banner */}
-      {showDashboard && contractsReady && !isOwner && (
+      {showDashboard && (contractsReady || hasFactory) && !isTeamMember && (
         <div className="flex items-center gap-2.5 px-4 py-3 mb-4 rounded-xl bg-white/[0.04] border border-white/[0.08]">
           <Eye size={16} className="text-text-muted shrink-0" />
           <p className="text-sm text-text-secondary">
             <span className="font-medium text-text">View Mode</span>
-            {" "}&mdash; Connect as contract owner to manage payroll
+            {" "}&mdash; Connect as the employer or a team member to manage payroll
           </p>
+          {hasFactory && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOrgDialogOpen(true)}
+              className="ml-auto shrink-0"
+            >
+              <Building2 size={12} />
+              Create organization
+            </Button>
+          )}
         </div>
       )}
 
@@ -111,36 +125,14 @@ export default function EmployerDashboard() {
       )}
 
       {/* ─── Stats Row ─── */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mt-8 mb-8">
-        <StatCard
-          title="Total Employees"
-          value={showDashboard && contractsReady ? "..." : MOCK_STATS.totalEmployees}
-          icon={Users}
-          accentColor="primary"
-        />
-        <StatCard
-          title="Active Payrolls"
-          value={showDashboard && contractsReady ? "..." : MOCK_STATS.totalPayrolls}
-          icon={DollarSign}
-          accentColor="secondary"
-        />
-        <StatCard
-          title="Total Distributed"
-          value={
-            showDashboard && contractsReady
-              ? "..."
-              : `${MOCK_STATS.totalDistributed} cUSDC`
-          }
-          icon={Wallet}
-          accentColor="primary"
-        />
-        <StatCard
-          title="Avg Trust Score"
-          value={showDashboard && contractsReady ? "..." : MOCK_STATS.avgTrustScore}
-          icon={Shield}
-          accentColor="warning"
-        />
-      </div>
+      <PayrollStats
+        live={live}
+        activeEmployees={analytics.activeEmployees}
+        totalRuns={analytics.totalRuns}
+        totals={analytics.totals}
+        trust={analytics.trust}
+        permissions={permissions}
+      />
 
       {/* ─── Tab Navigation ─── */}
       <Tabs
@@ -153,10 +145,33 @@ export default function EmployerDashboard() {
       {/* ─── Tab Content ─── */}
       <div className="min-h-[400px]">
         {activeTab === "employees" && (
-          <EmployeeList onAddEmployee={() => setAddDialogOpen(true)} isOwner={isOwner} />
+          <EmployeeList
+            onAddEmployee={() => setAddDialogOpen(true)}
+            onPayBonus={() => setBonusDialogOpen(true)}
+            onScheduleSalary={setSalaryWallet}
+            onTerminate={setTerminateWallet}
+            permissions={permissions}
+          />
+        )}
+        {activeTab === "payroll" && (
+          <div className="space-y-6">
+            <ExecutePayroll permissions={permissions} />
+            <FundPayroll permissions={permissions} />
+            <TreasurySplit permissions={permissions} />
+          </div>
         )}
-        {activeTab === "payroll" && <ExecutePayroll isOwner={isOwner} />}
-        {activeTab === "history" && <PayrollHistory />}
+        {activeTab === "history" && (
+          <>
+            <PayrollCostChart
+              live={live}
+              runs={analytics.runs}
+              permissions={permissions}
+            />
+            <PayrollHistory permissions={permissions} />
+          </>
+        )}
+        {activeTab === "team" && <TeamRoles isEmployer={permissions.isEmployer} />}
+        {activeTab === "approvals" && <Proposals />}
       </div>
 
       {/* ─── Add Employee Dialog ─── */}
@@ -164,6 +179,30 @@ export default function EmployerDashboard() {
         open={addDialogOpen}
         onClose={() => setAddDialogOpen(false)}
       />
+
+      {/* ─── Bonus / Off-Cycle Dialog ─── */}
+      <BonusDialog
+        open={bonusDialogOpen}
+        onClose={() => setBonusDialogOpen(false)}
+      />
+
+      {/* ─── Scheduled Salary Changes ─── */}
+      <SalaryChangeDialog
+        wallet={salaryWallet}
+        onClose={() => setSalaryWallet(null)}
+      />
+
+      {/* ─── Termination ─── */}
+      <TerminateDialog
+        wallet={terminateWallet}
+        onClose={() => setTerminateWallet(null)}
+      />
+
+      {/* ─── Organization Onboarding ─── */}
+      <OrganizationDialog
+        open={orgDialogOpen}
+        onClose={() => setOrgDialogOpen(false)}
+      />
     </div>
   );
 }
@@ -6,6 +6,7 @@ import {
   ShieldCheck,
   Clock,
   Lock,
+  Split,
   ArrowDownToLine,
   BarChart3,
   Send,
@@ -16,6 +17,14 @@ import {
   Zap,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useTierConfig } from "@/hooks/useTierConfig";
+import { formatDuration } from "@/lib/contracts";
+import {
+  describeTier,
+  maxScore,
+  tierKind,
+  type RoutingTier,
+} from "@/lib/routing";
 import GlassCard from "@/components/ui/GlassCard";
 import Badge from "@/components/ui/Badge";
 import StatusDot from "@/components/ui/StatusDot";
@@ -189,9 +198,53 @@ function TechPill({ label }: { label: string }) {
   );
 }
 
+/** Card copy and colors for a tier, by how it pays out. */
+function tierCardProps(tier: RoutingTier) {
+  const hold = formatDuration(tier.delay);
+  switch (tierKind(tier)) {
+    case "instant":
+      return {
+        title: "Instant Transfer",
+        description:
+          "Verified employees receive encrypted cUSDC immediately. No delays, no friction.",
+        icon: ShieldCheck,
+        glowClass: "glow-green",
+        accentColor: "primary",
+      };
+    case "delayed":
+      return {
+        title: `${hold} Delayed Release`,
+        description: `Building trust takes time. Payments held for ${hold} before release.`,
+        icon: Clock,
+        glowClass: "glow-yellow",
+        accentColor: "warning",
+      };
+    case "split":
+      return {
+        title: "Split Release",
+        description:
+          "Part of each payment arrives at once; the rest follows as trust is confirmed.",
+        icon: Split,
+        glowClass: "glow-yellow",
+        accentColor: "warning",
+      };
+    default:
+      return {
+        title: "Escrow with Approval",
+        description:
+          "New relationships start carefully. Funds held in escrow until milestones are met.",
+        icon: Lock,
+        glowClass: "glow-red",
+        accentColor: "danger",
+      };
+  }
+}
+
 /* ═══════════════════════ MAIN PAGE ═══════════════════════ */
 
 export default function HomePage() {
+  const { tiers } = useTierConfig();
+
   return (
     <div className="relative overflow-hidden">
       {/* ─── HERO SECTION ─── */}
@@ -295,36 +348,15 @@ export default function HomePage() {
           </div>
 
           <div className="grid md:grid-cols-3 gap-6">
-            <TrustTierCard
-              title="Instant Transfer"
-              subtitle="HIGH TRUST (75-100)"
-              description="Verified employees receive encrypted cUSDC immediately. No delays, no friction."
-              icon={ShieldCheck}
-              glowClass="glow-green"
-              accentColor="primary"
-              flowLabel="Instant"
-              delay={0.1}
-            />
-            <TrustTierCard
-              title="24h Delayed Release"
-              subtitle="MEDIUM TRUST (40-74)"
-              description="Building trust takes time. Payments held for 24 hours before release."
-              icon={Clock}
-              glowClass="glow-yellow"
-              accentColor="warning"
-              flowLabel="24h Hold"
-              delay={0.2}
-            />
-            <TrustTierCard
-              title="Escrow with Approval"
-              subtitle="LOW TRUST (0-39)"
-              description="New relationships start carefully. Funds held in escrow until milestones are met."
-              icon={Lock}
-              glowClass="glow-red"
-              accentColor="danger"
-              flowLabel="Escrow"
-              delay={0.3}
-            />
+            {tiers.map((t, i) => (
+              <TrustTierCard
+                key={t.minScore}
+                {...tierCardProps(t)}
+                subtitle={`${t.name.toUpperCase()} (${t.minScore}-${maxScore(tiers, i)})`}
+                flowLabel={describeTier(t)}
+                delay={0.1 * (i + 1)}
+              />
+            ))}
           </div>
         </div>
       </section>
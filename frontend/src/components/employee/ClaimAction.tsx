@@ -0,0 +1,59 @@
+"use client";
+
+import { Clock, Download } from "lucide-react";
+import { formatCountdown } from "@/lib/contracts";
+import { STATUS_COMPLETED, type IndexedPayment } from "@/lib/paymentIndex";
+import Button from "@/components/ui/Button";
+
+interface ClaimActionProps {
+  payment: IndexedPayment;
+  /** Current Unix time in seconds. */
+  now: number;
+  busy: boolean;
+  disabled?: boolean;
+  onClaim: (paymentId: number) => void;
+}
+
+/**
+ * Countdown to the release time of a payment's delayed part, turning into
+ * a Claim button once the hold has passed. Shown for every record with an
+ * unclaimed delayed part, since it is only non-zero for tiers with a hold
+ * and the chain does not reveal which tier that is. Releasing the escrowed
+ * part leaves the delayed part to claim.
+ */
+export default function ClaimAction({
+  payment,
+  now,
+  busy,
+  disabled,
+  onClaim,
+}: ClaimActionProps) {
+  if (payment.releaseTime === 0 || payment.status === STATUS_COMPLETED) {
+    return null;
+  }
+
+  const remaining = payment.releaseTime - now;
+
+  if (remaining > 0) {
+    return (
+      <span className="inline-flex items-center gap-1 mt-2 text-[11px] font-mono text-warning">
+        <Clock size={11} />
+        Claimable in {formatCountdown(remaining)}
+      </span>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => onClaim(payment.id)}
+      loading={busy}
+      disabled={disabled}
+      className="mt-2"
+    >
+      <Download size={12} />
+      Claim
+    </Button>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { Eye, EyeOff, Lock, RefreshCw, AlertCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import Button from "@/components/ui/Button";
+
+interface EncryptedBalanceProps {
+  /** Bump to re-read the balance handle, e.g. after a claim. */
+  refreshKey?: number;
+}
+
+/**
+ * The connected wallet's confidential cUSDC balance. The handle changes
+ * on every transfer, so a refresh hides the previously decrypted value.
+ */
+export default function EncryptedBalance({ refreshKey = 0 }: EncryptedBalanceProps) {
+  const { payGramToken, address } = useWeb3();
+  const { values, pending, error: decryptError, reveal, hide } = useDecrypt();
+  const [handle, setHandle] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchBalance = useCallback(async () => {
+    if (!payGramToken || !address) {
+      setHandle(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setHandle(await payGramToken.confidentialBalanceOf(address));
+    } catch {
+      setHandle(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [payGramToken, address]);
+
+  useEffect(() => {
+    fetchBalance();
+  }, [fetchBalance, refreshKey]);
+
+  const empty = handle === ethers.ZeroHash;
+  const balance = handle ? values[handle] : undefined;
+  const decrypted = empty || balance !== undefined;
+
+  async function toggleDecrypt() {
+    if (!payGramToken || !handle || empty) return;
+    if (balance !== undefined) {
+      hide(handle);
+      return;
+    }
+    await reveal(handle, await payGramToken.getAddress());
+  }
+
+  return (
+    <div className="glass-card-static p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-heading font-bold text-text">
+          Wallet Balance
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchBalance}
+          disabled={isLoading || !payGramToken}
+        >
+          <RefreshCw size={13} className={isLoading ? "animate-spin" : ""} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        {decrypted ? (
+          <p className="text-2xl font-heading font-bold text-text animate-fade-in">
+            {empty ? "0" : balance!.toLocaleString("en-US")}{" "}
+            <span className="text-sm text-primary">cUSDC</span>
+          </p>
+        ) : (
+          <p className="flex items-center gap-2 text-2xl font-mono font-bold text-text-muted tracking-widest">
+            ******
+            <Lock size={12} />
+          </p>
+        )}
+        {!empty && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={toggleDecrypt}
+            loading={!!handle && !!pending[handle]}
+            disabled={!handle}
+          >
+            {balance !== undefined ? <EyeOff size={12} /> : <Eye size={12} />}
+            {balance !== undefined ? "Hide" : "Decrypt"}
+          </Button>
+        )}
+      </div>
+
+      {decryptError && (
+        <p className="flex items-center gap-1.5 mt-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError}
+        </p>
+      )}
+    </div>
+  );
+}
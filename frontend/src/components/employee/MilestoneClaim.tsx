@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { Send } from "lucide-react";
+import { formatTimestamp } from "@/lib/contracts";
+import {
+  STATUS_ESCROWED,
+  MILESTONE_DEFINED,
+  MILESTONE_REJECTED,
+  type IndexedPayment,
+} from "@/lib/paymentIndex";
+import { useMilestoneActions } from "@/hooks/useMilestoneActions";
+import Button from "@/components/ui/Button";
+import Dialog from "@/components/ui/Dialog";
+import Input from "@/components/ui/Input";
+import MilestoneBadge from "@/components/ui/MilestoneBadge";
+import EvidenceLink from "@/components/ui/EvidenceLink";
+
+interface MilestoneClaimProps {
+  payment: IndexedPayment;
+  onChange: () => void;
+}
+
+/**
+ * Employee-side milestone details for an escrowed payment, with the
+ * completion-claim action while the milestone is open or was rejected.
+ */
+export default function MilestoneClaim({ payment, onChange }: MilestoneClaimProps) {
+  const { busyId, error, claim } = useMilestoneActions(onChange);
+  const [open, setOpen] = useState(false);
+  const [evidence, setEvidence] = useState("");
+
+  if (payment.status !== STATUS_ESCROWED && !payment.milestoneState) {
+    return null;
+  }
+
+  const busy = busyId === payment.id;
+  const expired =
+    payment.milestoneDeadline > 0 &&
+    Date.now() / 1000 > payment.milestoneDeadline;
+  const claimable =
+    payment.status === STATUS_ESCROWED &&
+    (payment.milestoneState === MILESTONE_DEFINED ||
+      payment.milestoneState === MILESTONE_REJECTED) &&
+    !expired;
+
+  async function handleClaim() {
+    if (await claim(payment.id, evidence.trim())) {
+      setEvidence("");
+      setOpen(false);
+    }
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-2">
+        <MilestoneBadge state={payment.milestoneState} />
+        {payment.milestoneDeadline > 0 && (
+          <span className="text-[11px] text-text-muted">
+            {expired ? "closed" : "due"}{" "}
+            {formatTimestamp(payment.milestoneDeadline)}
+          </span>
+        )}
+      </div>
+
+      {payment.milestoneState === MILESTONE_REJECTED &&
+        payment.rejectionReason && (
+          <p className="text-[11px] text-danger">
+            Rejected: {payment.rejectionReason}
+          </p>
+        )}
+
+      {payment.evidence && <EvidenceLink evidence={payment.evidence} />}
+
+      {claimable && (
+        <Button variant="ghost" size="sm" onClick={() => setOpen(true)}>
+          <Send size={12} />
+          {payment.milestoneState === MILESTONE_REJECTED
+            ? "Resubmit claim"
+            : "Submit claim"}
+        </Button>
+      )}
+
+      <Dialog
+        open={open}
+        onClose={() => setOpen(false)}
+        title="Claim milestone completion"
+        description={payment.milestone}
+      >
+        <div className="space-y-4">
+          <Input
+            label="Evidence"
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            placeholder="https://, ipfs:// or a content hash"
+            hint="Your employer reviews this before releasing the escrow."
+          />
+          {error && <p className="text-xs text-danger">{error}</p>}
+          <div className="flex gap-3 pt-2">
+            <Button
+              onClick={handleClaim}
+              loading={busy}
+              disabled={!evidence.trim()}
+              className="flex-1"
+            >
+              Submit Claim
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={busy}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,71 +1,102 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { RefreshCw, FileText, Lock } from "lucide-react";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import {
+  RefreshCw,
+  FileText,
+  Lock,
+  Eye,
+  AlertCircle,
+  Download,
+} from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { usePaymentIndex } from "@/hooks/usePaymentIndex";
+import {
+  useClaimPayments,
+  claimTransactionCount,
+} from "@/hooks/useClaimPayments";
+import { useNow } from "@/hooks/useNow";
 import { PAYMENT_STATUS } from "@/lib/constants";
 import { formatTimestamp } from "@/lib/contracts";
+import { queryPayments, STATUS_COMPLETED } from "@/lib/paymentIndex";
 import { MOCK_EMPLOYEE_PAYMENTS } from "@/lib/mockData";
 import Badge from "@/components/ui/Badge";
 import Button from "@/components/ui/Button";
+import Pagination from "@/components/ui/Pagination";
+import Toast from "@/components/ui/Toast";
+import MilestoneClaim from "@/components/employee/MilestoneClaim";
+import ClaimAction from "@/components/employee/ClaimAction";
 
-interface PaymentRecord {
-  id: number;
-  status: number;
-  createdAt: bigint;
-  releaseTime: bigint;
-  milestone: string;
+const PAGE_SIZE = 10;
+
+interface PaymentHistoryProps {
+  /** Called after each successful claim, e.g. to refresh the balance. */
+  onClaimed?: () => void;
 }
 
-export default function PaymentHistory() {
+export default function PaymentHistory({ onClaimed }: PaymentHistoryProps) {
   const { payGramCore, address, contractsReady } = useWeb3();
-  const [payments, setPayments] = useState<PaymentRecord[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [useMock, setUseMock] = useState(false);
-
-  const fetchPayments = useCallback(async () => {
-    if (!payGramCore || !address) {
-      setUseMock(true);
-      return;
-    }
+  const { index, isSyncing, sync } = usePaymentIndex();
+  const now = useNow();
+  const handleClaimed = useCallback(() => {
+    sync();
+    onClaimed?.();
+  }, [sync, onClaimed]);
+  const { claimingId, isClaimingAll, toast, dismissToast, claim, claimAll } =
+    useClaimPayments(handleClaimed);
+  const [page, setPage] = useState(0);
+  const [amountHandles, setAmountHandles] = useState<Record<number, string>>(
+    {}
+  );
+  const { values, pending, error: decryptError, reveal } = useDecrypt();
 
-    setIsLoading(true);
-    try {
-      const ids: bigint[] =
-        await payGramCore.getPendingPaymentsForEmployee(address);
-      const records: PaymentRecord[] = [];
-
-      for (const id of ids) {
-        try {
-          const p = await payGramCore.getPendingPayment(id);
-          records.push({
-            id: Number(id),
-            status: Number(p.status),
-            createdAt: p.createdAt,
-            releaseTime: p.releaseTime,
-            milestone: p.milestone,
-          });
-        } catch {
-          // Skip invalid
-        }
-      }
+  useEffect(() => {
+    setPage(0);
+    setAmountHandles({});
+  }, [address]);
 
-      setPayments(records.reverse());
-      setUseMock(records.length === 0);
-    } catch {
-      setUseMock(true);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [payGramCore, address]);
+  const result = useMemo(() => {
+    if (!index || !address) return null;
+    return queryPayments(index, {
+      employee: address,
+      page,
+      pageSize: PAGE_SIZE,
+    });
+  }, [index, address, page]);
 
-  useEffect(() => {
-    if (contractsReady && address) {
-      fetchPayments();
-    } else {
-      setUseMock(true);
+  /** Own payments whose delayed part is past its hold, oldest first. */
+  const maturedIds = useMemo(() => {
+    if (!index || !address) return [];
+    return queryPayments(index, {
+      employee: address,
+      pageSize: Number.MAX_SAFE_INTEGER,
+    })
+      .items.filter(
+        (p) =>
+          p.releaseTime > 0 &&
+          p.releaseTime <= now &&
+          p.status !== STATUS_COMPLETED
+      )
+      .map((p) => p.id)
+      .reverse();
+  }, [index, address, now]);
+
+  const payments = result?.items ?? [];
+  const claimBusy = claimingId !== null || isClaimingAll;
+  const isLoading = isSyncing;
+  const useMock =
+    !contractsReady || !address || (!isSyncing && (result?.total ?? 0) === 0);
+
+  async function revealAmount(paymentId: number) {
+    if (!payGramCore) return;
+    let handle = amountHandles[paymentId];
+    if (!handle) {
+      handle = await payGramCore.getEncryptedPaymentAmount(paymentId);
+      setAmountHandles((prev) => ({ ...prev, [paymentId]: handle }));
     }
-  }, [contractsReady, address, fetchPayments]);
+    await reveal(handle, await payGramCore.getAddress());
+  }
 
   const statusLabel = (s: number) =>
     PAYMENT_STATUS[s as keyof typeof PAYMENT_STATUS] ?? "Unknown";
@@ -92,7 +123,7 @@ export default function PaymentHistory() {
       case 2:
         return "warning";
       case 3:
-        return "danger";
+        return "warning";
       case 4:
         return "secondary";
       case 5:
@@ -116,10 +147,24 @@ export default function PaymentHistory() {
               Demo Data
             </Badge>
           )}
+          {!showMock && maturedIds.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => claimAll(maturedIds)}
+              loading={isClaimingAll}
+              disabled={claimBusy}
+            >
+              <Download size={13} />
+              Claim all matured ({maturedIds.length})
+              {claimTransactionCount(maturedIds.length) > 1 &&
+                ` · ${claimTransactionCount(maturedIds.length)} transactions`}
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
-            onClick={fetchPayments}
+            onClick={sync}
             disabled={isLoading}
           >
             <RefreshCw size={13} className={isLoading ? "animate-spin" : ""} />
@@ -189,28 +234,79 @@ export default function PaymentHistory() {
                   <Badge variant={statusVariant(p.status)} size="sm">
                     {statusLabel(p.status)}
                   </Badge>
+                  {p.memo && (
+                    <Badge variant="outline" size="sm">
+                      Off-cycle
+                    </Badge>
+                  )}
                 </div>
+                {p.memo && (
+                  <p className="text-xs text-text-secondary mt-1">{p.memo}</p>
+                )}
                 <p className="text-xs text-text-muted mt-1">
                   Created {formatTimestamp(p.createdAt)}
-                  {p.releaseTime > 0n &&
-                    ` \u2022 Releases ${formatTimestamp(p.releaseTime)}`}
+                  {p.releaseTime > 0 &&
+                    ` \u2022 Delayed part unlocks ${formatTimestamp(p.releaseTime)}`}
                 </p>
                 {p.milestone && (
                   <p className="text-xs text-text-muted mt-0.5">
                     {p.milestone}
                   </p>
                 )}
+                <MilestoneClaim payment={p} onChange={sync} />
+                <ClaimAction
+                  payment={p}
+                  now={now}
+                  busy={claimingId === p.id}
+                  disabled={claimBusy}
+                  onClaim={claim}
+                />
               </div>
               <div className="text-right">
-                <span className="inline-flex items-center gap-1 text-sm font-mono text-text-muted">
-                  <Lock size={10} />
-                  Encrypted
-                </span>
+                {amountHandles[p.id] &&
+                values[amountHandles[p.id]] !== undefined ? (
+                  <span className="text-sm font-mono text-text">
+                    {values[amountHandles[p.id]].toLocaleString("en-US")}{" "}
+                    <span className="text-xs text-primary">cUSDC</span>
+                  </span>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revealAmount(p.id)}
+                    loading={
+                      !!amountHandles[p.id] && !!pending[amountHandles[p.id]]
+                    }
+                  >
+                    <Lock size={10} />
+                    Encrypted
+                    <Eye size={12} />
+                  </Button>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {!showMock && result && (
+        <Pagination
+          page={result.page}
+          pageCount={result.pageCount}
+          total={result.total}
+          onChange={setPage}
+          className="mt-4"
+        />
+      )}
+
+      {decryptError && (
+        <p className="flex items-center gap-1.5 mt-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError}
+        </p>
+      )}
+
+      <Toast toast={toast} onDismiss={dismissToast} />
     </div>
   );
 }
@@ -1,28 +1,69 @@
 "use client";
 
 import { useState } from "react";
-import { Eye, EyeOff, Lock, Calendar, AlertCircle } from "lucide-react";
+import { ethers } from "ethers";
+import { Eye, EyeOff, Lock, Calendar, CalendarClock, AlertCircle } from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
-import { type TrustTier } from "@/lib/constants";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { useCompensation } from "@/hooks/useCompensation";
+import { formatTimestamp } from "@/lib/contracts";
 import Button from "@/components/ui/Button";
 
+interface PayBreakdown {
+  allowances: string;
+  bonus: string;
+  deductions: string;
+  lastNetPay: string;
+}
+
+interface SalaryChange {
+  handle: string;
+  effectiveAt: number;
+}
+
+const BREAKDOWN_ROWS: { key: keyof PayBreakdown; label: string; sign: string }[] = [
+  { key: "allowances", label: "Allowances", sign: "+" },
+  { key: "bonus", label: "Bonus (next run)", sign: "+" },
+  { key: "deductions", label: "Deductions", sign: "\u2212" },
+  { key: "lastNetPay", label: "Last net pay", sign: "=" },
+];
+
 export default function SalaryView() {
-  const { payGramCore, trustScoring, address, contractsReady } = useWeb3();
+  const { payGramCore, address, contractsReady } = useWeb3();
   const [isActive, setIsActive] = useState<boolean | null>(null);
   const [role, setRole] = useState<string | null>(null);
-  const [tier, setTier] = useState<TrustTier | null>(null);
   const [hasChecked, setHasChecked] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [decrypted, setDecrypted] = useState(false);
+  const [salaryHandle, setSalaryHandle] = useState<string | null>(null);
+  const [demoRevealed, setDemoRevealed] = useState(false);
   const [useMock, setUseMock] = useState(false);
+  const { values, pending, error: decryptError, reveal, hide } = useDecrypt();
+  const { compensation } = useCompensation();
+  const [breakdown, setBreakdown] = useState<PayBreakdown | null>(null);
+  const [upcoming, setUpcoming] = useState<SalaryChange[]>([]);
+
+  const salary = salaryHandle ? values[salaryHandle] : undefined;
+  const decrypted = useMock ? demoRevealed : salary !== undefined;
+  const isDecrypting = salaryHandle ? !!pending[salaryHandle] : false;
+
+  async function toggleDecrypt() {
+    if (useMock || !payGramCore || !salaryHandle) {
+      setDemoRevealed(!demoRevealed);
+      return;
+    }
+    if (decrypted) {
+      hide(salaryHandle);
+      return;
+    }
+    await reveal(salaryHandle, await payGramCore.getAddress());
+  }
 
   async function fetchMyInfo() {
-    if (!payGramCore || !trustScoring || !address) {
+    if (!payGramCore || !address) {
       // Use mock data
       setUseMock(true);
       setIsActive(true);
       setRole("Senior Engineer");
-      setTier("HIGH");
       setHasChecked(true);
       return;
     }
@@ -35,21 +76,45 @@ export default function SalaryView() {
       if (active) {
         const emp = await payGramCore.getEmployee(address);
         setRole(emp.role);
-      }
+        const handle: string = await payGramCore.getEncryptedSalary(address);
+        setSalaryHandle(handle);
+
+        try {
+          const [salaries, effectiveAts] =
+            await payGramCore.getPendingSalaryChanges(address);
+          setUpcoming(
+            (salaries as string[]).map((h, i) => ({
+              handle: h,
+              effectiveAt: Number(effectiveAts[i]),
+            }))
+          );
+        } catch {
+          // Cores deployed before scheduled changes have no queue
+          setUpcoming([]);
+        }
 
-      const hasScore = await trustScoring.hasScore(address);
-      setTier(hasScore ? "MEDIUM" : "LOW");
+        if (compensation) {
+          const [allowances, bonus, deductions] =
+            await compensation.getComponents(address);
+          const lastNetPay: string = await compensation.getLastNetPay(address);
+          setBreakdown({ allowances, bonus, deductions, lastNetPay });
+        }
+      }
     } catch {
       setUseMock(true);
       setIsActive(true);
       setRole("Senior Engineer");
-      setTier("HIGH");
     } finally {
       setIsLoading(false);
       setHasChecked(true);
     }
   }
 
+  async function revealComponent(handle: string) {
+    if (!compensation) return;
+    await reveal(handle, await compensation.getAddress());
+  }
+
   if (!hasChecked) {
     return (
       <div className="glass-card p-8 text-center glow-green">
@@ -108,7 +173,7 @@ export default function SalaryView() {
         {decrypted ? (
           <div className="animate-fade-in">
             <p className="text-4xl font-heading font-bold text-text">
-              5,000{" "}
+              {salary !== undefined ? salary.toLocaleString("en-US") : "5,000"}{" "}
               <span className="text-lg text-primary">cUSDC</span>
             </p>
             <p className="text-xs text-text-muted mt-1">per month</p>
@@ -129,7 +194,8 @@ export default function SalaryView() {
       {/* Decrypt button */}
       <Button
         variant={decrypted ? "outline" : "primary"}
-        onClick={() => setDecrypted(!decrypted)}
+        onClick={toggleDecrypt}
+        loading={isDecrypting}
         className="w-full"
       >
         {decrypted ? (
@@ -140,15 +206,114 @@ export default function SalaryView() {
         ) : (
           <>
             <Eye size={14} />
-            Decrypt Salary
+            {isDecrypting ? "Decrypting..." : "Decrypt Salary"}
           </>
         )}
       </Button>
 
+      {decryptError && (
+        <p className="flex items-center justify-center gap-1.5 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError}
+        </p>
+      )}
+
       <p className="text-[11px] text-text-muted text-center leading-relaxed">
         Only you can see this. Encrypted with FHE on-chain.
       </p>
 
+      {/* Upcoming salary changes */}
+      {upcoming.length > 0 && (
+        <div className="space-y-2 pt-2">
+          <p className="text-[10px] text-text-muted uppercase tracking-wider">
+            Upcoming Change
+          </p>
+          <ul className="divide-y divide-white/[0.03] rounded-xl bg-white/[0.02] border border-white/[0.04] px-3">
+            {upcoming.map(({ handle, effectiveAt }) => {
+              const value = values[handle];
+              return (
+                <li key={effectiveAt} className="flex items-center justify-between py-2">
+                  <span className="flex items-center gap-1.5 text-xs text-text-secondary">
+                    <CalendarClock size={12} className="text-text-muted" />
+                    From {formatTimestamp(effectiveAt)}
+                  </span>
+                  {value !== undefined ? (
+                    <span className="text-xs font-mono text-text">
+                      {value.toLocaleString("en-US")} cUSDC
+                    </span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={async () =>
+                        payGramCore &&
+                        reveal(handle, await payGramCore.getAddress())
+                      }
+                      loading={!!pending[handle]}
+                    >
+                      <Eye size={12} />
+                      ******
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-[11px] text-text-muted leading-relaxed">
+            Your new salary is paid from the first payroll run on or after
+            that date. Your employer may still cancel it before then.
+          </p>
+        </div>
+      )}
+
+      {/* Pay breakdown */}
+      {breakdown && (
+        <div className="space-y-2 pt-2">
+          <p className="text-[10px] text-text-muted uppercase tracking-wider">
+            Pay Breakdown
+          </p>
+          <ul className="divide-y divide-white/[0.03] rounded-xl bg-white/[0.02] border border-white/[0.04] px-3">
+            {BREAKDOWN_ROWS.map(({ key, label, sign }) => {
+              const handle = breakdown[key];
+              // Never-set components are zero handles and read as zero
+              const unset = handle === ethers.ZeroHash;
+              const value = values[handle];
+              return (
+                <li key={key} className="flex items-center justify-between py-2">
+                  <span className="text-xs text-text-secondary">
+                    <span className="inline-block w-3 text-text-muted">{sign}</span>
+                    {label}
+                  </span>
+                  {unset ? (
+                    <span className="text-xs font-mono text-text-muted">
+                      {key === "lastNetPay" ? "\u2014" : "0"}
+                    </span>
+                  ) : value !== undefined ? (
+                    <span className="text-xs font-mono text-text">
+                      {value.toLocaleString("en-US")}
+                    </span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revealComponent(handle)}
+                      loading={!!pending[handle]}
+                    >
+                      <Eye size={12} />
+                      ******
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-[11px] text-text-muted leading-relaxed">
+            Net pay is your salary plus allowances and bonus, less
+            deductions, computed on encrypted values at payroll time.
+          </p>
+        </div>
+      )}
+
       {/* Details */}
       <div className="grid grid-cols-2 gap-3 pt-2">
         <div className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
@@ -3,6 +3,8 @@
 import { useState, type FormEvent } from "react";
 import { Lock, AlertCircle, CheckCircle } from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import { useCompensation } from "@/hooks/useCompensation";
 import Button from "@/components/ui/Button";
 import Input from "@/components/ui/Input";
 import Dialog from "@/components/ui/Dialog";
@@ -18,10 +20,15 @@ export default function AddEmployee({
   onClose,
   onSuccess,
 }: AddEmployeeProps) {
-  const { payGramCore, contractsReady } = useWeb3();
+  const { payGramCore, address, contractsReady, encryptMany } = useWeb3();
+  const { gate, gateAddress, propose } = useApprovalGate();
+  const { compensation } = useCompensation();
   const [wallet, setWallet] = useState("");
   const [salary, setSalary] = useState("");
   const [role, setRole] = useState("");
+  const [allowances, setAllowances] = useState("");
+  const [bonus, setBonus] = useState("");
+  const [deductions, setDeductions] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [status, setStatus] = useState<{
     type: "success" | "error";
@@ -32,6 +39,9 @@ export default function AddEmployee({
     setWallet("");
     setSalary("");
     setRole("");
+    setAllowances("");
+    setBonus("");
+    setDeductions("");
     setStatus(null);
   }
 
@@ -40,6 +50,31 @@ export default function AddEmployee({
     onClose();
   }
 
+  /**
+   * Sets the new employee's pay components, through the approval gate
+   * when one is installed. Returns the success message.
+   */
+  async function saveComponents(components: number[]): Promise<string> {
+    const moduleAddress = await compensation!.getAddress();
+    // Through the gate the proof must be bound to the gate, the caller
+    const enc = await encryptMany(
+      components,
+      moduleAddress,
+      gate ? gateAddress! : address!
+    );
+    const [method, args] = enc.encrypted
+      ? ["setComponents", [wallet, ...enc.handles!, enc.inputProof]]
+      : ["setComponentsPlaintext", [wallet, ...enc.plaintextValues!]];
+
+    if (gate) {
+      const proposalId = await propose(method, args, compensation!);
+      return `Employee added; pay components are proposal #${proposalId} in the Approvals tab`;
+    }
+    const tx = await compensation![method](...args);
+    await tx.wait();
+    return "Employee added with pay components";
+  }
+
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     if (!payGramCore) return;
@@ -53,6 +88,13 @@ export default function AddEmployee({
         throw new Error("Salary must be a positive number");
       }
 
+      const components = [allowances, bonus, deductions].map((v) =>
+        v ? parseInt(v, 10) : 0
+      );
+      if (components.some((v) => isNaN(v) || v < 0)) {
+        throw new Error("Pay components must be zero or more");
+      }
+
       const tx = await payGramCore.addEmployeePlaintext(
         wallet,
         salaryNum,
@@ -60,7 +102,11 @@ export default function AddEmployee({
       );
       await tx.wait();
 
-      setStatus({ type: "success", message: "Employee added successfully" });
+      const message =
+        compensation && components.some((v) => v > 0)
+          ? await saveComponents(components)
+          : "Employee added successfully";
+      setStatus({ type: "success", message });
       setTimeout(() => {
         handleClose();
         onSuccess?.();
@@ -110,6 +156,48 @@ export default function AddEmployee({
           required
         />
 
+        {compensation ? (
+          <div className="space-y-3">
+            <p className="text-xs text-text-muted uppercase tracking-wider">
+              Pay Components (optional)
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <Input
+                label="Allowances"
+                type="number"
+                value={allowances}
+                onChange={(e) => setAllowances(e.target.value)}
+                placeholder="0"
+                min="0"
+                hint="Every run"
+              />
+              <Input
+                label="Bonus"
+                type="number"
+                value={bonus}
+                onChange={(e) => setBonus(e.target.value)}
+                placeholder="0"
+                min="0"
+                hint="Next run only"
+              />
+              <Input
+                label="Deductions"
+                type="number"
+                value={deductions}
+                onChange={(e) => setDeductions(e.target.value)}
+                placeholder="0"
+                min="0"
+                hint="Every run"
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-[11px] text-text-muted leading-relaxed">
+            Allowances, bonuses and deductions need a PayGramCompensation
+            module installed on this organization.
+          </p>
+        )}
+
         <div className="pt-2 space-y-3">
           <Button
             type="submit"
@@ -130,8 +218,9 @@ export default function AddEmployee({
           )}
 
           <p className="text-[11px] text-text-muted leading-relaxed">
-            Salary is encrypted on-chain via FHE. Only the employee and
-            employer can decrypt their own values.
+            Salary and pay components are encrypted on-chain via FHE. Net
+            pay is computed homomorphically at payroll time. Only the
+            employee and employer can decrypt their own values.
           </p>
         </div>
 
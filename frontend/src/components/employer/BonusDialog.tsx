@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { ethers } from "ethers";
+import { Gift, Plus, X, AlertCircle, CheckCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+import Dialog from "@/components/ui/Dialog";
+
+interface BonusDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+interface Recipient {
+  wallet: string;
+  amount: string;
+}
+
+const EMPTY_RECIPIENT: Recipient = { wallet: "", amount: "" };
+
+/** Mirrors PayGramCore.PAYROLL_BATCH_SIZE, the payOffCycle limit. */
+const MAX_RECIPIENTS = 2;
+
+/**
+ * Pays one-off encrypted amounts outside the payroll cycle. One recipient
+ * is sent as payBonus, several as a single payOffCycle batch. Either way
+ * the amounts are routed through the recipients' trust tiers like salary.
+ */
+export default function BonusDialog({ open, onClose, onSuccess }: BonusDialogProps) {
+  const { payGramCore, address, contractsReady, encrypt, encryptMany } = useWeb3();
+  const { gate, gateAddress, propose } = useApprovalGate();
+  const [recipients, setRecipients] = useState<Recipient[]>([EMPTY_RECIPIENT]);
+  const [memo, setMemo] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  function updateRecipient(index: number, changes: Partial<Recipient>) {
+    setRecipients((prev) =>
+      prev.map((r, i) => (i === index ? { ...r, ...changes } : r))
+    );
+  }
+
+  function handleClose() {
+    setRecipients([EMPTY_RECIPIENT]);
+    setMemo("");
+    setStatus(null);
+    onClose();
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!payGramCore || !address) return;
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const wallets = recipients.map((r) => r.wallet.trim());
+      const amounts = recipients.map((r) => parseInt(r.amount, 10));
+      if (wallets.some((w) => !ethers.isAddress(w))) {
+        throw new Error("Every recipient needs a valid wallet address");
+      }
+      if (amounts.some((a) => isNaN(a) || a <= 0)) {
+        throw new Error("Amounts must be positive numbers");
+      }
+
+      const core = await payGramCore.getAddress();
+      // Through the gate the proof must be bound to the gate, the caller
+      const user = gate ? gateAddress! : address;
+
+      let method: string;
+      let args: unknown[];
+      if (wallets.length === 1) {
+        const enc = await encrypt(amounts[0], core, user);
+        [method, args] = enc.encrypted
+          ? ["payBonus", [wallets[0], enc.handles![0], enc.inputProof, memo]]
+          : ["payBonusPlaintext", [wallets[0], enc.plaintextValue, memo]];
+      } else {
+        const enc = await encryptMany(amounts, core, user);
+        if (!enc.encrypted) {
+          throw new Error("Off-cycle batches need FHE on this network");
+        }
+        method = "payOffCycle";
+        args = [wallets, enc.handles, enc.inputProof, memo];
+      }
+
+      let message: string;
+      if (gate) {
+        const proposalId = await propose(method, args);
+        message = `Proposal #${proposalId} created — approvers sign in the Approvals tab`;
+      } else {
+        const tx = await payGramCore[method](...args);
+        await tx.wait();
+        message =
+          wallets.length === 1
+            ? "Bonus paid"
+            : `Off-cycle payment sent to ${wallets.length} employees`;
+      }
+
+      setStatus({ type: "success", message });
+      setTimeout(() => {
+        handleClose();
+        onSuccess?.();
+      }, 1500);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to send payment";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const batch = recipients.length > 1;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      title={batch ? "Off-Cycle Payment" : "Pay Bonus"}
+      description="One-off encrypted payment outside the payroll cycle"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-3">
+          {recipients.map((r, i) => (
+            <div key={i} className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input
+                  label={i === 0 ? "Employee Wallet" : undefined}
+                  value={r.wallet}
+                  onChange={(e) => updateRecipient(i, { wallet: e.target.value })}
+                  placeholder="0x..."
+                  required
+                  className="font-mono"
+                />
+              </div>
+              <div className="w-32">
+                <Input
+                  label={i === 0 ? "Amount" : undefined}
+                  type="number"
+                  value={r.amount}
+                  onChange={(e) => updateRecipient(i, { amount: e.target.value })}
+                  placeholder="1000"
+                  min="1"
+                  required
+                />
+              </div>
+              {batch && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setRecipients((prev) => prev.filter((_, j) => j !== i))
+                  }
+                  aria-label="Remove recipient"
+                >
+                  <X size={14} />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setRecipients((prev) => [...prev, EMPTY_RECIPIENT])}
+            disabled={recipients.length >= MAX_RECIPIENTS}
+          >
+            <Plus size={13} />
+            Add recipient
+          </Button>
+        </div>
+
+        <Input
+          label="Memo"
+          value={memo}
+          onChange={(e) => setMemo(e.target.value)}
+          placeholder="e.g. Q3 performance bonus"
+          maxLength={120}
+          required
+          hint="Public; shown in each recipient's payment history"
+        />
+
+        <div className="pt-2 space-y-3">
+          <Button
+            type="submit"
+            loading={isSubmitting}
+            disabled={!contractsReady}
+            className="w-full"
+            size="lg"
+          >
+            <Gift size={14} />
+            {isSubmitting
+              ? "Submitting..."
+              : gate
+                ? "Create Proposal"
+                : batch
+                  ? `Pay ${recipients.length} Employees`
+                  : "Pay Bonus"}
+          </Button>
+
+          {!contractsReady && (
+            <p className="flex items-center gap-1.5 text-xs text-warning">
+              <AlertCircle size={12} />
+              Connect wallet to a supported network first
+            </p>
+          )}
+
+          <p className="text-[11px] text-text-muted leading-relaxed">
+            Amounts are encrypted in your browser and routed by each
+            employee&apos;s trust tier: instant, delayed or escrowed, like
+            salary. They are not counted against the payroll budget.
+          </p>
+        </div>
+
+        {status && (
+          <div
+            className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+              status.type === "success"
+                ? "bg-primary-muted text-primary"
+                : "bg-danger-muted text-danger"
+            }`}
+          >
+            {status.type === "success" ? (
+              <CheckCircle size={14} />
+            ) : (
+              <AlertCircle size={14} />
+            )}
+            {status.message}
+          </div>
+        )}
+      </form>
+    </Dialog>
+  );
+}
@@ -1,34 +1,73 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { RefreshCw, Users, Lock } from "lucide-react";
+import { RefreshCw, Users, Lock, Eye, Gift, CalendarClock, UserMinus } from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { PAY_FREQUENCY } from "@/lib/constants";
 import { formatTimestamp } from "@/lib/contracts";
+import { defaultTiers } from "@/lib/routing";
 import { MOCK_EMPLOYEES, type MockEmployee } from "@/lib/mockData";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
 import AddressDisplay from "@/components/ui/AddressDisplay";
 import TrustBadge from "@/components/ui/TrustBadge";
 import StatusDot from "@/components/ui/StatusDot";
 import Badge from "@/components/ui/Badge";
 import Button from "@/components/ui/Button";
 
+// Demo rows are tiered against a fresh deployment's routing
+const DEMO_TIERS = defaultTiers();
+
 interface EmployeeData {
   wallet: string;
   isActive: boolean;
   hireDate: bigint;
   lastPayDate: bigint;
   role: string;
+  salaryHandle: string;
+  payFrequency: number;
+  nextPayDate: number;
+  isDue: boolean;
+  queuedChanges: number;
+  terminationDate: number;
 }
 
 interface EmployeeListProps {
   onAddEmployee: () => void;
-  isOwner: boolean;
+  onPayBonus: () => void;
+  onScheduleSalary: (wallet: string) => void;
+  onTerminate: (wallet: string) => void;
+  permissions: OrgPermissions;
 }
 
-export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListProps) {
+export default function EmployeeList({
+  onAddEmployee,
+  onPayBonus,
+  onScheduleSalary,
+  onTerminate,
+  permissions,
+}: EmployeeListProps) {
   const { payGramCore, contractsReady } = useWeb3();
   const [employees, setEmployees] = useState<EmployeeData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [useMock, setUseMock] = useState(false);
+  const { values, pending, error: decryptError, reveal } = useDecrypt();
+
+  async function updateFrequency(wallet: string, frequency: number) {
+    if (!payGramCore) return;
+    try {
+      const tx = await payGramCore.setEmployeePayFrequency(wallet, frequency);
+      await tx.wait();
+      fetchEmployees();
+    } catch {
+      // Rejected or reverted — the row keeps its current schedule
+    }
+  }
+
+  async function revealSalary(handle: string) {
+    if (!payGramCore) return;
+    await reveal(handle, await payGramCore.getAddress());
+  }
 
   const fetchEmployees = useCallback(async () => {
     if (!payGramCore) {
@@ -44,12 +83,30 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
       for (const addr of addresses) {
         try {
           const emp = await payGramCore.getEmployee(addr);
+          const salaryHandle: string =
+            await payGramCore.getEncryptedSalary(addr);
+          const [payFrequency, nextPayDate, isDue] =
+            await payGramCore.getPaySchedule(addr);
+          let queuedChanges = 0;
+          try {
+            const [, effectiveAts] =
+              await payGramCore.getPendingSalaryChanges(addr);
+            queuedChanges = effectiveAts.length;
+          } catch {
+            // Cores deployed before scheduled changes have no queue
+          }
           empData.push({
             wallet: emp.empWallet,
             isActive: emp.isActive,
             hireDate: emp.hireDate,
             lastPayDate: emp.lastPayDate,
             role: emp.role,
+            salaryHandle,
+            payFrequency: Number(payFrequency),
+            nextPayDate: Number(nextPayDate),
+            isDue,
+            queuedChanges,
+            terminationDate: Number(emp.terminationDate ?? 0),
           });
         } catch {
           // Skip if getEmployee fails
@@ -103,12 +160,28 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
             Refresh
           </Button>
           <div className="relative group">
-            <Button variant="primary" size="sm" onClick={onAddEmployee} disabled={!isOwner}>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onPayBonus}
+              disabled={useMock || !permissions.payrollAdmin}
+            >
+              <Gift size={13} />
+              Pay Bonus
+            </Button>
+            {!permissions.payrollAdmin && (
+              <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2.5 py-1.5 rounded-lg bg-surface-elevated text-[11px] text-text-muted whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none border border-white/[0.08]">
+                Requires the Payroll Admin role
+              </span>
+            )}
+          </div>
+          <div className="relative group">
+            <Button variant="primary" size="sm" onClick={onAddEmployee} disabled={!permissions.hr}>
               Add Employee
             </Button>
-            {!isOwner && (
+            {!permissions.hr && (
               <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2.5 py-1.5 rounded-lg bg-surface-elevated text-[11px] text-text-muted whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none border border-white/[0.08]">
-                Only contract owner can add employees
+                Requires the HR role
               </span>
             )}
           </div>
@@ -122,7 +195,7 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
           <p className="text-xs text-text-muted mb-4">
             Add your first team member to get started
           </p>
-          <Button size="sm" onClick={onAddEmployee} disabled={!isOwner}>
+          <Button size="sm" onClick={onAddEmployee} disabled={!permissions.hr}>
             Add Employee
           </Button>
         </div>
@@ -138,6 +211,8 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
                   <th className="px-4 py-3 font-medium text-xs">Trust Tier</th>
                   <th className="px-4 py-3 font-medium text-xs">Salary</th>
                   <th className="px-4 py-3 font-medium text-xs">Hire Date</th>
+                  <th className="px-4 py-3 font-medium text-xs">Pay Cycle</th>
+                  <th className="px-4 py-3 font-medium text-xs">Next Pay</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-white/[0.03]">
@@ -148,7 +223,7 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
                     ? item.status === "active"
                     : item.isActive;
                   const roleName = m ? item.role : item.role;
-                  const tier = m ? item.tier : "unscored";
+                  const tier = m ? item.tier : null;
                   const hireDate = m
                     ? new Date(item.hireDate).toLocaleDateString("en-US", {
                         year: "numeric",
@@ -163,10 +238,22 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
                       className="text-text-secondary hover:bg-white/[0.02] transition-colors"
                     >
                       <td className="px-4 py-3">
-                        <StatusDot
-                          status={active ? "active" : "inactive"}
-                          size="md"
-                        />
+                        <div className="flex items-center gap-2">
+                          <StatusDot
+                            status={active ? "active" : "inactive"}
+                            size="md"
+                          />
+                          {!m && item.isActive && permissions.hr && (
+                            <button
+                              type="button"
+                              onClick={() => onTerminate(item.wallet)}
+                              className="text-text-muted hover:text-danger transition-colors"
+                              aria-label="Terminate employee"
+                            >
+                              <UserMinus size={12} />
+                            </button>
+                          )}
+                        </div>
                       </td>
                       <td className="px-4 py-3">
                         <AddressDisplay address={addr} />
@@ -177,17 +264,90 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
                         </Badge>
                       </td>
                       <td className="px-4 py-3">
-                        <TrustBadge tier={tier} size="sm" />
+                        <TrustBadge tier={tier} tiers={DEMO_TIERS} size="sm" />
                       </td>
                       <td className="px-4 py-3">
-                        <span className="inline-flex items-center gap-1.5 text-xs text-text-muted font-mono">
-                          <Lock size={10} />
-                          Encrypted
-                        </span>
+                        {!m && values[item.salaryHandle] !== undefined ? (
+                          <span className="text-xs font-mono text-text">
+                            {values[item.salaryHandle].toLocaleString("en-US")}{" "}
+                            cUSDC
+                          </span>
+                        ) : !m ? (
+                          <button
+                            type="button"
+                            onClick={() => revealSalary(item.salaryHandle)}
+                            disabled={!!pending[item.salaryHandle]}
+                            className="inline-flex items-center gap-1.5 text-xs text-text-muted font-mono hover:text-text transition-colors disabled:opacity-50"
+                          >
+                            <Lock size={10} />
+                            {pending[item.salaryHandle] ? "Decrypting..." : "Encrypted"}
+                            <Eye size={10} />
+                          </button>
+                        ) : (
+                          <span className="inline-flex items-center gap-1.5 text-xs text-text-muted font-mono">
+                            <Lock size={10} />
+                            Encrypted
+                          </span>
+                        )}
+                        {!m && item.isActive && (permissions.hr || item.queuedChanges > 0) && (
+                          <button
+                            type="button"
+                            onClick={() => onScheduleSalary(item.wallet)}
+                            disabled={!permissions.hr}
+                            className="ml-2 inline-flex items-center gap-1 text-[11px] text-text-muted hover:text-text transition-colors disabled:pointer-events-none"
+                            aria-label="Salary changes"
+                          >
+                            <CalendarClock size={11} />
+                            {item.queuedChanges > 0 && `${item.queuedChanges} queued`}
+                          </button>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-xs text-text-muted">
                         {hireDate}
                       </td>
+                      <td className="px-4 py-3 text-xs">
+                        {m ? (
+                          <span className="text-text-muted">Monthly</span>
+                        ) : permissions.payrollAdmin && item.isActive ? (
+                          <select
+                            value={item.payFrequency}
+                            onChange={(e) =>
+                              updateFrequency(item.wallet, Number(e.target.value))
+                            }
+                            className="bg-transparent text-xs text-text-secondary focus:outline-none"
+                            aria-label="Pay frequency"
+                          >
+                            {Object.entries(PAY_FREQUENCY).map(
+                              ([value, label]) => (
+                                <option key={value} value={value}>
+                                  {label}
+                                </option>
+                              )
+                            )}
+                          </select>
+                        ) : (
+                          <span className="text-text-muted">
+                            {
+                              PAY_FREQUENCY[
+                                item.payFrequency as keyof typeof PAY_FREQUENCY
+                              ]
+                            }
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-text-muted">
+                        {!m && item.terminationDate > 0 ? (
+                          `Left ${formatTimestamp(item.terminationDate)}`
+                        ) : m || !item.isActive ? (
+                          "\u2014"
+                        ) : item.isDue ? (
+                          <Badge variant="primary" size="sm">
+                            Due now
+                          </Badge>
+                        ) : (
+                          formatTimestamp(item.nextPayDate)
+                        )}
+                      </td>
                     </tr>
                   );
                 })}
@@ -196,6 +356,10 @@ export default function EmployeeList({ onAddEmployee, isOwner }: EmployeeListPro
           </div>
         </div>
       )}
+
+      {decryptError && (
+        <p className="mt-3 text-xs text-danger">{decryptError}</p>
+      )}
     </div>
   );
 }
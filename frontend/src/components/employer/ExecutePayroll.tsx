@@ -1,34 +1,96 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Play, AlertCircle, CheckCircle, ShieldCheck, Clock, Lock } from "lucide-react";
+import { Play, AlertCircle, CheckCircle, ShieldCheck, ShieldAlert, Clock, Lock, Split, Loader2 } from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { useTierConfig } from "@/hooks/useTierConfig";
+import { PAY_FREQUENCY } from "@/lib/constants";
+import { describeTier, tierKind } from "@/lib/routing";
 import { MOCK_STATS } from "@/lib/mockData";
 import Button from "@/components/ui/Button";
 import Dialog from "@/components/ui/Dialog";
 import Badge from "@/components/ui/Badge";
+import PayrollBudget from "@/components/employer/PayrollBudget";
+
+const KIND_STYLES = {
+  instant: {
+    Icon: ShieldCheck,
+    row: "bg-primary-muted/50 border-primary/10",
+    text: "text-primary",
+  },
+  delayed: {
+    Icon: Clock,
+    row: "bg-warning-muted/50 border-warning/10",
+    text: "text-warning",
+  },
+  split: {
+    Icon: Split,
+    row: "bg-warning-muted/50 border-warning/10",
+    text: "text-warning",
+  },
+  escrow: {
+    Icon: Lock,
+    row: "bg-danger-muted/50 border-danger/10",
+    text: "text-danger",
+  },
+};
+
+/** Mirrors PayGramCore.PAYROLL_BATCH_SIZE. */
+const PAYROLL_BATCH_SIZE = 2;
 
 interface ExecutePayrollProps {
-  isOwner: boolean;
+  permissions: OrgPermissions;
+}
+
+/** Outcome of the checkSolvency preflight. */
+type Solvency = "checking" | "solvent" | "insolvent" | "unavailable";
+
+interface PayrollProgress {
+  runId: number;
+  cursor: number;
+  rosterSize: number;
 }
 
-export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
+export default function ExecutePayroll({ permissions }: ExecutePayrollProps) {
   const { payGramCore, contractsReady } = useWeb3();
+  const { gate, isApprover, propose } = useApprovalGate();
+  const { reveal } = useDecrypt();
+  const { tiers } = useTierConfig();
   const [activeCount, setActiveCount] = useState<number>(0);
   const [totalPayrolls, setTotalPayrolls] = useState<number>(0);
+  const [dueCount, setDueCount] = useState<number>(0);
+  const [payFrequency, setPayFrequency] = useState<number>(4);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [progress, setProgress] = useState<PayrollProgress | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
+  const [solvency, setSolvency] = useState<Solvency | null>(null);
   const [useMock, setUseMock] = useState(false);
   const [status, setStatus] = useState<{
     type: "success" | "error";
     message: string;
   } | null>(null);
 
+  /** Returns the open payroll run, or null when none is in progress. */
+  const readProgress = useCallback(async (): Promise<PayrollProgress | null> => {
+    if (!payGramCore) return null;
+    const [runId, cursor, rosterSize] = await payGramCore.getPayrollProgress();
+    if (Number(runId) === 0) return null;
+    return {
+      runId: Number(runId),
+      cursor: Number(cursor),
+      rosterSize: Number(rosterSize),
+    };
+  }, [payGramCore]);
+
   const fetchStats = useCallback(async () => {
     if (!payGramCore) {
       setUseMock(true);
       setActiveCount(MOCK_STATS.activeEmployees);
       setTotalPayrolls(MOCK_STATS.totalPayrolls);
+      setDueCount(MOCK_STATS.activeEmployees);
       return;
     }
     try {
@@ -36,18 +98,60 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
       setActiveCount(Number(count));
       const payrolls = await payGramCore.totalPayrollsExecuted();
       setTotalPayrolls(Number(payrolls));
+      const [, , due] = await payGramCore.getPaySchedules();
+      setDueCount(Number(due));
+      setPayFrequency(Number(await payGramCore.defaultPayFrequency()));
+      setProgress(await readProgress());
       setUseMock(false);
     } catch {
       setUseMock(true);
       setActiveCount(MOCK_STATS.activeEmployees);
       setTotalPayrolls(MOCK_STATS.totalPayrolls);
+      setDueCount(MOCK_STATS.activeEmployees);
     }
-  }, [payGramCore]);
+  }, [payGramCore, readProgress]);
 
   useEffect(() => {
     fetchStats();
   }, [fetchStats]);
 
+  async function handleFrequencyChange(frequency: number) {
+    if (!payGramCore) return;
+    setStatus(null);
+    try {
+      const tx = await payGramCore.setDefaultPayFrequency(frequency);
+      await tx.wait();
+      setPayFrequency(frequency);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to update pay frequency";
+      setStatus({ type: "error", message });
+    }
+  }
+
+  /**
+   * Opens the confirm dialog and runs the on-chain solvency preflight:
+   * confidential transfers the balance cannot cover move zero instead of
+   * reverting, so an underfunded run would silently underpay.
+   */
+  async function openConfirm() {
+    setShowConfirm(true);
+    setSolvency(null);
+    if (!payGramCore || useMock || !permissions.payrollAdmin) return;
+
+    setSolvency("checking");
+    try {
+      const tx = await payGramCore.checkSolvency();
+      await tx.wait();
+      const [handle] = await payGramCore.getSolvency();
+      const solvent = await reveal(handle, await payGramCore.getAddress());
+      if (solvent === null) setSolvency("unavailable");
+      else setSolvency(solvent === BigInt(0) ? "insolvent" : "solvent");
+    } catch {
+      setSolvency("unavailable");
+    }
+  }
+
   async function handleExecute() {
     if (!payGramCore) return;
 
@@ -56,11 +160,35 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
     setStatus(null);
 
     try {
-      const tx = await payGramCore.executePayroll();
-      await tx.wait();
+      // With an approval gate the run needs N-of-M sign-off; each executed
+      // proposal processes one batch.
+      if (gate) {
+        const proposalId = await propose("executePayroll");
+        setStatus({
+          type: "success",
+          message: `Proposal #${proposalId} created \u2014 approvers sign in the Approvals tab`,
+        });
+        return;
+      }
+
+      // Each call processes up to PAYROLL_BATCH_SIZE employees; keep sending
+      // chunks until the contract reports the run as closed.
+      let chunks = 0;
+      for (;;) {
+        const tx = await payGramCore.executePayroll();
+        await tx.wait();
+        chunks++;
+
+        const next = await readProgress();
+        setProgress(next);
+        if (!next) break;
+      }
       setStatus({
         type: "success",
-        message: "Payroll executed successfully",
+        message:
+          chunks > 1
+            ? `Payroll executed successfully in ${chunks} batches`
+            : "Payroll executed successfully",
       });
       fetchStats();
     } catch (err) {
@@ -72,6 +200,9 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
     }
   }
 
+  const canExecute = gate ? isApprover : permissions.payrollAdmin;
+  const executeLabel = progress ? "Resume Payroll" : "Execute Payroll";
+
   return (
     <div className="space-y-6">
       {/* Summary card */}
@@ -87,7 +218,7 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
           )}
         </div>
 
-        <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="grid grid-cols-3 gap-4 mb-4">
           <div className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
             <p className="text-xs text-text-muted mb-0.5">Active Employees</p>
             <p className="text-xl font-heading font-bold text-text">
@@ -100,6 +231,31 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
               {totalPayrolls}
             </p>
           </div>
+          <div className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
+            <p className="text-xs text-text-muted mb-0.5">Due Now</p>
+            <p className="text-xl font-heading font-bold text-text">
+              {dueCount}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-6 p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
+          <span className="text-xs text-text-muted">Default pay frequency</span>
+          <select
+            value={payFrequency}
+            onChange={(e) => handleFrequencyChange(Number(e.target.value))}
+            disabled={useMock || !permissions.payrollAdmin}
+            className="bg-transparent text-xs text-text-secondary focus:outline-none disabled:opacity-60"
+            aria-label="Default pay frequency"
+          >
+            {Object.entries(PAY_FREQUENCY)
+              .filter(([value]) => value !== "0")
+              .map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+          </select>
         </div>
 
         {/* Trust tier routing */}
@@ -108,40 +264,65 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
             Routing by Trust Tier
           </p>
           <div className="grid gap-2">
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-primary-muted/50 border border-primary/10">
-              <div className="flex items-center gap-2">
-                <ShieldCheck size={14} className="text-primary" />
-                <span className="text-xs text-text-secondary">High Trust</span>
-              </div>
-              <span className="text-xs font-mono text-primary">Instant</span>
-            </div>
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-warning-muted/50 border border-warning/10">
-              <div className="flex items-center gap-2">
-                <Clock size={14} className="text-warning" />
-                <span className="text-xs text-text-secondary">
-                  Medium Trust
-                </span>
-              </div>
-              <span className="text-xs font-mono text-warning">24h Hold</span>
+            {tiers.map((t) => {
+              const { Icon, row, text } = KIND_STYLES[tierKind(t)];
+              return (
+                <div
+                  key={t.minScore}
+                  className={`flex items-center justify-between p-2.5 rounded-lg border ${row}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Icon size={14} className={text} />
+                    <span className="text-xs text-text-secondary">
+                      {t.name}
+                    </span>
+                  </div>
+                  <span className={`text-xs font-mono ${text}`}>
+                    {describeTier(t)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {progress && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-1.5 text-xs">
+              <span className="text-text-secondary">
+                {isExecuting ? "Processing" : "Paused"} payroll run #
+                {progress.runId}
+              </span>
+              <span className="font-mono text-text-muted">
+                {progress.cursor} / {progress.rosterSize}
+              </span>
             </div>
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-danger-muted/50 border border-danger/10">
-              <div className="flex items-center gap-2">
-                <Lock size={14} className="text-danger" />
-                <span className="text-xs text-text-secondary">Low Trust</span>
-              </div>
-              <span className="text-xs font-mono text-danger">Escrow</span>
+            <div className="h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all duration-500"
+                style={{
+                  width: `${
+                    progress.rosterSize > 0
+                      ? (progress.cursor / progress.rosterSize) * 100
+                      : 0
+                  }%`,
+                }}
+              />
             </div>
           </div>
-        </div>
+        )}
 
         <Button
-          onClick={() => setShowConfirm(true)}
-          disabled={!contractsReady || activeCount === 0 || !isOwner}
+          onClick={openConfirm}
+          disabled={
+            !contractsReady || !canExecute || (!progress && dueCount === 0)
+          }
+          loading={isExecuting}
           className="w-full"
           size="lg"
         >
           <Play size={16} />
-          Execute Payroll
+          {gate ? `Propose ${executeLabel}` : executeLabel}
         </Button>
 
         {!contractsReady && (
@@ -151,10 +332,12 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
           </p>
         )}
 
-        {contractsReady && !isOwner && (
+        {contractsReady && !canExecute && (
           <p className="flex items-center gap-1.5 mt-3 text-xs text-text-muted">
             <Lock size={12} />
-            Only contract owner can execute payroll
+            {gate
+              ? "Only approvers can propose payroll runs"
+              : "Requires the Payroll Admin role"}
           </p>
         )}
 
@@ -176,48 +359,92 @@ export default function ExecutePayroll({ isOwner }: ExecutePayrollProps) {
         )}
       </div>
 
+      <PayrollBudget permissions={permissions} lastRunId={totalPayrolls} />
+
       {/* Confirm dialog */}
       <Dialog
         open={showConfirm}
         onClose={() => setShowConfirm(false)}
         title="Confirm Payroll Execution"
-        description={`This will process payments for ${activeCount} active employee${activeCount !== 1 ? "s" : ""}.`}
+        description={`This will process payments for ${dueCount} employee${dueCount !== 1 ? "s" : ""} due this pay period.`}
       >
         <div className="space-y-4">
+          {solvency === "checking" && (
+            <p className="flex items-center gap-2 p-3 rounded-lg text-xs bg-white/[0.02] text-text-secondary">
+              <Loader2 size={14} className="animate-spin" />
+              Checking the treasury covers this run and outstanding payments...
+            </p>
+          )}
+          {solvency === "solvent" && (
+            <p className="flex items-center gap-2 p-3 rounded-lg text-xs bg-primary-muted text-primary">
+              <ShieldCheck size={14} />
+              Treasury covers this run and all outstanding payments
+            </p>
+          )}
+          {solvency === "insolvent" && (
+            <p className="flex items-center gap-2 p-3 rounded-lg text-xs bg-danger-muted text-danger">
+              <ShieldAlert size={14} />
+              The treasury cannot cover this run plus outstanding delayed and
+              escrowed payments. Transfers would silently be zero; fund the
+              contract before running payroll.
+            </p>
+          )}
+          {solvency === "unavailable" && (
+            <p className="flex items-center gap-2 p-3 rounded-lg text-xs bg-warning-muted text-warning">
+              <AlertCircle size={14} />
+              Solvency could not be verified. Make sure the contract is funded.
+            </p>
+          )}
+
           <p className="text-sm text-text-secondary">
             Trust-gated routing will determine payment flows based on each
             employee&apos;s encrypted trust score. This operation cannot be
             undone.
           </p>
 
+          {gate && (
+            <p className="text-xs text-text-muted">
+              An approval gate is installed: this creates a proposal that runs
+              once enough approvers have signed it.
+            </p>
+          )}
+
+          <p className="text-xs text-text-muted">
+            If a payroll budget is set, salaries that would exceed it are
+            paid as zero; verify the run in the Payroll Budget panel.
+          </p>
+
+          {dueCount > PAYROLL_BATCH_SIZE && (
+            <p className="text-xs text-text-muted">
+              The roster is processed in batches of {PAYROLL_BATCH_SIZE}; you will
+              be asked to confirm one transaction per batch.
+            </p>
+          )}
+
           <div className="grid gap-2">
-            <div className="flex items-center justify-between p-2 rounded bg-white/[0.02]">
-              <span className="text-xs text-text-secondary">
-                High Trust employees
-              </span>
-              <span className="text-xs text-primary">Instant transfer</span>
-            </div>
-            <div className="flex items-center justify-between p-2 rounded bg-white/[0.02]">
-              <span className="text-xs text-text-secondary">
-                Medium Trust employees
-              </span>
-              <span className="text-xs text-warning">24h delayed</span>
-            </div>
-            <div className="flex items-center justify-between p-2 rounded bg-white/[0.02]">
-              <span className="text-xs text-text-secondary">
-                Low Trust employees
-              </span>
-              <span className="text-xs text-danger">Escrowed</span>
-            </div>
+            {tiers.map((t) => (
+              <div
+                key={t.minScore}
+                className="flex items-center justify-between p-2 rounded bg-white/[0.02]"
+              >
+                <span className="text-xs text-text-secondary">
+                  {t.name} employees
+                </span>
+                <span className={`text-xs ${KIND_STYLES[tierKind(t)].text}`}>
+                  {describeTier(t)}
+                </span>
+              </div>
+            ))}
           </div>
 
           <div className="flex gap-3 pt-2">
             <Button
               onClick={handleExecute}
               loading={isExecuting}
+              disabled={solvency === "checking" || solvency === "insolvent"}
               className="flex-1"
             >
-              Confirm Execute
+              {gate ? "Create Proposal" : "Confirm Execute"}
             </Button>
             <Button
               variant="outline"
@@ -0,0 +1,326 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { Eye, RefreshCw, ArrowDownToLine, ExternalLink, AlertCircle, CheckCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { useDeposits } from "@/hooks/useDeposits";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import { formatTimestamp, getTxUrl } from "@/lib/contracts";
+import AddressDisplay from "@/components/ui/AddressDisplay";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+import Tabs from "@/components/ui/Tabs";
+
+interface FundPayrollProps {
+  permissions: OrgPermissions;
+}
+
+const SOURCES = [
+  { id: "wallet", label: "From my wallet" },
+  { id: "operator", label: "As operator" },
+];
+
+/** Deposits shown before "Show all". */
+const RECENT_DEPOSITS = 5;
+
+/**
+ * Funds PayGramCore with confidential cUSDC. The amount is encrypted in
+ * the browser and sent with confidentialTransfer, or with
+ * confidentialTransferFrom when the connected wallet is an operator of
+ * the paying account (e.g. a company treasury).
+ */
+export default function FundPayroll({ permissions }: FundPayrollProps) {
+  const { payGramCore, payGramToken, address, chainId, contractsReady, encrypt } =
+    useWeb3();
+  const { values, pending, error: decryptError, reveal } = useDecrypt();
+  const { deposits, isSyncing, error: syncError, sync } = useDeposits();
+  const [balance, setBalance] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [source, setSource] = useState("wallet");
+  const [holder, setHolder] = useState("");
+  const [amount, setAmount] = useState("");
+  const [isDepositing, setIsDepositing] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const fetchBalance = useCallback(async () => {
+    if (!payGramCore) {
+      setBalance(null);
+      return;
+    }
+    try {
+      setBalance(await payGramCore.getContractBalance());
+    } catch {
+      setBalance(null);
+    }
+  }, [payGramCore]);
+
+  useEffect(() => {
+    fetchBalance();
+  }, [fetchBalance]);
+
+  // The balance handle changes on every transfer, so access is granted
+  // for the current handle right before decrypting it
+  async function handleReveal() {
+    if (!payGramCore || !payGramToken || !balance) return;
+    setIsRevealing(true);
+    try {
+      const tx = await payGramCore.allowBalanceAccess();
+      await tx.wait();
+      const handle: string = await payGramCore.getContractBalance();
+      setBalance(handle);
+      await reveal(handle, await payGramToken.getAddress());
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to grant balance access";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsRevealing(false);
+    }
+  }
+
+  async function handleDeposit() {
+    if (!payGramCore || !payGramToken || !address) return;
+
+    setIsDepositing(true);
+    setStatus(null);
+    try {
+      const value = parseInt(amount, 10);
+      if (isNaN(value) || value <= 0) throw new Error("Amount must be a positive number");
+
+      const core = await payGramCore.getAddress();
+      const token = await payGramToken.getAddress();
+      const enc = await encrypt(value, token, address);
+      if (!enc.encrypted) {
+        throw new Error("Confidential deposits need FHE on this network");
+      }
+
+      let tx;
+      if (source === "operator") {
+        if (!ethers.isAddress(holder)) throw new Error("Not a valid holder address");
+        if (!(await payGramToken.isOperator(holder, address))) {
+          throw new Error(
+            "This wallet is not an operator of the holder; the holder must call setOperator first"
+          );
+        }
+        tx = await payGramToken[
+          "confidentialTransferFrom(address,address,bytes32,bytes)"
+        ](holder, core, enc.handles![0], enc.inputProof);
+      } else {
+        tx = await payGramToken[
+          "confidentialTransfer(address,bytes32,bytes)"
+        ](core, enc.handles![0], enc.inputProof);
+      }
+      await tx.wait();
+
+      setAmount("");
+      setStatus({ type: "success", message: "Deposit sent to payroll" });
+      await Promise.all([fetchBalance(), sync()]);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to fund payroll";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsDepositing(false);
+    }
+  }
+
+  const empty = balance === ethers.ZeroHash;
+  const decrypted = balance ? values[balance] : undefined;
+  const shown = showAll ? deposits : deposits.slice(0, RECENT_DEPOSITS);
+
+  return (
+    <div className="glass-card-static p-6">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="flex items-center gap-2 text-sm font-heading font-bold text-text">
+          <ArrowDownToLine size={14} className="text-primary" />
+          Fund Payroll
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => Promise.all([fetchBalance(), sync()])}
+          disabled={isSyncing}
+        >
+          <RefreshCw size={13} className={isSyncing ? "animate-spin" : ""} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Treasury balance */}
+      <div className="flex items-center justify-between mb-5 p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
+        <div>
+          <p className="text-xs text-text-muted mb-0.5">Treasury balance</p>
+          <p className="text-xl font-heading font-bold text-text">
+            {!balance
+              ? "\u2014"
+              : empty
+                ? "0"
+                : decrypted !== undefined
+                  ? decrypted.toLocaleString("en-US")
+                  : "******"}{" "}
+            <span className="text-xs text-text-muted">cUSDC</span>
+          </p>
+        </div>
+        {balance && !empty && decrypted === undefined && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleReveal}
+            loading={isRevealing || !!pending[balance]}
+            disabled={!permissions.isEmployer && !permissions.auditor}
+          >
+            <Eye size={12} />
+            Decrypt
+          </Button>
+        )}
+      </div>
+
+      {/* Deposit form */}
+      <div className="space-y-3">
+        <Tabs tabs={SOURCES} activeTab={source} onChange={setSource} className="w-fit" />
+        {source === "operator" && (
+          <Input
+            label="Holder address"
+            placeholder="0x..."
+            value={holder}
+            onChange={(e) => setHolder(e.target.value.trim())}
+            hint="The holder must have set this wallet as an operator on the token."
+            className="font-mono"
+          />
+        )}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <Input
+              label="Amount"
+              type="number"
+              min={1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="e.g. 50000"
+              hint="Encrypted in your browser before it is sent."
+            />
+          </div>
+          <Button
+            onClick={handleDeposit}
+            loading={isDepositing}
+            disabled={
+              !contractsReady || !amount || (source === "operator" && !holder)
+            }
+          >
+            <ArrowDownToLine size={14} />
+            Deposit
+          </Button>
+        </div>
+      </div>
+
+      {/* Deposit history */}
+      <div className="mt-5 pt-5 border-t border-white/[0.04]">
+        <p className="text-xs text-text-muted uppercase tracking-wider mb-3">
+          Deposits
+        </p>
+        {deposits.length === 0 ? (
+          <p className="text-xs text-text-muted">
+            {isSyncing ? "Loading deposits..." : "No deposits yet."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-white/[0.03]">
+            {shown.map((d) => {
+              const txUrl = getTxUrl(chainId, d.txHash);
+              const mine =
+                !!address && d.from.toLowerCase() === address.toLowerCase();
+              const value = values[d.amount];
+              return (
+                <li
+                  key={`${d.txHash}:${d.amount}`}
+                  className="flex items-center justify-between gap-3 py-2.5"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    {d.from === ethers.ZeroAddress ? (
+                      <span className="text-xs text-text-secondary">Minted</span>
+                    ) : (
+                      <AddressDisplay address={d.from} />
+                    )}
+                    <span className="text-[11px] text-text-muted">
+                      {formatTimestamp(d.timestamp)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {value !== undefined ? (
+                      <span className="text-xs font-mono text-text">
+                        {value.toLocaleString("en-US")}
+                      </span>
+                    ) : mine && payGramToken ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={async () =>
+                          reveal(d.amount, await payGramToken.getAddress())
+                        }
+                        loading={!!pending[d.amount]}
+                      >
+                        <Eye size={12} />
+                      </Button>
+                    ) : (
+                      <span className="text-xs font-mono text-text-muted">******</span>
+                    )}
+                    {txUrl && (
+                      <a
+                        href={txUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-text-muted hover:text-text transition-colors"
+                        aria-label="View transaction"
+                      >
+                        <ExternalLink size={12} />
+                      </a>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {deposits.length > RECENT_DEPOSITS && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAll((v) => !v)}
+            className="mt-2"
+          >
+            {showAll ? "Show recent" : `Show all ${deposits.length}`}
+          </Button>
+        )}
+      </div>
+
+      {(decryptError || syncError) && (
+        <p className="flex items-center gap-1.5 mt-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError ?? syncError}
+        </p>
+      )}
+
+      {status && (
+        <div
+          className={`flex items-center gap-2 mt-3 p-3 rounded-lg text-sm ${
+            status.type === "success"
+              ? "bg-primary-muted text-primary"
+              : "bg-danger-muted text-danger"
+          }`}
+        >
+          {status.type === "success" ? (
+            <CheckCircle size={14} />
+          ) : (
+            <AlertCircle size={14} />
+          )}
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { Check, X, Flag } from "lucide-react";
+import { formatTimestamp } from "@/lib/contracts";
+import {
+  STATUS_ESCROWED,
+  MILESTONE_CLAIMED,
+  type IndexedPayment,
+} from "@/lib/paymentIndex";
+import { useMilestoneActions } from "@/hooks/useMilestoneActions";
+import Button from "@/components/ui/Button";
+import Dialog from "@/components/ui/Dialog";
+import Input from "@/components/ui/Input";
+import MilestoneBadge from "@/components/ui/MilestoneBadge";
+import EvidenceLink from "@/components/ui/EvidenceLink";
+
+interface MilestoneActionsProps {
+  payment: IndexedPayment;
+  canManage: boolean;
+  onChange: () => void;
+}
+
+/** Seconds in a day, for the default deadline. */
+const DAY = 24 * 60 * 60;
+
+function toDateInput(ts: number): string {
+  return new Date(ts * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Employer-side milestone cell: shows the escrow's milestone state and
+ * offers define / approve / reject depending on where it stands.
+ */
+export default function MilestoneActions({
+  payment,
+  canManage,
+  onChange,
+}: MilestoneActionsProps) {
+  const { busyId, error, define, approve, reject } =
+    useMilestoneActions(onChange);
+  const [dialog, setDialog] = useState<"define" | "reject" | null>(null);
+  const [description, setDescription] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [reason, setReason] = useState("");
+
+  const escrowed = payment.status === STATUS_ESCROWED;
+  const busy = busyId === payment.id;
+
+  function openDefine() {
+    setDescription(payment.milestoneState ? payment.milestone : "");
+    setDeadline(
+      toDateInput(
+        payment.milestoneDeadline ||
+          Math.floor(Date.now() / 1000) + 14 * DAY
+      )
+    );
+    setDialog("define");
+  }
+
+  async function handleDefine() {
+    // End of the selected day, local time
+    const ts = Math.floor(
+      new Date(`${deadline}T23:59:59`).getTime() / 1000
+    );
+    if (await define(payment.id, description.trim(), ts)) setDialog(null);
+  }
+
+  async function handleReject() {
+    if (await reject(payment.id, reason.trim())) {
+      setReason("");
+      setDialog(null);
+    }
+  }
+
+  if (!escrowed && !payment.milestoneState) {
+    return <span className="text-xs text-text-muted">{"\u2014"}</span>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <MilestoneBadge state={payment.milestoneState} />
+        {payment.milestoneDeadline > 0 && (
+          <span className="text-[11px] text-text-muted">
+            due {formatTimestamp(payment.milestoneDeadline)}
+          </span>
+        )}
+      </div>
+
+      {payment.evidence && <EvidenceLink evidence={payment.evidence} />}
+
+      {escrowed && canManage && (
+        <div className="flex items-center gap-1">
+          {payment.milestoneState === MILESTONE_CLAIMED ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => approve(payment.id)}
+                loading={busy}
+              >
+                <Check size={12} />
+                Approve
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDialog("reject")}
+                disabled={busy}
+              >
+                <X size={12} />
+                Reject
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={openDefine} disabled={busy}>
+              <Flag size={12} />
+              {payment.milestoneState ? "Edit milestone" : "Set milestone"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && !dialog && <p className="text-[11px] text-danger">{error}</p>}
+
+      <Dialog
+        open={dialog === "define"}
+        onClose={() => setDialog(null)}
+        title={`Milestone for payment #${payment.id}`}
+        description="The employee can claim completion until the deadline. The escrow is released when you approve the claim."
+      >
+        <div className="space-y-4">
+          <Input
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Deliver the Q3 security audit report"
+          />
+          <Input
+            label="Deadline"
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+          />
+          {error && <p className="text-xs text-danger">{error}</p>}
+          <div className="flex gap-3 pt-2">
+            <Button
+              onClick={handleDefine}
+              loading={busy}
+              disabled={!description.trim() || !deadline}
+              className="flex-1"
+            >
+              Save Milestone
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setDialog(null)}
+              disabled={busy}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Dialog>
+
+      <Dialog
+        open={dialog === "reject"}
+        onClose={() => setDialog(null)}
+        title={`Reject claim on payment #${payment.id}`}
+        description="The employee can resubmit before the deadline."
+      >
+        <div className="space-y-4">
+          <Input
+            label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What is missing?"
+          />
+          {error && <p className="text-xs text-danger">{error}</p>}
+          <div className="flex gap-3 pt-2">
+            <Button
+              variant="danger"
+              onClick={handleReject}
+              loading={busy}
+              className="flex-1"
+            >
+              Reject Claim
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setDialog(null)}
+              disabled={busy}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { Eye, Wallet, X, AlertCircle, CheckCircle, ShieldCheck, ShieldAlert } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import Button from "@/components/ui/Button";
+import Badge from "@/components/ui/Badge";
+import Input from "@/components/ui/Input";
+
+interface PayrollBudgetProps {
+  permissions: OrgPermissions;
+  /** Latest payroll run ID, 0 before the first run. */
+  lastRunId: number;
+}
+
+interface RunBudget {
+  budget: string;
+  spent: string;
+  exceeded: string;
+}
+
+/**
+ * Encrypted per-run payroll budget. Salaries that would take a run over
+ * the budget are zeroed on-chain without revealing which ones; the
+ * employer verifies a run by decrypting its total and exceeded flag.
+ */
+export default function PayrollBudget({ permissions, lastRunId }: PayrollBudgetProps) {
+  const { payGramCore, address, contractsReady, encrypt } = useWeb3();
+  const { gate, gateAddress, isApprover, propose } = useApprovalGate();
+  const { values, pending, error: decryptError, reveal } = useDecrypt();
+  const [budgetHandle, setBudgetHandle] = useState<string>(ethers.ZeroHash);
+  const [run, setRun] = useState<RunBudget | null>(null);
+  const [amount, setAmount] = useState("");
+  const [busy, setBusy] = useState<"set" | "clear" | null>(null);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const fetchBudget = useCallback(async () => {
+    if (!payGramCore) return;
+    try {
+      setBudgetHandle(await payGramCore.getPayrollBudget());
+      if (lastRunId > 0) {
+        const [budget, spent, exceeded] =
+          await payGramCore.getPayrollRunBudget(lastRunId);
+        setRun({ budget, spent, exceeded });
+      } else {
+        setRun(null);
+      }
+    } catch {
+      setRun(null);
+    }
+  }, [payGramCore, lastRunId]);
+
+  useEffect(() => {
+    fetchBudget();
+  }, [fetchBudget]);
+
+  async function submit(kind: "set" | "clear", action: () => Promise<string>) {
+    setBusy(kind);
+    setStatus(null);
+    try {
+      setStatus({ type: "success", message: await action() });
+      await fetchBudget();
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to update budget";
+      setStatus({ type: "error", message });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function handleSet() {
+    submit("set", async () => {
+      const value = parseInt(amount, 10);
+      if (isNaN(value) || value <= 0) throw new Error("Budget must be a positive number");
+      const core = await payGramCore!.getAddress();
+      // Through the gate the proof must be bound to the gate, the caller
+      const enc = await encrypt(value, core, gate ? gateAddress! : address!);
+      const [method, args] = enc.encrypted
+        ? ["setPayrollBudget", [enc.handles![0], enc.inputProof]]
+        : ["setPayrollBudgetPlaintext", [enc.plaintextValue]];
+
+      setAmount("");
+      if (gate) {
+        const proposalId = await propose(method, args);
+        return `Proposal #${proposalId} created — approvers sign in the Approvals tab`;
+      }
+      const tx = await payGramCore![method](...args);
+      await tx.wait();
+      return "Budget set for the next payroll run";
+    });
+  }
+
+  function handleClear() {
+    submit("clear", async () => {
+      if (gate) {
+        const proposalId = await propose("clearPayrollBudget");
+        return `Proposal #${proposalId} created — approvers sign in the Approvals tab`;
+      }
+      const tx = await payGramCore!.clearPayrollBudget();
+      await tx.wait();
+      return "Budget removed";
+    });
+  }
+
+  async function handleReveal(handle: string) {
+    if (!payGramCore || handle === ethers.ZeroHash) return;
+    await reveal(handle, await payGramCore.getAddress());
+  }
+
+  const capped = budgetHandle !== ethers.ZeroHash;
+  const canEdit = contractsReady && (gate ? isApprover : permissions.payrollAdmin);
+  const runCapped = !!run && run.budget !== ethers.ZeroHash;
+  const exceeded = run ? values[run.exceeded] : undefined;
+
+  function display(handle: string) {
+    const value = values[handle];
+    return value !== undefined ? value.toLocaleString("en-US") : "******";
+  }
+
+  return (
+    <div className="glass-card-static p-6">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="flex items-center gap-2 text-sm font-heading font-bold text-text">
+          <Wallet size={14} className="text-primary" />
+          Payroll Budget
+        </h3>
+        <Badge variant={capped ? "primary" : "outline"} size="sm">
+          {capped ? "Capped" : "Uncapped"}
+        </Badge>
+      </div>
+
+      {capped && (
+        <div className="flex items-center justify-between mb-4 p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
+          <span className="text-xs text-text-muted">Budget per run</span>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-mono text-text">
+              {display(budgetHandle)}{" "}
+              <span className="text-xs text-text-muted">cUSDC</span>
+            </span>
+            {values[budgetHandle] === undefined && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleReveal(budgetHandle)}
+                loading={!!pending[budgetHandle]}
+              >
+                <Eye size={12} />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClear}
+              loading={busy === "clear"}
+              disabled={!canEdit || busy !== null}
+            >
+              <X size={12} />
+              Remove
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <Input
+            label={capped ? "New budget per run" : "Budget per run"}
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="e.g. 250000"
+            hint="Encrypted in your browser. Applies from the next run."
+          />
+        </div>
+        <Button
+          onClick={handleSet}
+          loading={busy === "set"}
+          disabled={!canEdit || !amount || busy !== null}
+        >
+          {gate ? "Propose Budget" : "Set Budget"}
+        </Button>
+      </div>
+
+      {/* Post-run verification */}
+      {run && (
+        <div className="mt-5 pt-5 border-t border-white/[0.04]">
+          <p className="text-xs text-text-muted uppercase tracking-wider mb-3">
+            Run #{lastRunId} Verification
+          </p>
+          {!runCapped ? (
+            <p className="text-xs text-text-muted">
+              This run was not capped by a budget.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-text-secondary">Paid within budget</span>
+                <span className="text-sm font-mono text-text">
+                  {display(run.spent)} / {display(run.budget)}
+                </span>
+              </div>
+              {exceeded === undefined ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={async () => {
+                    await handleReveal(run.spent);
+                    await handleReveal(run.budget);
+                    await handleReveal(run.exceeded);
+                  }}
+                  loading={!!pending[run.exceeded]}
+                  disabled={!permissions.isEmployer}
+                  className="w-full"
+                >
+                  <Eye size={12} />
+                  Verify Run
+                </Button>
+              ) : exceeded === BigInt(0) ? (
+                <p className="flex items-center gap-1.5 text-xs text-primary">
+                  <ShieldCheck size={12} />
+                  Every salary fit within the budget
+                </p>
+              ) : (
+                <p className="flex items-center gap-1.5 text-xs text-danger">
+                  <ShieldAlert size={12} />
+                  Budget exceeded — salaries that did not fit were paid as zero
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {decryptError && (
+        <p className="flex items-center gap-1.5 mt-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError}
+        </p>
+      )}
+
+      {status && (
+        <div
+          className={`flex items-center gap-2 mt-3 p-3 rounded-lg text-sm ${
+            status.type === "success"
+              ? "bg-primary-muted text-primary"
+              : "bg-danger-muted text-danger"
+          }`}
+        >
+          {status.type === "success" ? (
+            <CheckCircle size={14} />
+          ) : (
+            <AlertCircle size={14} />
+          )}
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { BarChart3, Eye, Lock, AlertCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import type { PayrollRunCost } from "@/hooks/usePayrollAnalytics";
+import { MOCK_RUN_COSTS } from "@/lib/mockData";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+
+interface PayrollCostChartProps {
+  /** False to show demo values, e.g. before a wallet is connected. */
+  live: boolean;
+  runs: PayrollRunCost[];
+  permissions: OrgPermissions;
+}
+
+interface Bar {
+  runId: number;
+  label: string;
+  /** Plaintext cost, or null while still encrypted. */
+  cost: number | null;
+  handle: string | null;
+}
+
+function shortDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+/**
+ * Payroll cost per run as a bar chart. Each run's cost is an encrypted
+ * on-chain total; bars stay locked until the employer decrypts them.
+ */
+export default function PayrollCostChart({
+  live,
+  runs,
+  permissions,
+}: PayrollCostChartProps) {
+  const { payGramCore } = useWeb3();
+  const { values, pending, error: decryptError, reveal } = useDecrypt();
+  const [isRevealing, setIsRevealing] = useState(false);
+
+  const bars: Bar[] = live
+    ? runs.map((r) => {
+        const zero = r.cost === ethers.ZeroHash;
+        const value = values[r.cost];
+        return {
+          runId: r.runId,
+          label: shortDate(new Date(r.timestamp * 1000)),
+          cost: zero ? 0 : value !== undefined ? Number(value) : null,
+          handle: zero ? null : r.cost,
+        };
+      })
+    : MOCK_RUN_COSTS.map((r) => ({
+        runId: r.runId,
+        label: shortDate(new Date(r.date)),
+        cost: r.cost,
+        handle: null,
+      }));
+
+  const locked = bars.filter(
+    (b): b is Bar & { handle: string } => b.cost === null && b.handle !== null
+  );
+  const max = Math.max(1, ...bars.map((b) => b.cost ?? 0));
+
+  async function revealAll() {
+    if (!payGramCore) return;
+    setIsRevealing(true);
+    try {
+      const core = await payGramCore.getAddress();
+      for (const b of locked) {
+        // Stop at the first failure; the hook reports the error
+        if ((await reveal(b.handle, core)) === null) break;
+      }
+    } finally {
+      setIsRevealing(false);
+    }
+  }
+
+  return (
+    <div className="glass-card-static p-6 mb-6">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="flex items-center gap-2 text-sm font-heading font-bold text-text">
+          <BarChart3 size={14} className="text-primary" />
+          Payroll Cost per Run
+        </h3>
+        {!live ? (
+          <Badge variant="warning" size="sm">
+            Demo Data
+          </Badge>
+        ) : (
+          locked.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={revealAll}
+              loading={isRevealing}
+              disabled={!permissions.isEmployer}
+            >
+              <Eye size={12} />
+              Decrypt {locked.length} run{locked.length === 1 ? "" : "s"}
+            </Button>
+          )
+        )}
+      </div>
+
+      {bars.length === 0 ? (
+        <p className="text-xs text-text-muted">No payroll runs yet.</p>
+      ) : (
+        <div className="flex items-end gap-3 h-48">
+          {bars.map((b) => (
+            <div
+              key={b.runId}
+              className="flex-1 min-w-0 h-full flex flex-col items-center justify-end gap-1"
+            >
+              <span className="text-[11px] font-mono text-text-secondary truncate">
+                {b.cost !== null ? (
+                  b.cost.toLocaleString("en-US")
+                ) : (
+                  <Lock size={10} className="inline text-text-muted" />
+                )}
+              </span>
+              <div
+                className={`w-full rounded-t-md ${
+                  b.cost !== null
+                    ? "bg-primary/60"
+                    : "bg-white/[0.06] border border-dashed border-white/[0.12]"
+                } ${b.handle && pending[b.handle] ? "animate-pulse" : ""}`}
+                style={{
+                  height: `${b.cost !== null ? Math.max(2, (b.cost / max) * 100) : 100}%`,
+                }}
+                title={`Run #${b.runId}`}
+              />
+              <span className="text-[10px] text-text-muted truncate w-full text-center">
+                #{b.runId} &middot; {b.label}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[11px] text-text-muted mt-4 leading-relaxed">
+        A run&apos;s cost is the encrypted sum of every payment it recorded,
+        kept on-chain as it is paid. Only the employer can decrypt it. The
+        latest 12 runs are shown.
+      </p>
+
+      {decryptError && (
+        <p className="flex items-center gap-1.5 mt-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,110 +1,113 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { RefreshCw, Clock, FileText } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
+import {
+  RefreshCw,
+  FileText,
+  Layers,
+  List,
+  ChevronDown,
+  ChevronRight,
+  AlertCircle,
+  Unlock,
+} from "lucide-react";
 import { useWeb3 } from "@/providers/Web3Provider";
+import { usePaymentIndex } from "@/hooks/usePaymentIndex";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
 import { PAYMENT_STATUS } from "@/lib/constants";
 import { formatTimestamp } from "@/lib/contracts";
-import { MOCK_PAYMENTS, type MockPayment } from "@/lib/mockData";
+import {
+  queryPayments,
+  listPayrollRuns,
+  STATUS_ESCROWED,
+  MILESTONE_CLAIMED,
+  type IndexedPayment,
+  type IndexedPayrollRun,
+  type PaymentIndex,
+} from "@/lib/paymentIndex";
 import AddressDisplay from "@/components/ui/AddressDisplay";
 import Badge from "@/components/ui/Badge";
 import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+import Pagination from "@/components/ui/Pagination";
+import Tabs from "@/components/ui/Tabs";
+import MilestoneActions from "@/components/employer/MilestoneActions";
+import ReleasePaymentDialog from "@/components/employer/ReleasePaymentDialog";
 
-interface PaymentRecord {
-  id: number;
-  employee: string;
-  status: number;
-  createdAt: bigint;
-  releaseTime: bigint;
-  milestone: string;
+const PAGE_SIZE = 15;
+const RUNS_PAGE_SIZE = 10;
+
+const VIEWS = [
+  { id: "runs", label: "Payroll Runs", icon: <Layers size={14} /> },
+  { id: "payments", label: "All Payments", icon: <List size={14} /> },
+];
+
+const selectClass =
+  "px-3 py-2.5 rounded-xl text-sm text-text bg-white/[0.03] border border-white/[0.08] focus:outline-none focus:border-primary/40";
+
+const statusLabel = (s: number) =>
+  PAYMENT_STATUS[s as keyof typeof PAYMENT_STATUS] ?? "Unknown";
+
+function statusVariant(
+  s: number
+): "primary" | "warning" | "danger" | "secondary" | "default" {
+  switch (s) {
+    case 1:
+      return "primary";
+    case 2:
+      return "warning";
+    case 3:
+      return "warning";
+    case 4:
+      return "secondary";
+    case 5:
+      return "default";
+    default:
+      return "default";
+  }
+}
+
+interface PayrollHistoryProps {
+  permissions: OrgPermissions;
 }
 
-export default function PayrollHistory() {
-  const { payGramCore, contractsReady } = useWeb3();
-  const [payments, setPayments] = useState<PaymentRecord[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [useMock, setUseMock] = useState(false);
-
-  const fetchPayments = useCallback(async () => {
-    if (!payGramCore) {
-      setUseMock(true);
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const nextId = await payGramCore.nextPaymentId();
-      const total = Number(nextId);
-      const records: PaymentRecord[] = [];
-
-      for (let i = 0; i < total && i < 50; i++) {
-        try {
-          const p = await payGramCore.getPendingPayment(i);
-          records.push({
-            id: i,
-            employee: p.employee,
-            status: Number(p.status),
-            createdAt: p.createdAt,
-            releaseTime: p.releaseTime,
-            milestone: p.milestone,
-          });
-        } catch {
-          // Skip invalid payments
-        }
-      }
-
-      setPayments(records.reverse());
-      setUseMock(records.length === 0);
-    } catch {
-      setUseMock(true);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [payGramCore]);
+export default function PayrollHistory({ permissions }: PayrollHistoryProps) {
+  const { contractsReady } = useWeb3();
+  const { index, isSyncing, error, sync } = usePaymentIndex();
+  const [view, setView] = useState("runs");
+  const [employeeFilter, setEmployeeFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState("");
+  const [runFilter, setRunFilter] = useState("");
+  const [page, setPage] = useState(0);
+  const [runsPage, setRunsPage] = useState(0);
+  const [releasing, setReleasing] = useState<IndexedPayment | null>(null);
 
+  // Reset to the first page whenever the filter changes
   useEffect(() => {
-    if (contractsReady) {
-      fetchPayments();
-    } else {
-      setUseMock(true);
-    }
-  }, [contractsReady, fetchPayments]);
-
-  const statusLabel = (s: number) =>
-    PAYMENT_STATUS[s as keyof typeof PAYMENT_STATUS] ?? "Unknown";
-
-  function statusVariant(
-    s: number | string
-  ): "primary" | "warning" | "danger" | "secondary" | "default" {
-    if (typeof s === "string") {
-      switch (s) {
-        case "completed":
-          return "primary";
-        case "processing":
-          return "warning";
-        case "pending":
-          return "default";
-        default:
-          return "default";
-      }
-    }
-    switch (s) {
-      case 1:
-        return "primary";
-      case 2:
-        return "warning";
-      case 3:
-        return "danger";
-      case 4:
-        return "secondary";
-      case 5:
-        return "default";
-      default:
-        return "default";
-    }
-  }
+    setPage(0);
+  }, [employeeFilter, statusFilter, runFilter]);
+
+  const runs = useMemo(() => (index ? listPayrollRuns(index) : []), [index]);
+  const runsPageCount = Math.max(1, Math.ceil(runs.length / RUNS_PAGE_SIZE));
+  const visibleRuns = runs.slice(
+    runsPage * RUNS_PAGE_SIZE,
+    (runsPage + 1) * RUNS_PAGE_SIZE
+  );
 
-  const displayMock = useMock;
+  const result = useMemo(() => {
+    if (!index) return null;
+    const employee = employeeFilter.trim();
+    return queryPayments(index, {
+      employee: /^0x[0-9a-fA-F]{40}$/.test(employee) ? employee : undefined,
+      status: statusFilter ? Number(statusFilter) : undefined,
+      runId: runFilter ? Number(runFilter) : undefined,
+      page,
+      pageSize: PAGE_SIZE,
+    });
+  }, [index, employeeFilter, statusFilter, runFilter, page]);
+
+  const isLoading = isSyncing && !index;
+  const payments = result?.items ?? [];
 
   return (
     <div>
@@ -112,138 +115,380 @@ export default function PayrollHistory() {
         <h3 className="text-sm font-heading font-bold text-text">
           Payment History
         </h3>
-        <div className="flex items-center gap-2">
-          {displayMock && (
-            <Badge variant="warning" size="sm">
-              Demo Data
-            </Badge>
-          )}
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={fetchPayments}
-            disabled={isLoading}
-          >
-            <RefreshCw size={13} className={isLoading ? "animate-spin" : ""} />
-            Refresh
-          </Button>
-        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={sync}
+          disabled={isSyncing || !contractsReady}
+        >
+          <RefreshCw size={13} className={isSyncing ? "animate-spin" : ""} />
+          Refresh
+        </Button>
       </div>
 
-      {displayMock ? (
-        <MockPaymentTable data={MOCK_PAYMENTS} statusVariant={statusVariant} />
-      ) : payments.length === 0 ? (
+      <Tabs
+        tabs={VIEWS}
+        activeTab={view}
+        onChange={setView}
+        className="mb-4 w-fit"
+      />
+
+      {error && (
+        <p className="flex items-center gap-1.5 mb-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {error}
+        </p>
+      )}
+
+      {isLoading ? (
         <div className="glass-card-static p-12 text-center">
-          <FileText size={40} className="mx-auto mb-3 text-text-muted" />
-          <p className="text-sm font-medium text-text mb-1">
-            No payments recorded yet
-          </p>
-          <p className="text-xs text-text-muted">
-            Execute a payroll to see payment records here
-          </p>
+          <RefreshCw size={32} className="mx-auto mb-3 text-text-muted animate-spin" />
+          <p className="text-xs text-text-muted">Indexing payment events...</p>
         </div>
+      ) : view === "runs" ? (
+        runs.length === 0 || !index ? (
+          <EmptyState />
+        ) : (
+          <>
+            <div className="glass-card-static overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-text-muted border-b border-white/[0.06]">
+                      <th className="px-4 py-3 font-medium text-xs w-8" />
+                      <th className="px-4 py-3 font-medium text-xs">Run</th>
+                      <th className="px-4 py-3 font-medium text-xs">Date</th>
+                      <th className="px-4 py-3 font-medium text-xs">Employees</th>
+                      <th className="px-4 py-3 font-medium text-xs">Payments</th>
+                      <th className="px-4 py-3 font-medium text-xs">Outstanding</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/[0.03]">
+                    {visibleRuns.map((run) => (
+                      <RunRow
+                        key={run.runId}
+                        run={run}
+                        index={index}
+                        permissions={permissions}
+                        onChange={sync}
+                        onRelease={setReleasing}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <Pagination
+              page={runsPage}
+              pageCount={runsPageCount}
+              total={runs.length}
+              onChange={setRunsPage}
+              className="mt-4"
+            />
+          </>
+        )
       ) : (
-        <div className="glass-card-static overflow-hidden">
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="text-left text-text-muted border-b border-white/[0.06]">
-                  <th className="px-4 py-3 font-medium text-xs">ID</th>
-                  <th className="px-4 py-3 font-medium text-xs">Employee</th>
-                  <th className="px-4 py-3 font-medium text-xs">Status</th>
-                  <th className="px-4 py-3 font-medium text-xs">Created</th>
-                  <th className="px-4 py-3 font-medium text-xs">Release</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-white/[0.03]">
-                {payments.map((p) => (
-                  <tr
-                    key={p.id}
-                    className="text-text-secondary hover:bg-white/[0.02] transition-colors"
-                  >
-                    <td className="px-4 py-3 font-mono text-xs">#{p.id}</td>
-                    <td className="px-4 py-3">
-                      <AddressDisplay address={p.employee} />
-                    </td>
-                    <td className="px-4 py-3">
-                      <Badge variant={statusVariant(p.status)} size="sm">
-                        {statusLabel(p.status)}
-                      </Badge>
-                    </td>
-                    <td className="px-4 py-3 text-xs text-text-muted">
-                      {formatTimestamp(p.createdAt)}
-                    </td>
-                    <td className="px-4 py-3 text-xs text-text-muted">
-                      {p.releaseTime > 0n
-                        ? formatTimestamp(p.releaseTime)
-                        : "\u2014"}
-                    </td>
-                  </tr>
+        <>
+          <div className="grid sm:grid-cols-3 gap-3 mb-4">
+            <Input
+              value={employeeFilter}
+              onChange={(e) => setEmployeeFilter(e.target.value)}
+              placeholder="Filter by employee 0x..."
+              aria-label="Employee"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className={selectClass}
+              aria-label="Status"
+            >
+              <option value="">All statuses</option>
+              {Object.entries(PAYMENT_STATUS)
+                .filter(([value]) => Number(value) >= STATUS_ESCROWED)
+                .map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
                 ))}
-              </tbody>
-            </table>
+            </select>
+            <select
+              value={runFilter}
+              onChange={(e) => setRunFilter(e.target.value)}
+              className={selectClass}
+              aria-label="Payroll run"
+            >
+              <option value="">All payroll runs</option>
+              {runs.map((r) => (
+                <option key={r.runId} value={r.runId}>
+                  Run #{r.runId} &middot; {formatTimestamp(r.timestamp)}
+                </option>
+              ))}
+            </select>
           </div>
-        </div>
+
+          {payments.length === 0 ? (
+            <EmptyState />
+          ) : (
+            <div className="glass-card-static overflow-hidden">
+              <div className="overflow-x-auto">
+                <PaymentTable
+                  payments={payments}
+                  permissions={permissions}
+                  onChange={sync}
+                  onRelease={setReleasing}
+                  showRun
+                />
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <Pagination
+              page={result.page}
+              pageCount={result.pageCount}
+              total={result.total}
+              onChange={setPage}
+              className="mt-4"
+            />
+          )}
+        </>
       )}
+
+      <ReleasePaymentDialog
+        payment={releasing}
+        permissions={permissions}
+        onClose={() => setReleasing(null)}
+        onSuccess={sync}
+      />
     </div>
   );
 }
 
-/* ─── Mock table ─── */
+/* ─── Run drill-down ─── */
 
-function MockPaymentTable({
-  data,
-  statusVariant,
+function RunRow({
+  run,
+  index,
+  permissions,
+  onChange,
+  onRelease,
 }: {
-  data: MockPayment[];
-  statusVariant: (s: string) => "primary" | "warning" | "danger" | "secondary" | "default";
+  run: IndexedPayrollRun;
+  index: PaymentIndex;
+  permissions: OrgPermissions;
+  onChange: () => void;
+  onRelease: (payment: IndexedPayment) => void;
 }) {
+  const { payGramCore } = useWeb3();
+  const [expanded, setExpanded] = useState(false);
+  const [paymentIds, setPaymentIds] = useState<number[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Read the run's payment IDs from the contract on first expand so the
+  // drill-down does not depend on the local index being complete.
+  useEffect(() => {
+    if (!expanded || paymentIds || !payGramCore) return;
+    let cancelled = false;
+    payGramCore
+      .getPayrollRun(run.runId)
+      .then(([ids]: [bigint[]]) => {
+        if (!cancelled) setPaymentIds(ids.map(Number));
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setLoadError(
+          err instanceof Error ? err.message : "Failed to load payroll run"
+        );
+        setPaymentIds(run.paymentIds);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, paymentIds, payGramCore, run]);
+
+  const runPayments = (paymentIds ?? run.paymentIds)
+    .map((id) => index.payments[id])
+    .filter((p): p is IndexedPayment => p !== undefined)
+    .sort((a, b) => a.id - b.id);
+  const outstanding = run.paymentIds.filter((id) => {
+    return index.payments[id]?.status === STATUS_ESCROWED;
+  }).length;
+
   return (
-    <div className="glass-card-static overflow-hidden">
-      <div className="overflow-x-auto">
-        <table className="w-full text-sm">
-          <thead>
-            <tr className="text-left text-text-muted border-b border-white/[0.06]">
-              <th className="px-4 py-3 font-medium text-xs">Date</th>
-              <th className="px-4 py-3 font-medium text-xs">Employees</th>
-              <th className="px-4 py-3 font-medium text-xs">Status</th>
-              <th className="px-4 py-3 font-medium text-xs">Type</th>
-              <th className="px-4 py-3 font-medium text-xs">Total</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-white/[0.03]">
-            {data.map((p) => (
-              <tr
-                key={p.id}
-                className="text-text-secondary hover:bg-white/[0.02] transition-colors"
-              >
-                <td className="px-4 py-3 text-xs">
-                  {new Date(p.date).toLocaleDateString("en-US", {
-                    year: "numeric",
-                    month: "short",
-                    day: "numeric",
-                  })}
-                </td>
-                <td className="px-4 py-3 text-xs">{p.employees}</td>
-                <td className="px-4 py-3">
-                  <Badge variant={statusVariant(p.status)} size="sm">
-                    {p.status.charAt(0).toUpperCase() + p.status.slice(1)}
-                  </Badge>
-                </td>
-                <td className="px-4 py-3">
-                  <Badge variant="outline" size="sm">
-                    <Clock size={10} />
-                    {p.type}
-                  </Badge>
-                </td>
-                <td className="px-4 py-3 text-xs font-mono text-text-muted">
-                  Encrypted
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+    <>
+      <tr
+        className="text-text-secondary hover:bg-white/[0.02] transition-colors cursor-pointer"
+        onClick={() => setExpanded((e) => !e)}
+      >
+        <td className="px-4 py-3 text-text-muted">
+          {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </td>
+        <td className="px-4 py-3 font-mono text-xs">
+          #{run.runId}
+          {run.offCycle && (
+            <span
+              className="ml-2 font-sans text-[11px] text-text-muted"
+              title={run.memo}
+            >
+              Off-cycle{run.memo ? `: ${run.memo}` : ""}
+            </span>
+          )}
+        </td>
+        <td className="px-4 py-3 text-xs">{formatTimestamp(run.timestamp)}</td>
+        <td className="px-4 py-3 text-xs">{run.employeeCount}</td>
+        <td className="px-4 py-3 text-xs">{run.paymentIds.length}</td>
+        <td className="px-4 py-3">
+          {outstanding > 0 ? (
+            <Badge variant="warning" size="sm">
+              {outstanding} pending
+            </Badge>
+          ) : (
+            <Badge variant="primary" size="sm">
+              Settled
+            </Badge>
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={6} className="px-4 pb-4 bg-white/[0.01]">
+            {loadError && (
+              <p className="flex items-center gap-1.5 py-2 text-xs text-danger">
+                <AlertCircle size={12} />
+                {loadError}
+              </p>
+            )}
+            {paymentIds === null && payGramCore ? (
+              <p className="py-3 text-xs text-text-muted">Loading payments...</p>
+            ) : runPayments.length === 0 ? (
+              <p className="py-3 text-xs text-text-muted">
+                This run created no payment records
+              </p>
+            ) : (
+              <PaymentTable
+                payments={runPayments}
+                permissions={permissions}
+                onChange={onChange}
+                onRelease={onRelease}
+              />
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+/* ─── Shared pieces ─── */
+
+function PaymentTable({
+  payments,
+  permissions,
+  onChange,
+  onRelease,
+  showRun = false,
+}: {
+  payments: IndexedPayment[];
+  permissions: OrgPermissions;
+  onChange: () => void;
+  onRelease: (payment: IndexedPayment) => void;
+  showRun?: boolean;
+}) {
+  // Approvers release; payroll admins may split pending payments into tranches
+  const canRelease = permissions.approver || permissions.payrollAdmin;
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-text-muted border-b border-white/[0.06]">
+          <th className="px-4 py-3 font-medium text-xs">ID</th>
+          {showRun && <th className="px-4 py-3 font-medium text-xs">Run</th>}
+          <th className="px-4 py-3 font-medium text-xs">Employee</th>
+          <th className="px-4 py-3 font-medium text-xs">Status</th>
+          <th className="px-4 py-3 font-medium text-xs">Created</th>
+          <th className="px-4 py-3 font-medium text-xs">Unlocks</th>
+          <th className="px-4 py-3 font-medium text-xs">Milestone</th>
+          {canRelease && <th className="px-4 py-3 font-medium text-xs" />}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-white/[0.03]">
+        {payments.map((p) => (
+          <tr
+            key={p.id}
+            className="text-text-secondary hover:bg-white/[0.02] transition-colors"
+          >
+            <td className="px-4 py-3 font-mono text-xs">
+              #{p.id}
+              {p.parentId !== null && (
+                <span className="block text-[10px] text-text-muted">
+                  split from #{p.parentId}
+                </span>
+              )}
+              {p.releasedTranches > 0 && (
+                <span className="block text-[10px] text-text-muted">
+                  {p.releasedTranches} partial release
+                  {p.releasedTranches !== 1 ? "s" : ""}
+                </span>
+              )}
+            </td>
+            {showRun && (
+              <td className="px-4 py-3 font-mono text-xs text-text-muted">
+                #{p.runId}
+              </td>
+            )}
+            <td className="px-4 py-3">
+              <AddressDisplay address={p.employee} />
+            </td>
+            <td className="px-4 py-3">
+              <Badge variant={statusVariant(p.status)} size="sm">
+                {statusLabel(p.status)}
+              </Badge>
+            </td>
+            <td className="px-4 py-3 text-xs text-text-muted">
+              {formatTimestamp(p.createdAt)}
+            </td>
+            <td className="px-4 py-3 text-xs text-text-muted">
+              {p.releaseTime > 0 ? formatTimestamp(p.releaseTime) : "\u2014"}
+            </td>
+            <td className="px-4 py-3 align-top">
+              <MilestoneActions
+                payment={p}
+                canManage={permissions.approver}
+                onChange={onChange}
+              />
+            </td>
+            {canRelease && (
+              <td className="px-4 py-3 align-top">
+                {p.status === STATUS_ESCROWED &&
+                  p.milestoneState !== MILESTONE_CLAIMED && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRelease(p)}
+                    >
+                      <Unlock size={12} />
+                      Release
+                    </Button>
+                  )}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function EmptyState() {
+  return (
+    <div className="glass-card-static p-12 text-center">
+      <FileText size={40} className="mx-auto mb-3 text-text-muted" />
+      <p className="text-sm font-medium text-text mb-1">
+        No payments recorded yet
+      </p>
+      <p className="text-xs text-text-muted">
+        Execute a payroll to see payment records here
+      </p>
     </div>
   );
 }
@@ -0,0 +1,212 @@
+"use client";
+
+import { ethers } from "ethers";
+import { Users, DollarSign, Wallet, Clock, Lock, Shield, Eye } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import type {
+  PayrollTotals,
+  TrustAggregates,
+} from "@/hooks/usePayrollAnalytics";
+import { MOCK_STATS } from "@/lib/mockData";
+import StatCard from "@/components/ui/StatCard";
+import Button from "@/components/ui/Button";
+
+interface PayrollStatsProps {
+  /** False to show demo values, e.g. before a wallet is connected. */
+  live: boolean;
+  activeEmployees: number | null;
+  totalRuns: number | null;
+  totals: PayrollTotals | null;
+  trust: TrustAggregates | null;
+  permissions: OrgPermissions;
+}
+
+const ENCRYPTED_CARDS = [
+  {
+    key: "disbursed",
+    title: "Total Disbursed",
+    mock: MOCK_STATS.totalDistributed,
+    icon: Wallet,
+    accentColor: "primary",
+  },
+  {
+    key: "pendingDelayed",
+    title: "Pending Delayed",
+    mock: MOCK_STATS.pendingDelayed,
+    icon: Clock,
+    accentColor: "warning",
+  },
+  {
+    key: "committedEscrow",
+    title: "In Escrow",
+    mock: MOCK_STATS.committedEscrow,
+    icon: Lock,
+    accentColor: "danger",
+  },
+] as const;
+
+function distribution(high: number, medium: number, low: number): string {
+  return `High ${high} \u00b7 Medium ${medium} \u00b7 Low ${low}`;
+}
+
+/**
+ * Stat row of the employer dashboard. Counts are public; the payroll
+ * totals are encrypted on-chain and decrypted on demand by the employer. The average trust score and tier distribution come from
+ * encrypted TrustScoring aggregates that only its owner can decrypt, so
+ * no individual score is ever revealed.
+ */
+export default function PayrollStats({
+  live,
+  activeEmployees,
+  totalRuns,
+  totals,
+  trust,
+  permissions,
+}: PayrollStatsProps) {
+  const { payGramCore, trustScoring, address } = useWeb3();
+  const { values, pending, reveal } = useDecrypt();
+  const canDecrypt = permissions.isEmployer;
+
+  const trustHandles = trust
+    ? [trust.scoreSum, trust.highCount, trust.mediumCount, trust.lowCount]
+    : [];
+  const trustValues = trustHandles.map((h) => values[h]);
+  const trustRevealed =
+    trustValues.length > 0 && trustValues.every((v) => v !== undefined);
+  const isTrustOwner =
+    !!trust && !!address && trust.owner.toLowerCase() === address.toLowerCase();
+
+  async function revealTrust() {
+    if (!trustScoring) return;
+    const scoring = await trustScoring.getAddress();
+    for (const handle of trustHandles) {
+      if (values[handle] !== undefined) continue;
+      // Stop at the first failure; the hook reports the error
+      if ((await reveal(handle, scoring)) === null) break;
+    }
+  }
+
+  function trustCard(): { value: string | number; subtitle?: string } {
+    if (!live) {
+      const { high, medium, low } = MOCK_STATS.trustDistribution;
+      return {
+        value: MOCK_STATS.avgTrustScore,
+        subtitle: distribution(high, medium, low),
+      };
+    }
+    if (!trust) return { value: "..." };
+    if (trust.scoredCount === 0) {
+      return { value: "\u2014", subtitle: "No scores yet" };
+    }
+    if (!trustRevealed) {
+      return { value: "******", subtitle: `${trust.scoredCount} scored` };
+    }
+    const [sum, high, medium, low] = trustValues.map(Number);
+    return {
+      value: (sum / trust.scoredCount).toFixed(1),
+      subtitle: distribution(high, medium, low),
+    };
+  }
+
+  const trustStat = trustCard();
+
+  function count(value: number | null, mock: number) {
+    if (!live) return mock;
+    return value ?? "...";
+  }
+
+  function encrypted(handle: string | undefined, mock: string) {
+    if (!live) return `${mock} cUSDC`;
+    if (!handle) return "...";
+    // Never written on-chain: nothing has moved through this total yet
+    if (handle === ethers.ZeroHash) return "0 cUSDC";
+    const value = values[handle];
+    return value !== undefined
+      ? `${value.toLocaleString("en-US")} cUSDC`
+      : "****** cUSDC";
+  }
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-3 gap-4 mt-8 mb-8">
+      <StatCard
+        title="Active Employees"
+        value={count(activeEmployees, MOCK_STATS.activeEmployees)}
+        icon={Users}
+        accentColor="primary"
+      />
+      <StatCard
+        title="Payroll Runs"
+        value={count(totalRuns, MOCK_STATS.totalPayrolls)}
+        icon={DollarSign}
+        accentColor="secondary"
+      />
+      <StatCard
+        title="Avg Trust Score"
+        value={trustStat.value}
+        subtitle={trustStat.subtitle}
+        icon={Shield}
+        accentColor="warning"
+        action={
+          live &&
+          !!trust &&
+          trust.scoredCount > 0 &&
+          !trustRevealed && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={revealTrust}
+              loading={trustHandles.some((h) => pending[h])}
+              disabled={!isTrustOwner}
+              title={
+                isTrustOwner
+                  ? undefined
+                  : "Only the TrustScoring owner can decrypt"
+              }
+              className="-ml-2"
+            >
+              <Eye size={12} />
+              Decrypt
+            </Button>
+          )
+        }
+      />
+      {ENCRYPTED_CARDS.map(({ key, title, mock, icon, accentColor }) => {
+        const handle = totals?.[key];
+        const revealable =
+          live &&
+          canDecrypt &&
+          !!handle &&
+          handle !== ethers.ZeroHash &&
+          values[handle] === undefined;
+        return (
+          <StatCard
+            key={key}
+            title={title}
+            value={encrypted(handle, mock)}
+            icon={icon}
+            accentColor={accentColor}
+            action={
+              revealable && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={async () =>
+                    payGramCore &&
+                    reveal(handle, await payGramCore.getAddress())
+                  }
+                  loading={!!pending[handle]}
+                  className="-ml-2"
+                >
+                  <Eye size={12} />
+                  Decrypt
+                </Button>
+              )
+            }
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { RefreshCw, Check, X, Play, Undo2, AlertCircle, CheckCircle, ShieldCheck, Timer } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import { useCompensation } from "@/hooks/useCompensation";
+import { useNow } from "@/hooks/useNow";
+import { formatCountdown } from "@/lib/contracts";
+import AddressDisplay from "@/components/ui/AddressDisplay";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+
+/** Pending proposals fetched per refresh. */
+const MAX_PROPOSALS = 50;
+
+interface Proposal {
+  id: number;
+  label: string;
+  proposer: string;
+  expiresAt: number;
+  approvals: number;
+  approvedByMe: boolean;
+}
+
+/** Renders calldata as "method(arg, ...)" using the target's ABI. */
+function describeCall(iface: ethers.Interface, data: string): string {
+  try {
+    const tx = iface.parseTransaction({ data });
+    if (!tx) return data.slice(0, 10);
+    // Encrypted handles and proofs are opaque; show only plain arguments
+    const args = tx.args
+      .map((a, i) =>
+        tx.fragment.inputs[i].type.startsWith("bytes") ? "\u2026" : String(a)
+      )
+      .join(", ");
+    return `${tx.name}(${args})`;
+  } catch {
+    return data.slice(0, 10);
+  }
+}
+
+/**
+ * Pending PayGramApprovals proposals for the active organization. Any
+ * approver can sign, revoke or execute from their own wallet; the
+ * proposer can cancel.
+ */
+export default function Proposals() {
+  const { payGramCore, address } = useWeb3();
+  const { gate, isApprover, threshold, refresh: refreshGate } = useApprovalGate();
+  const { compensation } = useCompensation();
+  const now = useNow();
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [approvers, setApprovers] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const fetchProposals = useCallback(async () => {
+    if (!gate || !payGramCore) {
+      setProposals([]);
+      setApprovers([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const gateAddress = (gate.target as string).toLowerCase();
+      const moduleAddress = compensation
+        ? (compensation.target as string).toLowerCase()
+        : null;
+      setApprovers(await gate.getApprovers());
+      const ids: bigint[] = await gate.getPendingProposals(MAX_PROPOSALS);
+      const loaded = await Promise.all(
+        ids.map(async (id) => {
+          const p = await gate.getProposal(id);
+          const target = p.target.toLowerCase();
+          const iface =
+            target === gateAddress
+              ? gate.interface
+              : target === moduleAddress
+                ? compensation!.interface
+                : payGramCore.interface;
+          return {
+            id: Number(id),
+            label: describeCall(iface, p.data),
+            proposer: p.proposer,
+            expiresAt: Number(p.expiresAt),
+            approvals: Number(await gate.approvalCount(id)),
+            approvedByMe: address
+              ? await gate.hasApproved(id, address)
+              : false,
+          };
+        })
+      );
+      setProposals(loaded);
+    } catch {
+      setProposals([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gate, payGramCore, compensation, address]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
+
+  async function run(key: string, action: () => Promise<string>) {
+    setBusy(key);
+    setStatus(null);
+    try {
+      setStatus({ type: "success", message: await action() });
+      await refreshGate();
+      fetchProposals();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Transaction failed";
+      setStatus({ type: "error", message });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function send(id: number, method: "approve" | "revokeApproval" | "execute" | "cancel", done: string) {
+    run(`${id}:${method}`, async () => {
+      const tx = await gate![method](id);
+      await tx.wait();
+      return `Proposal #${id} ${done}`;
+    });
+  }
+
+  if (!gate) {
+    return (
+      <div className="glass-card-static p-6">
+        <h3 className="flex items-center gap-2 text-sm font-heading font-bold text-text mb-2">
+          <ShieldCheck size={14} className="text-primary" />
+          Approvals
+        </h3>
+        <p className="text-xs text-text-muted">
+          No approval gate is installed. Deploy PayGramApprovals with your
+          approvers and threshold, then call setApprovalGate on this
+          organization&apos;s PayGramCore to require N-of-M sign-off for
+          salary changes, payroll runs and escrow releases.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card-static p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-heading font-bold text-text">
+            Pending Proposals
+          </h3>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" size="sm">
+              {threshold} of {approvers.length} approvers
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={fetchProposals} disabled={isLoading}>
+              <RefreshCw size={13} className={isLoading ? "animate-spin" : ""} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {proposals.length === 0 ? (
+          <p className="text-xs text-text-muted">No pending proposals.</p>
+        ) : (
+          <ul className="divide-y divide-white/[0.03]">
+            {proposals.map((p) => {
+              const ready = p.approvals >= threshold;
+              const isProposer =
+                !!address && p.proposer.toLowerCase() === address.toLowerCase();
+              return (
+                <li
+                  key={p.id}
+                  className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 py-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm text-text">
+                      <span className="text-text-muted">#{p.id}</span>{" "}
+                      <span className="font-mono text-xs break-all">{p.label}</span>
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-text-muted">
+                      <AddressDisplay address={p.proposer} />
+                      <span className="flex items-center gap-1">
+                        <Timer size={11} />
+                        expires in {formatCountdown(p.expiresAt - now)}
+                      </span>
+                      <Badge variant={ready ? "primary" : "warning"} size="sm">
+                        {p.approvals}/{threshold}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {isApprover && !p.approvedByMe && (
+                      <Button
+                        size="sm"
+                        onClick={() => send(p.id, "approve", "approved")}
+                        loading={busy === `${p.id}:approve`}
+                        disabled={busy !== null}
+                      >
+                        <Check size={12} />
+                        Approve
+                      </Button>
+                    )}
+                    {isApprover && p.approvedByMe && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => send(p.id, "revokeApproval", "approval revoked")}
+                        loading={busy === `${p.id}:revokeApproval`}
+                        disabled={busy !== null}
+                      >
+                        <Undo2 size={12} />
+                        Revoke
+                      </Button>
+                    )}
+                    {isApprover && ready && (
+                      <Button
+                        size="sm"
+                        onClick={() => send(p.id, "execute", "executed")}
+                        loading={busy === `${p.id}:execute`}
+                        disabled={busy !== null}
+                      >
+                        <Play size={12} />
+                        Execute
+                      </Button>
+                    )}
+                    {isProposer && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => send(p.id, "cancel", "cancelled")}
+                        loading={busy === `${p.id}:cancel`}
+                        disabled={busy !== null}
+                      >
+                        <X size={12} />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {!isApprover && (
+          <p className="text-[11px] text-text-muted mt-3">
+            You are not an approver on this gate; proposals are read-only.
+          </p>
+        )}
+      </div>
+
+      {status && (
+        <p
+          className={`flex items-center gap-1.5 text-xs ${
+            status.type === "success" ? "text-primary" : "text-danger"
+          }`}
+        >
+          {status.type === "success" ? (
+            <CheckCircle size={12} />
+          ) : (
+            <AlertCircle size={12} />
+          )}
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Plus, Trash2, AlertCircle, CheckCircle, Lock } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import { MILESTONE_NONE, type IndexedPayment } from "@/lib/paymentIndex";
+import Button from "@/components/ui/Button";
+import Dialog from "@/components/ui/Dialog";
+import Input from "@/components/ui/Input";
+import Tabs from "@/components/ui/Tabs";
+
+interface ReleasePaymentDialogProps {
+  payment: IndexedPayment | null;
+  permissions: OrgPermissions;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/** Mirrors PayGramCore.MAX_TRANCHES. */
+const MAX_TRANCHES = 10;
+
+const MODES = [
+  { id: "full", label: "Full" },
+  { id: "partial", label: "Partial" },
+  { id: "split", label: "Split" },
+];
+
+function parseAmount(value: string): number {
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n <= 0) throw new Error("Amounts must be positive numbers");
+  return n;
+}
+
+export default function ReleasePaymentDialog({
+  payment,
+  permissions,
+  onClose,
+  onSuccess,
+}: ReleasePaymentDialogProps) {
+  const { payGramCore, address, encrypt, encryptMany } = useWeb3();
+  const { gate, gateAddress, isApprover, propose } = useApprovalGate();
+  // Releasing needs the Approver role (or, with an approval gate, a seat
+  // on it), splitting the Payroll Admin role
+  const canRelease = gate ? isApprover : permissions.approver;
+  const modes = MODES.filter((m) =>
+    m.id === "split" ? permissions.payrollAdmin : canRelease
+  );
+  const defaultMode = modes[0]?.id ?? "full";
+  const [mode, setMode] = useState(defaultMode);
+  const [amount, setAmount] = useState("");
+  const [tranches, setTranches] = useState<string[]>(["", ""]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  useEffect(() => {
+    setMode(defaultMode);
+    setAmount("");
+    setTranches(["", ""]);
+    setStatus(null);
+  }, [payment?.id, defaultMode]);
+
+  if (!payment) return null;
+
+  const hasMilestone = payment.milestoneState !== MILESTONE_NONE;
+  // Full and partial releases go through the gate as proposals
+  const viaGate = !!gate && mode !== "split";
+
+  async function submit() {
+    if (!payGramCore || !address || !payment) return;
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const core = await payGramCore.getAddress();
+      let tx;
+
+      if (viaGate) {
+        let proposalId: number;
+        if (mode === "full") {
+          proposalId = await propose("releasePayment", [payment.id]);
+        } else {
+          // The gate is the caller of PayGramCore, so the input proof is
+          // bound to its address rather than the proposer's
+          const enc = await encrypt(parseAmount(amount), core, gateAddress!);
+          proposalId = enc.encrypted
+            ? await propose("releasePartial", [
+                payment.id,
+                enc.handles![0],
+                enc.inputProof,
+              ])
+            : await propose("releasePartialPlaintext", [
+                payment.id,
+                enc.plaintextValue,
+              ]);
+        }
+        setStatus({
+          type: "success",
+          message: `Proposal #${proposalId} created \u2014 approvers sign in the Approvals tab`,
+        });
+        return;
+      }
+
+      if (mode === "full") {
+        tx = await payGramCore.releasePayment(payment.id);
+      } else if (mode === "partial") {
+        const value = parseAmount(amount);
+        const enc = await encrypt(value, core, address);
+        tx = enc.encrypted
+          ? await payGramCore.releasePartial(
+              payment.id,
+              enc.handles![0],
+              enc.inputProof
+            )
+          : await payGramCore.releasePartialPlaintext(
+              payment.id,
+              enc.plaintextValue
+            );
+      } else {
+        const values = tranches.map(parseAmount);
+        const enc = await encryptMany(values, core, address);
+        tx = enc.encrypted
+          ? await payGramCore.splitPayment(
+              payment.id,
+              enc.handles,
+              enc.inputProof
+            )
+          : await payGramCore.splitPaymentPlaintext(
+              payment.id,
+              enc.plaintextValues
+            );
+      }
+      await tx.wait();
+
+      setStatus({
+        type: "success",
+        message:
+          mode === "split"
+            ? `Split into ${tranches.length} tranches`
+            : "Payment released",
+      });
+      onSuccess?.();
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to release payment";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const fullBlocked = hasMilestone
+    ? "This escrow has a milestone — approve the employee's claim to release it."
+    : null;
+  const submitDisabled =
+    (mode === "full" && !!fullBlocked) ||
+    (mode === "partial" && !amount) ||
+    (mode === "split" && tranches.some((t) => !t));
+
+  return (
+    <Dialog
+      open
+      onClose={onClose}
+      title={`Release payment #${payment.id}`}
+      description="Partial and split amounts are encrypted in your browser before they are sent."
+    >
+      <div className="space-y-4">
+        <Tabs tabs={modes} activeTab={mode} onChange={setMode} className="w-fit" />
+
+        {mode === "full" && (
+          <p className="text-sm text-text-secondary">
+            {fullBlocked ??
+              "Transfers the remaining escrowed amount to the employee. Any delayed part unlocks on its own after the hold."}
+          </p>
+        )}
+
+        {mode === "partial" && (
+          <Input
+            label="Amount to release"
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="e.g. 2500"
+            hint="Capped at the remaining amount; the rest stays pending."
+          />
+        )}
+
+        {mode === "split" && (
+          <div className="space-y-2">
+            <p className="text-xs text-text-muted">
+              Each tranche becomes its own pending payment that can be
+              released or given a milestone on its own. Whatever is not
+              assigned stays on payment #{payment.id}.
+            </p>
+            {tranches.map((t, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <div className="flex-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={t}
+                    onChange={(e) =>
+                      setTranches((prev) =>
+                        prev.map((v, j) => (j === i ? e.target.value : v))
+                      )
+                    }
+                    placeholder={`Tranche ${i + 1} amount`}
+                    aria-label={`Tranche ${i + 1}`}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setTranches((prev) => prev.filter((_, j) => j !== i))
+                  }
+                  disabled={tranches.length <= 1}
+                >
+                  <Trash2 size={12} />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setTranches((prev) => [...prev, ""])}
+              disabled={tranches.length >= MAX_TRANCHES}
+            >
+              <Plus size={12} />
+              Add tranche
+            </Button>
+          </div>
+        )}
+
+        {status && (
+          <div
+            className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+              status.type === "success"
+                ? "bg-primary-muted text-primary"
+                : "bg-danger-muted text-danger"
+            }`}
+          >
+            {status.type === "success" ? (
+              <CheckCircle size={14} />
+            ) : (
+              <AlertCircle size={14} />
+            )}
+            {status.message}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <Button
+            onClick={submit}
+            loading={isSubmitting}
+            disabled={submitDisabled}
+            className="flex-1"
+          >
+            <Lock size={14} />
+            {mode === "split"
+              ? "Split Payment"
+              : viaGate
+                ? "Propose Release"
+                : "Release"}
+          </Button>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState, useEffect, useCallback, type FormEvent } from "react";
+import { CalendarClock, Eye, X, AlertCircle, CheckCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import { formatTimestamp } from "@/lib/contracts";
+import AddressDisplay from "@/components/ui/AddressDisplay";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+import Dialog from "@/components/ui/Dialog";
+
+interface SalaryChangeDialogProps {
+  /** Employee whose queue is shown, or null when closed. */
+  wallet: string | null;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+interface QueuedChange {
+  handle: string;
+  effectiveAt: number;
+}
+
+/**
+ * Queues encrypted salary changes that take effect from a future date, and
+ * lists or cancels the ones not yet applied. Each change is paid from the
+ * first payroll run opened on or after its effective time.
+ */
+export default function SalaryChangeDialog({
+  wallet,
+  onClose,
+  onSuccess,
+}: SalaryChangeDialogProps) {
+  const { payGramCore, address, contractsReady, encrypt } = useWeb3();
+  const { gate, gateAddress, propose } = useApprovalGate();
+  const { values, pending, reveal } = useDecrypt();
+  const [queue, setQueue] = useState<QueuedChange[]>([]);
+  const [salary, setSalary] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancelling, setCancelling] = useState<number | null>(null);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    if (!payGramCore || !wallet) {
+      setQueue([]);
+      return;
+    }
+    try {
+      const [salaries, effectiveAts] =
+        await payGramCore.getPendingSalaryChanges(wallet);
+      setQueue(
+        (salaries as string[]).map((handle, i) => ({
+          handle,
+          effectiveAt: Number(effectiveAts[i]),
+        }))
+      );
+    } catch {
+      setQueue([]);
+    }
+  }, [payGramCore, wallet]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  function handleClose() {
+    setSalary("");
+    setEffectiveDate("");
+    setStatus(null);
+    onClose();
+  }
+
+  /** Sends a call directly, or as a proposal when a gate is installed. */
+  async function submit(method: string, args: unknown[], done: string) {
+    if (gate) {
+      const proposalId = await propose(method, args);
+      return `Proposal #${proposalId} created — approvers sign in the Approvals tab`;
+    }
+    const tx = await payGramCore![method](...args);
+    await tx.wait();
+    return done;
+  }
+
+  async function handleSchedule(e: FormEvent) {
+    e.preventDefault();
+    if (!payGramCore || !address || !wallet) return;
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const value = parseInt(salary, 10);
+      if (isNaN(value) || value <= 0) {
+        throw new Error("Salary must be a positive number");
+      }
+      // Local midnight of the chosen day
+      const effectiveAt = Math.floor(
+        new Date(`${effectiveDate}T00:00`).getTime() / 1000
+      );
+      if (isNaN(effectiveAt) || effectiveAt <= Date.now() / 1000) {
+        throw new Error("Effective date must be in the future");
+      }
+
+      const core = await payGramCore.getAddress();
+      // Through the gate the proof must be bound to the gate, the caller
+      const enc = await encrypt(value, core, gate ? gateAddress! : address);
+      let method: string;
+      let args: unknown[];
+      [method, args] = enc.encrypted
+        ? ["scheduleSalaryChange", [wallet, enc.handles![0], enc.inputProof, effectiveAt]]
+        : ["scheduleSalaryChangePlaintext", [wallet, enc.plaintextValue, effectiveAt]];
+
+      const message = await submit(method, args, "Salary change scheduled");
+      setSalary("");
+      setEffectiveDate("");
+      setStatus({ type: "success", message });
+      await fetchQueue();
+      onSuccess?.();
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to schedule change";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleCancel(effectiveAt: number) {
+    if (!payGramCore || !wallet) return;
+
+    setCancelling(effectiveAt);
+    setStatus(null);
+    try {
+      const message = await submit(
+        "cancelSalaryChange",
+        [wallet, effectiveAt],
+        "Salary change cancelled"
+      );
+      setStatus({ type: "success", message });
+      await fetchQueue();
+      onSuccess?.();
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to cancel change";
+      setStatus({ type: "error", message });
+    } finally {
+      setCancelling(null);
+    }
+  }
+
+  return (
+    <Dialog
+      open={wallet !== null}
+      onClose={handleClose}
+      title="Salary Changes"
+      description="Queue an encrypted raise or adjustment from a future date"
+    >
+      <div className="space-y-4">
+        {wallet && (
+          <div className="flex items-center justify-between text-xs text-text-muted">
+            Employee
+            <AddressDisplay address={wallet} />
+          </div>
+        )}
+
+        {/* Queued changes */}
+        <div>
+          <p className="text-xs text-text-muted uppercase tracking-wider mb-2">
+            Queued
+          </p>
+          {queue.length === 0 ? (
+            <p className="text-xs text-text-muted">No changes queued.</p>
+          ) : (
+            <ul className="divide-y divide-white/[0.03] rounded-xl bg-white/[0.02] border border-white/[0.04] px-3">
+              {queue.map(({ handle, effectiveAt }) => {
+                const value = values[handle];
+                return (
+                  <li
+                    key={effectiveAt}
+                    className="flex items-center justify-between gap-3 py-2"
+                  >
+                    <span className="flex items-center gap-1.5 text-xs text-text-secondary">
+                      <CalendarClock size={12} className="text-text-muted" />
+                      {formatTimestamp(effectiveAt)}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {value !== undefined ? (
+                        <span className="text-xs font-mono text-text">
+                          {value.toLocaleString("en-US")} cUSDC
+                        </span>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={async () =>
+                            payGramCore &&
+                            reveal(handle, await payGramCore.getAddress())
+                          }
+                          loading={!!pending[handle]}
+                        >
+                          <Eye size={12} />
+                          ******
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCancel(effectiveAt)}
+                        loading={cancelling === effectiveAt}
+                        disabled={!contractsReady}
+                        aria-label="Cancel change"
+                      >
+                        <X size={14} />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Schedule form */}
+        <form onSubmit={handleSchedule} className="space-y-4">
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <Input
+                label="New Salary"
+                type="number"
+                value={salary}
+                onChange={(e) => setSalary(e.target.value)}
+                placeholder="6000"
+                min="1"
+                required
+              />
+            </div>
+            <div className="flex-1">
+              <Input
+                label="Effective From"
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            loading={isSubmitting}
+            disabled={!contractsReady}
+            className="w-full"
+            size="lg"
+          >
+            <CalendarClock size={14} />
+            {isSubmitting
+              ? "Submitting..."
+              : gate
+                ? "Create Proposal"
+                : "Schedule Change"}
+          </Button>
+
+          <p className="text-[11px] text-text-muted leading-relaxed">
+            The new salary is encrypted in your browser and visible to the
+            employee as an upcoming change. A second change for the same
+            date replaces the first.
+          </p>
+        </form>
+
+        {status && (
+          <div
+            className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+              status.type === "success"
+                ? "bg-primary-muted text-primary"
+                : "bg-danger-muted text-danger"
+            }`}
+          >
+            {status.type === "success" ? (
+              <CheckCircle size={14} />
+            ) : (
+              <AlertCircle size={14} />
+            )}
+            {status.message}
+          </div>
+        )}
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { RefreshCw, UserPlus, X, Eye, AlertCircle, CheckCircle, ShieldCheck } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { usePaymentIndex } from "@/hooks/usePaymentIndex";
+import { ORG_ROLE, type OrgRole } from "@/lib/constants";
+import AddressDisplay from "@/components/ui/AddressDisplay";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+
+/** Mirrors PayGramCore.MAX_BATCH_SIZE. */
+const MAX_BATCH_SIZE = 10;
+
+const AUDITOR: OrgRole = 3;
+
+interface TeamMember {
+  account: string;
+  mask: number;
+}
+
+interface TeamRolesProps {
+  /** Only the employer may grant and revoke roles. */
+  isEmployer: boolean;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+export default function TeamRoles({ isEmployer }: TeamRolesProps) {
+  const { payGramCore, contractsReady } = useWeb3();
+  const { index } = usePaymentIndex();
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [account, setAccount] = useState("");
+  const [role, setRole] = useState<OrgRole>(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const fetchTeam = useCallback(async () => {
+    if (!payGramCore) {
+      setTeam([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const [accounts, masks]: [string[], bigint[]] = await payGramCore.getTeam();
+      setTeam(accounts.map((a, i) => ({ account: a, mask: Number(masks[i]) })));
+    } catch {
+      setTeam([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [payGramCore]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  async function run(key: string, action: () => Promise<string>) {
+    setBusy(key);
+    setStatus(null);
+    try {
+      setStatus({ type: "success", message: await action() });
+      fetchTeam();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Transaction failed";
+      setStatus({ type: "error", message });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function handleGrant() {
+    run("grant", async () => {
+      if (!ethers.isAddress(account)) throw new Error("Not a valid address");
+      const tx = await payGramCore!.grantRole(account, role);
+      await tx.wait();
+      setAccount("");
+      return `Granted ${ORG_ROLE[role]}`;
+    });
+  }
+
+  function handleRevoke(member: string, r: OrgRole) {
+    run(`${member}:${r}`, async () => {
+      const tx = await payGramCore!.revokeRole(member, r);
+      await tx.wait();
+      return `Revoked ${ORG_ROLE[r]}`;
+    });
+  }
+
+  // Shares salaries and indexed payments created before the auditor joined;
+  // later ciphertexts are shared by the contract automatically.
+  function handleShareHistory(auditor: string) {
+    run(`${auditor}:share`, async () => {
+      const wallets: string[] = await payGramCore!.getEmployeeList();
+      const paymentIds = index ? Object.keys(index.payments).map(Number) : [];
+      const batches = [
+        ...chunk(wallets, MAX_BATCH_SIZE).map((w) => [w, []] as const),
+        ...chunk(paymentIds, MAX_BATCH_SIZE).map((p) => [[], p] as const),
+      ];
+      for (const [w, p] of batches) {
+        const tx = await payGramCore!.grantAuditAccess(auditor, w, p);
+        await tx.wait();
+      }
+      return `Shared ${wallets.length} salaries and ${paymentIds.length} payments`;
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card-static p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-heading font-bold text-text">Team</h3>
+          <Button variant="ghost" size="sm" onClick={fetchTeam} disabled={isLoading}>
+            <RefreshCw size={13} className={isLoading ? "animate-spin" : ""} />
+            Refresh
+          </Button>
+        </div>
+
+        {team.length === 0 ? (
+          <p className="text-xs text-text-muted">
+            No team members yet. The employer holds every role.
+          </p>
+        ) : (
+          <ul className="divide-y divide-white/[0.03]">
+            {team.map((member) => (
+              <li
+                key={member.account}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3"
+              >
+                <AddressDisplay address={member.account} />
+                <div className="flex flex-wrap items-center gap-2">
+                  {(Object.keys(ORG_ROLE).map(Number) as OrgRole[])
+                    .filter((r) => member.mask & (1 << r))
+                    .map((r) => (
+                      <Badge key={r} variant={r === AUDITOR ? "warning" : "primary"} size="sm">
+                        {ORG_ROLE[r]}
+                        {isEmployer && (
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(member.account, r)}
+                            disabled={busy !== null}
+                            className="ml-1 hover:text-danger transition-colors"
+                            aria-label={`Revoke ${ORG_ROLE[r]}`}
+                          >
+                            <X size={10} />
+                          </button>
+                        )}
+                      </Badge>
+                    ))}
+                  {isEmployer && member.mask & (1 << AUDITOR) ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleShareHistory(member.account)}
+                      loading={busy === `${member.account}:share`}
+                      disabled={busy !== null}
+                    >
+                      <Eye size={12} />
+                      Share history
+                    </Button>
+                  ) : null}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {isEmployer && (
+        <div className="glass-card-static p-6">
+          <h3 className="flex items-center gap-2 text-sm font-heading font-bold text-text mb-4">
+            <ShieldCheck size={14} className="text-primary" />
+            Grant Role
+          </h3>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1">
+              <Input
+                label="Member address"
+                placeholder="0x..."
+                value={account}
+                onChange={(e) => setAccount(e.target.value.trim())}
+                className="font-mono"
+              />
+            </div>
+            <select
+              value={role}
+              onChange={(e) => setRole(Number(e.target.value) as OrgRole)}
+              className="px-4 py-2.5 rounded-xl bg-white/[0.03] border border-white/[0.06] text-sm text-text-secondary focus:outline-none"
+              aria-label="Role"
+            >
+              {Object.entries(ORG_ROLE).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <Button
+              onClick={handleGrant}
+              loading={busy === "grant"}
+              disabled={!contractsReady || !account || busy !== null}
+            >
+              <UserPlus size={14} />
+              Grant
+            </Button>
+          </div>
+          <p className="text-[11px] text-text-muted mt-3">
+            Payroll admins run payroll and manage pending payments, HR manages
+            the roster, approvers release escrows and milestones, auditors get
+            read access to encrypted amounts.
+          </p>
+        </div>
+      )}
+
+      {status && (
+        <p
+          className={`flex items-center gap-1.5 text-xs ${
+            status.type === "success" ? "text-primary" : "text-danger"
+          }`}
+        >
+          {status.type === "success" ? (
+            <CheckCircle size={12} />
+          ) : (
+            <AlertCircle size={12} />
+          )}
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
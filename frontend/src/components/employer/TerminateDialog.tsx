@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { UserMinus, AlertCircle, CheckCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useApprovalGate } from "@/hooks/useApprovalGate";
+import AddressDisplay from "@/components/ui/AddressDisplay";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+import Dialog from "@/components/ui/Dialog";
+
+interface TerminateDialogProps {
+  /** Employee being terminated, or null when closed. */
+  wallet: string | null;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/** Today as a yyyy-mm-dd value for a date input, in local time. */
+function today(): string {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Terminates an employee as of a chosen day and pays the final paycheck:
+ * the salary pro-rated for the days since their last paycheck (or hire),
+ * routed through their trust tier like any other salary payment.
+ */
+export default function TerminateDialog({
+  wallet,
+  onClose,
+  onSuccess,
+}: TerminateDialogProps) {
+  const { payGramCore, contractsReady } = useWeb3();
+  const { gate, propose } = useApprovalGate();
+  const [terminationDate, setTerminationDate] = useState(today);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  function handleClose() {
+    setTerminationDate(today());
+    setStatus(null);
+    onClose();
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!payGramCore || !wallet) return;
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      // End of the chosen day in local time, so the day itself counts as
+      // worked; today is capped a minute behind the clock to stay at or
+      // before the block timestamp
+      const endOfDay =
+        Math.floor(new Date(`${terminationDate}T00:00`).getTime() / 1000) +
+        24 * 60 * 60 -
+        1;
+      const now = Math.floor(Date.now() / 1000);
+      if (isNaN(endOfDay) || terminationDate > today()) {
+        throw new Error("Termination date cannot be in the future");
+      }
+      const terminatedAt = Math.min(endOfDay, now - 60);
+
+      let message: string;
+      if (gate) {
+        const proposalId = await propose("terminateEmployee", [wallet, terminatedAt]);
+        message = `Proposal #${proposalId} created — approvers sign in the Approvals tab`;
+      } else {
+        const tx = await payGramCore.terminateEmployee(wallet, terminatedAt);
+        await tx.wait();
+        message = "Employee terminated and final paycheck sent";
+      }
+
+      setStatus({ type: "success", message });
+      setTimeout(() => {
+        handleClose();
+        onSuccess?.();
+      }, 1500);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to terminate employee";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={wallet !== null}
+      onClose={handleClose}
+      title="Terminate Employee"
+      description="Deactivate and pay a final pro-rated paycheck"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {wallet && (
+          <div className="flex items-center justify-between text-xs text-text-muted">
+            Employee
+            <AddressDisplay address={wallet} />
+          </div>
+        )}
+
+        <Input
+          label="Last Day Worked"
+          type="date"
+          value={terminationDate}
+          max={today()}
+          onChange={(e) => setTerminationDate(e.target.value)}
+          required
+          hint="Between their last paycheck (or hire date) and today"
+        />
+
+        <div className="pt-2 space-y-3">
+          <Button
+            type="submit"
+            variant="danger"
+            loading={isSubmitting}
+            disabled={!contractsReady}
+            className="w-full"
+            size="lg"
+          >
+            <UserMinus size={14} />
+            {isSubmitting
+              ? "Submitting..."
+              : gate
+                ? "Create Proposal"
+                : "Terminate & Pay Final Paycheck"}
+          </Button>
+
+          <p className="text-[11px] text-text-muted leading-relaxed">
+            The final paycheck is the encrypted salary times the days worked
+            since the last paycheck, divided by the days in the pay period.
+            It is computed on-chain without decrypting the salary. Queued
+            salary changes after the last day are dropped.
+          </p>
+        </div>
+
+        {status && (
+          <div
+            className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+              status.type === "success"
+                ? "bg-primary-muted text-primary"
+                : "bg-danger-muted text-danger"
+            }`}
+          >
+            {status.type === "success" ? (
+              <CheckCircle size={14} />
+            ) : (
+              <AlertCircle size={14} />
+            )}
+            {status.message}
+          </div>
+        )}
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { Eye, Clock, Lock, Undo2, AlertCircle, CheckCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { useDecrypt } from "@/hooks/useDecrypt";
+import type { OrgPermissions } from "@/hooks/useOrgRoles";
+import Button from "@/components/ui/Button";
+import Badge from "@/components/ui/Badge";
+
+interface TreasurySplitProps {
+  permissions: OrgPermissions;
+}
+
+interface SplitHandles {
+  pendingDelayed: string;
+  committedEscrow: string;
+  unallocated: string;
+}
+
+const ROWS = [
+  {
+    key: "pendingDelayed",
+    label: "Pending",
+    hint: "Time-locked for medium-trust employees",
+    icon: Clock,
+    color: "text-warning",
+  },
+  {
+    key: "committedEscrow",
+    label: "Committed",
+    hint: "Held in escrow until approved",
+    icon: Lock,
+    color: "text-danger",
+  },
+  {
+    key: "unallocated",
+    label: "Free",
+    hint: "Cancelled payments, withdrawable",
+    icon: Undo2,
+    color: "text-primary",
+  },
+] as const;
+
+/**
+ * Employer view of where the contract's funds stand: delayed amounts
+ * still owed, escrowed amounts, and cancelled amounts that can be
+ * withdrawn. All three totals are encrypted and decrypted on demand.
+ */
+export default function TreasurySplit({ permissions }: TreasurySplitProps) {
+  const { payGramCore, contractsReady } = useWeb3();
+  const { values, pending, error: decryptError, reveal } = useDecrypt();
+  const [handles, setHandles] = useState<SplitHandles | null>(null);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const fetchSplit = useCallback(async () => {
+    if (!payGramCore) {
+      setHandles(null);
+      return;
+    }
+    try {
+      const [pendingDelayed, committedEscrow, unallocated] =
+        await payGramCore.getTreasurySplit();
+      setHandles({ pendingDelayed, committedEscrow, unallocated });
+    } catch {
+      setHandles(null);
+    }
+  }, [payGramCore]);
+
+  useEffect(() => {
+    fetchSplit();
+  }, [fetchSplit]);
+
+  async function handleReveal(handle: string) {
+    if (!payGramCore || handle === ethers.ZeroHash) return;
+    await reveal(handle, await payGramCore.getAddress());
+  }
+
+  async function handleWithdraw() {
+    if (!payGramCore) return;
+    setIsWithdrawing(true);
+    setStatus(null);
+    try {
+      const tx = await payGramCore.withdrawUnallocated();
+      await tx.wait();
+      setStatus({ type: "success", message: "Cancelled funds withdrawn" });
+      await fetchSplit();
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to withdraw funds";
+      setStatus({ type: "error", message });
+    } finally {
+      setIsWithdrawing(false);
+    }
+  }
+
+  function display(handle: string | undefined) {
+    if (!handle) return "\u2014";
+    // Never written on-chain: nothing has been tracked in this bucket yet
+    if (handle === ethers.ZeroHash) return "0";
+    const value = values[handle];
+    return value !== undefined ? value.toLocaleString("en-US") : "******";
+  }
+
+  const unallocated = handles?.unallocated;
+  const nothingFree =
+    !unallocated ||
+    unallocated === ethers.ZeroHash ||
+    values[unallocated] === BigInt(0);
+
+  return (
+    <div className="glass-card-static p-6">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-sm font-heading font-bold text-text">
+          Treasury Split
+        </h3>
+        {!handles && (
+          <Badge variant="warning" size="sm">
+            Unavailable
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {ROWS.map(({ key, label, hint, icon: Icon, color }) => {
+          const handle = handles?.[key];
+          const revealable =
+            !!handle &&
+            handle !== ethers.ZeroHash &&
+            values[handle] === undefined;
+          return (
+            <div
+              key={key}
+              className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.04]"
+            >
+              <p className="flex items-center gap-1.5 text-xs text-text-muted mb-0.5">
+                <Icon size={12} className={color} />
+                {label}
+              </p>
+              <p className="text-xl font-heading font-bold text-text">
+                {display(handle)}{" "}
+                <span className="text-xs text-text-muted">cUSDC</span>
+              </p>
+              <p className="text-[11px] text-text-muted mt-1">{hint}</p>
+              {revealable && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleReveal(handle)}
+                  loading={!!pending[handle]}
+                  disabled={!permissions.isEmployer}
+                  className="mt-2"
+                >
+                  <Eye size={12} />
+                  Decrypt
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Button
+        variant="outline"
+        onClick={handleWithdraw}
+        loading={isWithdrawing}
+        disabled={!contractsReady || !permissions.isEmployer || nothingFree}
+        className="w-full"
+      >
+        <Undo2 size={14} />
+        Withdraw Free Funds
+      </Button>
+
+      {decryptError && (
+        <p className="flex items-center gap-1.5 mt-3 text-xs text-danger">
+          <AlertCircle size={12} />
+          {decryptError}
+        </p>
+      )}
+
+      {status && (
+        <div
+          className={`flex items-center gap-2 mt-3 p-3 rounded-lg text-sm ${
+            status.type === "success"
+              ? "bg-primary-muted text-primary"
+              : "bg-danger-muted text-danger"
+          }`}
+        >
+          {status.type === "success" ? (
+            <CheckCircle size={14} />
+          ) : (
+            <AlertCircle size={14} />
+          )}
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { Shield, Menu, X } from "lucide-react";
 import ConnectButton from "@/components/wallet/ConnectButton";
+import OrgSwitcher from "@/components/wallet/OrgSwitcher";
 import { cn } from "@/lib/utils";
 
 const NAV_LINKS = [
@@ -66,7 +67,8 @@ export default function Navbar() {
 
           {/* Right side */}
           <div className="flex items-center gap-3">
-            <div className="hidden md:block">
+            <div className="hidden md:flex items-center gap-3">
+              <OrgSwitcher />
               <ConnectButton />
             </div>
 
@@ -103,7 +105,8 @@ export default function Navbar() {
                 </Link>
               );
             })}
-            <div className="pt-3">
+            <div className="pt-3 flex flex-col items-start gap-3">
+              <OrgSwitcher />
               <ConnectButton />
             </div>
           </div>
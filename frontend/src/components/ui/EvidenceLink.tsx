@@ -0,0 +1,27 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+
+/**
+ * Renders claim evidence as a link when it is a URI, otherwise as a hash.
+ */
+export default function EvidenceLink({ evidence }: { evidence: string }) {
+  if (!/^(https?|ipfs|ar):\/\//.test(evidence)) {
+    return (
+      <span className="block text-[11px] font-mono text-text-muted break-all">
+        {evidence}
+      </span>
+    );
+  }
+  return (
+    <a
+      href={evidence}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1 text-[11px] font-mono text-secondary hover:underline break-all"
+    >
+      <ExternalLink size={10} />
+      {evidence}
+    </a>
+  );
+}
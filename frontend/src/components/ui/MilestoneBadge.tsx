@@ -0,0 +1,28 @@
+"use client";
+
+import { Flag } from "lucide-react";
+import { MILESTONE_STATE } from "@/lib/constants";
+import Badge from "@/components/ui/Badge";
+
+interface MilestoneBadgeProps {
+  state: number;
+  className?: string;
+}
+
+const variants = {
+  0: "default",
+  1: "secondary",
+  2: "warning",
+  3: "primary",
+  4: "danger",
+} as const;
+
+export default function MilestoneBadge({ state, className }: MilestoneBadgeProps) {
+  const key = state as keyof typeof MILESTONE_STATE;
+  return (
+    <Badge variant={variants[key] ?? "default"} size="sm" className={className}>
+      <Flag size={9} />
+      {MILESTONE_STATE[key] ?? "Unknown"}
+    </Badge>
+  );
+}
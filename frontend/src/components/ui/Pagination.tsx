@@ -0,0 +1,56 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import Button from "@/components/ui/Button";
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  total: number;
+  onChange: (page: number) => void;
+  className?: string;
+}
+
+export default function Pagination({
+  page,
+  pageCount,
+  total,
+  onChange,
+  className,
+}: PaginationProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between text-xs text-text-muted",
+        className
+      )}
+    >
+      <span>
+        Page {page + 1} of {pageCount} &middot; {total} records
+      </span>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(page - 1)}
+          disabled={page === 0}
+        >
+          <ChevronLeft size={13} />
+          Prev
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(page + 1)}
+          disabled={page >= pageCount - 1}
+        >
+          Next
+          <ChevronRight size={13} />
+        </Button>
+      </div>
+    </div>
+  );
+}
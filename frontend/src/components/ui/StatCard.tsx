@@ -1,5 +1,6 @@
 "use client";
 
+import { type ReactNode } from "react";
 import { type LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -7,6 +8,8 @@ interface StatCardProps {
   title: string;
   value: string | number;
   subtitle?: string;
+  /** Rendered under the value, e.g. a decrypt button. */
+  action?: ReactNode;
   icon: LucideIcon;
   trend?: "up" | "down" | "neutral";
   accentColor?: "primary" | "secondary" | "warning" | "danger";
@@ -40,6 +43,7 @@ export default function StatCard({
   title,
   value,
   subtitle,
+  action,
   icon: Icon,
   accentColor = "primary",
   className,
@@ -63,6 +67,7 @@ export default function StatCard({
           {subtitle && (
             <p className="text-xs text-text-secondary">{subtitle}</p>
           )}
+          {action}
         </div>
         <div className={cn("p-2.5 rounded-xl", accent.bg)}>
           <Icon size={20} className={accent.text} />
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect } from "react";
+import { CheckCircle, AlertCircle, Loader2, X, ExternalLink } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface ToastMessage {
+  type: "pending" | "success" | "error";
+  message: string;
+  /** Optional explorer link for the transaction. */
+  href?: string | null;
+}
+
+interface ToastProps {
+  toast: ToastMessage | null;
+  onDismiss: () => void;
+  /** Auto-dismiss delay for success toasts, in milliseconds. */
+  duration?: number;
+}
+
+const typeClasses = {
+  pending: "border-secondary/20 text-secondary",
+  success: "border-primary/20 text-primary",
+  error: "border-danger/20 text-danger",
+};
+
+const icons = {
+  pending: <Loader2 size={14} className="animate-spin" />,
+  success: <CheckCircle size={14} />,
+  error: <AlertCircle size={14} />,
+};
+
+export default function Toast({ toast, onDismiss, duration = 5000 }: ToastProps) {
+  useEffect(() => {
+    if (toast?.type !== "success") return;
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [toast, onDismiss, duration]);
+
+  if (!toast) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={cn(
+        "fixed bottom-6 right-6 z-50 flex items-center gap-2.5 max-w-sm px-4 py-3 rounded-xl border bg-surface shadow-lg animate-slide-up",
+        typeClasses[toast.type]
+      )}
+    >
+      {icons[toast.type]}
+      <span className="text-sm text-text">{toast.message}</span>
+      {toast.href && (
+        <a
+          href={toast.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-text-muted hover:text-text transition-colors"
+          aria-label="View transaction"
+        >
+          <ExternalLink size={12} />
+        </a>
+      )}
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="ml-1 text-text-muted hover:text-text transition-colors"
+        aria-label="Dismiss"
+      >
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
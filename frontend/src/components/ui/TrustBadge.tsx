@@ -1,35 +1,40 @@
 "use client";
 
-import { ShieldCheck, Clock, Lock, HelpCircle } from "lucide-react";
+import { ShieldCheck, Clock, Lock, Split, HelpCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-type TrustTier = "high" | "medium" | "low" | "unscored";
+import { tierKind, type RoutingTier } from "@/lib/routing";
 
 interface TrustBadgeProps {
-  tier: TrustTier;
+  /** Index into `tiers`, 0 being the highest; null when unscored. */
+  tier: number | null;
+  tiers: RoutingTier[];
   size?: "sm" | "md" | "lg";
   className?: string;
 }
 
 const config = {
-  high: {
-    label: "High Trust",
+  instant: {
     Icon: ShieldCheck,
     bg: "bg-primary-muted",
     border: "border-primary/20",
     text: "text-primary",
     dot: "bg-primary",
   },
-  medium: {
-    label: "Medium Trust",
+  delayed: {
     Icon: Clock,
     bg: "bg-warning-muted",
     border: "border-warning/20",
     text: "text-warning",
     dot: "bg-warning",
   },
-  low: {
-    label: "Low Trust",
+  split: {
+    Icon: Split,
+    bg: "bg-warning-muted",
+    border: "border-warning/20",
+    text: "text-warning",
+    dot: "bg-warning",
+  },
+  escrow: {
     Icon: Lock,
     bg: "bg-danger-muted",
     border: "border-danger/20",
@@ -54,12 +59,17 @@ const sizeClasses = {
 
 const iconSizes = { sm: 12, md: 14, lg: 16 };
 
+/**
+ * Names the employee's routing tier, colored by how that tier pays out.
+ */
 export default function TrustBadge({
   tier,
+  tiers,
   size = "md",
   className,
 }: TrustBadgeProps) {
-  const c = config[tier];
+  const t = tier === null ? undefined : tiers[tier];
+  const c = t ? { ...config[tierKind(t)], label: t.name } : config.unscored;
   const Icon = c.Icon;
 
   return (
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { Building2, Plus, Trash2 } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import OrganizationDialog from "@/components/wallet/OrganizationDialog";
+
+/**
+ * Picks which organization (PayGramCore deployment) the dashboards use,
+ * and opens the dialog to create or add another.
+ */
+export default function OrgSwitcher() {
+  const { isConnected, isSupportedChain, orgs, activeOrg, selectOrg, removeOrg } =
+    useWeb3();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  if (!isConnected || !isSupportedChain) return null;
+
+  // Only user-added entries can be removed; the default and registry
+  // organizations are always listed
+  const removable = !!activeOrg && !activeOrg.source;
+
+  return (
+    <>
+      <div className="flex items-center gap-1">
+        <div className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+          <Building2 size={14} className="text-text-muted shrink-0" />
+          <select
+            value={activeOrg?.address ?? ""}
+            onChange={(e) => selectOrg(e.target.value)}
+            className="bg-transparent text-sm text-text-secondary focus:outline-none max-w-[10rem]"
+            aria-label="Organization"
+          >
+            {orgs.map((org) => (
+              <option key={org.address} value={org.address}>
+                {org.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {removable && (
+          <button
+            type="button"
+            onClick={() => removeOrg(activeOrg.address)}
+            className="p-2 rounded-lg text-text-muted hover:text-danger hover:bg-white/5 transition-colors"
+            aria-label="Remove organization"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setDialogOpen(true)}
+          className="p-2 rounded-lg text-text-muted hover:text-text hover:bg-white/5 transition-colors"
+          aria-label="Create or add organization"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <OrganizationDialog open={dialogOpen} onClose={() => setDialogOpen(false)} />
+    </>
+  );
+}
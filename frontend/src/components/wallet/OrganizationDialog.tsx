@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertCircle } from "lucide-react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import Button from "@/components/ui/Button";
+import Dialog from "@/components/ui/Dialog";
+import Input from "@/components/ui/Input";
+import Tabs from "@/components/ui/Tabs";
+
+interface OrganizationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const MODES = [
+  { id: "create", label: "Create new" },
+  { id: "add", label: "Add existing" },
+];
+
+/**
+ * Onboarding for organizations: deploys a new PayGramCore through the
+ * chain's PayGramFactory, or adds an existing core by address. Without a
+ * factory only the second option is offered.
+ */
+export default function OrganizationDialog({ open, onClose }: OrganizationDialogProps) {
+  const { hasFactory, addOrg, createOrg } = useWeb3();
+  const [mode, setMode] = useState(hasFactory ? "create" : "add");
+  const [name, setName] = useState("");
+  const [coreAddress, setCoreAddress] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode(hasFactory ? "create" : "add");
+    setName("");
+    setCoreAddress("");
+    setError(null);
+  }, [open, hasFactory]);
+
+  async function handleSubmit() {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === "create") {
+        await createOrg(name);
+      } else {
+        await addOrg({ name, address: coreAddress.trim() });
+      }
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to set up organization"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const submitDisabled = mode === "create" ? !name.trim() : !coreAddress;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title="Organization"
+      description={
+        mode === "create"
+          ? "Deploys a PayGramCore with you as employer and lists it in the on-chain registry."
+          : "Each organization is its own PayGramCore deployment."
+      }
+    >
+      <div className="space-y-4">
+        {hasFactory && (
+          <Tabs tabs={MODES} activeTab={mode} onChange={setMode} className="w-fit" />
+        )}
+        <Input
+          label="Name"
+          placeholder="Acme Inc."
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        {mode === "add" && (
+          <Input
+            label="Core address"
+            placeholder="0x..."
+            value={coreAddress}
+            onChange={(e) => setCoreAddress(e.target.value)}
+            className="font-mono"
+          />
+        )}
+        {error && (
+          <p className="flex items-center gap-1.5 text-xs text-danger">
+            <AlertCircle size={12} />
+            {error}
+          </p>
+        )}
+        <Button
+          onClick={handleSubmit}
+          loading={isSubmitting}
+          disabled={submitDisabled}
+          className="w-full"
+        >
+          {mode === "create" ? "Create Organization" : "Add Organization"}
+        </Button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { PAYGRAM_APPROVALS_ABI } from "@/lib/contracts";
+
+interface UseApprovalGateReturn {
+  /** PayGramApprovals contract, or null when the core has no gate. */
+  gate: ethers.Contract | null;
+  gateAddress: string | null;
+  isApprover: boolean;
+  threshold: number;
+  refresh: () => Promise<void>;
+  /**
+   * Proposes a call through the gate; returns the proposal ID. Targets
+   * PayGramCore unless another contract the gate allows is given.
+   */
+  propose: (
+    method: string,
+    args?: unknown[],
+    target?: ethers.Contract
+  ) => Promise<number>;
+}
+
+/**
+ * Reads the active organization's approval gate. With a gate installed,
+ * sensitive PayGramCore actions become proposals that approvers sign.
+ */
+export function useApprovalGate(): UseApprovalGateReturn {
+  const { payGramCore, signer, address } = useWeb3();
+  const [gate, setGate] = useState<ethers.Contract | null>(null);
+  const [isApprover, setIsApprover] = useState(false);
+  const [threshold, setThreshold] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!payGramCore || !signer) {
+      setGate(null);
+      return;
+    }
+    try {
+      const gateAddress: string = await payGramCore.approvalGate();
+      if (gateAddress === ethers.ZeroAddress) {
+        setGate(null);
+        setIsApprover(false);
+        return;
+      }
+      const contract = new ethers.Contract(
+        gateAddress,
+        PAYGRAM_APPROVALS_ABI,
+        signer
+      );
+      setGate(contract);
+      setThreshold(Number(await contract.threshold()));
+      setIsApprover(address ? await contract.isApprover(address) : false);
+    } catch {
+      // Cores deployed before approval gates have no approvalGate()
+      setGate(null);
+      setIsApprover(false);
+    }
+  }, [payGramCore, signer, address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const propose = useCallback(
+    async (method: string, args: unknown[] = [], target?: ethers.Contract) => {
+      if (!gate || !payGramCore) throw new Error("No approval gate installed");
+      const contract = target ?? payGramCore;
+      const data = contract.interface.encodeFunctionData(method, args);
+      const tx = await gate.propose(await contract.getAddress(), data);
+      const receipt = await tx.wait();
+
+      for (const entry of receipt.logs) {
+        const parsed = gate.interface.parseLog(entry);
+        if (parsed?.name === "ProposalCreated") {
+          return Number(parsed.args.proposalId);
+        }
+      }
+      throw new Error("Proposal was not created");
+    },
+    [gate, payGramCore]
+  );
+
+  return {
+    gate,
+    gateAddress: gate ? (gate.target as string) : null,
+    isApprover,
+    threshold,
+    refresh,
+    propose,
+  };
+}
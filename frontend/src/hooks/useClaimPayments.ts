@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { describeTxError, getTxUrl } from "@/lib/contracts";
+import type { ToastMessage } from "@/components/ui/Toast";
+
+/** Mirrors PayGramCore.MAX_BATCH_SIZE, the claimDelayed limit. */
+export const CLAIM_BATCH_SIZE = 10;
+
+interface UseClaimPaymentsReturn {
+  /** Payment ID with a claim in flight, or null. */
+  claimingId: number | null;
+  isClaimingAll: boolean;
+  toast: ToastMessage | null;
+  dismissToast: () => void;
+  claim: (paymentId: number) => Promise<boolean>;
+  claimAll: (paymentIds: number[]) => Promise<number>;
+}
+
+/**
+ * Number of transactions claimAll sends for `count` payments.
+ */
+export function claimTransactionCount(count: number): number {
+  return Math.ceil(count / CLAIM_BATCH_SIZE);
+}
+
+/**
+ * Releases the delayed parts of matured payments from the employee's own
+ * wallet, reporting progress through a toast. A single payment goes
+ * through `releaseDelayed`; claimAll sends `claimDelayed` batches of up to
+ * CLAIM_BATCH_SIZE. `onSettled` runs after every mined transaction so the
+ * caller can refresh payments and balance.
+ */
+export function useClaimPayments(
+  onSettled?: () => void
+): UseClaimPaymentsReturn {
+  const { payGramCore, chainId } = useWeb3();
+  const [claimingId, setClaimingId] = useState<number | null>(null);
+  const [isClaimingAll, setIsClaimingAll] = useState(false);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const release = useCallback(
+    async (paymentIds: number[], label: string) => {
+      if (!payGramCore) return false;
+      setToast({ type: "pending", message: `${label}: confirm in wallet` });
+      try {
+        const tx =
+          paymentIds.length === 1
+            ? await payGramCore.releaseDelayed(paymentIds[0])
+            : await payGramCore.claimDelayed(paymentIds);
+        const href = getTxUrl(chainId, tx.hash);
+        setToast({
+          type: "pending",
+          message: `${label}: waiting for confirmation`,
+          href,
+        });
+        await tx.wait();
+        setToast({ type: "success", message: `${label}: released`, href });
+        onSettled?.();
+        return true;
+      } catch (err) {
+        setToast({
+          type: "error",
+          message: `${label}: ${describeTxError(err, "claim failed")}`,
+        });
+        return false;
+      }
+    },
+    [payGramCore, chainId, onSettled]
+  );
+
+  const claim = useCallback(
+    async (paymentId: number) => {
+      setClaimingId(paymentId);
+      try {
+        return await release([paymentId], `Payment #${paymentId}`);
+      } finally {
+        setClaimingId(null);
+      }
+    },
+    [release]
+  );
+
+  const claimAll = useCallback(
+    async (paymentIds: number[]) => {
+      const batches: number[][] = [];
+      for (let i = 0; i < paymentIds.length; i += CLAIM_BATCH_SIZE) {
+        batches.push(paymentIds.slice(i, i + CLAIM_BATCH_SIZE));
+      }
+
+      setIsClaimingAll(true);
+      let released = 0;
+      try {
+        for (const [i, batch] of batches.entries()) {
+          const label =
+            batches.length === 1
+              ? `Claim of ${batch.length} payments`
+              : `Claim ${i + 1}/${batches.length}`;
+          // Stop at the first failure; the toast shows what went wrong
+          if (!(await release(batch, label))) break;
+          released += batch.length;
+        }
+      } finally {
+        setIsClaimingAll(false);
+      }
+      if (batches.length > 1 && released > 0) {
+        setToast({ type: "success", message: `Released ${released} payments` });
+      }
+      return released;
+    },
+    [release]
+  );
+
+  return { claimingId, isClaimingAll, toast, dismissToast, claim, claimAll };
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { PAYGRAM_COMPENSATION_ABI } from "@/lib/contracts";
+
+interface UseCompensationReturn {
+  /** PayGramCompensation contract, or null when the core has no module. */
+  compensation: ethers.Contract | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Reads the active organization's pay components module. Without one,
+ * payroll pays the base salary only.
+ */
+export function useCompensation(): UseCompensationReturn {
+  const { payGramCore, signer } = useWeb3();
+  const [compensation, setCompensation] = useState<ethers.Contract | null>(
+    null
+  );
+
+  const refresh = useCallback(async () => {
+    if (!payGramCore || !signer) {
+      setCompensation(null);
+      return;
+    }
+    try {
+      const moduleAddress: string = await payGramCore.compensation();
+      setCompensation(
+        moduleAddress === ethers.ZeroAddress
+          ? null
+          : new ethers.Contract(moduleAddress, PAYGRAM_COMPENSATION_ABI, signer)
+      );
+    } catch {
+      // Cores deployed before pay components have no compensation()
+      setCompensation(null);
+    }
+  }, [payGramCore, signer]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { compensation, refresh };
+}
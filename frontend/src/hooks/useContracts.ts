@@ -3,6 +3,7 @@
 import { useMemo } from "react";
 import { ethers } from "ethers";
 import { getContractInstances } from "@/lib/contracts";
+import type { Organization } from "@/lib/orgs";
 
 interface UseContractsReturn {
   trustScoring: ethers.Contract | null;
@@ -13,16 +14,18 @@ interface UseContractsReturn {
 
 /**
  * Returns ethers.Contract instances for all three PayGram contracts.
- * Requires a connected signer and supported chain.
+ * Requires a connected signer and supported chain. `org` is the active
+ * organization.
  */
 export function useContracts(
   signer: ethers.Signer | null,
-  chainId: number | null
+  chainId: number | null,
+  org?: Organization | null
 ): UseContractsReturn {
   const contracts = useMemo(() => {
     if (!signer || !chainId) return null;
-    return getContractInstances(chainId, signer);
-  }, [signer, chainId]);
+    return getContractInstances(chainId, signer, org);
+  }, [signer, chainId, org]);
 
   return {
     trustScoring: contracts?.trustScoring ?? null,
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+
+interface UseDecryptReturn {
+  /** Decrypted plaintexts keyed by handle. */
+  values: Record<string, bigint>;
+  /** Handles with a decryption in flight. */
+  pending: Record<string, boolean>;
+  error: string | null;
+  reveal: (handle: string, contractAddress: string) => Promise<bigint | null>;
+  hide: (handle: string) => void;
+}
+
+/**
+ * Tracks user-decrypted values for a component. Decryption goes through
+ * the Web3Provider, which reuses one signed EIP-712 token per contract.
+ */
+export function useDecrypt(): UseDecryptReturn {
+  const { decrypt } = useWeb3();
+  const [values, setValues] = useState<Record<string, bigint>>({});
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const reveal = useCallback(
+    async (handle: string, contractAddress: string) => {
+      setPending((prev) => ({ ...prev, [handle]: true }));
+      setError(null);
+      try {
+        const value = await decrypt(handle, contractAddress);
+        if (value === null) {
+          setError("FHE decryption is not available on this network");
+          return null;
+        }
+        setValues((prev) => ({ ...prev, [handle]: value }));
+        return value;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Decryption failed");
+        return null;
+      } finally {
+        setPending((prev) => {
+          const { [handle]: _done, ...rest } = prev;
+          return rest;
+        });
+      }
+    },
+    [decrypt]
+  );
+
+  const hide = useCallback((handle: string) => {
+    setValues((prev) => {
+      const { [handle]: _hidden, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return { values, pending, error, reveal, hide };
+}
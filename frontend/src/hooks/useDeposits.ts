@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import {
+  loadDepositHistory,
+  saveDepositHistory,
+  syncDepositHistory,
+  type Deposit,
+} from "@/lib/deposits";
+
+interface UseDepositsReturn {
+  deposits: Deposit[];
+  isSyncing: boolean;
+  error: string | null;
+  sync: () => Promise<void>;
+}
+
+/**
+ * Deposits into the connected PayGramCore, read from the pay token's
+ * transfer events. The persisted history is shown immediately and then
+ * caught up from its block cursor.
+ */
+export function useDeposits(): UseDepositsReturn {
+  const { payGramCore, payGramToken, provider, chainId } = useWeb3();
+  const [deposits, setDeposits] = useState<Deposit[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const syncing = useRef(false);
+
+  const sync = useCallback(async () => {
+    if (!payGramCore || !payGramToken || !provider || !chainId) return;
+    if (syncing.current) return;
+
+    syncing.current = true;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const core = await payGramCore.getAddress();
+      const cached = loadDepositHistory(chainId, core);
+      setDeposits(cached.deposits);
+
+      const next = await syncDepositHistory(cached, payGramToken, provider);
+      saveDepositHistory(next);
+      setDeposits(next.deposits);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deposits");
+    } finally {
+      syncing.current = false;
+      setIsSyncing(false);
+    }
+  }, [payGramCore, payGramToken, provider, chainId]);
+
+  useEffect(() => {
+    setDeposits([]);
+    sync();
+  }, [sync]);
+
+  return { deposits, isSyncing, error, sync };
+}
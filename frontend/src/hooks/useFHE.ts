@@ -1,8 +1,15 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { initFHE, encryptUint64, createEIP712Token } from "@/lib/fhe";
-import type { FHEInstance } from "@/lib/fhe";
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { ethers } from "ethers";
+import {
+  initFHE,
+  encryptUint64,
+  encryptUint64Array,
+  createEIP712Token,
+  decryptHandle,
+} from "@/lib/fhe";
+import type { FHEInstance, EIP712Token } from "@/lib/fhe";
 
 interface UseFHEReturn {
   isInitialized: boolean;
@@ -18,16 +25,40 @@ interface UseFHEReturn {
     inputProof?: Uint8Array;
     plaintextValue?: bigint;
   }>;
-  requestDecryptToken: (
+  encryptMany: (
+    values: (number | bigint)[],
     contractAddress: string,
     userAddress: string
-  ) => Promise<{ publicKey: Uint8Array; signature: string } | null>;
+  ) => Promise<{
+    encrypted: boolean;
+    handles?: Uint8Array[];
+    inputProof?: Uint8Array;
+    plaintextValues?: bigint[];
+  }>;
+  requestDecryptToken: (contractAddress: string) => Promise<EIP712Token | null>;
+  decrypt: (
+    handle: string | bigint,
+    contractAddress: string
+  ) => Promise<bigint | null>;
 }
 
-export function useFHE(): UseFHEReturn {
+/**
+ * Initializes fhevmjs and exposes encryption plus user decryption.
+ * Signed EIP-712 tokens are cached per contract for the lifetime of the
+ * connected signer, so the wallet prompts once per contract per session.
+ */
+export function useFHE(signer: ethers.Signer | null): UseFHEReturn {
   const [instance, setInstance] = useState<FHEInstance | null>(null);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const tokenCache = useRef<Map<string, Promise<EIP712Token | null>>>(
+    new Map()
+  );
+
+  // Tokens are bound to the signing account — drop them when it changes
+  useEffect(() => {
+    tokenCache.current = new Map();
+  }, [signer]);
 
   useEffect(() => {
     let cancelled = false;
@@ -68,18 +99,55 @@ export function useFHE(): UseFHEReturn {
     []
   );
 
-  const requestDecryptToken = useCallback(
-    async (contractAddress: string, userAddress: string) => {
-      return createEIP712Token(contractAddress, userAddress);
+  const encryptMany = useCallback(
+    async (
+      values: (number | bigint)[],
+      contractAddress: string,
+      userAddress: string
+    ) => {
+      return encryptUint64Array(values, contractAddress, userAddress);
     },
     []
   );
 
+  const requestDecryptToken = useCallback(
+    async (contractAddress: string) => {
+      if (!signer) return null;
+
+      const key = contractAddress.toLowerCase();
+      let pending = tokenCache.current.get(key);
+      if (!pending) {
+        pending = createEIP712Token(contractAddress, signer);
+        tokenCache.current.set(key, pending);
+        // A rejected signature prompt must not poison the cache
+        pending.then(
+          (token) => {
+            if (!token) tokenCache.current.delete(key);
+          },
+          () => tokenCache.current.delete(key)
+        );
+      }
+      return pending;
+    },
+    [signer]
+  );
+
+  const decrypt = useCallback(
+    async (handle: string | bigint, contractAddress: string) => {
+      const token = await requestDecryptToken(contractAddress);
+      if (!token) return null;
+      return decryptHandle(handle, token);
+    },
+    [requestDecryptToken]
+  );
+
   return {
     isInitialized: instance !== null,
     isInitializing,
     error,
     encrypt,
+    encryptMany,
     requestDecryptToken,
+    decrypt,
   };
 }
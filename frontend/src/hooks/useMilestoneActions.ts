@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+
+interface UseMilestoneActionsReturn {
+  /** Payment ID with a transaction in flight, or null. */
+  busyId: number | null;
+  error: string | null;
+  define: (paymentId: number, description: string, deadline: number) => Promise<boolean>;
+  claim: (paymentId: number, evidence: string) => Promise<boolean>;
+  approve: (paymentId: number) => Promise<boolean>;
+  reject: (paymentId: number, reason: string) => Promise<boolean>;
+}
+
+/**
+ * Sends the milestone workflow transactions for escrowed payments.
+ * Each action resolves to true once mined, then runs `onSettled` so the
+ * caller can refresh its view.
+ */
+export function useMilestoneActions(
+  onSettled?: () => void
+): UseMilestoneActionsReturn {
+  const { payGramCore } = useWeb3();
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = useCallback(
+    async (paymentId: number, method: string, args: unknown[]) => {
+      if (!payGramCore) return false;
+      setBusyId(paymentId);
+      setError(null);
+      try {
+        const tx = await payGramCore[method](paymentId, ...args);
+        await tx.wait();
+        onSettled?.();
+        return true;
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Milestone transaction failed"
+        );
+        return false;
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [payGramCore, onSettled]
+  );
+
+  const define = useCallback(
+    (paymentId: number, description: string, deadline: number) =>
+      send(paymentId, "defineMilestone", [description, deadline]),
+    [send]
+  );
+
+  const claim = useCallback(
+    (paymentId: number, evidence: string) =>
+      send(paymentId, "submitMilestoneClaim", [evidence]),
+    [send]
+  );
+
+  const approve = useCallback(
+    (paymentId: number) => send(paymentId, "approveMilestone", []),
+    [send]
+  );
+
+  const reject = useCallback(
+    (paymentId: number, reason: string) =>
+      send(paymentId, "rejectMilestone", [reason]),
+    [send]
+  );
+
+  return { busyId, error, define, claim, approve, reject };
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+/**
+ * Current Unix time in seconds, re-rendering every `intervalMs`.
+ * Used for release-time countdowns.
+ */
+export function useNow(intervalMs = 1000): number {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(
+      () => setNow(Math.floor(Date.now() / 1000)),
+      intervalMs
+    );
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
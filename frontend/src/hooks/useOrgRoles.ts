@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+
+export interface OrgPermissions {
+  isEmployer: boolean;
+  payrollAdmin: boolean;
+  hr: boolean;
+  approver: boolean;
+  auditor: boolean;
+}
+
+export const NO_PERMISSIONS: OrgPermissions = {
+  isEmployer: false,
+  payrollAdmin: false,
+  hr: false,
+  approver: false,
+  auditor: false,
+};
+
+interface UseOrgRolesReturn {
+  permissions: OrgPermissions;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Reads what the connected wallet may do in the active organization.
+ * The employer holds every role; other members hold the bits set in
+ * PayGramCore.roles (see ORG_ROLE).
+ */
+export function useOrgRoles(): UseOrgRolesReturn {
+  const { payGramCore, address } = useWeb3();
+  const [permissions, setPermissions] = useState<OrgPermissions>(NO_PERMISSIONS);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!payGramCore || !address) {
+      setPermissions(NO_PERMISSIONS);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const employer: string = await payGramCore.employer();
+      const isEmployer = employer.toLowerCase() === address.toLowerCase();
+      const mask = isEmployer ? 0xff : Number(await payGramCore.roles(address));
+      setPermissions({
+        isEmployer,
+        payrollAdmin: (mask & 1) !== 0,
+        hr: (mask & 2) !== 0,
+        approver: (mask & 4) !== 0,
+        auditor: (mask & 8) !== 0,
+      });
+    } catch {
+      setPermissions(NO_PERMISSIONS);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [payGramCore, address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { permissions, isLoading, refresh };
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ethers } from "ethers";
+import { getFactoryContract, PAYGRAM_CORE_ABI } from "@/lib/contracts";
+import {
+  loadOrganizations,
+  saveOrganizations,
+  loadActiveOrganization,
+  saveActiveOrganization,
+  readRegistryOrganizations,
+  readMemberOrganizations,
+  mergeOrganizations,
+  sameAddress,
+  type Organization,
+} from "@/lib/orgs";
+
+interface UseOrganizationsReturn {
+  orgs: Organization[];
+  activeOrg: Organization | null;
+  /** Whether this chain has a PayGramFactory to create organizations with. */
+  hasFactory: boolean;
+  selectOrg: (address: string) => void;
+  addOrg: (org: Organization) => Promise<void>;
+  removeOrg: (address: string) => void;
+  createOrg: (name: string) => Promise<string>;
+}
+
+/**
+ * Tracks the organizations (PayGramCore deployments) known on the current
+ * chain and which one the dashboards operate on. Organizations the wallet
+ * created or belongs to (as an employee or team member) are read from the
+ * PayGramFactory registry.
+ */
+export function useOrganizations(
+  chainId: number | null,
+  signer: ethers.Signer | null,
+  address: string | null
+): UseOrganizationsReturn {
+  const [local, setLocal] = useState<Organization[]>([]);
+  const [registry, setRegistry] = useState<Organization[]>([]);
+  const [activeAddress, setActiveAddress] = useState<string | null>(null);
+
+  const factory = useMemo(
+    () => (chainId && signer ? getFactoryContract(chainId, signer) : null),
+    [chainId, signer]
+  );
+
+  useEffect(() => {
+    if (!chainId) {
+      setLocal([]);
+      setActiveAddress(null);
+      return;
+    }
+    setLocal(loadOrganizations(chainId));
+    // May name a registry organization that has not loaded yet
+    setActiveAddress(loadActiveOrganization(chainId));
+  }, [chainId]);
+
+  const refreshRegistry = useCallback(async () => {
+    if (!factory || !address) {
+      setRegistry([]);
+      return;
+    }
+    try {
+      const [own, member] = await Promise.all([
+        readRegistryOrganizations(factory, address),
+        readMemberOrganizations(factory, address),
+      ]);
+      setRegistry(mergeOrganizations(own, member));
+    } catch {
+      // Registry unreachable — keep the default and saved organizations
+      setRegistry([]);
+    }
+  }, [factory, address]);
+
+  useEffect(() => {
+    refreshRegistry();
+  }, [refreshRegistry]);
+
+  // Default first, then registry organizations, then saved ones
+  const orgs = useMemo(
+    () =>
+      mergeOrganizations(
+        local.filter((o) => o.source === "default"),
+        registry,
+        local.filter((o) => !o.source)
+      ),
+    [local, registry]
+  );
+
+  const selectOrg = useCallback(
+    (address: string) => {
+      if (!chainId) return;
+      saveActiveOrganization(chainId, address);
+      setActiveAddress(address);
+    },
+    [chainId]
+  );
+
+  const addOrg = useCallback(
+    async (org: Organization) => {
+      if (!chainId) return;
+      if (!ethers.isAddress(org.address)) {
+        throw new Error("Not a valid contract address");
+      }
+      const address = ethers.getAddress(org.address);
+
+      // Read the core's wiring; this also rejects non-PayGramCore addresses
+      let trustScoring = org.trustScoring;
+      let payToken = org.payToken;
+      if (signer && (!trustScoring || !payToken)) {
+        const core = new ethers.Contract(address, PAYGRAM_CORE_ABI, signer);
+        try {
+          [trustScoring, payToken] = await Promise.all([
+            core.trustScoring(),
+            core.payToken(),
+          ]);
+        } catch {
+          throw new Error("No PayGramCore found at this address");
+        }
+      }
+
+      setLocal((prev) => {
+        const next = [
+          ...prev.filter((o) => !sameAddress(o.address, address)),
+          {
+            name: org.name.trim() || "Organization",
+            address,
+            trustScoring,
+            payToken,
+          },
+        ];
+        saveOrganizations(chainId, next);
+        return next;
+      });
+      selectOrg(address);
+    },
+    [chainId, signer, selectOrg]
+  );
+
+  const removeOrg = useCallback(
+    (address: string) => {
+      if (!chainId) return;
+      setLocal((prev) => {
+        const next = prev.filter((o) => !sameAddress(o.address, address));
+        saveOrganizations(chainId, next);
+        return next;
+      });
+      setActiveAddress((current) =>
+        current && sameAddress(current, address) ? null : current
+      );
+    },
+    [chainId]
+  );
+
+  const createOrg = useCallback(
+    async (name: string) => {
+      if (!factory) throw new Error("No organization factory on this network");
+      const tx = await factory.createOrganization(
+        name.trim(),
+        ethers.ZeroAddress,
+        ethers.ZeroAddress
+      );
+      const receipt = await tx.wait();
+
+      let core: string | null = null;
+      for (const entry of receipt.logs) {
+        const parsed = factory.interface.parseLog(entry);
+        if (parsed?.name === "OrganizationCreated") core = parsed.args.core;
+      }
+      if (!core) throw new Error("Organization was not created");
+
+      await refreshRegistry();
+      selectOrg(core);
+      return core;
+    },
+    [factory, refreshRegistry, selectOrg]
+  );
+
+  const activeOrg =
+    orgs.find((o) => activeAddress && sameAddress(o.address, activeAddress)) ??
+    orgs[0] ??
+    null;
+
+  return {
+    orgs,
+    activeOrg,
+    hasFactory: factory !== null,
+    selectOrg,
+    addOrg,
+    removeOrg,
+    createOrg,
+  };
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { sameAddress } from "@/lib/orgs";
+import {
+  loadPaymentIndex,
+  savePaymentIndex,
+  syncPaymentIndex,
+  type PaymentIndex,
+} from "@/lib/paymentIndex";
+
+interface UsePaymentIndexReturn {
+  index: PaymentIndex | null;
+  isSyncing: boolean;
+  error: string | null;
+  sync: () => Promise<void>;
+}
+
+/**
+ * Keeps the event-indexed payment store for the connected PayGramCore in
+ * sync. The persisted index is loaded immediately and then caught up from
+ * its block cursor; `sync` fetches only blocks mined since the last call.
+ * A sync that finishes after the user switched organizations is saved but
+ * not shown.
+ */
+export function usePaymentIndex(): UsePaymentIndexReturn {
+  const { payGramCore, provider, chainId, contractsReady, activeOrg } =
+    useWeb3();
+  const [index, setIndex] = useState<PaymentIndex | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const indexRef = useRef<PaymentIndex | null>(null);
+  /** Address of the contract the hook currently shows. */
+  const activeAddress = useRef<string | null>(null);
+  /** Contracts with a sync in flight, lowercased. */
+  const syncing = useRef(new Set<string>());
+  const orgAddress = activeOrg?.address;
+  const deployTx = activeOrg?.deployTx;
+
+  const sync = useCallback(async () => {
+    if (!payGramCore || !provider || !chainId) return;
+
+    const address: string = await payGramCore.getAddress();
+    const key = address.toLowerCase();
+    if (syncing.current.has(key)) return;
+    const isActive = () =>
+      activeAddress.current !== null &&
+      sameAddress(activeAddress.current, address);
+
+    syncing.current.add(key);
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const current =
+        indexRef.current?.contractAddress === address
+          ? indexRef.current
+          : loadPaymentIndex(chainId, address);
+
+      let startBlock: number | undefined;
+      if (
+        current.startBlock === null &&
+        deployTx &&
+        orgAddress &&
+        sameAddress(orgAddress, address)
+      ) {
+        const receipt = await provider.getTransactionReceipt(deployTx);
+        startBlock = receipt?.blockNumber;
+      }
+
+      const next = await syncPaymentIndex(current, payGramCore, provider, {
+        startBlock,
+      });
+      savePaymentIndex(next);
+      if (!isActive()) return;
+      indexRef.current = next;
+      setIndex(next);
+    } catch (err) {
+      if (isActive()) {
+        setError(
+          err instanceof Error ? err.message : "Failed to sync payments"
+        );
+      }
+    } finally {
+      syncing.current.delete(key);
+      if (isActive()) setIsSyncing(false);
+    }
+  }, [payGramCore, provider, chainId, orgAddress, deployTx]);
+
+  useEffect(() => {
+    if (!contractsReady || !payGramCore || !chainId) {
+      activeAddress.current = null;
+      indexRef.current = null;
+      setIndex(null);
+      setIsSyncing(false);
+      return;
+    }
+
+    let cancelled = false;
+    payGramCore.getAddress().then((address: string) => {
+      if (cancelled) return;
+      activeAddress.current = address;
+      // Show the persisted snapshot while catching up
+      const cached = loadPaymentIndex(chainId, address);
+      indexRef.current = cached;
+      setIndex(cached.cursor === null ? null : cached);
+      setIsSyncing(syncing.current.has(address.toLowerCase()));
+      sync();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contractsReady, payGramCore, chainId, sync]);
+
+  return { index, isSyncing, error, sync };
+}
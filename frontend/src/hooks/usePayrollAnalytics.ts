@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+
+/** Most recent payroll runs loaded for the cost time series. */
+const MAX_RUNS = 12;
+
+export interface PayrollTotals {
+  /** Encrypted handle of everything transferred to employees so far. */
+  disbursed: string;
+  /** Encrypted handle of delayed amounts still time-locked. */
+  pendingDelayed: string;
+  /** Encrypted handle of amounts held in escrow. */
+  committedEscrow: string;
+}
+
+export interface TrustAggregates {
+  /** TrustScoring owner, the only account that can decrypt the handles. */
+  owner: string;
+  /** Addresses with an active score, public. */
+  scoredCount: number;
+  scoreSum: string;
+  highCount: string;
+  mediumCount: string;
+  lowCount: string;
+}
+
+export interface PayrollRunCost {
+  runId: number;
+  timestamp: number;
+  employeesPaid: number;
+  /** Encrypted handle of the run's total cost, zero if it paid nobody. */
+  cost: string;
+}
+
+interface UsePayrollAnalyticsReturn {
+  activeEmployees: number | null;
+  totalRuns: number | null;
+  totals: PayrollTotals | null;
+  trust: TrustAggregates | null;
+  /** Latest runs, oldest first. */
+  runs: PayrollRunCost[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Reads the employer dashboard aggregates from the connected PayGramCore:
+ * roster and run counts in plaintext, and the encrypted payroll totals and
+ * per-run costs as handles for the employer to decrypt. Trust score
+ * aggregates come from TrustScoring and are decryptable by its owner.
+ */
+export function usePayrollAnalytics(): UsePayrollAnalyticsReturn {
+  const { payGramCore, trustScoring } = useWeb3();
+  const [activeEmployees, setActiveEmployees] = useState<number | null>(null);
+  const [totalRuns, setTotalRuns] = useState<number | null>(null);
+  const [totals, setTotals] = useState<PayrollTotals | null>(null);
+  const [trust, setTrust] = useState<TrustAggregates | null>(null);
+  const [runs, setRuns] = useState<PayrollRunCost[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!payGramCore) {
+      setActiveEmployees(null);
+      setTotalRuns(null);
+      setTotals(null);
+      setRuns([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const [count, runCount, [disbursed, pendingDelayed, committedEscrow]] =
+        await Promise.all([
+          payGramCore.activeEmployeeCount(),
+          payGramCore.totalPayrollsExecuted(),
+          payGramCore.getPayrollTotals(),
+        ]);
+      setActiveEmployees(Number(count));
+      setTotalRuns(Number(runCount));
+      setTotals({ disbursed, pendingDelayed, committedEscrow });
+
+      const latest = Number(runCount);
+      const first = Math.max(1, latest - MAX_RUNS + 1);
+      const ids = Array.from(
+        { length: latest - first + 1 },
+        (_, i) => first + i
+      );
+      setRuns(
+        await Promise.all(
+          ids.map(async (runId) => {
+            const [[, timestamp, employeesPaid], cost] = await Promise.all([
+              payGramCore.getPayrollRun(runId),
+              payGramCore.getPayrollRunCost(runId),
+            ]);
+            return {
+              runId,
+              timestamp: Number(timestamp),
+              employeesPaid: Number(employeesPaid),
+              cost,
+            };
+          })
+        )
+      );
+    } catch {
+      setActiveEmployees(null);
+      setTotalRuns(null);
+      setTotals(null);
+      setRuns([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [payGramCore]);
+
+  const refreshTrust = useCallback(async () => {
+    if (!trustScoring) {
+      setTrust(null);
+      return;
+    }
+    try {
+      const [owner, scoredCount, [scoreSum, highCount, mediumCount, lowCount]] =
+        await Promise.all([
+          trustScoring.owner(),
+          trustScoring.totalScoredAddresses(),
+          trustScoring.getScoreAggregates(),
+        ]);
+      setTrust({
+        owner,
+        scoredCount: Number(scoredCount),
+        scoreSum,
+        highCount,
+        mediumCount,
+        lowCount,
+      });
+    } catch {
+      setTrust(null);
+    }
+  }, [trustScoring]);
+
+  const refreshAll = useCallback(async () => {
+    await Promise.all([refresh(), refreshTrust()]);
+  }, [refresh, refreshTrust]);
+
+  useEffect(() => {
+    refreshAll();
+  }, [refreshAll]);
+
+  return {
+    activeEmployees,
+    totalRuns,
+    totals,
+    trust,
+    runs,
+    isLoading,
+    refresh: refreshAll,
+  };
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { useWeb3 } from "@/providers/Web3Provider";
+import { DEFAULT_TIER_CONFIG } from "@/lib/constants";
+import { defaultTiers, type RoutingTier } from "@/lib/routing";
+
+export interface TierConfig {
+  /** Minimum score for the HIGH tier. */
+  highThreshold: number;
+  /** Minimum score for the MEDIUM tier; lower scores are LOW. */
+  mediumThreshold: number;
+  /** Seconds after which a score no longer passes tier checks. */
+  scoreExpiry: number;
+  /** Seconds the delayed part of a MEDIUM-tier payment is held. */
+  delayPeriod: number;
+}
+
+interface UseTierConfigReturn {
+  config: TierConfig;
+  /** Tiers payments are routed through, highest first. */
+  tiers: RoutingTier[];
+  /** False while showing DEFAULT_TIER_CONFIG instead of on-chain values. */
+  isLive: boolean;
+  refresh: () => Promise<void>;
+}
+
+const DEFAULT_TIERS = defaultTiers();
+
+/**
+ * Reads the trust tier thresholds and score expiry from TrustScoring and
+ * the delay period and routing tiers from the active PayGramCore. Falls
+ * back to the defaults of a fresh deployment when no contracts are
+ * connected.
+ */
+export function useTierConfig(): UseTierConfigReturn {
+  const { trustScoring, payGramCore } = useWeb3();
+  const [config, setConfig] = useState<TierConfig>(DEFAULT_TIER_CONFIG);
+  const [tiers, setTiers] = useState<RoutingTier[]>(DEFAULT_TIERS);
+  const [isLive, setIsLive] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!trustScoring || !payGramCore) {
+      setConfig(DEFAULT_TIER_CONFIG);
+      setTiers(DEFAULT_TIERS);
+      setIsLive(false);
+      return;
+    }
+    try {
+      const [high, medium, expiry, delay, routing] = await Promise.all([
+        trustScoring.highTrustThreshold(),
+        trustScoring.mediumTrustThreshold(),
+        trustScoring.scoreExpiry(),
+        payGramCore.delayPeriod(),
+        payGramCore.getRoutingTiers(),
+      ]);
+      setConfig({
+        highThreshold: Number(high),
+        mediumThreshold: Number(medium),
+        scoreExpiry: Number(expiry),
+        delayPeriod: Number(delay),
+      });
+      setTiers(
+        routing.map((t: RoutingTier) => ({
+          name: t.name,
+          minScore: Number(t.minScore),
+          instantBps: Number(t.instantBps),
+          delayedBps: Number(t.delayedBps),
+          delay: Number(t.delay),
+        }))
+      );
+      setIsLive(true);
+    } catch {
+      setConfig(DEFAULT_TIER_CONFIG);
+      setTiers(DEFAULT_TIERS);
+      setIsLive(false);
+    }
+  }, [trustScoring, payGramCore]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { config, tiers, isLive, refresh };
+}
@@ -19,53 +19,95 @@ export const SUPPORTED_CHAINS = {
  */
 export const CONTRACT_ADDRESSES: Record<
   number,
-  { trustScoring: string; payGramCore: string; payGramToken: string }
+  {
+    trustScoring: string;
+    payGramCore: string;
+    payGramToken: string;
+    /** Transaction that deployed payGramCore (deployments/<network>.json). */
+    payGramCoreDeployTx?: string;
+  }
 > = {
   [SUPPORTED_CHAINS.sepolia.chainId]: {
     trustScoring: "0x458AA964DF9E6ae9F5B2Db33E1B395C10bbA263A",
     payGramToken: "0xC97C848E7021AdFC36269ddc5e39E54939E81704",
     payGramCore: "0x331048736e7dC599E46187CaBa00dcC46952a7d7",
+    payGramCoreDeployTx:
+      "0x99a20daefbf5ae2f4d7745b28092df4f3ba32ff5ef54ede298dc52b5cca64399",
   },
   [SUPPORTED_CHAINS.mainnet.chainId]: {
     trustScoring: "0xaa3ae25ebac250ff67f4d9e3195c4c7610055067",
     payGramToken: "0x41fa55cefd625e50fa1ae08baea87ac5c8be0ad7",
     payGramCore: "0xDC41FF140129846f7a2e63A5CcE73e9d767CB4e1",
+    payGramCoreDeployTx:
+      "0x006490628532f34f851ebf8ecd0885e4fe8c1bb21c83bece509409d700917054",
   },
 };
 
-export const TRUST_TIERS = {
-  HIGH: {
-    min: 75,
-    label: "High Trust",
-    color: "green",
-    icon: "shield-check",
-    description: "Instant encrypted transfer",
-  },
-  MEDIUM: {
-    min: 40,
-    label: "Medium Trust",
-    color: "yellow",
-    icon: "clock",
-    description: "24-hour delayed release",
-  },
-  LOW: {
-    min: 0,
-    label: "Low Trust",
-    color: "red",
-    icon: "lock",
-    description: "Milestone-gated escrow",
-  },
-} as const;
+/** Whether CONTRACT_ADDRESSES is offered as each chain's default
+ *  organization. Set NEXT_PUBLIC_DEFAULT_ORG=false to list only
+ *  registry and user-added organizations.
+ */
+export const DEFAULT_ORG_ENABLED =
+  process.env.NEXT_PUBLIC_DEFAULT_ORG !== "false";
 
-export type TrustTier = keyof typeof TRUST_TIERS;
+/** PayGramFactory per chain. Organizations are read from its on-chain
+ *  registry; CONTRACT_ADDRESSES above remains the chain's default
+ *  organization. Set after running the deploy script.
+ */
+export const FACTORY_ADDRESSES: Record<number, string | undefined> = {
+  [SUPPORTED_CHAINS.sepolia.chainId]: process.env.NEXT_PUBLIC_FACTORY_SEPOLIA,
+  [SUPPORTED_CHAINS.mainnet.chainId]: process.env.NEXT_PUBLIC_FACTORY_MAINNET,
+};
 
+/**
+ * Mirrors PayGramCore.PaymentStatus. Records are created Escrowed whatever
+ * the employee's tier, so that status is shown as "Pending"; Instant and
+ * Delayed are never assigned.
+ */
 export const PAYMENT_STATUS = {
   0: "None",
   1: "Instant",
   2: "Delayed",
-  3: "Escrowed",
+  3: "Pending",
   4: "Released",
   5: "Completed",
 } as const;
 
-export const DELAY_PERIOD_SECONDS = 24 * 60 * 60; // 24 hours
+/** Mirrors PayGramCore.MilestoneState. */
+export const MILESTONE_STATE = {
+  0: "No Milestone",
+  1: "Open",
+  2: "Claimed",
+  3: "Approved",
+  4: "Rejected",
+} as const;
+
+/** Mirrors PayGramCore.PayFrequency. */
+export const PAY_FREQUENCY = {
+  0: "Contract Default",
+  1: "Weekly",
+  2: "Bi-weekly",
+  3: "Semi-monthly",
+  4: "Monthly",
+} as const;
+
+/** Mirrors PayGramCore.Role; the value is the bit index in `roles()`. */
+export const ORG_ROLE = {
+  0: "Payroll Admin",
+  1: "HR",
+  2: "Approver",
+  3: "Auditor",
+} as const;
+
+export type OrgRole = keyof typeof ORG_ROLE;
+
+/**
+ * Configuration of a fresh TrustScoring and PayGramCore deployment, shown
+ * by useTierConfig until the on-chain values load or without a wallet.
+ */
+export const DEFAULT_TIER_CONFIG = {
+  highThreshold: 75,
+  mediumThreshold: 40,
+  scoreExpiry: 90 * 24 * 60 * 60,
+  delayPeriod: 24 * 60 * 60,
+} as const;
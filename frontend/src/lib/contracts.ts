@@ -1,11 +1,36 @@
 import { ethers } from "ethers";
-import { CONTRACT_ADDRESSES } from "./constants";
+import {
+  CONTRACT_ADDRESSES,
+  DEFAULT_ORG_ENABLED,
+  FACTORY_ADDRESSES,
+  SUPPORTED_CHAINS,
+} from "./constants";
+import type { Organization } from "./orgs";
 
 import TRUST_SCORING_ABI from "./abis/TrustScoring.json";
 import PAYGRAM_CORE_ABI from "./abis/PayGramCore.json";
 import PAYGRAM_TOKEN_ABI from "./abis/PayGramToken.json";
+import PAYGRAM_FACTORY_ABI from "./abis/PayGramFactory.json";
+import PAYGRAM_APPROVALS_ABI from "./abis/PayGramApprovals.json";
+import PAYGRAM_COMPENSATION_ABI from "./abis/PayGramCompensation.json";
 
-export { TRUST_SCORING_ABI, PAYGRAM_CORE_ABI, PAYGRAM_TOKEN_ABI };
+export {
+  TRUST_SCORING_ABI,
+  PAYGRAM_CORE_ABI,
+  PAYGRAM_TOKEN_ABI,
+  PAYGRAM_FACTORY_ABI,
+  PAYGRAM_APPROVALS_ABI,
+  PAYGRAM_COMPENSATION_ABI,
+};
+
+/** Readable labels for PayGramCore errors users run into when claiming. */
+const CORE_ERROR_MESSAGES: Record<string, string> = {
+  DelayNotElapsed: "the hold period has not passed yet",
+  PaymentNotReleasable: "nothing left to release",
+  PaymentNotFound: "payment not found",
+  NotPaymentRecipient: "the payment belongs to someone else",
+  BatchTooLarge: "too many payments in one transaction",
+};
 
 /**
  * Returns contract addresses for the given chain ID, or null
@@ -27,27 +52,48 @@ function getContract(
 }
 
 /**
- * Returns all three contract instances for the given chain.
- * Uses the signer so transactions can be sent.
+ * Returns all three contract instances for the given organization, or the
+ * chain default when none is selected and DEFAULT_ORG_ENABLED is set. Uses
+ * the signer so transactions can be sent. Organizations saved before they
+ * carried their TrustScoring and token addresses fall back to the chain
+ * defaults for those.
  */
 export function getContractInstances(
   chainId: number,
-  signer: ethers.Signer
+  signer: ethers.Signer,
+  org?: Organization | null
 ): {
   trustScoring: ethers.Contract;
   payGramCore: ethers.Contract;
   payGramToken: ethers.Contract;
 } | null {
   const addrs = getAddresses(chainId);
-  if (!addrs) return null;
+  const core =
+    org?.address ?? (DEFAULT_ORG_ENABLED ? addrs?.payGramCore : undefined);
+  const trust = org?.trustScoring ?? addrs?.trustScoring;
+  const token = org?.payToken ?? addrs?.payGramToken;
+  if (!core || !trust || !token) return null;
 
   return {
-    trustScoring: getContract(addrs.trustScoring, TRUST_SCORING_ABI, signer),
-    payGramCore: getContract(addrs.payGramCore, PAYGRAM_CORE_ABI, signer),
-    payGramToken: getContract(addrs.payGramToken, PAYGRAM_TOKEN_ABI, signer),
+    trustScoring: getContract(trust, TRUST_SCORING_ABI, signer),
+    payGramCore: getContract(core, PAYGRAM_CORE_ABI, signer),
+    payGramToken: getContract(token, PAYGRAM_TOKEN_ABI, signer),
   };
 }
 
+/**
+ * Returns the chain's PayGramFactory, or null if none is configured.
+ */
+export function getFactoryContract(
+  chainId: number,
+  signerOrProvider: ethers.Signer | ethers.Provider
+): ethers.Contract | null {
+  const address = FACTORY_ADDRESSES[chainId];
+  return address
+    ? getContract(address, PAYGRAM_FACTORY_ABI, signerOrProvider)
+    : null;
+}
+
 /**
  * Truncates an Ethereum address for display: 0x1234...5678
  */
@@ -70,3 +116,50 @@ export function formatTimestamp(ts: number | bigint): string {
     minute: "2-digit",
   });
 }
+
+/**
+ * Formats a duration in seconds as a short countdown: "2h 05m", "4m 09s".
+ */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  if (h > 0) return `${h}h ${pad(m)}m`;
+  return `${m}m ${pad(s % 60)}s`;
+}
+
+/**
+ * Formats a configured duration in seconds compactly: "90m", "24h", "7d".
+ */
+export function formatDuration(seconds: number): string {
+  const day = 24 * 60 * 60;
+  if (seconds >= 2 * day && seconds % day === 0) return `${seconds / day}d`;
+  if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600}h`;
+  return `${Math.round(seconds / 60)}m`;
+}
+
+/**
+ * Turns a failed transaction into a short label for a toast. Wallet
+ * rejections and known PayGramCore errors are named; anything else
+ * becomes `fallback`.
+ */
+export function describeTxError(err: unknown, fallback: string): string {
+  if (ethers.isError(err, "ACTION_REJECTED")) return "rejected in wallet";
+  if (ethers.isError(err, "INSUFFICIENT_FUNDS")) return "not enough ETH for gas";
+  if (ethers.isError(err, "CALL_EXCEPTION") && err.revert) {
+    return CORE_ERROR_MESSAGES[err.revert.name] ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Returns the block explorer URL for a transaction, or null if the chain
+ * has no known explorer.
+ */
+export function getTxUrl(chainId: number | null, hash: string): string | null {
+  const chain = Object.values(SUPPORTED_CHAINS).find(
+    (c) => c.chainId === chainId
+  );
+  return chain ? `${chain.blockExplorer}/tx/${hash}` : null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Treasury Deposit History
+ *
+ * Collects confidential token transfers into a PayGramCore from the pay
+ * token's ConfidentialTransfer events. Like the payment index, sync is
+ * incremental from a block cursor and the history is persisted to
+ * localStorage per chain and core address.
+ */
+
+import { ethers } from "ethers";
+import { findDeploymentBlock } from "@/lib/paymentIndex";
+
+export interface Deposit {
+  from: string;
+  /** Encrypted amount handle, readable by the sender and the core. */
+  amount: string;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface DepositHistory {
+  chainId: number;
+  coreAddress: string;
+  /** Block the core was deployed in; null until first sync. */
+  startBlock: number | null;
+  /** Last block included, or null before the first sync. */
+  cursor: number | null;
+  /** Newest first. */
+  deposits: Deposit[];
+}
+
+/** Maximum block span per eth_getLogs request. */
+const DEFAULT_BLOCK_RANGE = 10_000;
+
+function storageKey(chainId: number, coreAddress: string): string {
+  return `paygram:deposits:${chainId}:${coreAddress.toLowerCase()}`;
+}
+
+/**
+ * Loads a persisted history, or an empty one when none is stored.
+ */
+export function loadDepositHistory(
+  chainId: number,
+  coreAddress: string
+): DepositHistory {
+  const empty: DepositHistory = {
+    chainId,
+    coreAddress,
+    startBlock: null,
+    cursor: null,
+    deposits: [],
+  };
+  if (typeof window === "undefined") return empty;
+  try {
+    const raw = window.localStorage.getItem(storageKey(chainId, coreAddress));
+    if (raw) return JSON.parse(raw) as DepositHistory;
+  } catch {
+    // Corrupt entry — rebuild from chain
+  }
+  return empty;
+}
+
+/**
+ * Persists a history to localStorage.
+ */
+export function saveDepositHistory(history: DepositHistory): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(
+      storageKey(history.chainId, history.coreAddress),
+      JSON.stringify(history)
+    );
+  } catch {
+    // Storage full or unavailable — the in-memory history still works
+  }
+}
+
+/**
+ * Fetches transfers into the core since the history cursor. The input
+ * history is not mutated.
+ */
+export async function syncDepositHistory(
+  history: DepositHistory,
+  token: ethers.Contract,
+  provider: ethers.Provider
+): Promise<DepositHistory> {
+  const latest = await provider.getBlockNumber();
+  const next: DepositHistory = { ...history, deposits: [...history.deposits] };
+
+  if (next.startBlock === null) {
+    next.startBlock = await findDeploymentBlock(
+      provider,
+      history.coreAddress,
+      latest
+    );
+  }
+
+  const filter = token.filters.ConfidentialTransfer(null, history.coreAddress);
+  let from = next.cursor === null ? next.startBlock : next.cursor + 1;
+
+  while (from <= latest) {
+    const to = Math.min(from + DEFAULT_BLOCK_RANGE - 1, latest);
+    const logs = await token.queryFilter(filter, from, to);
+
+    const found: Deposit[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      const block = await provider.getBlock(log.blockNumber);
+      found.push({
+        from: log.args.from,
+        amount: log.args.amount,
+        timestamp: block?.timestamp ?? 0,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+      });
+    }
+    next.deposits = [...found.reverse(), ...next.deposits];
+
+    next.cursor = to;
+    from = to + 1;
+  }
+
+  return next;
+}
@@ -2,14 +2,18 @@
  * FHE (Fully Homomorphic Encryption) Helper Module
  *
  * This module provides a wrapper around the Zama fhevmjs SDK for creating
- * encrypted inputs that can be sent to FHEVM smart contracts.
+ * encrypted inputs that can be sent to FHEVM smart contracts, and for
+ * decrypting ciphertext handles the connected user holds ACL grants for.
  *
  * On chains without FHE support, functions return stubs so the app still builds.
  * Full FHE integration requires the fhevmjs package and a running FHEVM node.
  */
 
+import type { ethers } from "ethers";
+import { LOCAL_CHAIN_ID, createLocalReencryptionBackend } from "./fheLocal";
+
 // Type stubs for FHE instance
-export interface FHEInstance {
+export interface FHEInstance extends ReencryptionBackend {
   createEncryptedInput: (
     contractAddress: string,
     userAddress: string
@@ -21,7 +25,54 @@ export interface EncryptedInputBuilder {
   encrypt: () => Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
 }
 
+/** EIP-712 payload produced by `createEIP712`, in fhevmjs shape. */
+export interface EIP712TypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * The subset of fhevmjs used for user decryption. The gateway-backed
+ * fhevmjs instance implements it; `createLocalReencryptionBackend` in
+ * `fheLocal.ts` provides a stand-in for Hardhat mock FHEVM nodes, used
+ * automatically on LOCAL_CHAIN_ID.
+ */
+export interface ReencryptionBackend {
+  generateKeypair: () => { publicKey: string; privateKey: string };
+  createEIP712: (publicKey: string, contractAddress: string) => EIP712TypedData;
+  reencrypt: (
+    handle: bigint,
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddress: string,
+    userAddress: string
+  ) => Promise<bigint>;
+}
+
+/**
+ * A signed re-encryption authorization for one contract. Holding the
+ * private key lets the holder decrypt values the gateway re-encrypts
+ * under `publicKey`, so tokens must never leave the browser session.
+ */
+export interface EIP712Token {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddress: string;
+  userAddress: string;
+}
+
 let fheInstance: FHEInstance | null = null;
+let backendOverride: ReencryptionBackend | null = null;
+let localBackend: ReencryptionBackend | null = null;
 
 /**
  * Initializes the FHE instance for the current chain.
@@ -85,37 +136,132 @@ export async function encryptUint64(
   };
 }
 
+/**
+ * Encrypts several uint64 values under a single input proof, e.g. the
+ * tranche amounts of a payment split.
+ * Falls back to returning the plaintext values if FHE is unavailable.
+ */
+export async function encryptUint64Array(
+  values: (number | bigint)[],
+  contractAddress: string,
+  userAddress: string
+): Promise<{
+  encrypted: boolean;
+  handles?: Uint8Array[];
+  inputProof?: Uint8Array;
+  plaintextValues?: bigint[];
+}> {
+  const instance = await initFHE();
+
+  if (!instance) {
+    return {
+      encrypted: false,
+      plaintextValues: values.map((v) => BigInt(v)),
+    };
+  }
+
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) input.add64(value);
+  const result = await input.encrypt();
+
+  return {
+    encrypted: true,
+    handles: result.handles,
+    inputProof: result.inputProof,
+  };
+}
+
+/**
+ * Replaces the re-encryption backend chosen for the connected chain, e.g.
+ * with a local stand-in on another provider in tests. Pass null to
+ * restore the default: the mock FHEVM node on LOCAL_CHAIN_ID, the
+ * fhevmjs gateway elsewhere.
+ */
+export function setReencryptionBackend(
+  backend: ReencryptionBackend | null
+): void {
+  backendOverride = backend;
+}
+
+async function getReencryptionBackend(): Promise<ReencryptionBackend | null> {
+  if (backendOverride) return backendOverride;
+  if ((await getChainId()) === LOCAL_CHAIN_ID) {
+    localBackend ??= createLocalReencryptionBackend();
+    return localBackend;
+  }
+  return initFHE();
+}
+
 /**
  * Creates an EIP-712 token for re-encryption requests.
- * This allows a user to decrypt their own encrypted values off-chain.
+ * Generates a fresh keypair and asks the signer to authorize it for
+ * `contractAddress`. Returns null if no re-encryption backend is available.
  */
 export async function createEIP712Token(
-  _contractAddress: string,
-  _userAddress: string
-): Promise<{ publicKey: Uint8Array; signature: string } | null> {
-  // TODO: Implement with fhevmjs generateToken + sign flow
-  // This requires:
-  // 1. instance.generateToken({ verifyingContract, userAddress })
-  // 2. Sign with user's wallet via EIP-712
-  // 3. Return { publicKey, signature } for re-encryption gateway
-  console.warn("EIP-712 token creation not yet implemented");
-  return null;
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<EIP712Token | null> {
+  const backend = await getReencryptionBackend();
+  if (!backend) return null;
+
+  const { publicKey, privateKey } = backend.generateKeypair();
+  const eip712 = backend.createEIP712(publicKey, contractAddress);
+  const userAddress = await signer.getAddress();
+
+  // ethers derives EIP712Domain itself and rejects it in the types map
+  const { EIP712Domain: _domain, ...types } = eip712.types;
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    types,
+    eip712.message
+  );
+
+  return { publicKey, privateKey, signature, contractAddress, userAddress };
 }
 
-async function getChainRpcUrl(): Promise<string> {
+/**
+ * Decrypts an encrypted handle using a previously signed EIP-712 token.
+ * The uninitialized handle (0x0) decrypts to zero without a gateway call.
+ */
+export async function decryptHandle(
+  handle: string | bigint,
+  token: EIP712Token
+): Promise<bigint> {
+  const handleInt = BigInt(handle);
+  if (handleInt === 0n) return 0n;
+
+  const backend = await getReencryptionBackend();
+  if (!backend) {
+    throw new Error("FHE not available on this network");
+  }
+
+  return backend.reencrypt(
+    handleInt,
+    token.privateKey,
+    token.publicKey,
+    token.signature.replace(/^0x/, ""),
+    token.contractAddress,
+    token.userAddress
+  );
+}
+
+async function getChainId(): Promise<number | null> {
   try {
-    if (!window.ethereum) return "http://localhost:8545";
+    if (typeof window === "undefined" || !window.ethereum) return null;
     const chainIdHex = (await window.ethereum.request({
       method: "eth_chainId",
     })) as string;
-    const chainId = parseInt(chainIdHex, 16);
-    if (chainId === 11155111) return "https://devnet.zama.ai";
-    return "http://localhost:8545";
+    return parseInt(chainIdHex, 16);
   } catch {
-    return "http://localhost:8545";
+    return null;
   }
 }
 
+async function getChainRpcUrl(): Promise<string> {
+  if ((await getChainId()) === 11155111) return "https://devnet.zama.ai";
+  return "http://localhost:8545";
+}
+
 // Extend Window type for ethereum provider
 declare global {
   interface Window {
@@ -0,0 +1,150 @@
+/**
+ * Local Re-encryption Backend
+ *
+ * Stand-in for the Zama gateway when running against a Hardhat mock FHEVM
+ * node, where there is no KMS to re-encrypt ciphertexts. It performs the
+ * same authorization checks the gateway does — the EIP-712 signature must
+ * recover to the requesting user, and both the user and the contract must
+ * hold ACL grants on the handle — then reads the cleartext from the mock
+ * coprocessor through the node's `fhevm_getClearText` RPC method.
+ *
+ * `fhe.ts` installs it on LOCAL_CHAIN_ID; `setReencryptionBackend`
+ * overrides that, e.g. in tests.
+ */
+
+import { ethers } from "ethers";
+import type { EIP712TypedData, ReencryptionBackend } from "./fhe";
+
+/** Chain ID of a Hardhat node. */
+export const LOCAL_CHAIN_ID = 31337;
+
+/** JSON-RPC endpoint of `npx hardhat node`. */
+export const LOCAL_RPC_URL = "http://localhost:8545";
+
+const ACL_ABI = [
+  "function persistAllowed(bytes32 handle, address account) view returns (bool)",
+];
+
+/** A provider that passes custom JSON-RPC methods through to the node. */
+export interface MockFhevmProvider extends ethers.Provider {
+  send: (method: string, params: unknown[]) => Promise<unknown>;
+}
+
+interface LocalBackendOptions {
+  /** Mock FHEVM node. Defaults to a JSON-RPC provider on LOCAL_RPC_URL. */
+  provider?: MockFhevmProvider;
+  /** Chain ID embedded in the EIP-712 domain. Defaults to LOCAL_CHAIN_ID. */
+  chainId?: number;
+}
+
+function toHandleKey(handle: string | bigint): string {
+  return ethers.toBeHex(BigInt(handle), 32);
+}
+
+/**
+ * Creates a re-encryption backend that decrypts through a mock FHEVM node.
+ * The ACL address is read from the node's relayer metadata.
+ */
+export function createLocalReencryptionBackend(
+  options: LocalBackendOptions = {}
+): ReencryptionBackend {
+  const chainId = options.chainId ?? LOCAL_CHAIN_ID;
+  const provider =
+    options.provider ?? new ethers.JsonRpcProvider(LOCAL_RPC_URL, chainId);
+  let acl: Promise<ethers.Contract> | null = null;
+
+  function getAcl(): Promise<ethers.Contract> {
+    if (!acl) {
+      acl = provider
+        .send("fhevm_relayer_metadata", [])
+        .then(
+          (metadata) =>
+            new ethers.Contract(
+              (metadata as { ACLAddress: string }).ACLAddress,
+              ACL_ABI,
+              provider
+            )
+        );
+      // Let the next call retry, e.g. once the node is up
+      acl.catch(() => {
+        acl = null;
+      });
+    }
+    return acl;
+  }
+
+  function createEIP712(
+    publicKey: string,
+    contractAddress: string
+  ): EIP712TypedData {
+    return {
+      domain: {
+        name: "Authorization token",
+        version: "1",
+        chainId,
+        verifyingContract: contractAddress,
+      },
+      types: {
+        EIP712Domain: [
+          { name: "name", type: "string" },
+          { name: "version", type: "string" },
+          { name: "chainId", type: "uint256" },
+          { name: "verifyingContract", type: "address" },
+        ],
+        Reencrypt: [{ name: "publicKey", type: "bytes" }],
+      },
+      primaryType: "Reencrypt",
+      message: { publicKey: `0x${publicKey}` },
+    };
+  }
+
+  return {
+    generateKeypair() {
+      return {
+        publicKey: ethers.hexlify(ethers.randomBytes(32)).slice(2),
+        privateKey: ethers.hexlify(ethers.randomBytes(32)).slice(2),
+      };
+    },
+
+    createEIP712,
+
+    async reencrypt(
+      handle,
+      _privateKey,
+      publicKey,
+      signature,
+      contractAddress,
+      userAddress
+    ) {
+      const eip712 = createEIP712(publicKey, contractAddress);
+      const signer = ethers.verifyTypedData(
+        eip712.domain,
+        { Reencrypt: eip712.types.Reencrypt },
+        eip712.message,
+        signature.startsWith("0x") ? signature : `0x${signature}`
+      );
+      if (signer.toLowerCase() !== userAddress.toLowerCase()) {
+        throw new Error("Invalid EIP-712 signature");
+      }
+
+      const key = toHandleKey(handle);
+      const contract = await getAcl();
+      const [userAllowed, contractAllowed]: [boolean, boolean] =
+        await Promise.all([
+          contract.persistAllowed(key, userAddress),
+          contract.persistAllowed(key, contractAddress),
+        ]);
+      if (!userAllowed || !contractAllowed) {
+        throw new Error("User is not authorized to decrypt this handle");
+      }
+
+      const [clearText] = (await provider.send("fhevm_getClearText", [
+        [key],
+      ])) as string[];
+      if (!clearText || clearText === "0x") {
+        throw new Error(`No cleartext on the mock FHEVM for handle ${key}`);
+      }
+      return BigInt(clearText);
+    },
+  };
+}
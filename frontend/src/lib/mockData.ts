@@ -1,19 +1,12 @@
 export interface MockEmployee {
   address: string;
   role: string;
-  tier: "high" | "medium" | "low" | "unscored";
+  /** Index into the default routing tiers; null when unscored. */
+  tier: number | null;
   status: "active" | "inactive";
   hireDate: string;
 }
 
-export interface MockPayment {
-  id: number;
-  date: string;
-  employees: number;
-  status: "completed" | "processing" | "pending";
-  type: "batch" | "individual";
-}
-
 export interface MockEmployeePayment {
   id: number;
   date: string;
@@ -26,64 +19,40 @@ export const MOCK_EMPLOYEES: MockEmployee[] = [
   {
     address: "0x1a2B3c4D5e6F7890AbCdEf1234567890aBcDeF12",
     role: "Senior Engineer",
-    tier: "high",
+    tier: 0,
     status: "active",
     hireDate: "2025-06-15",
   },
   {
     address: "0x2b3C4d5E6f7890aBcDeF1234567890AbCdEf1234",
     role: "Product Manager",
-    tier: "medium",
+    tier: 1,
     status: "active",
     hireDate: "2025-09-01",
   },
   {
     address: "0x3c4D5e6F7890aBcDEf1234567890AbCdEf123456",
     role: "Designer",
-    tier: "high",
+    tier: 0,
     status: "active",
     hireDate: "2025-03-20",
   },
   {
     address: "0x4d5E6f7890AbCdEf1234567890aBcDeF12345678",
     role: "Junior Developer",
-    tier: "low",
+    tier: 2,
     status: "active",
     hireDate: "2026-01-10",
   },
   {
     address: "0x5e6F7890aBcDeF1234567890AbCdEf1234567890",
     role: "Marketing Lead",
-    tier: "medium",
+    tier: 1,
     status: "inactive",
     hireDate: "2025-07-22",
   },
 ];
 
-export const MOCK_PAYMENTS: MockPayment[] = [
-  {
-    id: 1,
-    date: "2026-02-01",
-    employees: 4,
-    status: "completed",
-    type: "batch",
-  },
-  {
-    id: 2,
-    date: "2026-01-01",
-    employees: 3,
-    status: "completed",
-    type: "batch",
-  },
-  {
-    id: 3,
-    date: "2025-12-01",
-    employees: 3,
-    status: "completed",
-    type: "batch",
-  },
-];
-
 export const MOCK_EMPLOYEE_PAYMENTS: MockEmployeePayment[] = [
   {
     id: 1,
@@ -112,6 +81,15 @@ export const MOCK_STATS = {
   totalEmployees: 5,
   activeEmployees: 4,
   totalDistributed: "47,500",
+  pendingDelayed: "6,000",
+  committedEscrow: "4,500",
   avgTrustScore: 68,
+  trustDistribution: { high: 2, medium: 1, low: 1 },
   totalPayrolls: 3,
 };
+
+export const MOCK_RUN_COSTS = [
+  { runId: 1, date: "2025-10-01", cost: 15000 },
+  { runId: 2, date: "2025-11-01", cost: 16000 },
+  { runId: 3, date: "2025-12-01", cost: 16500 },
+];
@@ -0,0 +1,181 @@
+/**
+ * Organizations known to this browser. Every organization is its own
+ * PayGramCore deployment. The chain's default deployment is listed unless
+ * DEFAULT_ORG_ENABLED is off, organizations the wallet created or belongs
+ * to come from the PayGramFactory registry, and any others the user added
+ * are kept in localStorage per chain along with the active selection.
+ */
+
+import { ethers } from "ethers";
+import { CONTRACT_ADDRESSES, DEFAULT_ORG_ENABLED } from "./constants";
+import PAYGRAM_CORE_ABI from "./abis/PayGramCore.json";
+
+export interface Organization {
+  name: string;
+  /** PayGramCore address. */
+  address: string;
+  trustScoring?: string;
+  payToken?: string;
+  /** Transaction that deployed the core, when a deployment record has it. */
+  deployTx?: string;
+  /** Where the entry came from; user-added entries have none. */
+  source?: "default" | "registry";
+}
+
+const listKey = (chainId: number) => `paygram:orgs:${chainId}`;
+const activeKey = (chainId: number) => `paygram:org:${chainId}`;
+
+/** Registry entries read per getOrganizations call. */
+const REGISTRY_PAGE_SIZE = 50;
+
+function defaultOrg(chainId: number): Organization | null {
+  if (!DEFAULT_ORG_ENABLED) return null;
+  const addrs = CONTRACT_ADDRESSES[chainId];
+  return addrs
+    ? {
+        name: "Default",
+        address: addrs.payGramCore,
+        trustScoring: addrs.trustScoring,
+        payToken: addrs.payGramToken,
+        deployTx: addrs.payGramCoreDeployTx,
+        source: "default",
+      }
+    : null;
+}
+
+export const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Returns the default organization followed by any the user added.
+ */
+export function loadOrganizations(chainId: number): Organization[] {
+  const base = defaultOrg(chainId);
+  let saved: Organization[] = [];
+  if (typeof window !== "undefined") {
+    try {
+      saved = JSON.parse(
+        window.localStorage.getItem(listKey(chainId)) ?? "[]"
+      );
+    } catch {
+      // Corrupt entry — fall back to the default only
+    }
+  }
+  const extra = base
+    ? saved.filter((o) => !sameAddress(o.address, base.address))
+    : saved;
+  return base ? [base, ...extra] : extra;
+}
+
+/**
+ * Persists the user-added organizations (default and registry entries are
+ * not stored).
+ */
+export function saveOrganizations(chainId: number, orgs: Organization[]): void {
+  if (typeof window === "undefined") return;
+  const extra = orgs.filter((o) => !o.source);
+  try {
+    window.localStorage.setItem(listKey(chainId), JSON.stringify(extra));
+  } catch {
+    // Storage unavailable — the list lasts for this session only
+  }
+}
+
+export function loadActiveOrganization(chainId: number): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(activeKey(chainId));
+}
+
+export function saveActiveOrganization(chainId: number, address: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(activeKey(chainId), address);
+  } catch {
+    // Storage unavailable — selection resets on reload
+  }
+}
+
+interface RegistryEntry {
+  name: string;
+  core: string;
+  trustScoring: string;
+  payToken: string;
+}
+
+function fromRegistry(o: RegistryEntry): Organization {
+  return {
+    name: o.name,
+    address: o.core,
+    trustScoring: o.trustScoring,
+    payToken: o.payToken,
+    source: "registry",
+  };
+}
+
+/**
+ * Reads the organizations `employer` created through the factory.
+ */
+export async function readRegistryOrganizations(
+  factory: ethers.Contract,
+  employer: string
+): Promise<Organization[]> {
+  const ids: bigint[] = await factory.getOrganizationsByEmployer(employer);
+  const entries: RegistryEntry[] = await Promise.all(
+    ids.map((id) => factory.getOrganization(id))
+  );
+  return entries.map(fromRegistry);
+}
+
+/**
+ * True if `member` is on the core's roster or holds a team role there.
+ */
+async function isMember(core: ethers.Contract, member: string) {
+  const [roles, employee] = await Promise.all([
+    core.roles(member) as Promise<bigint>,
+    core.getEmployee(member).then(
+      () => true,
+      () => false
+    ),
+  ]);
+  return roles !== 0n || employee;
+}
+
+/**
+ * Reads the registry organizations `member` belongs to as an employee or
+ * team member (approver, HR, auditor, payroll admin). Walks the whole
+ * registry, two calls per organization.
+ */
+export async function readMemberOrganizations(
+  factory: ethers.Contract,
+  member: string
+): Promise<Organization[]> {
+  const total = Number(await factory.organizationCount());
+  const out: Organization[] = [];
+  for (let offset = 0; offset < total; offset += REGISTRY_PAGE_SIZE) {
+    const page: RegistryEntry[] = await factory.getOrganizations(
+      offset,
+      REGISTRY_PAGE_SIZE
+    );
+    const flags = await Promise.all(
+      page.map((o) =>
+        isMember(
+          new ethers.Contract(o.core, PAYGRAM_CORE_ABI, factory.runner),
+          member
+        )
+      )
+    );
+    out.push(...page.filter((_, i) => flags[i]).map(fromRegistry));
+  }
+  return out;
+}
+
+/**
+ * Merges organization lists, keeping the first entry for each address.
+ */
+export function mergeOrganizations(...lists: Organization[][]): Organization[] {
+  const out: Organization[] = [];
+  for (const org of lists.flat()) {
+    if (!out.some((o) => sameAddress(o.address, org.address))) out.push(org);
+  }
+  return out;
+}
@@ -0,0 +1,489 @@
+/**
+ * Payment Event Indexer
+ *
+ * Replays PayGramCore payment lifecycle events into a typed local store so
+ * history views never scan `pendingPayments` one ID at a time. Sync is
+ * incremental: the store remembers the last indexed block and each call only
+ * fetches logs after it, in bounded block ranges. Stores are persisted to
+ * localStorage per chain and contract address.
+ */
+
+import { ethers } from "ethers";
+
+/** Events the indexer consumes, in PayGramCore ABI naming. */
+const INDEXED_EVENTS = new Set([
+  "PayrollExecuted",
+  "BonusPaid",
+  "OffCyclePayrollExecuted",
+  "EmployeeTerminated",
+  "PaymentRouted",
+  "DelayedAmountReleased",
+  "PaymentReleased",
+  "PaymentCancelled",
+  "PaymentPartiallyReleased",
+  "PaymentSplit",
+  "MilestoneDefined",
+  "MilestoneClaimed",
+  "MilestoneApproved",
+  "MilestoneRejected",
+]);
+
+/**
+ * Mirrors PayGramCore.PaymentStatus. Every payment is created Escrowed;
+ * Instant and Delayed are never assigned to a record.
+ */
+export const STATUS_INSTANT = 1;
+export const STATUS_DELAYED = 2;
+export const STATUS_ESCROWED = 3;
+export const STATUS_RELEASED = 4;
+export const STATUS_COMPLETED = 5;
+
+/** Mirrors PayGramCore.MilestoneState. */
+export const MILESTONE_NONE = 0;
+export const MILESTONE_DEFINED = 1;
+export const MILESTONE_CLAIMED = 2;
+export const MILESTONE_APPROVED = 3;
+export const MILESTONE_REJECTED = 4;
+
+export interface IndexedPayment {
+  id: number;
+  employee: string;
+  /** Current PaymentStatus. */
+  status: number;
+  /** Payroll run that created the payment. */
+  runId: number;
+  /** Memo of the off-cycle run that created the payment, "" for salary. */
+  memo: string;
+  /** Payment this record was split from, or null for payroll records. */
+  parentId: number | null;
+  /** Number of partial releases made from this record. */
+  releasedTranches: number;
+  createdAt: number;
+  /** When the delayed part unlocks, 0 once it is paid out or cancelled. */
+  releaseTime: number;
+  milestone: string;
+  /** MilestoneState of an escrowed payment. */
+  milestoneState: number;
+  milestoneDeadline: number;
+  /** Evidence URI or hash from the latest completion claim. */
+  evidence: string;
+  /** Employer feedback from the latest rejection. */
+  rejectionReason: string;
+  /** Timestamp of the release or cancellation, 0 while pending. */
+  settledAt: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface IndexedPayrollRun {
+  runId: number;
+  timestamp: number;
+  employeeCount: number;
+  paymentIds: number[];
+  /** Bonus or off-cycle batch rather than a scheduled payroll run. */
+  offCycle: boolean;
+  memo: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface PaymentIndex {
+  chainId: number;
+  contractAddress: string;
+  /** First block to scan; resolved to the deployment block on first sync. */
+  startBlock: number | null;
+  /** Last block fully indexed, or null before the first sync. */
+  cursor: number | null;
+  payments: Record<number, IndexedPayment>;
+  runs: Record<number, IndexedPayrollRun>;
+}
+
+export interface PaymentQuery {
+  employee?: string;
+  status?: number | number[];
+  runId?: number;
+  /** Zero-based page number. */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PaymentPage {
+  items: IndexedPayment[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+interface SyncOptions {
+  /** Maximum block span per eth_getLogs request. */
+  maxBlockRange?: number;
+  /**
+   * Deployment block, e.g. from a deployment record. Used on the first
+   * sync instead of bisecting eth_getCode.
+   */
+  startBlock?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+const DEFAULT_BLOCK_RANGE = 10_000;
+
+function storageKey(chainId: number, contractAddress: string): string {
+  return `paygram:payment-index:${chainId}:${contractAddress.toLowerCase()}`;
+}
+
+/**
+ * Returns an empty index for a contract.
+ */
+export function createPaymentIndex(
+  chainId: number,
+  contractAddress: string
+): PaymentIndex {
+  return {
+    chainId,
+    contractAddress,
+    startBlock: null,
+    cursor: null,
+    payments: {},
+    runs: {},
+  };
+}
+
+/**
+ * Loads a persisted index, or an empty one when none is stored.
+ */
+export function loadPaymentIndex(
+  chainId: number,
+  contractAddress: string
+): PaymentIndex {
+  if (typeof window === "undefined") {
+    return createPaymentIndex(chainId, contractAddress);
+  }
+  try {
+    const raw = window.localStorage.getItem(
+      storageKey(chainId, contractAddress)
+    );
+    if (raw) return JSON.parse(raw) as PaymentIndex;
+  } catch {
+    // Corrupt entry — rebuild from chain
+  }
+  return createPaymentIndex(chainId, contractAddress);
+}
+
+/**
+ * Persists an index to localStorage.
+ */
+export function savePaymentIndex(index: PaymentIndex): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(
+      storageKey(index.chainId, index.contractAddress),
+      JSON.stringify(index)
+    );
+  } catch {
+    // Storage full or unavailable — the in-memory index still works
+  }
+}
+
+/**
+ * Finds the block a contract was deployed in by bisecting eth_getCode.
+ * Throws if the node cannot serve historical state; pass a known start
+ * block to syncPaymentIndex instead.
+ */
+export async function findDeploymentBlock(
+  provider: ethers.Provider,
+  address: string,
+  latest: number
+): Promise<number> {
+  let lo = 0;
+  let hi = latest;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    const code = await provider.getCode(address, mid);
+    if (code === "0x") lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Fetches logs emitted since the index cursor and folds them into a new
+ * index. The input index is not mutated.
+ */
+export async function syncPaymentIndex(
+  index: PaymentIndex,
+  contract: ethers.Contract,
+  provider: ethers.Provider,
+  options: SyncOptions = {}
+): Promise<PaymentIndex> {
+  const maxRange = options.maxBlockRange ?? DEFAULT_BLOCK_RANGE;
+  const latest = await provider.getBlockNumber();
+
+  const next: PaymentIndex = {
+    ...index,
+    payments: { ...index.payments },
+    runs: { ...index.runs },
+  };
+
+  if (next.startBlock === null) {
+    next.startBlock =
+      options.startBlock ??
+      (await findDeploymentBlock(provider, index.contractAddress, latest));
+  }
+
+  let from = next.cursor === null ? next.startBlock : next.cursor + 1;
+  const blockTimes = new Map<number, number>();
+
+  async function blockTime(blockNumber: number): Promise<number> {
+    let ts = blockTimes.get(blockNumber);
+    if (ts === undefined) {
+      const block = await provider.getBlock(blockNumber);
+      ts = block?.timestamp ?? 0;
+      blockTimes.set(blockNumber, ts);
+    }
+    return ts;
+  }
+
+  while (from <= latest) {
+    const to = Math.min(from + maxRange - 1, latest);
+    const logs = await contract.queryFilter("*", from, to);
+
+    for (const log of logs) {
+      if (!("eventName" in log) || !INDEXED_EVENTS.has(log.eventName)) {
+        continue;
+      }
+      applyEvent(next, log, await blockTime(log.blockNumber));
+    }
+
+    next.cursor = to;
+    from = to + 1;
+  }
+
+  return next;
+}
+
+/**
+ * Applies a single decoded PayGramCore event to the index.
+ */
+function applyEvent(
+  index: PaymentIndex,
+  log: ethers.EventLog,
+  timestamp: number
+): void {
+  const args = log.args;
+
+  function create(id: number, employee: string, status: number) {
+    index.payments[id] = {
+      id,
+      employee,
+      status,
+      runId: Number(args.runId),
+      memo: "",
+      parentId: null,
+      releasedTranches: 0,
+      createdAt: timestamp,
+      releaseTime: 0,
+      milestone: "",
+      milestoneState: MILESTONE_NONE,
+      milestoneDeadline: 0,
+      evidence: "",
+      rejectionReason: "",
+      settledAt: 0,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+    };
+    return index.payments[id];
+  }
+
+  function settle(id: number, status: number) {
+    const p = index.payments[id];
+    if (!p) return;
+    index.payments[id] = { ...p, status, settledAt: timestamp };
+  }
+
+  function update(id: number, changes: Partial<IndexedPayment>) {
+    const p = index.payments[id];
+    if (!p) return;
+    index.payments[id] = { ...p, ...changes };
+  }
+
+  // Payment events of a run are emitted before the run itself
+  function closeRun(
+    runId: number,
+    runTimestamp: number,
+    employeeCount: number,
+    offCycle: boolean,
+    memo: string
+  ) {
+    const paymentIds = Object.values(index.payments)
+      .filter((p) => p.runId === runId)
+      .map((p) => p.id)
+      .sort((a, b) => a - b);
+    for (const id of paymentIds) update(id, { memo });
+    index.runs[runId] = {
+      runId,
+      timestamp: runTimestamp,
+      employeeCount,
+      paymentIds,
+      offCycle,
+      memo,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+    };
+  }
+
+  switch (log.eventName) {
+    case "PaymentRouted": {
+      const p = create(
+        Number(args.paymentId),
+        args.employee,
+        STATUS_ESCROWED
+      );
+      p.releaseTime = Number(args.releaseTime);
+      // Default milestone PayGramCore stores on every routed record
+      p.milestone = "Pending employer approval";
+      break;
+    }
+    case "DelayedAmountReleased":
+      // Zero once the last delayed part is out
+      update(Number(args.paymentId), {
+        releaseTime: Number(args.nextReleaseTime),
+      });
+      break;
+    case "PaymentReleased":
+      settle(Number(args.paymentId), STATUS_RELEASED);
+      break;
+    case "PaymentCancelled":
+      settle(Number(args.paymentId), STATUS_COMPLETED);
+      update(Number(args.paymentId), { releaseTime: 0 });
+      break;
+    case "PaymentPartiallyReleased":
+      update(Number(args.paymentId), {
+        releasedTranches: Number(args.tranche),
+      });
+      break;
+    case "PaymentSplit": {
+      const parent = index.payments[Number(args.paymentId)];
+      if (!parent) break;
+      const id = Number(args.trancheId);
+      index.payments[id] = {
+        ...parent,
+        id,
+        parentId: parent.id,
+        // The parent keeps its delayed part; tranches only hold escrow
+        releaseTime: 0,
+        releasedTranches: 0,
+        createdAt: timestamp,
+        milestone: "",
+        milestoneState: MILESTONE_NONE,
+        milestoneDeadline: 0,
+        evidence: "",
+        rejectionReason: "",
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+      };
+      const run = index.runs[parent.runId];
+      if (run) {
+        index.runs[parent.runId] = {
+          ...run,
+          paymentIds: [...run.paymentIds, id],
+        };
+      }
+      break;
+    }
+    case "MilestoneDefined":
+      update(Number(args.paymentId), {
+        milestone: args.description,
+        milestoneState: MILESTONE_DEFINED,
+        milestoneDeadline: Number(args.deadline),
+        evidence: "",
+        rejectionReason: "",
+      });
+      break;
+    case "MilestoneClaimed":
+      update(Number(args.paymentId), {
+        milestoneState: MILESTONE_CLAIMED,
+        evidence: args.evidence,
+      });
+      break;
+    case "MilestoneApproved":
+      update(Number(args.paymentId), {
+        milestoneState: MILESTONE_APPROVED,
+      });
+      break;
+    case "MilestoneRejected":
+      update(Number(args.paymentId), {
+        milestoneState: MILESTONE_REJECTED,
+        rejectionReason: args.reason,
+      });
+      break;
+    case "PayrollExecuted":
+      closeRun(
+        Number(args.payrollId),
+        Number(args.timestamp),
+        Number(args.employeeCount),
+        false,
+        ""
+      );
+      break;
+    case "BonusPaid":
+      closeRun(Number(args.payrollId), timestamp, 1, true, args.memo);
+      break;
+    case "EmployeeTerminated":
+      closeRun(Number(args.payrollId), timestamp, 1, true, "Final paycheck");
+      break;
+    case "OffCyclePayrollExecuted":
+      closeRun(
+        Number(args.payrollId),
+        timestamp,
+        Number(args.employeeCount),
+        true,
+        args.memo
+      );
+      break;
+  }
+}
+
+/**
+ * Returns one page of payments matching `query`, newest first.
+ */
+export function queryPayments(
+  index: PaymentIndex,
+  query: PaymentQuery = {}
+): PaymentPage {
+  const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+  const statuses =
+    query.status === undefined
+      ? null
+      : Array.isArray(query.status)
+        ? query.status
+        : [query.status];
+  const employee = query.employee?.toLowerCase();
+
+  const matches = Object.values(index.payments)
+    .filter(
+      (p) =>
+        (!employee || p.employee.toLowerCase() === employee) &&
+        (!statuses || statuses.includes(p.status)) &&
+        (query.runId === undefined || p.runId === query.runId)
+    )
+    .sort((a, b) => b.id - a.id);
+
+  const pageCount = Math.max(1, Math.ceil(matches.length / pageSize));
+  const page = Math.min(Math.max(query.page ?? 0, 0), pageCount - 1);
+
+  return {
+    items: matches.slice(page * pageSize, (page + 1) * pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+    pageCount,
+  };
+}
+
+/**
+ * Returns all indexed payroll runs, newest first.
+ */
+export function listPayrollRuns(index: PaymentIndex): IndexedPayrollRun[] {
+  return Object.values(index.runs).sort((a, b) => b.runId - a.runId);
+}
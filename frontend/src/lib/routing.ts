@@ -0,0 +1,82 @@
+import { DEFAULT_TIER_CONFIG } from "./constants";
+import { formatDuration } from "./contracts";
+
+/** Basis points in a whole payment, as in PayGramRoutingPolicy. */
+export const BPS = 10_000;
+
+/** Mirrors PayGramRoutingPolicy.Tier. */
+export interface RoutingTier {
+  name: string;
+  minScore: number;
+  /** Share paid at once, in basis points. */
+  instantBps: number;
+  /** Share held for `delay` seconds, in basis points. */
+  delayedBps: number;
+  delay: number;
+}
+
+/** How a tier pays out, for picking its icon and colors. */
+export type TierKind = "instant" | "delayed" | "escrow" | "split";
+
+/**
+ * The three TrustScoring tiers PayGramCore routes through without a
+ * routing policy, built from its thresholds and delay period.
+ */
+export function defaultTiers(
+  highThreshold: number = DEFAULT_TIER_CONFIG.highThreshold,
+  mediumThreshold: number = DEFAULT_TIER_CONFIG.mediumThreshold,
+  delayPeriod: number = DEFAULT_TIER_CONFIG.delayPeriod
+): RoutingTier[] {
+  return [
+    { name: "High Trust", minScore: highThreshold, instantBps: BPS, delayedBps: 0, delay: 0 },
+    { name: "Medium Trust", minScore: mediumThreshold, instantBps: 0, delayedBps: BPS, delay: delayPeriod },
+    { name: "Low Trust", minScore: 0, instantBps: 0, delayedBps: 0, delay: 0 },
+  ];
+}
+
+export function escrowBps(tier: RoutingTier): number {
+  return BPS - tier.instantBps - tier.delayedBps;
+}
+
+export function tierKind(tier: RoutingTier): TierKind {
+  if (tier.instantBps === BPS) return "instant";
+  if (tier.delayedBps === BPS) return "delayed";
+  if (escrowBps(tier) === BPS) return "escrow";
+  return "split";
+}
+
+/** Highest score in a tier: one below the next tier up, or 100. */
+export function maxScore(tiers: RoutingTier[], index: number): number {
+  return index === 0 ? 100 : tiers[index - 1].minScore - 1;
+}
+
+function percent(bps: number): string {
+  return `${bps / 100}%`;
+}
+
+/**
+ * Short payout label: "Instant", "24h Hold", "Escrow" or, for splits,
+ * "70% instant · 30% after 7d".
+ */
+export function describeTier(tier: RoutingTier): string {
+  switch (tierKind(tier)) {
+    case "instant":
+      return "Instant";
+    case "delayed":
+      return `${formatDuration(tier.delay)} Hold`;
+    case "escrow":
+      return "Escrow";
+    default: {
+      const parts: string[] = [];
+      if (tier.instantBps) parts.push(`${percent(tier.instantBps)} instant`);
+      if (tier.delayedBps) {
+        parts.push(
+          `${percent(tier.delayedBps)} after ${formatDuration(tier.delay)}`
+        );
+      }
+      const escrow = escrowBps(tier);
+      if (escrow) parts.push(`${percent(escrow)} escrow`);
+      return parts.join(" · ");
+    }
+  }
+}
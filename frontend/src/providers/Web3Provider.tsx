@@ -5,6 +5,8 @@ import { ethers } from "ethers";
 import { useWallet } from "@/hooks/useWallet";
 import { useFHE } from "@/hooks/useFHE";
 import { useContracts } from "@/hooks/useContracts";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import type { Organization } from "@/lib/orgs";
 
 interface Web3ContextValue {
   // Wallet
@@ -37,6 +39,29 @@ interface Web3ContextValue {
     inputProof?: Uint8Array;
     plaintextValue?: bigint;
   }>;
+  encryptMany: (
+    values: (number | bigint)[],
+    contractAddress: string,
+    userAddress: string
+  ) => Promise<{
+    encrypted: boolean;
+    handles?: Uint8Array[];
+    inputProof?: Uint8Array;
+    plaintextValues?: bigint[];
+  }>;
+  decrypt: (
+    handle: string | bigint,
+    contractAddress: string
+  ) => Promise<bigint | null>;
+
+  // Organizations
+  orgs: Organization[];
+  activeOrg: Organization | null;
+  hasFactory: boolean;
+  selectOrg: (address: string) => void;
+  addOrg: (org: Organization) => Promise<void>;
+  removeOrg: (address: string) => void;
+  createOrg: (name: string) => Promise<string>;
 
   // Contracts
   trustScoring: ethers.Contract | null;
@@ -49,8 +74,17 @@ const Web3Context = createContext<Web3ContextValue | null>(null);
 
 export function Web3Provider({ children }: { children: React.ReactNode }) {
   const wallet = useWallet();
-  const fhe = useFHE();
-  const contracts = useContracts(wallet.signer, wallet.chainId);
+  const fhe = useFHE(wallet.signer);
+  const organizations = useOrganizations(
+    wallet.chainId,
+    wallet.signer,
+    wallet.address
+  );
+  const contracts = useContracts(
+    wallet.signer,
+    wallet.chainId,
+    organizations.activeOrg
+  );
 
   const value: Web3ContextValue = {
     address: wallet.address,
@@ -71,6 +105,15 @@ export function Web3Provider({ children }: { children: React.ReactNode }) {
     fheReady: fhe.isInitialized,
     fheError: fhe.error,
     encrypt: fhe.encrypt,
+    encryptMany: fhe.encryptMany,
+    decrypt: fhe.decrypt,
+    orgs: organizations.orgs,
+    activeOrg: organizations.activeOrg,
+    hasFactory: organizations.hasFactory,
+    selectOrg: organizations.selectOrg,
+    addOrg: organizations.addOrg,
+    removeOrg: organizations.removeOrg,
+    createOrg: organizations.createOrg,
     trustScoring: contracts.trustScoring,
     payGramCore: contracts.payGramCore,
     payGramToken: contracts.payGramToken,
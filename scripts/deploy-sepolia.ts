@@ -20,7 +20,7 @@ async function main() {
   console.log("");
 
   // ── 1. TrustScoring ──────────────────────────────────────────
-  console.log("  [1/4] Deploying TrustScoring...");
+  console.log("  [1/5] Deploying TrustScoring...");
   const TrustScoring = await ethers.getContractFactory("TrustScoring");
   const trustScoring = await TrustScoring.deploy(deployerAddress);
   await trustScoring.waitForDeployment();
@@ -34,7 +34,7 @@ async function main() {
 
   // ── 2. PayGramToken (cPAY) ───────────────────────────────────
   let tokenSupply = INITIAL_SUPPLY;
-  console.log(`  [2/4] Deploying PayGramToken (supply: ${tokenSupply})...`);
+  console.log(`  [2/5] Deploying PayGramToken (supply: ${tokenSupply})...`);
 
   const PayGramToken = await ethers.getContractFactory("PayGramToken");
   let payGramToken;
@@ -57,7 +57,7 @@ async function main() {
   console.log("");
 
   // ── 3. PayGramCore ───────────────────────────────────────────
-  console.log("  [3/4] Deploying PayGramCore...");
+  console.log("  [3/5] Deploying PayGramCore...");
   const PayGramCore = await ethers.getContractFactory("PayGramCore");
   const payGramCore = await PayGramCore.deploy(
     deployerAddress,    // initialOwner
@@ -74,7 +74,7 @@ async function main() {
   console.log("");
 
   // ── 4. Wire contracts together ───────────────────────────────
-  console.log("  [4/4] Wiring contracts...");
+  console.log("  [4/5] Wiring contracts...");
 
   // 4a. Set PayGramCore on PayGramToken
   const currentCore = await payGramToken.payGramCore();
@@ -99,7 +99,25 @@ async function main() {
   }
   console.log("");
 
-  // ── 5. Export deployment addresses ───────────────────────────
+  // ── 5. PayGramFactory ────────────────────────────────────────
+  // The core above doubles as the clone implementation for new tenants
+  console.log("  [5/5] Deploying PayGramFactory...");
+  const PayGramFactory = await ethers.getContractFactory("PayGramFactory");
+  const payGramFactory = await PayGramFactory.deploy(
+    deployerAddress,    // initialOwner
+    payGramCoreAddr,    // core implementation to clone
+    trustScoringAddr,   // shared TrustScoring
+    payGramTokenAddr    // shared PayGramToken
+  );
+  await payGramFactory.waitForDeployment();
+  const payGramFactoryAddr = await payGramFactory.getAddress();
+  const factoryTx = payGramFactory.deploymentTransaction();
+  console.log(`  PayGramFactory: ${payGramFactoryAddr}`);
+  console.log(`  Tx           : ${factoryTx?.hash}`);
+  if (factoryTx) await factoryTx.wait(2);
+  console.log("");
+
+  // ── 6. Export deployment addresses ───────────────────────────
   const deployment = {
     network: hre.network.name,
     chainId: hre.network.config.chainId,
@@ -108,11 +126,13 @@ async function main() {
       TrustScoring: trustScoringAddr,
       PayGramToken: payGramTokenAddr,
       PayGramCore: payGramCoreAddr,
+      PayGramFactory: payGramFactoryAddr,
     },
     transactions: {
       TrustScoring: trustScoringTx?.hash,
       PayGramToken: tokenTx?.hash,
       PayGramCore: coreTx?.hash,
+      PayGramFactory: factoryTx?.hash,
     },
     initialSupply: tokenSupply.toString(),
     deployedAt: new Date().toISOString(),
@@ -137,6 +157,7 @@ async function main() {
   console.log(`  TrustScoring : ${trustScoringAddr}`);
   console.log(`  PayGramToken : ${payGramTokenAddr}`);
   console.log(`  PayGramCore  : ${payGramCoreAddr}`);
+  console.log(`  Factory      : ${payGramFactoryAddr}`);
   console.log(`  Supply minted: ${tokenSupply}`);
   console.log(`  Gas spent    : ${ethers.formatEther(spent)} ETH`);
   console.log(`  Balance left : ${ethers.formatEther(endBalance)} ETH`);
@@ -0,0 +1,178 @@
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import type { PayGramCore } from "../typechain-types";
+
+/**
+ * Keeper for matured delayed payments.
+ *
+ * Polls PayGramCore.checkUpkeep and calls performUpkeep whenever delayed
+ * payments have passed their hold (PayGramCore.delayPeriod, or the
+ * routing policy's per-tier delays). Both count payments, releasing every
+ * matured part of each. Anyone may release a matured delayed payment, so
+ * any funded account can run this.
+ *
+ *   npx hardhat run scripts/keeper.ts --network localhost
+ *
+ * Environment:
+ *   PAYGRAM_CORE       Core address (default: deployments/<network>.json)
+ *   KEEPER_DRY_RUN     "true" to report matured payments without sending
+ *   KEEPER_ONCE        "true" to run a single tick and exit
+ *   KEEPER_INTERVAL    Seconds between ticks (default 60)
+ *   KEEPER_BATCH_SIZE  Payments per transaction (default 10, the max)
+ *   KEEPER_RETRIES     Attempts per transaction (default 3)
+ */
+
+export interface KeeperOptions {
+  batchSize: number;
+  dryRun: boolean;
+  retries: number;
+  /** Base back-off between attempts; doubles after each failure. */
+  retryDelayMs: number;
+  log: (message: string) => void;
+}
+
+export interface KeeperTickResult {
+  matured: bigint[];
+  released: number;
+  txHash: string | null;
+}
+
+export const DEFAULT_OPTIONS: KeeperOptions = {
+  batchSize: 10,
+  dryRun: false,
+  retries: 3,
+  retryDelayMs: 2_000,
+  log: console.log,
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Runs `fn` up to `retries` times with exponential back-off, rethrowing
+ * the last error.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retries: number,
+  delayMs: number,
+  log: (message: string) => void = console.log
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      lastError = err;
+      const reason = err instanceof Error ? err.message : String(err);
+      log(`  attempt ${attempt}/${retries} failed: ${reason}`);
+      if (attempt < retries) await sleep(delayMs * 2 ** (attempt - 1));
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * One keeper pass: checks for matured payments and releases one batch.
+ */
+export async function runKeeperTick(
+  core: PayGramCore,
+  options: Partial<KeeperOptions> = {}
+): Promise<KeeperTickResult> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const checkData = ethers.AbiCoder.defaultAbiCoder().encode(
+    ["uint256"],
+    [opts.batchSize]
+  );
+
+  const [needed, performData] = await core.checkUpkeep(checkData);
+  if (!needed) {
+    return { matured: [], released: 0, txHash: null };
+  }
+
+  const matured = [...(await core.getMaturedPayments(opts.batchSize))];
+  opts.log(`  matured: ${matured.map((id) => `#${id}`).join(", ")}`);
+
+  if (opts.dryRun) {
+    opts.log("  dry run — nothing sent");
+    return { matured, released: 0, txHash: null };
+  }
+
+  const receipt = await withRetry(
+    async () => {
+      const tx = await core.performUpkeep(performData);
+      const mined = await tx.wait();
+      if (!mined || mined.status !== 1) throw new Error(`tx ${tx.hash} failed`);
+      return mined;
+    },
+    opts.retries,
+    opts.retryDelayMs,
+    opts.log
+  );
+
+  let released = 0;
+  for (const entry of receipt.logs) {
+    const parsed = core.interface.parseLog(entry);
+    if (parsed?.name === "MaturedPaymentsReleased") {
+      released = Number(parsed.args.released);
+    }
+  }
+
+  opts.log(`  released ${released} payment(s) in ${receipt.hash}`);
+  return { matured, released, txHash: receipt.hash };
+}
+
+function resolveCoreAddress(): string {
+  if (process.env.PAYGRAM_CORE) return process.env.PAYGRAM_CORE;
+
+  const file = path.join(__dirname, "..", "deployments", `${network.name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `Set PAYGRAM_CORE or add deployments/${network.name}.json`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")).contracts.PayGramCore;
+}
+
+async function main() {
+  const address = resolveCoreAddress();
+  const core = await ethers.getContractAt("PayGramCore", address);
+  const [signer] = await ethers.getSigners();
+
+  const options: Partial<KeeperOptions> = {
+    dryRun: process.env.KEEPER_DRY_RUN === "true",
+    batchSize: Number(process.env.KEEPER_BATCH_SIZE ?? 10),
+    retries: Number(process.env.KEEPER_RETRIES ?? 3),
+  };
+  const once = process.env.KEEPER_ONCE === "true";
+  const intervalMs = Number(process.env.KEEPER_INTERVAL ?? 60) * 1_000;
+
+  console.log("=".repeat(60));
+  console.log("  Trusted PayGram — Release Keeper");
+  console.log("=".repeat(60));
+  console.log(`  Network : ${network.name}`);
+  console.log(`  Core    : ${address}`);
+  console.log(`  Keeper  : ${await signer.getAddress()}`);
+  console.log(`  Mode    : ${options.dryRun ? "dry run" : "live"}${once ? ", single tick" : ""}`);
+  console.log("");
+
+  for (;;) {
+    console.log(`[${new Date().toISOString()}] checking upkeep`);
+    try {
+      const result = await runKeeperTick(core, options);
+      if (result.matured.length === 0) console.log("  nothing matured");
+    } catch (err) {
+      // Keep polling; the next tick re-checks on-chain state
+      console.error("  tick failed:", err instanceof Error ? err.message : err);
+    }
+    if (once) break;
+    await sleep(intervalMs);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  });
+}
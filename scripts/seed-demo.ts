@@ -51,6 +51,7 @@ const CORE_ABI = [
   "function getEmployeeList() view returns (address[])",
   "function employeeCount() view returns (uint256)",
   "function executePayroll()",
+  "function getPayrollProgress() view returns (uint256 runId, uint256 cursor, uint256 rosterSize)",
   "function totalPayrollsExecuted() view returns (uint256)",
   "function employer() view returns (address)",
 ];
@@ -252,12 +253,17 @@ async function main() {
   const payrollsBefore = await core.totalPayrollsExecuted();
   console.log(`        payrolls executed before: ${payrollsBefore}`);
 
-  const payrollResult = await sendAndWait(
-    "executePayroll",
-    core.executePayroll(),
-    provider
-  );
-  if (payrollResult) totalGas += payrollResult.gasUsed;
+  // Each call pays up to PAYROLL_BATCH_SIZE employees; repeat until the
+  // run closes
+  do {
+    const payrollResult = await sendAndWait(
+      "executePayroll",
+      core.executePayroll(),
+      provider
+    );
+    if (payrollResult) totalGas += payrollResult.gasUsed;
+    if (payrollResult?.status !== 1) break;
+  } while ((await core.getPayrollProgress()).runId !== 0n);
 
   const payrollsAfter = await core.totalPayrollsExecuted();
   console.log(`        payrolls executed after: ${payrollsAfter}`);
@@ -0,0 +1,430 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import { PayGramApprovals, PayGramCore } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+/**
+ * PayGramApprovals Test Suite
+ *
+ * Covers the N-of-M proposal lifecycle and its use as PayGramCore's
+ * approval gate. Proposals exercise plaintext and non-FHE core calls, so
+ * every test runs on vanilla Hardhat.
+ */
+
+describe("PayGramApprovals", function () {
+  let approvals: PayGramApprovals;
+  let payGramCore: PayGramCore;
+
+  let owner: HardhatEthersSigner;
+  let employer: HardhatEthersSigner;
+  let approver1: HardhatEthersSigner;
+  let approver2: HardhatEthersSigner;
+  let approver3: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  const LIFETIME = 3 * 24 * 60 * 60;
+
+  /** Proposes a PayGramCore call and returns the proposal ID. */
+  async function proposeCore(
+    from: HardhatEthersSigner,
+    method: string,
+    args: unknown[] = []
+  ): Promise<bigint> {
+    const id = await approvals.proposalCount();
+    const data = (payGramCore.interface as Interface).encodeFunctionData(
+      method,
+      args
+    );
+    await approvals
+      .connect(from)
+      .propose(await payGramCore.getAddress(), data);
+    return id;
+  }
+
+  /** Proposes a settings change on the approvals contract itself. */
+  async function proposeSelf(
+    from: HardhatEthersSigner,
+    method: string,
+    args: unknown[]
+  ): Promise<bigint> {
+    const id = await approvals.proposalCount();
+    const data = (approvals.interface as Interface).encodeFunctionData(
+      method,
+      args
+    );
+    await approvals.connect(from).propose(await approvals.getAddress(), data);
+    return id;
+  }
+
+  beforeEach(async function () {
+    [owner, employer, approver1, approver2, approver3, outsider] =
+      await ethers.getSigners();
+
+    const trustScoring = await (
+      await ethers.getContractFactory("TrustScoring")
+    ).deploy(owner.address);
+    const payGramToken = await (
+      await ethers.getContractFactory("PayGramToken")
+    ).deploy(owner.address, 0);
+
+    payGramCore = await (
+      await ethers.getContractFactory("PayGramCore")
+    ).deploy(
+      owner.address,
+      employer.address,
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+    await payGramCore.waitForDeployment();
+
+    approvals = await (
+      await ethers.getContractFactory("PayGramApprovals")
+    ).deploy(
+      await payGramCore.getAddress(),
+      [approver1.address, approver2.address, approver3.address],
+      2,
+      LIFETIME
+    );
+    await approvals.waitForDeployment();
+
+    await payGramCore
+      .connect(owner)
+      .setApprovalGate(await approvals.getAddress());
+  });
+
+  // ================================================================
+  //  DEPLOYMENT
+  // ================================================================
+
+  describe("Deployment", function () {
+    it("should store approvers, threshold and lifetime", async function () {
+      expect(await approvals.core()).to.equal(await payGramCore.getAddress());
+      expect(await approvals.getApprovers()).to.deep.equal([
+        approver1.address,
+        approver2.address,
+        approver3.address,
+      ]);
+      expect(await approvals.threshold()).to.equal(2);
+      expect(await approvals.proposalLifetime()).to.equal(LIFETIME);
+    });
+
+    it("should reject an unreachable threshold", async function () {
+      const Factory = await ethers.getContractFactory("PayGramApprovals");
+      await expect(
+        Factory.deploy(
+          await payGramCore.getAddress(),
+          [approver1.address],
+          2,
+          LIFETIME
+        )
+      ).to.be.revertedWithCustomError(approvals, "InvalidThreshold");
+    });
+
+    it("should reject duplicate approvers", async function () {
+      const Factory = await ethers.getContractFactory("PayGramApprovals");
+      await expect(
+        Factory.deploy(
+          await payGramCore.getAddress(),
+          [approver1.address, approver1.address],
+          1,
+          LIFETIME
+        )
+      ).to.be.revertedWithCustomError(approvals, "AlreadyApprover");
+    });
+
+    it("should reject an out-of-range lifetime", async function () {
+      const Factory = await ethers.getContractFactory("PayGramApprovals");
+      await expect(
+        Factory.deploy(
+          await payGramCore.getAddress(),
+          [approver1.address],
+          1,
+          60
+        )
+      ).to.be.revertedWithCustomError(approvals, "InvalidLifetime");
+    });
+  });
+
+  // ================================================================
+  //  PROPOSAL LIFECYCLE
+  // ================================================================
+
+  describe("Proposal Lifecycle", function () {
+    it("should create a proposal with the proposer's approval", async function () {
+      const data = payGramCore.interface.encodeFunctionData("executePayroll");
+      await expect(
+        approvals
+          .connect(approver1)
+          .propose(await payGramCore.getAddress(), data)
+      )
+        .to.emit(approvals, "ProposalCreated")
+        .and.to.emit(approvals, "ProposalApproved")
+        .withArgs(0, approver1.address, 1);
+
+      const p = await approvals.getProposal(0);
+      expect(p.proposer).to.equal(approver1.address);
+      expect(p.data).to.equal(data);
+      expect(p.state).to.equal(1);
+      expect(p.expiresAt - p.createdAt).to.equal(LIFETIME);
+      expect(await approvals.approvalCount(0)).to.equal(1);
+    });
+
+    it("should execute once the threshold is met", async function () {
+      const id = await proposeCore(approver1, "executePayroll");
+
+      await expect(
+        approvals.connect(approver1).execute(id)
+      ).to.be.revertedWithCustomError(approvals, "ThresholdNotMet");
+
+      await approvals.connect(approver2).approve(id);
+      await expect(approvals.connect(approver3).execute(id))
+        .to.emit(approvals, "ProposalExecuted")
+        .withArgs(id, approver3.address)
+        .and.to.emit(payGramCore, "PayrollExecuted");
+
+      expect((await approvals.getProposal(id)).state).to.equal(2);
+      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+    });
+
+    it("should not execute a proposal twice", async function () {
+      const id = await proposeCore(approver1, "executePayroll");
+      await approvals.connect(approver2).approve(id);
+      await approvals.connect(approver1).execute(id);
+
+      await expect(
+        approvals.connect(approver1).execute(id)
+      ).to.be.revertedWithCustomError(approvals, "ProposalNotPending");
+    });
+
+    it("should reject double approval and non-approvers", async function () {
+      const id = await proposeCore(approver1, "executePayroll");
+
+      await expect(
+        approvals.connect(approver1).approve(id)
+      ).to.be.revertedWithCustomError(approvals, "AlreadyApproved");
+      await expect(
+        approvals.connect(outsider).approve(id)
+      ).to.be.revertedWithCustomError(approvals, "NotApprover");
+      await expect(
+        proposeCore(outsider, "executePayroll")
+      ).to.be.revertedWithCustomError(approvals, "NotApprover");
+    });
+
+    it("should let an approver revoke their approval", async function () {
+      const id = await proposeCore(approver1, "executePayroll");
+      await approvals.connect(approver2).approve(id);
+
+      await expect(approvals.connect(approver2).revokeApproval(id))
+        .to.emit(approvals, "ApprovalRevoked")
+        .withArgs(id, approver2.address, 1);
+      await expect(
+        approvals.connect(approver1).execute(id)
+      ).to.be.revertedWithCustomError(approvals, "ThresholdNotMet");
+      await expect(
+        approvals.connect(approver3).revokeApproval(id)
+      ).to.be.revertedWithCustomError(approvals, "NotApproved");
+    });
+
+    it("should expire proposals", async function () {
+      const id = await proposeCore(approver1, "executePayroll");
+      await approvals.connect(approver2).approve(id);
+      await time.increase(LIFETIME + 1);
+
+      await expect(
+        approvals.connect(approver1).execute(id)
+      ).to.be.revertedWithCustomError(approvals, "ProposalExpired");
+      await expect(
+        approvals.connect(approver3).approve(id)
+      ).to.be.revertedWithCustomError(approvals, "ProposalExpired");
+      expect(await approvals.getPendingProposals(10)).to.deep.equal([]);
+    });
+
+    it("should let only the proposer cancel", async function () {
+      const id = await proposeCore(approver1, "executePayroll");
+
+      await expect(
+        approvals.connect(approver2).cancel(id)
+      ).to.be.revertedWithCustomError(approvals, "NotProposer");
+      await expect(approvals.connect(approver1).cancel(id))
+        .to.emit(approvals, "ProposalCancelled")
+        .withArgs(id);
+      await expect(
+        approvals.connect(approver2).approve(id)
+      ).to.be.revertedWithCustomError(approvals, "ProposalNotPending");
+    });
+
+    it("should keep a proposal pending when its call reverts", async function () {
+      const id = await proposeCore(approver1, "cancelPayment", [99]);
+      await approvals.connect(approver2).approve(id);
+
+      await expect(
+        approvals.connect(approver1).execute(id)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+      expect((await approvals.getProposal(id)).state).to.equal(1);
+    });
+
+    it("should reject other targets", async function () {
+      await expect(
+        approvals.connect(approver1).propose(outsider.address, "0x")
+      ).to.be.revertedWithCustomError(approvals, "InvalidTarget");
+    });
+
+    it("should accept targets allowed by proposal", async function () {
+      await expect(
+        approvals.connect(approver1).setTarget(outsider.address, true)
+      ).to.be.revertedWithCustomError(approvals, "NotSelf");
+
+      const id = await proposeSelf(approver1, "setTarget", [
+        outsider.address,
+        true,
+      ]);
+      await approvals.connect(approver2).approve(id);
+      await expect(approvals.connect(approver1).execute(id))
+        .to.emit(approvals, "TargetUpdated")
+        .withArgs(outsider.address, true);
+
+      await expect(
+        approvals.connect(approver1).propose(outsider.address, "0x")
+      ).to.emit(approvals, "ProposalCreated");
+    });
+
+    it("should list pending proposals newest first", async function () {
+      await proposeCore(approver1, "executePayroll");
+      const cancelled = await proposeCore(approver1, "executePayroll");
+      await proposeCore(approver2, "setDefaultPayFrequency", [1]);
+      await approvals.connect(approver1).cancel(cancelled);
+
+      expect(await approvals.getPendingProposals(10)).to.deep.equal([2n, 0n]);
+      expect(await approvals.getPendingProposals(1)).to.deep.equal([2n]);
+    });
+  });
+
+  // ================================================================
+  //  GATED CORE ACTIONS
+  // ================================================================
+
+  describe("Gated Core Actions", function () {
+    it("should block the employer from acting alone", async function () {
+      await expect(
+        payGramCore.connect(employer).executePayroll()
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+      await expect(
+        payGramCore.connect(employer).cancelPayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+      await expect(
+        payGramCore.connect(owner).transferEmployer(outsider.address)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+    });
+
+    it("should transfer the employer through a proposal", async function () {
+      const id = await proposeCore(approver1, "transferEmployer", [
+        outsider.address,
+      ]);
+      await approvals.connect(approver3).approve(id);
+      await approvals.connect(approver3).execute(id);
+
+      expect(await payGramCore.employer()).to.equal(outsider.address);
+    });
+
+    it("should only let the gate replace itself", async function () {
+      await expect(
+        payGramCore.connect(owner).setApprovalGate(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+
+      const id = await proposeCore(approver1, "setApprovalGate", [
+        ethers.ZeroAddress,
+      ]);
+      await approvals.connect(approver2).approve(id);
+      await expect(approvals.connect(approver1).execute(id))
+        .to.emit(payGramCore, "ApprovalGateUpdated")
+        .withArgs(ethers.ZeroAddress);
+
+      await expect(payGramCore.connect(employer).executePayroll()).to.emit(
+        payGramCore,
+        "PayrollExecuted"
+      );
+    });
+  });
+
+  // ================================================================
+  //  SETTINGS
+  // ================================================================
+
+  describe("Settings", function () {
+    it("should reject direct settings calls", async function () {
+      await expect(
+        approvals.connect(approver1).setThreshold(1)
+      ).to.be.revertedWithCustomError(approvals, "NotSelf");
+      await expect(
+        approvals.connect(approver1).addApprover(outsider.address)
+      ).to.be.revertedWithCustomError(approvals, "NotSelf");
+    });
+
+    it("should change approvers and threshold by proposal", async function () {
+      let id = await proposeSelf(approver1, "addApprover", [outsider.address]);
+      await approvals.connect(approver2).approve(id);
+      await expect(approvals.connect(approver1).execute(id))
+        .to.emit(approvals, "ApproverAdded")
+        .withArgs(outsider.address);
+
+      id = await proposeSelf(approver1, "setThreshold", [3]);
+      await approvals.connect(outsider).approve(id);
+      await approvals.connect(approver1).execute(id);
+
+      expect(await approvals.threshold()).to.equal(3);
+      expect(await approvals.isApprover(outsider.address)).to.be.true;
+    });
+
+    it("should stop counting a removed approver's approvals", async function () {
+      const pending = await proposeCore(approver3, "executePayroll");
+
+      const id = await proposeSelf(approver1, "removeApprover", [
+        approver3.address,
+      ]);
+      await approvals.connect(approver2).approve(id);
+      await approvals.connect(approver1).execute(id);
+
+      expect(await approvals.approvalCount(pending)).to.equal(0);
+      await expect(
+        approvals.connect(approver3).approve(pending)
+      ).to.be.revertedWithCustomError(approvals, "NotApprover");
+    });
+
+    it("should not count old approvals of a re-added approver", async function () {
+      const pending = await proposeCore(approver3, "executePayroll");
+
+      let id = await proposeSelf(approver1, "removeApprover", [
+        approver3.address,
+      ]);
+      await approvals.connect(approver2).approve(id);
+      await approvals.connect(approver1).execute(id);
+
+      id = await proposeSelf(approver1, "addApprover", [approver3.address]);
+      await approvals.connect(approver2).approve(id);
+      await approvals.connect(approver1).execute(id);
+
+      expect(await approvals.hasApproved(pending, approver3.address)).to.be
+        .false;
+      expect(await approvals.approvalCount(pending)).to.equal(0);
+      await expect(approvals.connect(approver3).approve(pending))
+        .to.emit(approvals, "ProposalApproved")
+        .withArgs(pending, approver3.address, 1);
+    });
+
+    it("should not remove below the threshold", async function () {
+      let id = await proposeSelf(approver1, "removeApprover", [
+        approver3.address,
+      ]);
+      await approvals.connect(approver2).approve(id);
+      await approvals.connect(approver1).execute(id);
+
+      id = await proposeSelf(approver1, "removeApprover", [approver2.address]);
+      await approvals.connect(approver2).approve(id);
+      await expect(
+        approvals.connect(approver1).execute(id)
+      ).to.be.revertedWithCustomError(approvals, "InvalidThreshold");
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { PayGramCompensation, PayGramCore, PayGramToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+/**
+ * PayGramCompensation Test Suite
+ *
+ * Covers component access control and installation on PayGramCore.
+ * Component values and net pay need the FHE coprocessor; those tests
+ * skip on vanilla Hardhat via try/catch + this.skip().
+ */
+
+describe("PayGramCompensation", function () {
+  let compensation: PayGramCompensation;
+  let payGramCore: PayGramCore;
+  let payGramToken: PayGramToken;
+
+  let owner: HardhatEthersSigner;
+  let employer: HardhatEthersSigner;
+  let hr: HardhatEthersSigner;
+  let employee1: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  /** Mirrors PayGramCore.Role.HR. */
+  const HR = 1;
+
+  /**
+   * Funds the core and adds an employee using the plaintext helper. Skips
+   * if FHE is unavailable.
+   */
+  async function addEmployeeOrSkip(
+    ctx: Mocha.Context,
+    wallet: HardhatEthersSigner,
+    salary: number
+  ) {
+    try {
+      await payGramToken
+        .connect(owner)
+        .mint(await payGramCore.getAddress(), 1_000_000);
+      await payGramCore
+        .connect(employer)
+        .addEmployeePlaintext(wallet.address, salary, "engineer");
+    } catch {
+      ctx.skip();
+    }
+  }
+
+  beforeEach(async function () {
+    [owner, employer, hr, employee1, outsider] = await ethers.getSigners();
+
+    const trustScoring = await (
+      await ethers.getContractFactory("TrustScoring")
+    ).deploy(owner.address);
+    payGramToken = await (
+      await ethers.getContractFactory("PayGramToken")
+    ).deploy(owner.address, 0);
+
+    payGramCore = await (
+      await ethers.getContractFactory("PayGramCore")
+    ).deploy(
+      owner.address,
+      employer.address,
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+    await payGramCore.waitForDeployment();
+
+    compensation = await (
+      await ethers.getContractFactory("PayGramCompensation")
+    ).deploy(await payGramCore.getAddress());
+    await compensation.waitForDeployment();
+
+    await payGramCore
+      .connect(owner)
+      .setCompensation(await compensation.getAddress());
+    await payGramCore.connect(employer).grantRole(hr.address, HR);
+  });
+
+  // ================================================================
+  //  DEPLOYMENT
+  // ================================================================
+
+  describe("Deployment", function () {
+    it("should point at the core", async function () {
+      expect(await compensation.core()).to.equal(
+        await payGramCore.getAddress()
+      );
+      expect(await payGramCore.compensation()).to.equal(
+        await compensation.getAddress()
+      );
+    });
+
+    it("should reject a zero core", async function () {
+      const Factory = await ethers.getContractFactory("PayGramCompensation");
+      await expect(
+        Factory.deploy(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(compensation, "ZeroAddress");
+    });
+  });
+
+  // ================================================================
+  //  INSTALLATION
+  // ================================================================
+
+  describe("Installation", function () {
+    it("should only let the owner install a module", async function () {
+      await expect(
+        payGramCore.connect(employer).setCompensation(outsider.address)
+      ).to.be.revertedWithCustomError(
+        payGramCore,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("should remove the module", async function () {
+      await expect(
+        payGramCore.connect(owner).setCompensation(ethers.ZeroAddress)
+      )
+        .to.emit(payGramCore, "CompensationUpdated")
+        .withArgs(ethers.ZeroAddress);
+      expect(await payGramCore.compensation()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should run payroll on an empty roster with a module", async function () {
+      await expect(payGramCore.connect(employer).executePayroll()).to.emit(
+        payGramCore,
+        "PayrollExecuted"
+      );
+    });
+  });
+
+  // ================================================================
+  //  COMPONENTS
+  // ================================================================
+
+  describe("Components", function () {
+    it("should reject callers without the HR role", async function () {
+      await expect(
+        compensation
+          .connect(outsider)
+          .setComponentsPlaintext(employee1.address, 100, 0, 0)
+      ).to.be.revertedWithCustomError(compensation, "NotAuthorized");
+    });
+
+    it("should reject employees not on the roster", async function () {
+      await expect(
+        compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 100, 0, 0)
+      ).to.be.revertedWithCustomError(compensation, "EmployeeNotActive");
+    });
+
+    it("should only let the core compute net pay", async function () {
+      await expect(
+        compensation
+          .connect(outsider)
+          .netPay(employee1.address, ethers.ZeroHash, 30, 30)
+      ).to.be.revertedWithCustomError(compensation, "NotCore");
+    });
+
+    it("should only let the core settle a payment", async function () {
+      await expect(
+        compensation
+          .connect(outsider)
+          .settlePay(employee1.address, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(compensation, "NotCore");
+    });
+
+    it("should require the gate once one is installed", async function () {
+      await payGramCore.connect(owner).setApprovalGate(outsider.address);
+      await expect(
+        compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 100, 0, 0)
+      ).to.be.revertedWithCustomError(compensation, "NotAuthorized");
+    });
+
+    it("should store components readable by the employee (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000);
+      try {
+        await expect(
+          compensation
+            .connect(hr)
+            .setComponentsPlaintext(employee1.address, 300, 1000, 200)
+        )
+          .to.emit(compensation, "ComponentsUpdated")
+          .withArgs(employee1.address);
+      } catch {
+        this.skip();
+      }
+
+      const [allowances, bonus, deductions] =
+        await compensation.getComponents(employee1.address);
+      expect(allowances).to.not.equal(ethers.ZeroHash);
+      expect(bonus).to.not.equal(ethers.ZeroHash);
+      expect(deductions).to.not.equal(ethers.ZeroHash);
+    });
+
+    it("should let HR read the components it set (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000);
+      try {
+        await compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 317, 1013, 211);
+      } catch {
+        this.skip();
+      }
+
+      const handles = await compensation.getComponents(employee1.address);
+      const values = [];
+      for (const handle of handles) {
+        values.push(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            handle,
+            await compensation.getAddress(),
+            hr
+          )
+        );
+      }
+      expect(values).to.deep.equal([317n, 1013n, 211n]);
+    });
+
+    it("should saturate gross pay instead of wrapping (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000);
+      try {
+        await compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 2n ** 64n - 1n, 0, 0);
+        await payGramCore.connect(employer).executePayroll();
+      } catch {
+        this.skip();
+      }
+
+      const net = await compensation.getLastNetPay(employee1.address);
+      // Capped, then pro-rated to one day of thirty without wrapping
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint64, net)
+      ).to.equal((await compensation.MAX_GROSS()) / 30n);
+    });
+
+    it("should pay net pay and reset the bonus (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000);
+      try {
+        await compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 300, 1000, 200);
+        await payGramCore.connect(employer).executePayroll();
+      } catch {
+        this.skip();
+      }
+
+      const [, bonusAfter] = await compensation.getComponents(employee1.address);
+      const net = await compensation.getLastNetPay(employee1.address);
+      expect(net).to.not.equal(ethers.ZeroHash);
+      // The bonus handle was replaced by an encrypted zero
+      expect(bonusAfter).to.not.equal(ethers.ZeroHash);
+      expect(await payGramCore.getEncryptedPaymentAmount(0)).to.equal(net);
+    });
+
+    it("should pro-rate allowances and deductions but not the bonus (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 3000);
+      try {
+        await compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 300, 1000, 600);
+      } catch {
+        this.skip();
+      }
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
+
+      // 10 of the 30 days in a monthly period
+      await time.setNextBlockTimestamp(hireDate + 10n * 24n * 60n * 60n);
+      await payGramCore.connect(employer).executePayroll();
+
+      const net = await compensation.getLastNetPay(employee1.address);
+      // 3300 × 10/30 + 1000 - 600 × 10/30
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint64, net)
+      ).to.equal(1900n);
+    });
+
+    it("should pay net pay on termination (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000);
+      try {
+        await compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 300, 1000, 200);
+        await payGramCore
+          .connect(employer)
+          .terminateEmployee(
+            employee1.address,
+            (await ethers.provider.getBlock("latest"))!.timestamp
+          );
+      } catch {
+        this.skip();
+      }
+
+      const net = await compensation.getLastNetPay(employee1.address);
+      expect(net).to.not.equal(ethers.ZeroHash);
+      expect(await payGramCore.getEncryptedPaymentAmount(0)).to.equal(net);
+    });
+
+    it("should keep the bonus when the budget withholds the payment (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000);
+      try {
+        await compensation
+          .connect(hr)
+          .setComponentsPlaintext(employee1.address, 300, 1000, 200);
+        await payGramCore.connect(employer).setPayrollBudgetPlaintext(100);
+        await payGramCore.connect(employer).executePayroll();
+      } catch {
+        this.skip();
+      }
+
+      const [, bonusAfter] = await compensation.getComponents(employee1.address);
+      // Reset obliviously: the new handle still holds the unpaid bonus
+      expect(bonusAfter).to.not.equal(ethers.ZeroHash);
+      expect(await compensation.getLastNetPay(employee1.address)).to.equal(
+        await payGramCore.getEncryptedPaymentAmount(0)
+      );
+    });
+  });
+});
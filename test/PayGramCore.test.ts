@@ -1,8 +1,10 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, fhevm } from "hardhat";
+import { ContractTransactionReceipt } from "ethers";
 import { PayGramCore, TrustScoring, PayGramToken } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 
 /**
  * PayGramCore Test Suite
@@ -30,6 +32,9 @@ describe("PayGramCore", function () {
   let oracle: HardhatEthersSigner;
   let unauthorized: HardhatEthersSigner;
 
+  /** Default (monthly) pay period, rounded up to whole days. */
+  const PAY_PERIOD = 31 * 24 * 60 * 60;
+
   /** Whether FHE operations are available on this network. */
   let fheAvailable = false;
 
@@ -113,6 +118,10 @@ describe("PayGramCore", function () {
       fheAvailable = true;
       // Clean up: revoke so tests start fresh
       await trustScoring.connect(oracle).revokeScore(employee1.address);
+      // Fund the core so payroll transfers draw on an initialized balance
+      await payGramToken
+        .connect(owner)
+        .mint(await payGramCore.getAddress(), 100_000_000);
     } catch {
       fheAvailable = false;
     }
@@ -155,12 +164,21 @@ describe("PayGramCore", function () {
       expect(await payGramCore.nextPaymentId()).to.equal(0);
     });
 
-    it("should expose correct delay period constant", async function () {
-      expect(await payGramCore.DELAY_PERIOD()).to.equal(24 * 60 * 60);
+    it("should start with the default delay period", async function () {
+      expect(await payGramCore.DEFAULT_DELAY_PERIOD()).to.equal(24 * 60 * 60);
+      expect(await payGramCore.delayPeriod()).to.equal(24 * 60 * 60);
+      expect(await payGramCore.configDelay()).to.equal(0);
     });
 
     it("should expose correct max batch size constant", async function () {
-      expect(await payGramCore.MAX_BATCH_SIZE()).to.equal(50);
+      expect(await payGramCore.MAX_BATCH_SIZE()).to.equal(10);
+      expect(await payGramCore.PAYROLL_BATCH_SIZE()).to.equal(2);
+    });
+
+    it("should deploy its extension", async function () {
+      const extension = await payGramCore.EXTENSION();
+      expect(extension).to.not.equal(ethers.ZeroAddress);
+      expect(await ethers.provider.getCode(extension)).to.not.equal("0x");
     });
 
     it("should revert if employer is zero address", async function () {
@@ -418,289 +436,2090 @@ describe("PayGramCore", function () {
   });
 
   // ================================================================
-  //  PAYROLL EXECUTION
+  //  SCHEDULED SALARY CHANGES
   // ================================================================
 
-  describe("Payroll Execution", function () {
-    it("should reject payroll from non-employer", async function () {
+  describe("Scheduled Salary Changes", function () {
+    const DAY = 24 * 60 * 60;
+
+    /**
+     * Queues a plaintext salary change. Skips if FHE is unavailable.
+     */
+    async function scheduleOrSkip(
+      ctx: Mocha.Context,
+      salary: number,
+      effectiveAt: number
+    ) {
+      try {
+        await payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(employee1.address, salary, effectiveAt);
+      } catch {
+        ctx.skip();
+      }
+    }
+
+    it("should start with no pending changes", async function () {
+      const [salaries, effectiveAts] =
+        await payGramCore.getPendingSalaryChanges(employee1.address);
+      expect(salaries).to.have.lengthOf(0);
+      expect(effectiveAts).to.have.lengthOf(0);
+    });
+
+    it("should revert scheduling for non-existent employee", async function () {
+      const effectiveAt = (await time.latest()) + DAY;
       await expect(
-        payGramCore.connect(unauthorized).executePayroll()
+        payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(employee1.address, 7000, effectiveAt)
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
+    });
+
+    it("should revert scheduling from non-employer", async function () {
+      const effectiveAt = (await time.latest()) + DAY;
+      await expect(
+        payGramCore
+          .connect(unauthorized)
+          .scheduleSalaryChangePlaintext(employee1.address, 7000, effectiveAt)
       ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
     });
 
-    it("should handle payroll with no employees", async function () {
-      await payGramCore.connect(employer).executePayroll();
-      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+    it("should require the approval gate once set", async function () {
+      await payGramCore.connect(owner).setApprovalGate(oracle.address);
+      const effectiveAt = (await time.latest()) + DAY;
+      await expect(
+        payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(employee1.address, 7000, effectiveAt)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+      await expect(
+        payGramCore.connect(employer).cancelSalaryChange(employee1.address, 0)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
     });
 
-    it("should emit PayrollExecuted event", async function () {
-      await expect(payGramCore.connect(employer).executePayroll())
-        .to.emit(payGramCore, "PayrollExecuted");
+    it("should revert cancelling a change that is not queued", async function () {
+      await expect(
+        payGramCore
+          .connect(employer)
+          .cancelSalaryChange(employee1.address, (await time.latest()) + DAY)
+      ).to.be.revertedWithCustomError(payGramCore, "SalaryChangeNotFound");
     });
 
-    it("should increment totalPayrollsExecuted", async function () {
-      await payGramCore.connect(employer).executePayroll();
-      await payGramCore.connect(employer).executePayroll();
-      expect(await payGramCore.totalPayrollsExecuted()).to.equal(2);
+    it("should reject an effective time that is not in the future (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await expect(
+        payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(
+            employee1.address,
+            7000,
+            await time.latest()
+          )
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidEffectiveDate");
     });
 
-    it("should skip inactive employees during payroll", async function () {
+    it("should list queued changes in effective order (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).removeEmployee(employee1.address);
+      const now = await time.latest();
+      await scheduleOrSkip(this, 8000, now + 20 * DAY);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(employee1.address, 7000, now + 10 * DAY)
+      )
+        .to.emit(payGramCore, "SalaryChangeScheduled")
+        .withArgs(employee1.address, now + 10 * DAY);
 
-      // Payroll should process 0 active employees (event shows 0)
-      await payGramCore.connect(employer).executePayroll();
-      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+      const [salaries, effectiveAts] =
+        await payGramCore.getPendingSalaryChanges(employee1.address);
+      expect(effectiveAts).to.deep.equal([
+        BigInt(now + 10 * DAY),
+        BigInt(now + 20 * DAY),
+      ]);
+      expect(salaries[0]).to.not.equal(ethers.ZeroHash);
     });
 
-    it("should create escrowed payment for unscored employee", async function () {
+    it("should replace a change queued for the same time (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const effectiveAt = (await time.latest()) + DAY;
+      await scheduleOrSkip(this, 7000, effectiveAt);
+      await scheduleOrSkip(this, 7500, effectiveAt);
 
-      // employee1 has no trust score → should be escrowed
-      await payGramCore.connect(employer).executePayroll();
+      const [, effectiveAts] = await payGramCore.getPendingSalaryChanges(
+        employee1.address
+      );
+      expect(effectiveAts).to.have.lengthOf(1);
+    });
 
-      const paymentId = 0;
-      const [empAddr, status, , , milestone] =
-        await payGramCore.getPendingPayment(paymentId);
-      expect(empAddr).to.equal(employee1.address);
-      expect(status).to.equal(3); // Escrowed = 3
-      expect(milestone).to.equal("Pending employer approval");
+    it("should cap the queue at MAX_SALARY_CHANGES (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const now = await time.latest();
+      const max = Number(await payGramCore.MAX_SALARY_CHANGES());
+      for (let i = 1; i <= max; i++) {
+        await scheduleOrSkip(this, 5000 + i, now + i * DAY);
+      }
+      await expect(
+        payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(
+            employee1.address,
+            9000,
+            now + (max + 1) * DAY
+          )
+      ).to.be.revertedWithCustomError(payGramCore, "TooManySalaryChanges");
     });
 
-    it("should update lastPayDate after payroll", async function () {
+    it("should cancel a queued change (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
+      const effectiveAt = (await time.latest()) + DAY;
+      await scheduleOrSkip(this, 7000, effectiveAt);
 
-      const [, , , lastPay] = await payGramCore.getEmployee(employee1.address);
-      expect(lastPay).to.be.gt(0);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .cancelSalaryChange(employee1.address, effectiveAt)
+      )
+        .to.emit(payGramCore, "SalaryChangeCancelled")
+        .withArgs(employee1.address, effectiveAt);
+      const [, effectiveAts] = await payGramCore.getPendingSalaryChanges(
+        employee1.address
+      );
+      expect(effectiveAts).to.have.lengthOf(0);
     });
 
-    it("should execute payroll with scored employee (FHE routing)", async function () {
-      // FHE-dependent: trust tier evaluation
-      await addScoredEmployeeOrSkip(this, employee1, 5000, "engineer", 85);
+    it("should keep the current salary for runs before the change (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const before = await payGramCore.getEncryptedSalary(employee1.address);
+      await scheduleOrSkip(this, 7000, (await time.latest()) + 10 * DAY);
 
-      try {
-        await payGramCore.connect(employer).executePayroll();
-        // Should have created 3 payment records (oblivious routing)
-        expect(await payGramCore.nextPaymentId()).to.equal(3);
-      } catch {
-        this.skip();
-      }
+      await payGramCore.connect(employer).executePayroll();
+      expect(await payGramCore.getEncryptedSalary(employee1.address)).to.equal(
+        before
+      );
+      const [, effectiveAts] = await payGramCore.getPendingSalaryChanges(
+        employee1.address
+      );
+      expect(effectiveAts).to.have.lengthOf(1);
     });
 
-    it("should process mixed scored/unscored batch", async function () {
-      // employee1: scored (FHE-dependent), employee2: unscored
-      await addEmployeeOrSkip(this, employee1, 5000, "a");
-      try {
-        await payGramCore
-          .connect(employer)
-          .addEmployeePlaintext(employee2.address, 6000, "b");
-      } catch {
-        this.skip();
-      }
+    it("should apply due changes in the first run after them (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const now = await time.latest();
+      await scheduleOrSkip(this, 7000, now + 10 * DAY);
+      await scheduleOrSkip(this, 8000, now + 20 * DAY);
+      await scheduleOrSkip(this, 9000, now + 60 * DAY);
+      const [queued] = await payGramCore.getPendingSalaryChanges(
+        employee1.address
+      );
 
-      // Only employee2 is unscored, employee1 has no score either in this path
       await payGramCore.connect(employer).executePayroll();
-      // Both unscored → 2 escrowed payments
-      expect(await payGramCore.nextPaymentId()).to.equal(2);
+      await time.increase(PAY_PERIOD);
+      await expect(payGramCore.connect(employer).executePayroll())
+        .to.emit(payGramCore, "SalaryUpdated")
+        .withArgs(employee1.address);
+
+      // Both changes were due; the later one wins and the last stays queued
+      expect(await payGramCore.getEncryptedSalary(employee1.address)).to.equal(
+        queued[1]
+      );
+      const [, effectiveAts] = await payGramCore.getPendingSalaryChanges(
+        employee1.address
+      );
+      expect(effectiveAts).to.deep.equal([BigInt(now + 60 * DAY)]);
+    });
+
+    it("should drop queued changes when the employee is removed (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await scheduleOrSkip(this, 7000, (await time.latest()) + DAY);
+
+      await payGramCore.connect(employer).removeEmployee(employee1.address);
+      const [, effectiveAts] = await payGramCore.getPendingSalaryChanges(
+        employee1.address
+      );
+      expect(effectiveAts).to.have.lengthOf(0);
     });
   });
 
   // ================================================================
-  //  PAYMENT MANAGEMENT
+  //  TERMINATION & PRO-RATING
   // ================================================================
 
-  describe("Payment Management", function () {
-    // Helper: set up a delayed payment manually by creating an unscored
-    // employee payroll (creates escrowed). We test release/cancel logic
-    // on the resulting PendingPayment.
+  describe("Termination & Pro-rating", function () {
+    const DAY = 24 * 60 * 60;
 
-    it("should revert release for non-existent payment", async function () {
+    it("should revert termination for non-existent employee", async function () {
       await expect(
-        payGramCore.connect(employer).releasePayment(999)
-      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+        payGramCore
+          .connect(employer)
+          .terminateEmployee(employee1.address, await time.latest())
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
     });
 
-    it("should revert cancel for non-existent payment", async function () {
+    it("should revert termination from non-employer", async function () {
       await expect(
-        payGramCore.connect(employer).cancelPayment(999)
-      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
-    });
-
-    it("should release an escrowed payment (employer approval)", async function () {
-      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-
-      // Execute payroll → creates escrowed payment (no score)
-      await payGramCore.connect(employer).executePayroll();
-
-      // Release escrowed payment
-      await expect(payGramCore.connect(employer).releasePayment(0))
-        .to.emit(payGramCore, "PaymentReleased")
-        .withArgs(0, employee1.address);
-
-      const [, status] = await payGramCore.getPendingPayment(0);
-      expect(status).to.equal(4); // Released = 4
+        payGramCore
+          .connect(unauthorized)
+          .terminateEmployee(employee1.address, await time.latest())
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
     });
 
-    it("should reject non-employer releasing escrowed payment", async function () {
+    it("should reject termination dates outside the unpaid period (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
 
       await expect(
-        payGramCore.connect(unauthorized).releasePayment(0)
-      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+        payGramCore
+          .connect(employer)
+          .terminateEmployee(employee1.address, hireDate - 1n)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidTerminationDate");
+      await expect(
+        payGramCore
+          .connect(employer)
+          .terminateEmployee(employee1.address, (await time.latest()) + DAY)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidTerminationDate");
     });
 
-    it("should cancel a pending escrowed payment", async function () {
+    it("should pay a final paycheck on the hire day (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
 
-      await expect(payGramCore.connect(employer).cancelPayment(0))
-        .to.emit(payGramCore, "PaymentCancelled")
-        .withArgs(0, employee1.address);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .terminateEmployee(employee1.address, hireDate)
+      )
+        .to.emit(payGramCore, "EmployeeTerminated")
+        .withArgs(employee1.address, 1, hireDate);
 
-      const [, status] = await payGramCore.getPendingPayment(0);
-      expect(status).to.equal(5); // Completed = 5
+      const [, isActive, , , , terminationDate] =
+        await payGramCore.getEmployee(employee1.address);
+      expect(isActive).to.be.false;
+      expect(terminationDate).to.equal(hireDate);
+
+      // Routed like salary: unscored employees default to escrow
+      const [paymentIds] = await payGramCore.getPayrollRun(1);
+      expect(paymentIds.length).to.equal(1);
+      const [employee, status] = await payGramCore.getPendingPayment(
+        paymentIds[0]
+      );
+      expect(employee).to.equal(employee1.address);
+      expect(status).to.equal(3); // Escrowed
     });
 
-    it("should reject cancelling already-released payment", async function () {
+    it("should not pay the final period before the last paycheck (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
+      await time.increase(10 * DAY);
       await payGramCore.connect(employer).executePayroll();
-      await payGramCore.connect(employer).releasePayment(0);
 
       await expect(
-        payGramCore.connect(employer).cancelPayment(0)
-      ).to.be.revertedWithCustomError(payGramCore, "PaymentAlreadyProcessed");
-    });
-
-    it("should reject releasing already-released payment", async function () {
-      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
-      await payGramCore.connect(employer).releasePayment(0);
+        payGramCore
+          .connect(employer)
+          .terminateEmployee(employee1.address, hireDate + BigInt(5 * DAY))
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidTerminationDate");
 
+      const [, , , lastPayDate] = await payGramCore.getEmployee(
+        employee1.address
+      );
       await expect(
-        payGramCore.connect(employer).releasePayment(0)
-      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+        payGramCore
+          .connect(employer)
+          .terminateEmployee(employee1.address, lastPayDate)
+      ).to.emit(payGramCore, "EmployeeTerminated");
     });
 
-    it("should reject releasing cancelled payment", async function () {
+    it("should terminate after more than a full period (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
-      await payGramCore.connect(employer).cancelPayment(0);
+      await time.increase(2 * PAY_PERIOD);
+      const now = await time.latest();
 
       await expect(
-        payGramCore.connect(employer).releasePayment(0)
-      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+        payGramCore.connect(employer).terminateEmployee(employee1.address, now)
+      )
+        .to.emit(payGramCore, "EmployeeTerminated")
+        .withArgs(employee1.address, 1, now);
+      expect(await payGramCore.isActiveEmployee(employee1.address)).to.be.false;
     });
 
-    it("should reject non-employer cancelling payment", async function () {
+    it("should reject terminating an inactive employee (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
+      const now = await time.latest();
+      await payGramCore.connect(employer).terminateEmployee(employee1.address, now);
 
       await expect(
-        payGramCore.connect(unauthorized).cancelPayment(0)
-      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+        payGramCore.connect(employer).terminateEmployee(employee1.address, now)
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotActive");
     });
 
-    it("should track pending payments for an employee", async function () {
+    it("should drop queued salary changes on termination (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
-      await payGramCore.connect(employer).executePayroll();
+      try {
+        await payGramCore
+          .connect(employer)
+          .scheduleSalaryChangePlaintext(
+            employee1.address,
+            7000,
+            (await time.latest()) + DAY
+          );
+      } catch {
+        this.skip();
+      }
 
-      const payments = await payGramCore.getPendingPaymentsForEmployee(
+      await payGramCore
+        .connect(employer)
+        .terminateEmployee(employee1.address, await time.latest());
+      const [, effectiveAts] = await payGramCore.getPendingSalaryChanges(
         employee1.address
       );
-      expect(payments.length).to.equal(2);
-      expect(payments[0]).to.equal(0);
-      expect(payments[1]).to.equal(1);
+      expect(effectiveAts).to.have.lengthOf(0);
     });
 
-    it("should list releasable payments", async function () {
+    /** Decrypts a payment's total amount. */
+    async function paymentAmount(paymentId: number): Promise<bigint> {
+      return fhevm.debugger.decryptEuint(
+        FhevmType.euint64,
+        await payGramCore.getEncryptedPaymentAmount(paymentId)
+      );
+    }
+
+    it("should pro-rate a termination before the first payroll (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
+      await time.increase(10 * DAY);
 
-      // Escrowed payment is always releasable (by employer)
-      const releasable = await payGramCore.getReleasablePayments();
-      expect(releasable.length).to.equal(1);
-      expect(releasable[0]).to.equal(0);
+      await payGramCore
+        .connect(employer)
+        .terminateEmployee(employee1.address, hireDate + BigInt(10 * DAY));
+      // 10 of the 30 days in a monthly period
+      expect(await paymentAmount(0)).to.equal(1666n);
     });
 
-    it("should remove released payment from releasable list", async function () {
+    it("should pay a whole period to someone hired a period before the run (FHE)", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
-      await payGramCore.connect(employer).executePayroll();
-      await payGramCore.connect(employer).releasePayment(0);
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
 
-      const releasable = await payGramCore.getReleasablePayments();
-      expect(releasable.length).to.equal(0);
+      await time.setNextBlockTimestamp(hireDate + BigInt(30 * DAY));
+      await payGramCore.connect(employer).executePayroll();
+      expect(await paymentAmount(0)).to.equal(5000n);
     });
-  });
-
-  // ================================================================
-  //  DELAYED PAYMENT TIME-LOCK
-  // ================================================================
-
-  describe("Delayed Payment Time-Lock", function () {
-    // These tests require FHE to create a delayed payment (medium-trust
-    // scored employee). If FHE is unavailable, they test the release
-    // logic with manually created escrowed payments instead.
-
-    it("should reject early release of delayed payment (FHE path)", async function () {
-      // Requires FHE: medium-trust employee → delayed payment
-      await addScoredEmployeeOrSkip(this, employee1, 5000, "engineer", 50);
 
+    it("should not pay a first paycheck in the block of the hire (FHE)", async function () {
+      await ethers.provider.send("evm_setAutomine", [false]);
       try {
+        await payGramCore
+          .connect(employer)
+          .addEmployeePlaintext(employee1.address, 5000, "engineer");
         await payGramCore.connect(employer).executePayroll();
-
-        // Find the delayed payment among the 3 created records
-        let delayedId: number | null = null;
-        const total = Number(await payGramCore.nextPaymentId());
-        for (let i = 0; i < total; i++) {
-          const [, status] = await payGramCore.getPendingPayment(i);
-          if (status === 2n) {
-            // Delayed = 2
-            delayedId = i;
-            break;
-          }
+        await ethers.provider.send("evm_mine", []);
+      } catch {
+        this.skip();
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+
+      // Not consumed: the pay date stays at the hire date
+      const [, , hireDate] = await payGramCore.getEmployee(employee1.address);
+      const [, nextPayDate] = await payGramCore.getPaySchedule(
+        employee1.address
+      );
+      expect(nextPayDate).to.equal(hireDate);
+      const [paymentIds, , employeeCount] = await payGramCore.getPayrollRun(1);
+      expect(paymentIds).to.have.lengthOf(0);
+      expect(employeeCount).to.equal(0);
+
+      await payGramCore.connect(employer).executePayroll();
+      const [secondRun] = await payGramCore.getPayrollRun(2);
+      expect(secondRun).to.have.lengthOf(1);
+      // One started day of thirty
+      expect(await paymentAmount(0)).to.equal(166n);
+    });
+
+    it("should restart the pay schedule from the first paycheck (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await time.increase(10 * DAY);
+
+      await payGramCore.connect(employer).executePayroll();
+      const paidAt = await time.latest();
+      const [, nextPayDate] = await payGramCore.getPaySchedule(
+        employee1.address
+      );
+      // Monthly default period: a 12th of a 365-day year
+      expect(nextPayDate).to.equal(paidAt + (365 * DAY) / 12);
+    });
+  });
+
+  // ================================================================
+  //  PAYROLL EXECUTION
+  // ================================================================
+
+  describe("Payroll Execution", function () {
+    it("should reject payroll from non-employer", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).executePayroll()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should handle payroll with no employees", async function () {
+      await payGramCore.connect(employer).executePayroll();
+      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+    });
+
+    it("should emit PayrollExecuted event", async function () {
+      await expect(payGramCore.connect(employer).executePayroll())
+        .to.emit(payGramCore, "PayrollExecuted");
+    });
+
+    it("should record the payroll run", async function () {
+      await payGramCore.connect(employer).executePayroll();
+
+      const [paymentIds, timestamp, employeeCount] =
+        await payGramCore.getPayrollRun(1);
+      expect(paymentIds.length).to.equal(0);
+      expect(timestamp).to.be.gt(0);
+      expect(employeeCount).to.equal(0);
+    });
+
+    it("should link escrowed payments to their payroll run", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(PAY_PERIOD);
+
+      const tx = payGramCore.connect(employer).executePayroll();
+      await expect(tx).to.emit(payGramCore, "PaymentRouted");
+      const [, , createdAt, releaseTime] =
+        await payGramCore.getPendingPayment(1);
+      await expect(tx)
+        .to.emit(payGramCore, "PaymentRouted")
+        .withArgs(1, employee1.address, 2, releaseTime);
+      expect(releaseTime - createdAt).to.equal(24 * 60 * 60);
+
+      const [, , , , , runId] = await payGramCore.getPendingPayment(0);
+      expect(runId).to.equal(1);
+
+      const [paymentIds, , employeeCount] = await payGramCore.getPayrollRun(2);
+      expect(paymentIds).to.deep.equal([1n]);
+      expect(employeeCount).to.equal(1);
+    });
+
+    it("should close the run when the roster fits in one batch", async function () {
+      await payGramCore.connect(employer).executePayroll();
+
+      const [runId, cursor] = await payGramCore.getPayrollProgress();
+      expect(runId).to.equal(0);
+      expect(cursor).to.equal(0);
+    });
+
+    it("should resume a run in chunks without paying anyone twice", async function () {
+      const rosterSize = 3;
+      try {
+        for (let i = 0; i < rosterSize; i++) {
+          await payGramCore
+            .connect(employer)
+            .addEmployeePlaintext(
+              ethers.Wallet.createRandom().address,
+              1000,
+              "staff"
+            );
         }
+      } catch {
+        this.skip();
+      }
+
+      // First chunk stops at PAYROLL_BATCH_SIZE and leaves the run open
+      await expect(payGramCore.connect(employer).executePayroll())
+        .to.emit(payGramCore, "PayrollChunkProcessed")
+        .withArgs(1, 2, 2, rosterSize);
+      const [openRun, cursor] = await payGramCore.getPayrollProgress();
+      expect(openRun).to.equal(1);
+      expect(cursor).to.equal(2);
+
+      // Second chunk finishes the roster and closes the run
+      await expect(payGramCore.connect(employer).executePayroll())
+        .to.emit(payGramCore, "PayrollExecuted");
+      expect((await payGramCore.getPayrollProgress())[0]).to.equal(0);
+
+      const [paymentIds, , employeeCount] = await payGramCore.getPayrollRun(1);
+      expect(employeeCount).to.equal(rosterSize);
+      expect(paymentIds.length).to.equal(rosterSize);
+      expect(await payGramCore.nextPaymentId()).to.equal(rosterSize);
+      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+    });
+
+    it("should increment totalPayrollsExecuted", async function () {
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).executePayroll();
+      expect(await payGramCore.totalPayrollsExecuted()).to.equal(2);
+    });
+
+    it("should skip inactive employees during payroll", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).removeEmployee(employee1.address);
+
+      // Payroll should process 0 active employees (event shows 0)
+      await payGramCore.connect(employer).executePayroll();
+      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+    });
+
+    it("should create escrowed payment for unscored employee", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+
+      // employee1 has no trust score → should be escrowed
+      await payGramCore.connect(employer).executePayroll();
+
+      const paymentId = 0;
+      const [empAddr, status, , , milestone] =
+        await payGramCore.getPendingPayment(paymentId);
+      expect(empAddr).to.equal(employee1.address);
+      expect(status).to.equal(3); // Escrowed = 3
+      expect(milestone).to.equal("Pending employer approval");
+    });
+
+    it("should update lastPayDate after payroll", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      const [, , , lastPay] = await payGramCore.getEmployee(employee1.address);
+      expect(lastPay).to.be.gt(0);
+    });
+
+    it("should execute payroll with scored employee (FHE routing)", async function () {
+      // FHE-dependent: trust tier evaluation
+      await addScoredEmployeeOrSkip(this, employee1, 5000, "engineer", 85);
+
+      await payGramCore.connect(employer).executePayroll();
+      // One record whatever the tier (oblivious routing)
+      expect(await payGramCore.nextPaymentId()).to.equal(1);
+    });
+
+    it("should process mixed scored/unscored batch", async function () {
+      // employee1: scored (FHE-dependent), employee2: unscored
+      await addEmployeeOrSkip(this, employee1, 5000, "a");
+      try {
+        await payGramCore
+          .connect(employer)
+          .addEmployeePlaintext(employee2.address, 6000, "b");
+      } catch {
+        this.skip();
+      }
+
+      // Only employee2 is unscored, employee1 has no score either in this path
+      await payGramCore.connect(employer).executePayroll();
+      // Both unscored → 2 escrowed payments
+      expect(await payGramCore.nextPaymentId()).to.equal(2);
+    });
+  });
+
+  // ================================================================
+  //  PAYROLL BUDGET
+  // ================================================================
+
+  describe("Payroll Budget", function () {
+    it("should leave runs uncapped by default", async function () {
+      expect(await payGramCore.getPayrollBudget()).to.equal(ethers.ZeroHash);
+
+      await payGramCore.connect(employer).executePayroll();
+      const [budget, spent, exceeded] =
+        await payGramCore.getPayrollRunBudget(1);
+      expect(budget).to.equal(ethers.ZeroHash);
+      expect(spent).to.equal(ethers.ZeroHash);
+      expect(exceeded).to.equal(ethers.ZeroHash);
+    });
+
+    it("should reject budget changes from non-admins", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).setPayrollBudgetPlaintext(10000)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+      await expect(
+        payGramCore.connect(unauthorized).clearPayrollBudget()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should revert for unknown runs", async function () {
+      await expect(
+        payGramCore.getPayrollRunBudget(1)
+      ).to.be.revertedWithCustomError(payGramCore, "PayrollRunNotFound");
+    });
+
+    it("should clear the budget", async function () {
+      await expect(payGramCore.connect(employer).clearPayrollBudget())
+        .to.emit(payGramCore, "PayrollBudgetUpdated")
+        .withArgs(false);
+      expect(await payGramCore.getPayrollBudget()).to.equal(ethers.ZeroHash);
+    });
+
+    it("should set an encrypted budget (FHE)", async function () {
+      try {
+        await expect(
+          payGramCore.connect(employer).setPayrollBudgetPlaintext(10000)
+        )
+          .to.emit(payGramCore, "PayrollBudgetUpdated")
+          .withArgs(true);
+      } catch {
+        this.skip();
+      }
+      expect(await payGramCore.getPayrollBudget()).to.not.equal(
+        ethers.ZeroHash
+      );
+    });
+
+    it("should snapshot the budget into each run (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      try {
+        await payGramCore.connect(employer).setPayrollBudgetPlaintext(4000);
+        await payGramCore.connect(employer).executePayroll();
+      } catch {
+        this.skip();
+      }
+
+      const [budget, spent, exceeded] =
+        await payGramCore.getPayrollRunBudget(1);
+      expect(budget).to.equal(await payGramCore.getPayrollBudget());
+      expect(spent).to.not.equal(ethers.ZeroHash);
+      expect(exceeded).to.not.equal(ethers.ZeroHash);
+      // The zeroed salary is still recorded as an escrow payment
+      expect(await payGramCore.nextPaymentId()).to.equal(1);
+    });
+
+    it("should not cap runs opened after clearing (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      try {
+        await payGramCore.connect(employer).setPayrollBudgetPlaintext(4000);
+      } catch {
+        this.skip();
+      }
+      await payGramCore.connect(employer).clearPayrollBudget();
+      await payGramCore.connect(employer).executePayroll();
+
+      const [budget] = await payGramCore.getPayrollRunBudget(1);
+      expect(budget).to.equal(ethers.ZeroHash);
+    });
+  });
+
+  // ================================================================
+  //  PAYROLL ANALYTICS
+  // ================================================================
+
+  describe("Payroll Analytics", function () {
+    it("should report no totals before the first payment", async function () {
+      const [disbursed, pendingDelayed, committedEscrow] =
+        await payGramCore.getPayrollTotals();
+      expect(disbursed).to.equal(ethers.ZeroHash);
+      expect(pendingDelayed).to.equal(ethers.ZeroHash);
+      expect(committedEscrow).to.equal(ethers.ZeroHash);
+    });
+
+    it("should revert for unknown runs", async function () {
+      await expect(
+        payGramCore.getPayrollRunCost(1)
+      ).to.be.revertedWithCustomError(payGramCore, "PayrollRunNotFound");
+    });
+
+    it("should leave the cost of an empty run unset", async function () {
+      await payGramCore.connect(employer).executePayroll();
+      expect(await payGramCore.getPayrollRunCost(1)).to.equal(ethers.ZeroHash);
+    });
+
+    it("should track run cost and disbursed totals (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await addEmployeeOrSkip(this, employee2, 6000, "designer");
+      try {
+        await payGramCore.connect(employer).executePayroll();
+      } catch {
+        this.skip();
+      }
+
+      const cost = await payGramCore.getPayrollRunCost(1);
+      const [disbursed, pendingDelayed, committedEscrow] =
+        await payGramCore.getPayrollTotals();
+      expect(cost).to.not.equal(ethers.ZeroHash);
+      expect(disbursed).to.not.equal(ethers.ZeroHash);
+      expect(pendingDelayed).to.not.equal(ethers.ZeroHash);
+      expect(committedEscrow).to.not.equal(ethers.ZeroHash);
+
+      // Releasing moves the total again without touching the run's cost
+      await payGramCore.connect(employer).releasePayment(0);
+      const [disbursedAfter] = await payGramCore.getPayrollTotals();
+      expect(disbursedAfter).to.not.equal(disbursed);
+      expect(await payGramCore.getPayrollRunCost(1)).to.equal(cost);
+    });
+
+    it("should keep the totals readable by the employer only (FHE)", async function () {
+      await payGramCore.connect(employer).grantRole(oracle.address, 3);
+      await addEmployeeOrSkip(this, employee1, 4219, "engineer");
+      try {
+        await payGramCore.connect(employer).executePayroll();
+      } catch {
+        this.skip();
+      }
+
+      const coreAddress = await payGramCore.getAddress();
+      const [, , committedEscrow] = await payGramCore.getPayrollTotals();
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          committedEscrow,
+          coreAddress,
+          employer
+        )
+      ).to.be.gt(0n);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          committedEscrow,
+          coreAddress,
+          oracle
+        )
+      ).to.be.rejected;
+    });
+  });
+
+  // ================================================================
+  //  SOLVENCY CHECK
+  // ================================================================
+
+  describe("Solvency Check", function () {
+    it("should report no check before the first one", async function () {
+      const [solvent, checkedAt] = await payGramCore.getSolvency();
+      expect(solvent).to.equal(ethers.ZeroHash);
+      expect(checkedAt).to.equal(0);
+    });
+
+    it("should reject checks from non-admins", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).checkSolvency()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should store an encrypted result (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      try {
+        await expect(payGramCore.connect(employer).checkSolvency()).to.emit(
+          payGramCore,
+          "SolvencyChecked"
+        );
+      } catch {
+        this.skip();
+      }
+
+      const [solvent, checkedAt] = await payGramCore.getSolvency();
+      expect(solvent).to.not.equal(ethers.ZeroHash);
+      expect(checkedAt).to.be.gt(0);
+    });
+
+    /** Runs checkSolvency and decrypts the stored result. */
+    async function checkSolvency(): Promise<boolean> {
+      await payGramCore.connect(employer).checkSolvency();
+      const [solvent] = await payGramCore.getSolvency();
+      return fhevm.debugger.decryptEbool(solvent);
+    }
+
+    it("should count a first paycheck pro-rated (FHE)", async function () {
+      // The core holds 100M: a full month would not fit, one day does
+      await addEmployeeOrSkip(this, employee1, 1_500_000_000, "engineer");
+      expect(await checkSolvency()).to.equal(true);
+
+      await time.increase(10 * 24 * 60 * 60);
+      expect(await checkSolvency()).to.equal(false);
+    });
+
+    it("should leave out pay over the payroll budget (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 6_000_000_000, "engineer");
+      expect(await checkSolvency()).to.equal(false);
+
+      await payGramCore.connect(employer).setPayrollBudgetPlaintext(1000);
+      expect(await checkSolvency()).to.equal(true);
+    });
+  });
+
+  // ================================================================
+  //  TREASURY BALANCE ACCESS
+  // ================================================================
+
+  describe("Treasury Balance Access", function () {
+    it("should reject balance access from outsiders", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).allowBalanceAccess()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should be a no-op before the contract is funded", async function () {
+      const PayGramCoreFactory =
+        await ethers.getContractFactory("PayGramCore");
+      const unfunded = await PayGramCoreFactory.deploy(
+        owner.address,
+        employer.address,
+        await trustScoring.getAddress(),
+        await payGramToken.getAddress()
+      );
+      await unfunded.connect(employer).allowBalanceAccess();
+      expect(await unfunded.getContractBalance()).to.equal(ethers.ZeroHash);
+    });
+  });
+
+  // ================================================================
+  //  OFF-CYCLE PAYMENTS
+  // ================================================================
+
+  describe("Off-Cycle Payments", function () {
+    it("should reject bonuses from non-admins", async function () {
+      await expect(
+        payGramCore
+          .connect(unauthorized)
+          .payBonusPlaintext(employee1.address, 1000, "spot bonus")
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should reject bonuses for unknown employees", async function () {
+      await expect(
+        payGramCore
+          .connect(employer)
+          .payBonusPlaintext(employee1.address, 1000, "spot bonus")
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
+    });
+
+    it("should require the gate once one is installed", async function () {
+      await payGramCore.connect(owner).setApprovalGate(unauthorized.address);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .payBonusPlaintext(employee1.address, 1000, "spot bonus")
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+    });
+
+    it("should reject malformed off-cycle batches", async function () {
+      await expect(
+        payGramCore
+          .connect(employer)
+          .payOffCycle([employee1.address], [], "0x", "correction")
+      ).to.be.revertedWithCustomError(payGramCore, "ArrayLengthMismatch");
+      await expect(
+        payGramCore.connect(employer).payOffCycle([], [], "0x", "correction")
+      ).to.be.revertedWithCustomError(payGramCore, "BatchTooLarge");
+      const three = Array.from({ length: 3 }, () => employee1.address);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .payOffCycle(three, three.map(() => ethers.ZeroHash), "0x", "correction")
+      ).to.be.revertedWithCustomError(payGramCore, "BatchTooLarge");
+    });
+
+    it("should pay a bonus as its own run (FHE)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const [, nextPayDate] = await payGramCore.getPaySchedule(
+        employee1.address
+      );
+
+      try {
+        await expect(
+          payGramCore
+            .connect(employer)
+            .payBonusPlaintext(employee1.address, 1000, "spot bonus")
+        )
+          .to.emit(payGramCore, "BonusPaid")
+          .withArgs(1, employee1.address, "spot bonus");
+      } catch {
+        this.skip();
+      }
+
+      expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
+      const [paymentIds, , employeesPaid] = await payGramCore.getPayrollRun(1);
+      expect(paymentIds.length).to.equal(1);
+      expect(employeesPaid).to.equal(1);
+
+      // Unscored employees default to escrow, like salary
+      const [employee, status, , , , runId] =
+        await payGramCore.getPendingPayment(paymentIds[0]);
+      expect(employee).to.equal(employee1.address);
+      expect(status).to.equal(3); // Escrowed
+      expect(runId).to.equal(1);
+
+      // Regular pay schedule is untouched
+      const [, nextAfter] = await payGramCore.getPaySchedule(employee1.address);
+      expect(nextAfter).to.equal(nextPayDate);
+    });
+  });
+
+  // ================================================================
+  //  PAYMENT MANAGEMENT
+  // ================================================================
+
+  describe("Payment Management", function () {
+    // Helper: set up a delayed payment manually by creating an unscored
+    // employee payroll (creates escrowed). We test release/cancel logic
+    // on the resulting PendingPayment.
+
+    it("should revert release for non-existent payment", async function () {
+      await expect(
+        payGramCore.connect(employer).releasePayment(999)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should revert cancel for non-existent payment", async function () {
+      await expect(
+        payGramCore.connect(employer).cancelPayment(999)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should release an escrowed payment (employer approval)", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+
+      // Execute payroll → creates escrowed payment (no score)
+      await payGramCore.connect(employer).executePayroll();
+
+      // Release escrowed payment
+      await expect(payGramCore.connect(employer).releasePayment(0))
+        .to.emit(payGramCore, "PaymentReleased")
+        .withArgs(0, employee1.address);
+
+      const [, status] = await payGramCore.getPendingPayment(0);
+      expect(status).to.equal(4); // Released = 4
+    });
+
+    it("should reject non-employer releasing escrowed payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      await expect(
+        payGramCore.connect(unauthorized).releasePayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should cancel a pending escrowed payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      await expect(payGramCore.connect(employer).cancelPayment(0))
+        .to.emit(payGramCore, "PaymentCancelled")
+        .withArgs(0, employee1.address);
+
+      const [, status] = await payGramCore.getPendingPayment(0);
+      expect(status).to.equal(5); // Completed = 5
+    });
+
+    it("should reject cancelling already-released payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).releasePayment(0);
+
+      await expect(
+        payGramCore.connect(employer).cancelPayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentAlreadyProcessed");
+    });
+
+    it("should reject releasing already-released payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).releasePayment(0);
+
+      await expect(
+        payGramCore.connect(employer).releasePayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+    });
+
+    it("should reject releasing cancelled payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).cancelPayment(0);
+
+      await expect(
+        payGramCore.connect(employer).releasePayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+    });
+
+    it("should reject non-employer cancelling payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      await expect(
+        payGramCore.connect(unauthorized).cancelPayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should track escrowed and cancelled amounts in the treasury split", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      const [, committed, before] = await payGramCore.getTreasurySplit();
+      expect(committed).to.not.equal(ethers.ZeroHash);
+      expect(before).to.equal(ethers.ZeroHash);
+
+      await payGramCore.connect(employer).cancelPayment(0);
+      const [, , after] = await payGramCore.getTreasurySplit();
+      expect(after).to.not.equal(ethers.ZeroHash);
+    });
+
+    it("should withdraw cancelled amounts to the employer", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).cancelPayment(0);
+
+      await expect(payGramCore.connect(employer).withdrawUnallocated())
+        .to.emit(payGramCore, "UnallocatedWithdrawn")
+        .withArgs(employer.address);
+    });
+
+    it("should reject withdrawing when nothing was cancelled", async function () {
+      await expect(
+        payGramCore.connect(employer).withdrawUnallocated()
+      ).to.be.revertedWithCustomError(payGramCore, "NothingToWithdraw");
+    });
+
+    it("should reject non-employer withdrawing unallocated funds", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).withdrawUnallocated()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should track pending payments for an employee", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(PAY_PERIOD);
+      await payGramCore.connect(employer).executePayroll();
+
+      const payments = await payGramCore.getPendingPaymentsForEmployee(
+        employee1.address
+      );
+      expect(payments.length).to.equal(2);
+      expect(payments[0]).to.equal(0);
+      expect(payments[1]).to.equal(1);
+    });
+
+    it("should list releasable payments", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      // Escrowed payment is always releasable (by employer)
+      const releasable = await payGramCore.getReleasablePayments();
+      expect(releasable.length).to.equal(1);
+      expect(releasable[0]).to.equal(0);
+    });
+
+    it("should remove released payment from releasable list", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).releasePayment(0);
+
+      const releasable = await payGramCore.getReleasablePayments();
+      expect(releasable.length).to.equal(0);
+    });
+  });
+
+  // ================================================================
+  //  MILESTONES
+  // ================================================================
+
+  describe("Milestones", function () {
+    const DAY = 24 * 60 * 60;
+
+    /** Adds an unscored employee and runs payroll → escrowed payment 0. */
+    async function createEscrowOrSkip(ctx: Mocha.Context) {
+      await addEmployeeOrSkip(ctx, employee1, 5000, "contractor");
+      await payGramCore.connect(employer).executePayroll();
+    }
+
+    async function defineDefaultMilestone() {
+      const deadline = (await time.latest()) + 7 * DAY;
+      await payGramCore
+        .connect(employer)
+        .defineMilestone(0, "Ship the audit report", deadline);
+      return deadline;
+    }
+
+    it("should revert defineMilestone for non-existent payment", async function () {
+      const deadline = (await time.latest()) + DAY;
+      await expect(
+        payGramCore.connect(employer).defineMilestone(0, "Deliver", deadline)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should reject defineMilestone from non-employer", async function () {
+      const deadline = (await time.latest()) + DAY;
+      await expect(
+        payGramCore
+          .connect(unauthorized)
+          .defineMilestone(0, "Deliver", deadline)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should revert getMilestone for non-existent payment", async function () {
+      await expect(
+        payGramCore.getMilestone(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should define a milestone on an escrowed payment", async function () {
+      await createEscrowOrSkip(this);
+      const deadline = (await time.latest()) + 7 * DAY;
+
+      await expect(
+        payGramCore
+          .connect(employer)
+          .defineMilestone(0, "Ship the audit report", deadline)
+      )
+        .to.emit(payGramCore, "MilestoneDefined")
+        .withArgs(0, "Ship the audit report", deadline);
+
+      const [description, storedDeadline, state] =
+        await payGramCore.getMilestone(0);
+      expect(description).to.equal("Ship the audit report");
+      expect(storedDeadline).to.equal(deadline);
+      expect(state).to.equal(1); // Defined
+
+      const [, , , , milestone] = await payGramCore.getPendingPayment(0);
+      expect(milestone).to.equal("Ship the audit report");
+    });
+
+    it("should reject a deadline in the past", async function () {
+      await createEscrowOrSkip(this);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .defineMilestone(0, "Deliver", await time.latest())
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidDeadline");
+    });
+
+    it("should only let the paid employee submit a claim", async function () {
+      await createEscrowOrSkip(this);
+      await defineDefaultMilestone();
+
+      await expect(
+        payGramCore.connect(employee2).submitMilestoneClaim(0, "ipfs://x")
+      ).to.be.revertedWithCustomError(payGramCore, "NotPaymentRecipient");
+    });
+
+    it("should reject a claim before a milestone is defined", async function () {
+      await createEscrowOrSkip(this);
+      await expect(
+        payGramCore.connect(employee1).submitMilestoneClaim(0, "ipfs://x")
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidMilestoneState");
+    });
+
+    it("should reject a claim after the deadline", async function () {
+      await createEscrowOrSkip(this);
+      await defineDefaultMilestone();
+      await time.increase(8 * DAY);
+
+      await expect(
+        payGramCore.connect(employee1).submitMilestoneClaim(0, "ipfs://x")
+      ).to.be.revertedWithCustomError(payGramCore, "MilestoneDeadlinePassed");
+    });
+
+    it("should block bare release once a milestone is defined", async function () {
+      await createEscrowOrSkip(this);
+      await defineDefaultMilestone();
+
+      await expect(
+        payGramCore.connect(employer).releasePayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidMilestoneState");
+    });
+
+    it("should release the payment when a claim is approved", async function () {
+      await createEscrowOrSkip(this);
+      await defineDefaultMilestone();
+
+      await expect(
+        payGramCore.connect(employee1).submitMilestoneClaim(0, "ipfs://report")
+      )
+        .to.emit(payGramCore, "MilestoneClaimed")
+        .withArgs(0, employee1.address, "ipfs://report");
+
+      try {
+        await expect(payGramCore.connect(employer).approveMilestone(0))
+          .to.emit(payGramCore, "MilestoneApproved")
+          .withArgs(0)
+          .and.to.emit(payGramCore, "PaymentReleased");
+      } catch {
+        this.skip();
+      }
+
+      const [, , state, evidence] = await payGramCore.getMilestone(0);
+      expect(state).to.equal(3); // Approved
+      expect(evidence).to.equal("ipfs://report");
+      const [, status] = await payGramCore.getPendingPayment(0);
+      expect(status).to.equal(4); // Released
+    });
+
+    it("should allow resubmission after a rejection", async function () {
+      await createEscrowOrSkip(this);
+      await defineDefaultMilestone();
+      await payGramCore.connect(employee1).submitMilestoneClaim(0, "ipfs://v1");
+
+      await expect(
+        payGramCore.connect(employer).rejectMilestone(0, "Missing appendix")
+      )
+        .to.emit(payGramCore, "MilestoneRejected")
+        .withArgs(0, "Missing appendix");
+      expect((await payGramCore.getMilestone(0))[2]).to.equal(4); // Rejected
+
+      await payGramCore.connect(employee1).submitMilestoneClaim(0, "ipfs://v2");
+      const [, , state, evidence] = await payGramCore.getMilestone(0);
+      expect(state).to.equal(2); // Claimed
+      expect(evidence).to.equal("ipfs://v2");
+    });
+
+    it("should not approve or reject without a pending claim", async function () {
+      await createEscrowOrSkip(this);
+      await defineDefaultMilestone();
+
+      await expect(
+        payGramCore.connect(employer).approveMilestone(0)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidMilestoneState");
+      await expect(
+        payGramCore.connect(employer).rejectMilestone(0, "No claim")
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidMilestoneState");
+    });
+  });
+
+  // ================================================================
+  //  PARTIAL & SPLIT RELEASES
+  // ================================================================
+
+  describe("Partial & Split Releases", function () {
+    it("should revert partial release for non-existent payment", async function () {
+      await expect(
+        payGramCore.connect(employer).releasePartialPlaintext(0, 100)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should reject partial release from non-employer", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).releasePartialPlaintext(0, 100)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should revert split for non-existent payment", async function () {
+      await expect(
+        payGramCore.connect(employer).splitPaymentPlaintext(0, [100])
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should reject an empty or oversized tranche list", async function () {
+      await expect(
+        payGramCore.connect(employer).splitPaymentPlaintext(0, [])
+      ).to.be.revertedWithCustomError(payGramCore, "BatchTooLarge");
+
+      const tooMany = Array.from({ length: 11 }, () => 1);
+      await expect(
+        payGramCore.connect(employer).splitPaymentPlaintext(0, tooMany)
+      ).to.be.revertedWithCustomError(payGramCore, "BatchTooLarge");
+    });
+
+    it("should release part of an escrow and keep it pending", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "contractor");
+      await payGramCore.connect(employer).executePayroll();
+
+      try {
+        await expect(
+          payGramCore.connect(employer).releasePartialPlaintext(0, 2500)
+        )
+          .to.emit(payGramCore, "PaymentPartiallyReleased")
+          .withArgs(0, employee1.address, 1);
+      } catch {
+        this.skip();
+      }
+
+      const [, status] = await payGramCore.getPendingPayment(0);
+      expect(status).to.equal(3); // Still escrowed
+      expect(await payGramCore.releasedTranches(0)).to.equal(1);
+    });
+
+    it("should split a payment into independent tranches", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "contractor");
+      await payGramCore.connect(employer).executePayroll();
+
+      await expect(
+        payGramCore.connect(employer).splitPaymentPlaintext(0, [1000, 1500])
+      )
+        .to.emit(payGramCore, "PaymentSplit")
+        .withArgs(0, 1, employee1.address)
+        .and.to.emit(payGramCore, "PaymentSplit")
+        .withArgs(0, 2, employee1.address);
+
+      for (const id of [1, 2]) {
+        const [empAddr, status, , , , runId] =
+          await payGramCore.getPendingPayment(id);
+        expect(empAddr).to.equal(employee1.address);
+        expect(status).to.equal(3); // Escrowed, like the parent
+        expect(runId).to.equal(1);
+      }
+
+      const [paymentIds] = await payGramCore.getPayrollRun(1);
+      expect(paymentIds).to.deep.equal([0n, 1n, 2n]);
+    });
+
+    it("should not split a payment that is no longer pending", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "contractor");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).cancelPayment(0);
+
+      await expect(
+        payGramCore.connect(employer).splitPaymentPlaintext(0, [1000])
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+    });
+  });
+
+  // ================================================================
+  //  DELAYED PAYMENT TIME-LOCK
+  // ================================================================
+
+  describe("Delayed Payment Time-Lock", function () {
+    const HOLD = 25 * 60 * 60;
+
+    it("should revert delayed release for non-existent payment", async function () {
+      await expect(
+        payGramCore.releaseDelayed(999)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should reject early release of the delayed part", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      await expect(
+        payGramCore.connect(unauthorized).releaseDelayed(0)
+      ).to.be.revertedWithCustomError(payGramCore, "DelayNotElapsed");
+    });
+
+    it("should release the delayed part after the hold period", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(HOLD);
+
+      await expect(payGramCore.connect(unauthorized).releaseDelayed(0))
+        .to.emit(payGramCore, "DelayedAmountReleased")
+        .withArgs(0, employee1.address, 0);
+
+      // The escrowed part still waits for approval
+      const [, status, , releaseTime] = await payGramCore.getPendingPayment(0);
+      expect(status).to.equal(3); // Escrowed
+      expect(releaseTime).to.equal(0);
+      await expect(
+        payGramCore.releaseDelayed(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+    });
+
+    it("should cancel the delayed part with the payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).cancelPayment(0);
+      await time.increase(HOLD);
+
+      const [, , , releaseTime] = await payGramCore.getPendingPayment(0);
+      expect(releaseTime).to.equal(0);
+      await expect(
+        payGramCore.releaseDelayed(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotReleasable");
+    });
+
+    it("should reject empty and oversized claim batches", async function () {
+      await expect(
+        payGramCore.connect(employee1).claimDelayed([])
+      ).to.be.revertedWithCustomError(payGramCore, "BatchTooLarge");
+      await expect(
+        payGramCore
+          .connect(employee1)
+          .claimDelayed(Array.from({ length: 11 }, (_, i) => i))
+      ).to.be.revertedWithCustomError(payGramCore, "BatchTooLarge");
+    });
+
+    it("should let an employee claim several payments at once", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore
+        .connect(employer)
+        .payBonusPlaintext(employee1.address, 500, "spot bonus");
+      await time.increase(HOLD);
+
+      const tx = payGramCore.connect(employee1).claimDelayed([0, 1]);
+      for (const id of [0, 1]) {
+        await expect(tx)
+          .to.emit(payGramCore, "DelayedAmountReleased")
+          .withArgs(id, employee1.address, 0);
+      }
+    });
+
+    it("should only let employees claim their own payments", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(HOLD);
+
+      await expect(
+        payGramCore.connect(employee2).claimDelayed([0])
+      ).to.be.revertedWithCustomError(payGramCore, "NotPaymentRecipient");
+    });
+
+    it("should revert the whole claim if one payment has not matured", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(HOLD);
+      await payGramCore
+        .connect(employer)
+        .payBonusPlaintext(employee1.address, 500, "spot bonus");
+
+      await expect(
+        payGramCore.connect(employee1).claimDelayed([0, 1])
+      ).to.be.revertedWithCustomError(payGramCore, "DelayNotElapsed");
+    });
+  });
+
+  // ================================================================
+  //  PAYMENT CONFIGURATION
+  // ================================================================
+
+  describe("Payment Configuration", function () {
+    const HOUR = 60 * 60;
+    const DAY = 24 * HOUR;
+
+    it("should apply a new delay period at once without a timelock", async function () {
+      await expect(
+        payGramCore.connect(owner).setPaymentConfig(2 * HOUR, ethers.ZeroAddress, DAY)
+      )
+        .to.emit(payGramCore, "PaymentConfigUpdated")
+        .withArgs(2 * HOUR, ethers.ZeroAddress, DAY);
+
+      expect(await payGramCore.delayPeriod()).to.equal(2 * HOUR);
+      expect(await payGramCore.configDelay()).to.equal(DAY);
+    });
+
+    it("should reject configuration from non-owner", async function () {
+      await expect(
+        payGramCore.connect(employer).setPaymentConfig(2 * HOUR, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(payGramCore, "OwnableUnauthorizedAccount");
+    });
+
+    it("should require the approval gate once one is set", async function () {
+      await payGramCore.connect(owner).setApprovalGate(oracle.address);
+      await expect(
+        payGramCore.connect(owner).setPaymentConfig(2 * HOUR, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+
+      await payGramCore.connect(oracle).setPaymentConfig(2 * HOUR, ethers.ZeroAddress, 0);
+      expect(await payGramCore.delayPeriod()).to.equal(2 * HOUR);
+    });
+
+    it("should reject a delay period or timelock out of range", async function () {
+      await expect(
+        payGramCore.connect(owner).setPaymentConfig(HOUR - 1, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidDelayPeriod");
+      await expect(
+        payGramCore.connect(owner).setPaymentConfig(31 * DAY, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidDelayPeriod");
+      await expect(
+        payGramCore.connect(owner).setPaymentConfig(DAY, ethers.ZeroAddress, 31 * DAY)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidConfigDelay");
+    });
+
+    it("should schedule changes behind the timelock and apply them after the eta", async function () {
+      await payGramCore.connect(owner).setPaymentConfig(DAY, ethers.ZeroAddress, 2 * DAY);
+
+      const tx = await payGramCore
+        .connect(owner)
+        .setPaymentConfig(3 * DAY, ethers.ZeroAddress, 0);
+      const eta = (await time.latest()) + 2 * DAY;
+      await expect(tx)
+        .to.emit(payGramCore, "PaymentConfigScheduled")
+        .withArgs(3 * DAY, ethers.ZeroAddress, 0, eta);
+      expect(await payGramCore.delayPeriod()).to.equal(DAY);
+      expect(await payGramCore.getPendingPaymentConfig()).to.deep.equal([
+        3 * DAY,
+        ethers.ZeroAddress,
+        0,
+        eta,
+      ]);
+
+      await expect(
+        payGramCore.connect(unauthorized).applyPaymentConfig()
+      ).to.be.revertedWithCustomError(payGramCore, "ConfigNotReady");
+
+      await time.increase(2 * DAY);
+      await expect(payGramCore.connect(unauthorized).applyPaymentConfig())
+        .to.emit(payGramCore, "PaymentConfigUpdated")
+        .withArgs(3 * DAY, ethers.ZeroAddress, 0);
+      expect(await payGramCore.delayPeriod()).to.equal(3 * DAY);
+      expect((await payGramCore.getPendingPaymentConfig()).eta).to.equal(0);
+    });
+
+    it("should cancel a scheduled change", async function () {
+      await payGramCore.connect(owner).setPaymentConfig(DAY, ethers.ZeroAddress, 2 * DAY);
+      await payGramCore.connect(owner).setPaymentConfig(3 * DAY, ethers.ZeroAddress, 0);
+
+      await expect(payGramCore.connect(owner).cancelPaymentConfig())
+        .to.emit(payGramCore, "PaymentConfigCancelled");
+      await expect(
+        payGramCore.applyPaymentConfig()
+      ).to.be.revertedWithCustomError(payGramCore, "NoPendingConfig");
+      await expect(
+        payGramCore.connect(owner).cancelPaymentConfig()
+      ).to.be.revertedWithCustomError(payGramCore, "NoPendingConfig");
+    });
+
+    it("should hold new payments for the configured delay period", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(owner).setPaymentConfig(2 * HOUR, ethers.ZeroAddress, 0);
+      await payGramCore.connect(employer).executePayroll();
+
+      const [, , , releaseTime] = await payGramCore.getPendingPayment(0);
+      expect(releaseTime).to.equal((await time.latest()) + 2 * HOUR);
+
+      // Routed payments keep their release time
+      await payGramCore.connect(owner).setPaymentConfig(10 * DAY, ethers.ZeroAddress, 0);
+      await time.increase(2 * HOUR);
+      await expect(payGramCore.releaseDelayed(0))
+        .to.emit(payGramCore, "DelayedAmountReleased");
+    });
+
+    describe("Routing Policy", function () {
+      /** Instant, 70/30 split, delayed and escrow tiers. */
+      const TIERS = [
+        { minScore: 80, instantBps: 10_000, delayedBps: 0, delay: 0, name: "Trusted" },
+        { minScore: 60, instantBps: 7_000, delayedBps: 3_000, delay: 7 * DAY, name: "Established" },
+        { minScore: 30, instantBps: 0, delayedBps: 10_000, delay: 2 * DAY, name: "Building" },
+        { minScore: 0, instantBps: 0, delayedBps: 0, delay: 0, name: "New" },
+      ];
+
+      async function deployPolicy() {
+        const Factory = await ethers.getContractFactory("PayGramRoutingPolicy");
+        const policy = await Factory.deploy(TIERS);
+        const address = await policy.getAddress();
+        await trustScoring.connect(owner).setRoutingPolicy(address, true);
+        return address;
+      }
 
-        if (delayedId !== null) {
+      it("should route through the TrustScoring tiers by default", async function () {
+        expect(await payGramCore.routingPolicy()).to.equal(ethers.ZeroAddress);
+
+        const tiers = await payGramCore.getRoutingTiers();
+        expect(tiers.map((t) => t.minScore)).to.deep.equal([75n, 40n, 0n]);
+        expect(tiers.map((t) => t.instantBps)).to.deep.equal([10_000n, 0n, 0n]);
+        expect(tiers.map((t) => t.delayedBps)).to.deep.equal([0n, 10_000n, 0n]);
+        expect(tiers[1].delay).to.equal(DAY);
+      });
+
+      it("should follow TrustScoring thresholds and the delay period", async function () {
+        await trustScoring.connect(owner).setTierConfig(90, 50, 90 * DAY, 0);
+        await payGramCore.connect(owner).setPaymentConfig(2 * HOUR, ethers.ZeroAddress, 0);
+
+        const tiers = await payGramCore.getRoutingTiers();
+        expect(tiers.map((t) => t.minScore)).to.deep.equal([90n, 50n, 0n]);
+        expect(tiers[1].delay).to.equal(2 * HOUR);
+      });
+
+      it("should install a policy through the payment configuration", async function () {
+        const policy = await deployPolicy();
+
+        await expect(payGramCore.connect(owner).setPaymentConfig(DAY, policy, 0))
+          .to.emit(payGramCore, "PaymentConfigUpdated")
+          .withArgs(DAY, policy, 0);
+        expect(await payGramCore.routingPolicy()).to.equal(policy);
+
+        const tiers = await payGramCore.getRoutingTiers();
+        expect(tiers.map((t) => t.name)).to.deep.equal([
+          "Trusted",
+          "Established",
+          "Building",
+          "New",
+        ]);
+      });
+
+      it("should schedule a policy behind the timelock", async function () {
+        const policy = await deployPolicy();
+        await payGramCore.connect(owner).setPaymentConfig(DAY, ethers.ZeroAddress, DAY);
+        await payGramCore.connect(owner).setPaymentConfig(DAY, policy, DAY);
+
+        expect(await payGramCore.routingPolicy()).to.equal(ethers.ZeroAddress);
+        expect((await payGramCore.getPendingPaymentConfig()).pendingRoutingPolicy)
+          .to.equal(policy);
+
+        await time.increase(DAY);
+        await payGramCore.applyPaymentConfig();
+        expect(await payGramCore.routingPolicy()).to.equal(policy);
+      });
+
+      it("should reject a routing policy that is not a policy contract", async function () {
+        for (const configDelay of [0, DAY]) {
+          await payGramCore
+            .connect(owner)
+            .setPaymentConfig(DAY, ethers.ZeroAddress, configDelay);
+          await expect(
+            payGramCore.connect(owner).setPaymentConfig(DAY, employee1.address, 0)
+          ).to.be.revertedWithCustomError(payGramCore, "InvalidRoutingPolicy");
           await expect(
-            payGramCore.connect(employer).releasePayment(delayedId)
-          ).to.be.revertedWithCustomError(payGramCore, "DelayNotElapsed");
+            payGramCore
+              .connect(owner)
+              .setPaymentConfig(DAY, await trustScoring.getAddress(), 0)
+          ).to.be.revertedWithCustomError(payGramCore, "InvalidRoutingPolicy");
+        }
+      });
+
+      it("should reject a policy TrustScoring has not registered", async function () {
+        const policy = await deployPolicy();
+        await trustScoring.connect(owner).setRoutingPolicy(policy, false);
+
+        await expect(
+          payGramCore.connect(owner).setPaymentConfig(DAY, policy, 0)
+        ).to.be.revertedWithCustomError(payGramCore, "InvalidRoutingPolicy");
+      });
+
+      it("should give every payment one delayed part per delayed tier", async function () {
+        await payGramCore.connect(owner).setPaymentConfig(DAY, await deployPolicy(), 0);
+        // Unscored, so the escrow tier; the record looks the same regardless
+        await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+        await payGramCore.connect(employer).executePayroll();
+        const routedAt = await time.latest();
+
+        let [, , , releaseTime] = await payGramCore.getPendingPayment(0);
+        expect(releaseTime).to.equal(routedAt + 2 * DAY);
+
+        await time.increase(2 * DAY);
+        await expect(payGramCore.releaseDelayed(0))
+          .to.emit(payGramCore, "DelayedAmountReleased")
+          .withArgs(0, employee1.address, routedAt + 7 * DAY);
+        await expect(
+          payGramCore.releaseDelayed(0)
+        ).to.be.revertedWithCustomError(payGramCore, "DelayNotElapsed");
+
+        await time.increase(5 * DAY);
+        await expect(payGramCore.releaseDelayed(0))
+          .to.emit(payGramCore, "DelayedAmountReleased")
+          .withArgs(0, employee1.address, 0);
+        [, , , releaseTime] = await payGramCore.getPendingPayment(0);
+        expect(releaseTime).to.equal(0);
+      });
+
+      it("should count a payment once when the keeper releases its parts", async function () {
+        await payGramCore.connect(owner).setPaymentConfig(DAY, await deployPolicy(), 0);
+        await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+        await payGramCore.connect(employer).executePayroll();
+        await time.increase(7 * DAY);
+
+        expect(await payGramCore.getMaturedPayments(10)).to.deep.equal([0n]);
+        const [, performData] = await payGramCore.checkUpkeep("0x");
+        expect(
+          await payGramCore.releaseMatured.staticCall(10)
+        ).to.equal(
+          ethers.AbiCoder.defaultAbiCoder().decode(["uint256"], performData)[0]
+        );
+
+        await expect(payGramCore.performUpkeep(performData))
+          .to.emit(payGramCore, "MaturedPaymentsReleased")
+          .withArgs(1, 1);
+        const [, , , releaseTime] = await payGramCore.getPendingPayment(0);
+        expect(releaseTime).to.equal(0);
+      });
+
+      it("should cancel the delayed parts still held", async function () {
+        await payGramCore.connect(owner).setPaymentConfig(DAY, await deployPolicy(), 0);
+        await addScoredEmployeeOrSkip(this, employee1, 5000, "engineer", 65);
+        await payGramCore.connect(employer).executePayroll();
+        await time.increase(2 * DAY);
+        await payGramCore.releaseDelayed(0);
+
+        await payGramCore.connect(employer).cancelPayment(0);
+        const [, status, , releaseTime] = await payGramCore.getPendingPayment(0);
+        expect(status).to.equal(5); // Completed
+        expect(releaseTime).to.equal(0);
+      });
+    });
+  });
+
+  // ================================================================
+  //  TIER INDISTINGUISHABILITY
+  // ================================================================
+
+  describe("Tier Indistinguishability", function () {
+    const HOLD = 25 * 60 * 60;
+
+    /**
+     * Everything a chain observer learns about one employee's payment:
+     * the core's event names and the token transfers addressed to them,
+     * plus the record's public fields relative to its creation.
+     */
+    async function observe(
+      receipts: ContractTransactionReceipt[],
+      wallet: string,
+      paymentId: bigint
+    ) {
+      const topic = ethers.zeroPadValue(wallet, 32).toLowerCase();
+      const coreAddress = (await payGramCore.getAddress()).toLowerCase();
+      const tokenAddress = (await payGramToken.getAddress()).toLowerCase();
+      const events: string[] = [];
+      let transfers = 0;
+      for (const log of receipts.flatMap((r) => r.logs)) {
+        if (!log.topics.map((t) => t.toLowerCase()).includes(topic)) continue;
+        const address = log.address.toLowerCase();
+        if (address === coreAddress) {
+          events.push(payGramCore.interface.parseLog(log)!.name);
+        } else if (address === tokenAddress) {
+          transfers++;
         }
+      }
+
+      const [, status, createdAt, releaseTime, milestone] =
+        await payGramCore.getPendingPayment(paymentId);
+      const handles = await payGramCore.getPaymentBreakdown(paymentId);
+      return {
+        events,
+        transfers,
+        status,
+        hold: releaseTime - createdAt,
+        milestone,
+        zeroHandles: handles.filter((h) => h === ethers.ZeroHash).length,
+      };
+    }
+
+    /**
+     * Pays employee1 (unscored), employee2 (HIGH) and employee3 (LOW) in
+     * one run and returns the receipt of every chunk.
+     */
+    async function payMixedRosterOrSkip(ctx: Mocha.Context) {
+      await addEmployeeOrSkip(ctx, employee1, 5000, "engineer");
+      await addScoredEmployeeOrSkip(ctx, employee2, 5000, "engineer", 90);
+      await addScoredEmployeeOrSkip(ctx, employee3, 5000, "engineer", 20);
+      try {
+        const receipts: ContractTransactionReceipt[] = [];
+        do {
+          const tx = await payGramCore.connect(employer).executePayroll();
+          receipts.push((await tx.wait())!);
+        } while ((await payGramCore.getPayrollProgress())[0] !== 0n);
+        return receipts;
       } catch {
-        this.skip();
+        ctx.skip();
+      }
+    }
+
+    it("should create one record per employee per run (FHE)", async function () {
+      await payMixedRosterOrSkip(this);
+
+      const [paymentIds] = await payGramCore.getPayrollRun(1);
+      expect(paymentIds).to.deep.equal([0n, 1n, 2n]);
+      for (const [id, wallet] of [
+        [0n, employee1.address],
+        [1n, employee2.address],
+        [2n, employee3.address],
+      ] as const) {
+        const [employee] = await payGramCore.getPendingPayment(id);
+        expect(employee).to.equal(wallet);
       }
     });
 
-    it("should release delayed payment after hold period (FHE path)", async function () {
-      await addScoredEmployeeOrSkip(this, employee1, 5000, "engineer", 50);
+    it("should not distinguish scored from unscored employees (FHE)", async function () {
+      const receipts = await payMixedRosterOrSkip(this);
+
+      const unscored = await observe(receipts!, employee1.address, 0n);
+      const low = await observe(receipts!, employee3.address, 2n);
+      expect(unscored.events).to.deep.equal(["PaymentRouted"]);
+      expect(unscored.transfers).to.equal(1);
+      expect(unscored.zeroHandles).to.equal(0);
+      expect(low).to.deep.equal(unscored);
+    });
+
+    /**
+     * Pays `wallet` alone from freshly deployed contracts, scoring it
+     * first unless `score` is null, and returns what the whole receipt
+     * shows: the emitter of every log, in order, and the gas used.
+     */
+    async function payAlone(
+      ctx: Mocha.Context,
+      wallet: HardhatEthersSigner,
+      score: number | null
+    ) {
+      const scoring = await (
+        await ethers.getContractFactory("TrustScoring")
+      ).deploy(owner.address);
+      const token = await (
+        await ethers.getContractFactory("PayGramToken")
+      ).deploy(owner.address, 0);
+      const core = await (
+        await ethers.getContractFactory("PayGramCore")
+      ).deploy(
+        owner.address,
+        employer.address,
+        await scoring.getAddress(),
+        await token.getAddress()
+      );
+      const labels: Record<string, string> = {
+        [await scoring.getAddress()]: "TrustScoring",
+        [await token.getAddress()]: "PayGramToken",
+        [await core.getAddress()]: "PayGramCore",
+      };
 
+      let receipt: ContractTransactionReceipt;
       try {
-        await payGramCore.connect(employer).executePayroll();
-
-        let delayedId: number | null = null;
-        const total = Number(await payGramCore.nextPaymentId());
-        for (let i = 0; i < total; i++) {
-          const [, status] = await payGramCore.getPendingPayment(i);
-          if (status === 2n) {
-            delayedId = i;
-            break;
-          }
+        await token.connect(owner).mint(await core.getAddress(), 100_000_000);
+        if (score !== null) {
+          await scoring.connect(owner).setOracle(oracle.address, true);
+          await scoring
+            .connect(oracle)
+            .setTrustScorePlaintext(wallet.address, score);
         }
+        await core
+          .connect(employer)
+          .addEmployeePlaintext(wallet.address, 5_173, "engineer");
+        receipt = (await (
+          await core.connect(employer).executePayroll()
+        ).wait())!;
+      } catch {
+        ctx.skip();
+      }
+      return {
+        emitters: receipt!.logs.map((log) => labels[log.address] ?? log.address),
+        gasUsed: receipt!.gasUsed,
+      };
+    }
 
-        if (delayedId !== null) {
-          // Advance time past 24h delay
-          await time.increase(25 * 60 * 60);
+    it("should leave the same receipt for scored and unscored employees (FHE)", async function () {
+      // Plaintext inputs give the same handles wherever they are used, so
+      // values no other test pays keep earlier grants out of the gas. The
+      // shared salary makes the first run pay for the employer's grant on
+      // it; warm that up with an unrelated score
+      await payAlone(this, unauthorized, 57);
+
+      const unscored = await payAlone(this, employee1, null);
+      const high = await payAlone(this, employee2, 93);
+      const low = await payAlone(this, employee3, 17);
+
+      expect(unscored.emitters.length).to.be.gt(0);
+      expect(high).to.deep.equal(unscored);
+      expect(low).to.deep.equal(unscored);
+    });
+
+    it("should not distinguish HIGH from LOW trust (FHE)", async function () {
+      const receipts = await payMixedRosterOrSkip(this);
+
+      const high = await observe(receipts!, employee2.address, 1n);
+      const low = await observe(receipts!, employee3.address, 2n);
+      expect(high).to.deep.equal(low);
+    });
+
+    it("should settle every tier through the same steps (FHE)", async function () {
+      await payMixedRosterOrSkip(this);
+      expect(await payGramCore.getReleasablePayments()).to.deep.equal([
+        0n,
+        1n,
+        2n,
+      ]);
+      expect(await payGramCore.getMaturedPayments(10)).to.deep.equal([]);
+
+      await time.increase(HOLD);
+      expect(await payGramCore.getMaturedPayments(10)).to.deep.equal([
+        0n,
+        1n,
+        2n,
+      ]);
+      const tx = payGramCore.connect(unauthorized).releaseMatured(10);
+      for (const [id, wallet] of [
+        [0, employee1.address],
+        [1, employee2.address],
+        [2, employee3.address],
+      ] as const) {
+        await expect(tx)
+          .to.emit(payGramCore, "DelayedAmountReleased")
+          .withArgs(id, wallet, 0);
+      }
 
-          await expect(
-            payGramCore.releasePayment(delayedId)
-          ).to.emit(payGramCore, "PaymentReleased");
+      for (const id of [0, 1, 2]) {
+        await expect(payGramCore.connect(employer).releasePayment(id))
+          .to.emit(payGramCore, "PaymentReleased");
+      }
+      expect(await payGramCore.getReleasablePayments()).to.deep.equal([]);
+    });
+  });
+
+  // ================================================================
+  //  KEEPER AUTOMATION
+  // ================================================================
+
+  describe("Keeper Automation", function () {
+    const HOLD = 25 * 60 * 60;
+
+    it("should report no upkeep when nothing has matured", async function () {
+      const [needed, performData] = await payGramCore.checkUpkeep("0x");
+      expect(needed).to.equal(false);
+      const [count] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ["uint256"],
+        performData
+      );
+      expect(count).to.equal(0);
+      expect(await payGramCore.getMaturedPayments(10)).to.deep.equal([]);
+    });
+
+    it("should release nothing without matured payments", async function () {
+      expect(
+        await payGramCore.connect(unauthorized).releaseMatured.staticCall(10)
+      ).to.equal(0);
+      await expect(
+        payGramCore.connect(unauthorized).releaseMatured(10)
+      ).to.not.emit(payGramCore, "MaturedPaymentsReleased");
+    });
+
+    it("should accept performData from checkUpkeep", async function () {
+      const [, performData] = await payGramCore.checkUpkeep("0x");
+      await expect(payGramCore.performUpkeep(performData)).to.not.be.reverted;
+    });
+
+    it("should release matured delayed payments in a batch (FHE path)", async function () {
+      await addScoredEmployeeOrSkip(this, employee1, 5000, "engineer", 50);
+      await addScoredEmployeeOrSkip(this, employee2, 3000, "designer", 50);
+
+      try {
+        await payGramCore.connect(employer).executePayroll();
+        expect((await payGramCore.checkUpkeep("0x"))[0]).to.equal(false);
+
+        await time.increase(HOLD);
+        const [needed] = await payGramCore.checkUpkeep("0x");
+        expect(needed).to.equal(true);
+
+        const matured = await payGramCore.getMaturedPayments(10);
+        await expect(payGramCore.connect(unauthorized).releaseMatured(10))
+          .to.emit(payGramCore, "MaturedPaymentsReleased");
+
+        // Only the delayed parts were paid; escrow still needs approval
+        for (const id of matured) {
+          const [, status, , releaseTime] =
+            await payGramCore.getPendingPayment(id);
+          expect(status).to.equal(3); // Escrowed
+          expect(releaseTime).to.equal(0);
         }
+        expect(await payGramCore.maturedScanFrom()).to.equal(
+          await payGramCore.nextPaymentId()
+        );
       } catch {
         this.skip();
       }
     });
+
+    it("should leave escrowed payments for the employer", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(HOLD);
+
+      await payGramCore.releaseMatured(10);
+
+      const [, status] = await payGramCore.getPendingPayment(0);
+      expect(status).to.equal(3); // Escrowed
+      expect(await payGramCore.maturedScanFrom()).to.equal(1);
+    });
+  });
+
+  // ================================================================
+  //  PAY SCHEDULE
+  // ================================================================
+
+  describe("Pay Schedule", function () {
+    const WEEKLY = 1;
+    const MONTHLY = 4;
+    const WEEK = 7 * 24 * 60 * 60;
+
+    it("should default to a monthly pay frequency", async function () {
+      expect(await payGramCore.defaultPayFrequency()).to.equal(MONTHLY);
+    });
+
+    it("should allow employer to change the default frequency", async function () {
+      await expect(
+        payGramCore.connect(employer).setDefaultPayFrequency(WEEKLY)
+      )
+        .to.emit(payGramCore, "DefaultPayFrequencyUpdated")
+        .withArgs(WEEKLY);
+      expect(await payGramCore.defaultPayFrequency()).to.equal(WEEKLY);
+    });
+
+    it("should reject ContractDefault as the contract-wide frequency", async function () {
+      await expect(
+        payGramCore.connect(employer).setDefaultPayFrequency(0)
+      ).to.be.revertedWithCustomError(payGramCore, "InvalidPayFrequency");
+    });
+
+    it("should reject frequency changes from non-employer", async function () {
+      await expect(
+        payGramCore.connect(unauthorized).setDefaultPayFrequency(WEEKLY)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should revert employee frequency override for unknown address", async function () {
+      await expect(
+        payGramCore
+          .connect(employer)
+          .setEmployeePayFrequency(employee1.address, WEEKLY)
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
+    });
+
+    it("should revert getPaySchedule for unknown address", async function () {
+      await expect(
+        payGramCore.getPaySchedule(employee1.address)
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
+    });
+
+    it("should return no schedules initially", async function () {
+      const [wallets, dates, dueCount] = await payGramCore.getPaySchedules();
+      expect(wallets.length).to.equal(0);
+      expect(dates.length).to.equal(0);
+      expect(dueCount).to.equal(0);
+    });
+
+    it("should make new employees due immediately", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+
+      const [frequency, , isDue] = await payGramCore.getPaySchedule(
+        employee1.address
+      );
+      expect(frequency).to.equal(MONTHLY);
+      expect(isDue).to.equal(true);
+    });
+
+    it("should not pay an employee twice in one period", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).executePayroll();
+
+      expect(await payGramCore.nextPaymentId()).to.equal(1);
+      const [, , employeesPaid] = await payGramCore.getPayrollRun(2);
+      expect(employeesPaid).to.equal(0);
+
+      const [, nextPayDate, isDue] = await payGramCore.getPaySchedule(
+        employee1.address
+      );
+      expect(isDue).to.equal(false);
+      expect(nextPayDate).to.be.gt(await time.latest());
+    });
+
+    it("should pay again once the period has elapsed", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      await time.increase(PAY_PERIOD);
+      const [, , dueCount] = await payGramCore.getPaySchedules();
+      expect(dueCount).to.equal(1);
+
+      await payGramCore.connect(employer).executePayroll();
+      expect(await payGramCore.nextPaymentId()).to.equal(2);
+    });
+
+    it("should honour a per-employee frequency override", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await addEmployeeOrSkip(this, employee2, 5000, "designer");
+      await expect(
+        payGramCore
+          .connect(employer)
+          .setEmployeePayFrequency(employee1.address, WEEKLY)
+      )
+        .to.emit(payGramCore, "EmployeePayFrequencyUpdated")
+        .withArgs(employee1.address, WEEKLY);
+
+      await payGramCore.connect(employer).executePayroll();
+      await time.increase(WEEK);
+      await payGramCore.connect(employer).executePayroll();
+
+      // Weekly employee1 is paid twice, monthly employee2 once
+      expect(
+        (await payGramCore.getPendingPaymentsForEmployee(employee1.address))
+          .length
+      ).to.equal(2);
+      expect(
+        (await payGramCore.getPendingPaymentsForEmployee(employee2.address))
+          .length
+      ).to.equal(1);
+    });
   });
 
   // ================================================================
@@ -720,6 +2539,12 @@ describe("PayGramCore", function () {
       ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
     });
 
+    it("should revert getPayrollRun for a run that never executed", async function () {
+      await expect(
+        payGramCore.getPayrollRun(1)
+      ).to.be.revertedWithCustomError(payGramCore, "PayrollRunNotFound");
+    });
+
     it("should return employee data correctly", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
 
@@ -757,6 +2582,33 @@ describe("PayGramCore", function () {
       expect(releasable.length).to.equal(0);
     });
 
+    it("should revert getEncryptedSalary for unknown address", async function () {
+      await expect(
+        payGramCore.getEncryptedSalary(employee1.address)
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
+    });
+
+    it("should revert getEncryptedPaymentAmount for non-existent ID", async function () {
+      await expect(
+        payGramCore.getEncryptedPaymentAmount(0)
+      ).to.be.revertedWithCustomError(payGramCore, "PaymentNotFound");
+    });
+
+    it("should expose the encrypted salary handle", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      const handle = await payGramCore.getEncryptedSalary(employee1.address);
+      expect(handle).to.not.equal(ethers.ZeroHash);
+    });
+
+    it("should expose the encrypted amount of an escrowed payment", async function () {
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      expect(await payGramCore.getEncryptedPaymentAmount(0)).to.not.equal(
+        ethers.ZeroHash
+      );
+    });
+
     it("should return payment details correctly", async function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
       await payGramCore.connect(employer).executePayroll();
@@ -766,7 +2618,8 @@ describe("PayGramCore", function () {
       expect(empAddr).to.equal(employee1.address);
       expect(status).to.equal(3); // Escrowed
       expect(createdAt).to.be.gt(0);
-      expect(releaseTime).to.equal(0); // No time-lock for escrow
+      // Every record carries the policy's delayed-part schedule
+      expect(releaseTime).to.be.gt(createdAt);
       expect(milestone).to.equal("Pending employer approval");
     });
   });
@@ -862,6 +2715,206 @@ describe("PayGramCore", function () {
     });
   });
 
+  // ================================================================
+  //  ORGANIZATION ROLES
+  // ================================================================
+
+  describe("Organization Roles", function () {
+    const PAYROLL_ADMIN = 0;
+    const HR = 1;
+    const APPROVER = 2;
+    const AUDITOR = 3;
+
+    let admin: HardhatEthersSigner;
+    let hr: HardhatEthersSigner;
+    let approver: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      [admin, hr, approver] = signers.slice(7, 10);
+    });
+
+    it("should grant a role and expose it as a bitmask", async function () {
+      await expect(payGramCore.connect(employer).grantRole(hr.address, HR))
+        .to.emit(payGramCore, "RoleGranted")
+        .withArgs(hr.address, HR);
+
+      expect(await payGramCore.roles(hr.address)).to.equal(1 << HR);
+      expect(await payGramCore.hasRole(hr.address, HR)).to.equal(true);
+      expect(await payGramCore.hasRole(hr.address, APPROVER)).to.equal(false);
+    });
+
+    it("should treat the employer as holding every role", async function () {
+      for (const role of [PAYROLL_ADMIN, HR, APPROVER, AUDITOR]) {
+        expect(await payGramCore.hasRole(employer.address, role)).to.equal(true);
+      }
+    });
+
+    it("should reject role changes from non-employer", async function () {
+      await expect(
+        payGramCore.connect(owner).grantRole(hr.address, HR)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+      await expect(
+        payGramCore.connect(unauthorized).revokeRole(hr.address, HR)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should reject granting a role to the zero address", async function () {
+      await expect(
+        payGramCore.connect(employer).grantRole(ethers.ZeroAddress, HR)
+      ).to.be.revertedWithCustomError(payGramCore, "ZeroAddress");
+    });
+
+    it("should revoke a role", async function () {
+      await payGramCore.connect(employer).grantRole(hr.address, HR);
+
+      await expect(payGramCore.connect(employer).revokeRole(hr.address, HR))
+        .to.emit(payGramCore, "RoleRevoked")
+        .withArgs(hr.address, HR);
+      expect(await payGramCore.hasRole(hr.address, HR)).to.equal(false);
+    });
+
+    it("should list current team members with their roles", async function () {
+      await payGramCore.connect(employer).grantRole(admin.address, PAYROLL_ADMIN);
+      await payGramCore.connect(employer).grantRole(hr.address, HR);
+      await payGramCore.connect(employer).grantRole(hr.address, AUDITOR);
+      await payGramCore.connect(employer).grantRole(approver.address, APPROVER);
+      await payGramCore.connect(employer).revokeRole(approver.address, APPROVER);
+
+      const [accounts, masks] = await payGramCore.getTeam();
+      expect(accounts).to.deep.equal([admin.address, hr.address]);
+      expect(masks).to.deep.equal([1 << PAYROLL_ADMIN, (1 << HR) | (1 << AUDITOR)]);
+    });
+
+    it("should let a payroll admin manage the pay schedule", async function () {
+      await payGramCore.connect(employer).grantRole(admin.address, PAYROLL_ADMIN);
+      await payGramCore.connect(admin).setDefaultPayFrequency(1);
+      expect(await payGramCore.defaultPayFrequency()).to.equal(1);
+    });
+
+    it("should let a payroll admin run payroll", async function () {
+      await payGramCore.connect(employer).grantRole(admin.address, PAYROLL_ADMIN);
+      await expect(payGramCore.connect(admin).executePayroll()).to.emit(
+        payGramCore,
+        "PayrollExecuted"
+      );
+    });
+
+    it("should keep roles to their own actions", async function () {
+      await payGramCore.connect(employer).grantRole(hr.address, HR);
+      await payGramCore.connect(employer).grantRole(approver.address, APPROVER);
+
+      await expect(
+        payGramCore.connect(hr).executePayroll()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+      await expect(
+        payGramCore.connect(hr).setDefaultPayFrequency(1)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+      await expect(
+        payGramCore.connect(approver).cancelPayment(0)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+      await expect(
+        payGramCore.connect(approver).removeEmployee(employee1.address)
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+      await expect(
+        payGramCore.connect(approver).withdrawUnallocated()
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+    });
+
+    it("should let HR edit the roster (FHE path)", async function () {
+      await payGramCore.connect(employer).grantRole(hr.address, HR);
+      try {
+        await payGramCore
+          .connect(hr)
+          .addEmployeePlaintext(employee1.address, 5000, "engineer");
+      } catch {
+        this.skip();
+      }
+
+      await expect(payGramCore.connect(hr).removeEmployee(employee1.address))
+        .to.emit(payGramCore, "EmployeeRemoved")
+        .withArgs(employee1.address);
+    });
+
+    it("should let an approver release escrow (FHE path)", async function () {
+      await payGramCore.connect(employer).grantRole(approver.address, APPROVER);
+      await addEmployeeOrSkip(this, employee1, 5000, "engineer");
+      await payGramCore.connect(employer).executePayroll();
+
+      await expect(payGramCore.connect(approver).releasePayment(0))
+        .to.emit(payGramCore, "PaymentReleased")
+        .withArgs(0, employee1.address);
+    });
+
+    it("should cap the number of auditors", async function () {
+      const max = Number(await payGramCore.MAX_AUDITORS());
+      for (let i = 0; i < max; i++) {
+        await payGramCore
+          .connect(employer)
+          .grantRole(ethers.Wallet.createRandom().address, AUDITOR);
+      }
+
+      await expect(
+        payGramCore.connect(employer).grantRole(hr.address, AUDITOR)
+      ).to.be.revertedWithCustomError(payGramCore, "TooManyAuditors");
+    });
+
+    it("should only share audit data with auditors", async function () {
+      await expect(
+        payGramCore
+          .connect(employer)
+          .grantAuditAccess(hr.address, [employee1.address], [])
+      ).to.be.revertedWithCustomError(payGramCore, "NotEmployer");
+
+      await payGramCore.connect(employer).grantRole(hr.address, AUDITOR);
+      await expect(
+        payGramCore
+          .connect(employer)
+          .grantAuditAccess(hr.address, [employee1.address], [])
+      ).to.be.revertedWithCustomError(payGramCore, "EmployeeNotFound");
+    });
+  });
+
+  // ================================================================
+  //  APPROVAL GATE
+  // ================================================================
+
+  describe("Approval Gate", function () {
+    it("should let the owner install a gate", async function () {
+      await expect(payGramCore.connect(owner).setApprovalGate(oracle.address))
+        .to.emit(payGramCore, "ApprovalGateUpdated")
+        .withArgs(oracle.address);
+      expect(await payGramCore.approvalGate()).to.equal(oracle.address);
+    });
+
+    it("should reject gate changes from non-owner", async function () {
+      await expect(
+        payGramCore.connect(employer).setApprovalGate(oracle.address)
+      ).to.be.revertedWithCustomError(payGramCore, "OwnableUnauthorizedAccount");
+    });
+
+    it("should route sensitive actions through the gate only", async function () {
+      await payGramCore.connect(owner).setApprovalGate(oracle.address);
+
+      await expect(
+        payGramCore.connect(employer).executePayroll()
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+      await expect(
+        payGramCore.connect(employer).updateSalaryPlaintext(employee1.address, 1)
+      ).to.be.revertedWithCustomError(payGramCore, "ApprovalRequired");
+      await expect(payGramCore.connect(oracle).executePayroll()).to.emit(
+        payGramCore,
+        "PayrollExecuted"
+      );
+    });
+
+    it("should leave other employer actions ungated", async function () {
+      await payGramCore.connect(owner).setApprovalGate(oracle.address);
+      await payGramCore.connect(employer).setDefaultPayFrequency(1);
+      expect(await payGramCore.defaultPayFrequency()).to.equal(1);
+    });
+  });
+
   // ================================================================
   //  ACCESS CONTROL (Ownable2Step)
   // ================================================================
@@ -906,7 +2959,9 @@ describe("PayGramCore", function () {
       await addEmployeeOrSkip(this, employee1, 5000, "engineer");
 
       await payGramCore.connect(employer).executePayroll();
+      await time.increase(PAY_PERIOD);
       await payGramCore.connect(employer).executePayroll();
+      await time.increase(PAY_PERIOD);
       await payGramCore.connect(employer).executePayroll();
 
       expect(await payGramCore.totalPayrollsExecuted()).to.equal(3);
@@ -0,0 +1,290 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  PayGramFactory,
+  PayGramCore,
+  TrustScoring,
+  PayGramToken,
+} from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * PayGramFactory Test Suite
+ *
+ * Covers tenant deployment through minimal-proxy clones and the registry.
+ * Nothing here needs the FHE coprocessor, so every test runs on vanilla
+ * Hardhat.
+ */
+
+describe("PayGramFactory", function () {
+  let factory: PayGramFactory;
+  let implementation: PayGramCore;
+  let trustScoring: TrustScoring;
+  let payGramToken: PayGramToken;
+
+  let owner: HardhatEthersSigner;
+  let employerA: HardhatEthersSigner;
+  let employerB: HardhatEthersSigner;
+  let unauthorized: HardhatEthersSigner;
+
+  /** Creates an organization and returns its PayGramCore clone. */
+  async function createOrg(
+    employer: HardhatEthersSigner,
+    name: string,
+    trust = ethers.ZeroAddress,
+    token = ethers.ZeroAddress
+  ): Promise<PayGramCore> {
+    const orgId = await factory.organizationCount();
+    await factory.connect(employer).createOrganization(name, trust, token);
+    const org = await factory.getOrganization(orgId);
+    return ethers.getContractAt("PayGramCore", org.core);
+  }
+
+  beforeEach(async function () {
+    [owner, employerA, employerB, unauthorized] = await ethers.getSigners();
+
+    const TrustScoringFactory =
+      await ethers.getContractFactory("TrustScoring");
+    trustScoring = await TrustScoringFactory.deploy(owner.address);
+    await trustScoring.waitForDeployment();
+
+    const PayGramTokenFactory =
+      await ethers.getContractFactory("PayGramToken");
+    payGramToken = await PayGramTokenFactory.deploy(owner.address, 0);
+    await payGramToken.waitForDeployment();
+
+    const PayGramCoreFactory =
+      await ethers.getContractFactory("PayGramCore");
+    implementation = await PayGramCoreFactory.deploy(
+      owner.address,
+      owner.address,
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+    await implementation.waitForDeployment();
+
+    const FactoryFactory = await ethers.getContractFactory("PayGramFactory");
+    factory = await FactoryFactory.deploy(
+      owner.address,
+      await implementation.getAddress(),
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+    await factory.waitForDeployment();
+  });
+
+  // ================================================================
+  //  DEPLOYMENT
+  // ================================================================
+
+  describe("Deployment", function () {
+    it("should store the implementation and shared defaults", async function () {
+      expect(await factory.owner()).to.equal(owner.address);
+      expect(await factory.coreImplementation()).to.equal(
+        await implementation.getAddress()
+      );
+      expect(await factory.defaultTrustScoring()).to.equal(
+        await trustScoring.getAddress()
+      );
+      expect(await factory.defaultPayToken()).to.equal(
+        await payGramToken.getAddress()
+      );
+      expect(await factory.organizationCount()).to.equal(0);
+    });
+
+    it("should reject zero addresses", async function () {
+      const FactoryFactory = await ethers.getContractFactory("PayGramFactory");
+      await expect(
+        FactoryFactory.deploy(
+          owner.address,
+          ethers.ZeroAddress,
+          await trustScoring.getAddress(),
+          await payGramToken.getAddress()
+        )
+      ).to.be.revertedWithCustomError(factory, "ZeroAddress");
+    });
+  });
+
+  // ================================================================
+  //  TENANT DEPLOYMENT
+  // ================================================================
+
+  describe("Tenant Deployment", function () {
+    it("should deploy a core owned and employed by the caller", async function () {
+      const core = await createOrg(employerA, "Acme");
+
+      expect(await core.owner()).to.equal(employerA.address);
+      expect(await core.employer()).to.equal(employerA.address);
+      expect(await core.trustScoring()).to.equal(
+        await trustScoring.getAddress()
+      );
+      expect(await core.payToken()).to.equal(await payGramToken.getAddress());
+      expect(await core.defaultPayFrequency()).to.equal(4);
+      expect(await factory.isOrganization(await core.getAddress())).to.be.true;
+    });
+
+    it("should emit OrganizationCreated", async function () {
+      await expect(
+        factory
+          .connect(employerA)
+          .createOrganization("Acme", ethers.ZeroAddress, ethers.ZeroAddress)
+      )
+        .to.emit(factory, "OrganizationCreated")
+        .withArgs(
+          0,
+          (core: string) => ethers.isAddress(core),
+          employerA.address,
+          "Acme"
+        );
+    });
+
+    it("should use tenant-supplied TrustScoring and token", async function () {
+      const ownTrust = await (
+        await ethers.getContractFactory("TrustScoring")
+      ).deploy(employerA.address);
+      const ownToken = await (
+        await ethers.getContractFactory("PayGramToken")
+      ).deploy(employerA.address, 0);
+
+      const core = await createOrg(
+        employerA,
+        "Acme",
+        await ownTrust.getAddress(),
+        await ownToken.getAddress()
+      );
+
+      expect(await core.trustScoring()).to.equal(await ownTrust.getAddress());
+      expect(await core.payToken()).to.equal(await ownToken.getAddress());
+      const org = await factory.getOrganization(0);
+      expect(org.trustScoring).to.equal(await ownTrust.getAddress());
+      expect(org.payToken).to.equal(await ownToken.getAddress());
+    });
+
+    it("should give each organization its own state", async function () {
+      const coreA = await createOrg(employerA, "Acme");
+      const coreB = await createOrg(employerB, "Globex");
+
+      expect(await coreA.getAddress()).to.not.equal(await coreB.getAddress());
+      await coreA.connect(employerA).setDefaultPayFrequency(1);
+      expect(await coreA.defaultPayFrequency()).to.equal(1);
+      expect(await coreB.defaultPayFrequency()).to.equal(4);
+
+      await expect(
+        coreB.connect(employerA).setDefaultPayFrequency(1)
+      ).to.be.revertedWithCustomError(coreB, "NotEmployer");
+    });
+
+    it("should reject an empty name", async function () {
+      await expect(
+        factory
+          .connect(employerA)
+          .createOrganization("", ethers.ZeroAddress, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(factory, "EmptyName");
+    });
+
+    it("should not let a clone be initialized twice", async function () {
+      const core = await createOrg(employerA, "Acme");
+      await expect(
+        core
+          .connect(unauthorized)
+          .initialize(
+            unauthorized.address,
+            unauthorized.address,
+            await trustScoring.getAddress(),
+            await payGramToken.getAddress()
+          )
+      ).to.be.revertedWithCustomError(core, "AlreadyInitialized");
+    });
+
+    it("should not let the implementation be initialized", async function () {
+      await expect(
+        implementation
+          .connect(unauthorized)
+          .initialize(
+            unauthorized.address,
+            unauthorized.address,
+            await trustScoring.getAddress(),
+            await payGramToken.getAddress()
+          )
+      ).to.be.revertedWithCustomError(implementation, "AlreadyInitialized");
+    });
+  });
+
+  // ================================================================
+  //  REGISTRY
+  // ================================================================
+
+  describe("Registry", function () {
+    beforeEach(async function () {
+      await createOrg(employerA, "Acme");
+      await createOrg(employerB, "Globex");
+      await createOrg(employerA, "Acme Labs");
+    });
+
+    it("should enumerate organizations in creation order", async function () {
+      expect(await factory.organizationCount()).to.equal(3);
+      const page = await factory.getOrganizations(0, 10);
+      expect(page.map((o) => o.name)).to.deep.equal([
+        "Acme",
+        "Globex",
+        "Acme Labs",
+      ]);
+    });
+
+    it("should page through the registry", async function () {
+      const page = await factory.getOrganizations(1, 1);
+      expect(page.length).to.equal(1);
+      expect(page[0].name).to.equal("Globex");
+      expect((await factory.getOrganizations(3, 10)).length).to.equal(0);
+    });
+
+    it("should list organizations by employer", async function () {
+      const ids = await factory.getOrganizationsByEmployer(employerA.address);
+      expect(ids.map(Number)).to.deep.equal([0, 2]);
+      expect(
+        await factory.getOrganizationsByEmployer(unauthorized.address)
+      ).to.deep.equal([]);
+    });
+
+    it("should revert for an unknown organization", async function () {
+      await expect(factory.getOrganization(3)).to.be.revertedWithCustomError(
+        factory,
+        "OrganizationNotFound"
+      );
+    });
+  });
+
+  // ================================================================
+  //  ADMIN
+  // ================================================================
+
+  describe("Admin", function () {
+    it("should let the owner update the implementation and defaults", async function () {
+      const ownTrust = await (
+        await ethers.getContractFactory("TrustScoring")
+      ).deploy(owner.address);
+
+      await expect(factory.connect(owner).setCoreImplementation(employerA.address))
+        .to.emit(factory, "CoreImplementationUpdated")
+        .withArgs(employerA.address);
+      await expect(
+        factory
+          .connect(owner)
+          .setDefaults(await ownTrust.getAddress(), await payGramToken.getAddress())
+      )
+        .to.emit(factory, "DefaultsUpdated")
+        .withArgs(await ownTrust.getAddress(), await payGramToken.getAddress());
+    });
+
+    it("should reject admin calls from non-owner", async function () {
+      await expect(
+        factory.connect(unauthorized).setCoreImplementation(unauthorized.address)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(
+        factory
+          .connect(unauthorized)
+          .setDefaults(unauthorized.address, unauthorized.address)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+  });
+});
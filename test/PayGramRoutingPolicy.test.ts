@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PayGramRoutingPolicy } from "../typechain-types";
+
+/**
+ * PayGramRoutingPolicy Test Suite
+ *
+ * Covers tier validation and the views PayGramCore routes from. The
+ * policy itself holds no ciphertexts, so every test runs on vanilla
+ * Hardhat.
+ */
+
+describe("PayGramRoutingPolicy", function () {
+  const HOUR = 60 * 60;
+  const DAY = 24 * HOUR;
+
+  type Tier = {
+    minScore: number;
+    instantBps: number;
+    delayedBps: number;
+    delay: number;
+    name: string;
+  };
+
+  const tier = (
+    minScore: number,
+    instantBps: number,
+    delayedBps: number,
+    delay: number,
+    name = `Tier ${minScore}`
+  ): Tier => ({ minScore, instantBps, delayedBps, delay, name });
+
+  /** Instant, 70/30 split, delayed and escrow tiers. */
+  const TIERS = [
+    tier(80, 10_000, 0, 0, "Trusted"),
+    tier(60, 7_000, 3_000, 7 * DAY, "Established"),
+    tier(30, 0, 10_000, 2 * DAY, "Building"),
+    tier(0, 0, 0, 0, "New"),
+  ];
+
+  async function deploy(tiers: Tier[]): Promise<PayGramRoutingPolicy> {
+    const Factory = await ethers.getContractFactory("PayGramRoutingPolicy");
+    return Factory.deploy(tiers);
+  }
+
+  describe("Deployment", function () {
+    it("should store the tiers in order", async function () {
+      const policy = await deploy(TIERS);
+
+      expect(await policy.tierCount()).to.equal(4);
+      const tiers = await policy.getTiers();
+      expect(tiers.map((t) => t.name)).to.deep.equal([
+        "Trusted",
+        "Established",
+        "Building",
+        "New",
+      ]);
+
+      const split = await policy.getTier(1);
+      expect(split.minScore).to.equal(60);
+      expect(split.instantBps).to.equal(7_000);
+      expect(split.delayedBps).to.equal(3_000);
+      expect(split.delay).to.equal(7 * DAY);
+    });
+
+    it("should accept a single catch-all tier", async function () {
+      const policy = await deploy([tier(0, 10_000, 0, 0)]);
+      expect(await policy.tierCount()).to.equal(1);
+    });
+  });
+
+  describe("Validation", function () {
+    it("should reject no tiers or more than MAX_TIERS", async function () {
+      const Factory = await ethers.getContractFactory("PayGramRoutingPolicy");
+      await expect(deploy([])).to.be.revertedWithCustomError(
+        Factory,
+        "InvalidTierCount"
+      );
+
+      const nine = Array.from({ length: 9 }, (_, i) => tier(80 - i * 10, 0, 0, 0));
+      await expect(deploy(nine)).to.be.revertedWithCustomError(
+        Factory,
+        "InvalidTierCount"
+      );
+    });
+
+    it("should reject minimum scores that are unordered, above MAX_SCORE or without a catch-all", async function () {
+      const Factory = await ethers.getContractFactory("PayGramRoutingPolicy");
+      for (const tiers of [
+        [tier(40, 0, 0, 0), tier(60, 0, 0, 0), tier(0, 0, 0, 0)],
+        [tier(40, 0, 0, 0), tier(40, 0, 0, 0), tier(0, 0, 0, 0)],
+        [tier(101, 0, 0, 0), tier(0, 0, 0, 0)],
+        [tier(75, 0, 0, 0), tier(40, 0, 0, 0)],
+      ]) {
+        await expect(deploy(tiers)).to.be.revertedWithCustomError(
+          Factory,
+          "InvalidTierOrder"
+        );
+      }
+    });
+
+    it("should reject shares above 100%", async function () {
+      const Factory = await ethers.getContractFactory("PayGramRoutingPolicy");
+      await expect(
+        deploy([tier(0, 8_000, 3_000, DAY)])
+      ).to.be.revertedWithCustomError(Factory, "InvalidSplit");
+    });
+
+    it("should require a delay exactly when a share is delayed", async function () {
+      const Factory = await ethers.getContractFactory("PayGramRoutingPolicy");
+      for (const tiers of [
+        [tier(0, 0, 10_000, 0)],
+        [tier(0, 0, 10_000, HOUR - 1)],
+        [tier(0, 0, 10_000, 31 * DAY)],
+        [tier(0, 10_000, 0, DAY)],
+      ]) {
+        await expect(deploy(tiers)).to.be.revertedWithCustomError(
+          Factory,
+          "InvalidDelay"
+        );
+      }
+    });
+  });
+});
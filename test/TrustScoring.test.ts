@@ -1,5 +1,6 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { TrustScoring } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
@@ -55,15 +56,16 @@ describe("TrustScoring", function () {
       expect(await trustScoring.totalScoredAddresses()).to.equal(0);
     });
 
-    it("should expose correct threshold constants", async function () {
-      expect(await trustScoring.HIGH_TRUST_THRESHOLD()).to.equal(75);
-      expect(await trustScoring.MEDIUM_TRUST_THRESHOLD()).to.equal(40);
+    it("should start with the default thresholds", async function () {
+      expect(await trustScoring.highTrustThreshold()).to.equal(75);
+      expect(await trustScoring.mediumTrustThreshold()).to.equal(40);
       expect(await trustScoring.MAX_SCORE()).to.equal(100);
     });
 
-    it("should expose correct expiry constant", async function () {
+    it("should start with a 90-day expiry and no config timelock", async function () {
       const ninety_days = 90 * 24 * 60 * 60;
-      expect(await trustScoring.SCORE_EXPIRY()).to.equal(ninety_days);
+      expect(await trustScoring.scoreExpiry()).to.equal(ninety_days);
+      expect(await trustScoring.configDelay()).to.equal(0);
     });
 
     it("should not have any oracle authorized by default (before setUp)", async function () {
@@ -358,13 +360,32 @@ describe("TrustScoring", function () {
     it("should compute encrypted tier via getTrustTier", async function () {
       await setScoreOrSkip(this, user1, 85);
       try {
-        const tx = await trustScoring.getTrustTier(user1.address);
+        const tx = await trustScoring.getTrustTier(user1.address, ethers.ZeroAddress);
         expect(tx).to.not.be.reverted;
       } catch {
         this.skip();
       }
     });
 
+    it("should only evaluate registered routing policies", async function () {
+      await setScoreOrSkip(this, user1, 85);
+      const policy = await (
+        await ethers.getContractFactory("PayGramRoutingPolicy")
+      ).deploy([
+        { minScore: 50, instantBps: 10_000, delayedBps: 0, delay: 0, name: "Trusted" },
+        { minScore: 0, instantBps: 0, delayedBps: 0, delay: 0, name: "New" },
+      ]);
+      const policyAddress = await policy.getAddress();
+
+      await expect(
+        trustScoring.getTrustTier(user1.address, policyAddress)
+      ).to.be.revertedWithCustomError(trustScoring, "PolicyNotRegistered");
+
+      await trustScoring.connect(owner).setRoutingPolicy(policyAddress, true);
+      await expect(trustScoring.getTrustTier(user1.address, policyAddress)).to
+        .not.be.reverted;
+    });
+
     it("should revert isHighTrust for unscored address", async function () {
       await expect(
         trustScoring.isHighTrust(user1.address)
@@ -383,10 +404,20 @@ describe("TrustScoring", function () {
       ).to.be.revertedWithCustomError(trustScoring, "AccountNotScored");
     });
 
-    it("should revert getTrustTier for unscored address", async function () {
-      await expect(
-        trustScoring.getTrustTier(user1.address)
-      ).to.be.revertedWithCustomError(trustScoring, "AccountNotScored");
+    it("should put an unscored address in the last tier", async function () {
+      let tier: string;
+      try {
+        tier = await trustScoring.getTrustTier.staticCall(
+          user1.address,
+          ethers.ZeroAddress
+        );
+        await trustScoring.getTrustTier(user1.address, ethers.ZeroAddress);
+      } catch {
+        this.skip();
+      }
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint64, tier!)
+      ).to.equal(2n); // LOW
     });
   });
 
@@ -417,6 +448,62 @@ describe("TrustScoring", function () {
     });
   });
 
+  // ================================================================
+  //  SCORE AGGREGATES
+  // ================================================================
+
+  describe("Score Aggregates", function () {
+    it("should start with no aggregates", async function () {
+      const [sum, high, medium, low] = await trustScoring.getScoreAggregates();
+      expect(sum).to.equal(ethers.ZeroHash);
+      expect(high).to.equal(ethers.ZeroHash);
+      expect(medium).to.equal(ethers.ZeroHash);
+      expect(low).to.equal(ethers.ZeroHash);
+    });
+
+    it("should update every aggregate when a score is set", async function () {
+      try {
+        await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 80);
+      } catch {
+        this.skip();
+      }
+
+      const aggregates = await trustScoring.getScoreAggregates();
+      for (const handle of aggregates) {
+        expect(handle).to.not.equal(ethers.ZeroHash);
+      }
+    });
+
+    it("should replace the aggregates when a score is updated", async function () {
+      try {
+        await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 80);
+      } catch {
+        this.skip();
+      }
+      const [sumBefore, highBefore] = await trustScoring.getScoreAggregates();
+
+      await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 30);
+      const [sumAfter, highAfter] = await trustScoring.getScoreAggregates();
+      expect(sumAfter).to.not.equal(sumBefore);
+      expect(highAfter).to.not.equal(highBefore);
+      expect(await trustScoring.totalScoredAddresses()).to.equal(1);
+    });
+
+    it("should update the aggregates on revoke", async function () {
+      try {
+        await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 50);
+      } catch {
+        this.skip();
+      }
+      const [sumBefore] = await trustScoring.getScoreAggregates();
+
+      await trustScoring.connect(oracle).revokeScore(user1.address);
+      const [sumAfter] = await trustScoring.getScoreAggregates();
+      expect(sumAfter).to.not.equal(sumBefore);
+      expect(sumAfter).to.not.equal(ethers.ZeroHash);
+    });
+  });
+
   // ================================================================
   //  SCORE EXPIRY
   // ================================================================
@@ -461,6 +548,9 @@ describe("TrustScoring", function () {
         await expect(
           trustScoring.isHighTrust(user1.address)
         ).to.be.revertedWithCustomError(trustScoring, "ScoreExpired");
+        await expect(
+          trustScoring.getTrustTier(user1.address, ethers.ZeroAddress)
+        ).to.be.revertedWithCustomError(trustScoring, "ScoreExpired");
       } catch {
         this.skip();
       }
@@ -500,6 +590,145 @@ describe("TrustScoring", function () {
     });
   });
 
+  // ================================================================
+  //  TIER CONFIGURATION
+  // ================================================================
+
+  describe("Tier Configuration", function () {
+    const DAY = 24 * 60 * 60;
+
+    it("should apply a new configuration at once without a timelock", async function () {
+      await expect(trustScoring.connect(owner).setTierConfig(80, 50, 30 * DAY, 2 * DAY))
+        .to.emit(trustScoring, "TierConfigUpdated")
+        .withArgs(80, 50, 30 * DAY, 2 * DAY);
+
+      expect(await trustScoring.highTrustThreshold()).to.equal(80);
+      expect(await trustScoring.mediumTrustThreshold()).to.equal(50);
+      expect(await trustScoring.scoreExpiry()).to.equal(30 * DAY);
+      expect(await trustScoring.configDelay()).to.equal(2 * DAY);
+    });
+
+    it("should reject configuration from non-owner", async function () {
+      await expect(
+        trustScoring.connect(unauthorized).setTierConfig(80, 50, 30 * DAY, 0)
+      ).to.be.revertedWithCustomError(trustScoring, "OwnableUnauthorizedAccount");
+    });
+
+    it("should reject thresholds out of order or out of range", async function () {
+      for (const [high, medium] of [[50, 50], [40, 60], [101, 50], [80, 0]]) {
+        await expect(
+          trustScoring.connect(owner).setTierConfig(high, medium, 30 * DAY, 0)
+        ).to.be.revertedWithCustomError(trustScoring, "InvalidThresholds");
+      }
+    });
+
+    it("should reject an expiry or timelock out of range", async function () {
+      await expect(
+        trustScoring.connect(owner).setTierConfig(75, 40, 6 * DAY, 0)
+      ).to.be.revertedWithCustomError(trustScoring, "InvalidScoreExpiry");
+      await expect(
+        trustScoring.connect(owner).setTierConfig(75, 40, 366 * DAY, 0)
+      ).to.be.revertedWithCustomError(trustScoring, "InvalidScoreExpiry");
+      await expect(
+        trustScoring.connect(owner).setTierConfig(75, 40, 90 * DAY, 31 * DAY)
+      ).to.be.revertedWithCustomError(trustScoring, "InvalidConfigDelay");
+    });
+
+    it("should schedule changes behind the timelock", async function () {
+      await trustScoring.connect(owner).setTierConfig(75, 40, 90 * DAY, 2 * DAY);
+
+      const tx = await trustScoring.connect(owner).setTierConfig(85, 60, 60 * DAY, 0);
+      const eta = (await time.latest()) + 2 * DAY;
+      await expect(tx)
+        .to.emit(trustScoring, "TierConfigScheduled")
+        .withArgs(85, 60, 60 * DAY, 0, eta);
+
+      expect(await trustScoring.highTrustThreshold()).to.equal(75);
+      const pending = await trustScoring.getPendingTierConfig();
+      expect(pending.highThreshold).to.equal(85);
+      expect(pending.eta).to.equal(eta);
+    });
+
+    it("should apply a scheduled change only after its eta", async function () {
+      await trustScoring.connect(owner).setTierConfig(75, 40, 90 * DAY, 2 * DAY);
+      await trustScoring.connect(owner).setTierConfig(85, 60, 60 * DAY, 0);
+
+      await expect(
+        trustScoring.connect(unauthorized).applyTierConfig()
+      ).to.be.revertedWithCustomError(trustScoring, "ConfigNotReady");
+
+      await time.increase(2 * DAY);
+      await expect(trustScoring.connect(unauthorized).applyTierConfig())
+        .to.emit(trustScoring, "TierConfigUpdated")
+        .withArgs(85, 60, 60 * DAY, 0);
+
+      expect(await trustScoring.highTrustThreshold()).to.equal(85);
+      expect(await trustScoring.configDelay()).to.equal(0);
+      expect((await trustScoring.getPendingTierConfig()).eta).to.equal(0);
+    });
+
+    it("should cancel a scheduled change", async function () {
+      await trustScoring.connect(owner).setTierConfig(75, 40, 90 * DAY, 2 * DAY);
+      await trustScoring.connect(owner).setTierConfig(85, 60, 60 * DAY, 0);
+
+      await expect(
+        trustScoring.connect(unauthorized).cancelTierConfig()
+      ).to.be.revertedWithCustomError(trustScoring, "OwnableUnauthorizedAccount");
+      await expect(trustScoring.connect(owner).cancelTierConfig())
+        .to.emit(trustScoring, "TierConfigCancelled");
+
+      await expect(
+        trustScoring.applyTierConfig()
+      ).to.be.revertedWithCustomError(trustScoring, "NoPendingConfig");
+      await expect(
+        trustScoring.connect(owner).cancelTierConfig()
+      ).to.be.revertedWithCustomError(trustScoring, "NoPendingConfig");
+    });
+
+    it("should expire scores by the configured window", async function () {
+      try {
+        await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 80);
+      } catch {
+        this.skip();
+      }
+      await trustScoring.connect(owner).setTierConfig(75, 40, 30 * DAY, 0);
+
+      await time.increase(31 * DAY);
+      expect(await trustScoring.isScoreExpired(user1.address)).to.equal(true);
+    });
+
+    it("should keep aggregates consistent across a threshold change", async function () {
+      try {
+        await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 80);
+      } catch {
+        this.skip();
+      }
+      await trustScoring.connect(owner).setTierConfig(90, 40, 90 * DAY, 0);
+
+      // Counted as HIGH under the old thresholds, removed the same way
+      await trustScoring.connect(oracle).setTrustScorePlaintext(user1.address, 85);
+      await trustScoring.connect(oracle).revokeScore(user1.address);
+      expect(await trustScoring.totalScoredAddresses()).to.equal(0);
+    });
+
+    it("should let the owner register routing policies", async function () {
+      await expect(trustScoring.connect(owner).setRoutingPolicy(user2.address, true))
+        .to.emit(trustScoring, "RoutingPolicyRegistered")
+        .withArgs(user2.address, true);
+      expect(await trustScoring.registeredPolicies(user2.address)).to.equal(true);
+
+      await trustScoring.connect(owner).setRoutingPolicy(user2.address, false);
+      expect(await trustScoring.registeredPolicies(user2.address)).to.equal(false);
+
+      await expect(
+        trustScoring.connect(unauthorized).setRoutingPolicy(user2.address, true)
+      ).to.be.revertedWithCustomError(trustScoring, "OwnableUnauthorizedAccount");
+      await expect(
+        trustScoring.connect(owner).setRoutingPolicy(ethers.ZeroAddress, true)
+      ).to.be.revertedWithCustomError(trustScoring, "ZeroAddress");
+    });
+  });
+
   // ================================================================
   //  SCORE REVOCATION
   // ================================================================
@@ -428,15 +428,17 @@ describe("Trusted PayGram — Integration", function () {
         this.skip();
       }
 
-      // Check instant payment was recorded
+      // One record; the salary sits in its encrypted instant part
       const payments = await payGramCore.getPendingPaymentsForEmployee(
         employee1.address
       );
-      expect(payments.length).to.be.greaterThanOrEqual(1);
+      expect(payments.length).to.equal(1);
 
-      // Verify one payment has Instant status (enum value 1)
+      // Same public status as every other tier
       const p = await payGramCore.getPendingPayment(payments[0]);
-      expect(p.status).to.equal(1); // PaymentStatus.Instant
+      expect(p.status).to.equal(3); // PaymentStatus.Escrowed
+      const [instant] = await payGramCore.getPaymentBreakdown(payments[0]);
+      expect(instant).to.not.equal(ethers.ZeroHash);
     });
 
     it("should update lastPayDate for the employee", async function () {
@@ -488,15 +490,11 @@ describe("Trusted PayGram — Integration", function () {
       const payments = await payGramCore.getPendingPaymentsForEmployee(
         employee1.address
       );
-      expect(payments.length).to.be.greaterThanOrEqual(1);
+      expect(payments.length).to.equal(1);
 
-      // The medium trust path should have a Delayed payment (enum value 2)
-      let hasDelayed = false;
-      for (const pid of payments) {
-        const p = await payGramCore.getPendingPayment(pid);
-        if (p.status === 2n) hasDelayed = true;
-      }
-      expect(hasDelayed).to.be.true;
+      // The record holds a delayed part that unlocks after 24h
+      const p = await payGramCore.getPendingPayment(payments[0]);
+      expect(p.releaseTime - p.createdAt).to.equal(24 * 60 * 60);
     });
 
     it("should prevent release before the 24h delay expires", async function () {
@@ -517,22 +515,12 @@ describe("Trusted PayGram — Integration", function () {
         this.skip();
       }
 
-      // Find the delayed payment
-      const payments = await payGramCore.getPendingPaymentsForEmployee(
+      const [delayedId] = await payGramCore.getPendingPaymentsForEmployee(
         employee1.address
       );
-      let delayedId: bigint | null = null;
-      for (const pid of payments) {
-        const p = await payGramCore.getPendingPayment(pid);
-        if (p.status === 2n) {
-          delayedId = pid;
-          break;
-        }
-      }
-      expect(delayedId).to.not.be.null;
 
       await expect(
-        payGramCore.connect(employer).releasePayment(delayedId!)
+        payGramCore.connect(employer).releaseDelayed(delayedId)
       ).to.be.revertedWithCustomError(payGramCore, "DelayNotElapsed");
     });
 
@@ -554,27 +542,17 @@ describe("Trusted PayGram — Integration", function () {
         this.skip();
       }
 
-      // Find the delayed payment
-      const payments = await payGramCore.getPendingPaymentsForEmployee(
+      const [delayedId] = await payGramCore.getPendingPaymentsForEmployee(
         employee1.address
       );
-      let delayedId: bigint | null = null;
-      for (const pid of payments) {
-        const p = await payGramCore.getPendingPayment(pid);
-        if (p.status === 2n) {
-          delayedId = pid;
-          break;
-        }
-      }
-      expect(delayedId).to.not.be.null;
 
       // Advance time past the 24h delay
       await time.increase(24 * 60 * 60 + 1);
 
       try {
-        await expect(payGramCore.connect(employer).releasePayment(delayedId!))
-          .to.emit(payGramCore, "PaymentReleased")
-          .withArgs(delayedId, employee1.address);
+        await expect(payGramCore.connect(employer).releaseDelayed(delayedId))
+          .to.emit(payGramCore, "DelayedAmountReleased")
+          .withArgs(delayedId, employee1.address, 0);
       } catch {
         this.skip();
       }
@@ -766,14 +744,15 @@ describe("Trusted PayGram — Integration", function () {
           .connect(owner)
           .confidentialTransfer(coreAddress, bal);
 
+        // Three employees take two chunks of PAYROLL_BATCH_SIZE
+        await payGramCore.connect(employer).executePayroll();
         await payGramCore.connect(employer).executePayroll();
       } catch {
         this.skip();
       }
 
-      // Each scored employee creates 3 payments (instant/delayed/escrow from FHE.select)
-      // Total: 3 employees × 3 payments = 9
-      expect(await payGramCore.nextPaymentId()).to.equal(9);
+      // One record per employee, whatever the tier
+      expect(await payGramCore.nextPaymentId()).to.equal(3);
       expect(await payGramCore.totalPayrollsExecuted()).to.equal(1);
     });
 
@@ -971,28 +950,20 @@ describe("Trusted PayGram — Integration", function () {
         this.skip();
       }
 
-      // Find a delayed payment
-      const payments = await payGramCore.getPendingPaymentsForEmployee(
+      const [delayedId] = await payGramCore.getPendingPaymentsForEmployee(
         employee1.address
       );
-      let delayedId: bigint | null = null;
-      for (const pid of payments) {
-        const p = await payGramCore.getPendingPayment(pid);
-        if (p.status === 2n) {
-          delayedId = pid;
-          break;
-        }
-      }
-      if (delayedId === null) this.skip();
 
       await expect(
-        payGramCore.connect(employer).cancelPayment(delayedId!)
+        payGramCore.connect(employer).cancelPayment(delayedId)
       )
         .to.emit(payGramCore, "PaymentCancelled")
         .withArgs(delayedId, employee1.address);
 
-      const p = await payGramCore.getPendingPayment(delayedId!);
+      // Both held parts are cancelled
+      const p = await payGramCore.getPendingPayment(delayedId);
       expect(p.status).to.equal(5); // Completed (cancelled)
+      expect(p.releaseTime).to.equal(0);
     });
 
     it("should handle re-adding a previously removed employee (FHE)", async function () {
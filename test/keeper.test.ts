@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PayGramCore, PayGramToken, TrustScoring } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { runKeeperTick, withRetry } from "../scripts/keeper";
+
+/**
+ * Release keeper (scripts/keeper.ts) against the in-process Hardhat node.
+ * Creating delayed payments needs FHE, so those cases auto-skip on
+ * vanilla Hardhat.
+ */
+describe("Release Keeper", function () {
+  let payGramCore: PayGramCore;
+  let trustScoring: TrustScoring;
+  let token: PayGramToken;
+
+  let owner: HardhatEthersSigner;
+  let employer: HardhatEthersSigner;
+  let employee: HardhatEthersSigner;
+  let oracle: HardhatEthersSigner;
+  let keeper: HardhatEthersSigner;
+
+  const quiet = { log: () => undefined, retryDelayMs: 1 };
+
+  beforeEach(async function () {
+    [owner, employer, employee, oracle, keeper] = await ethers.getSigners();
+
+    trustScoring = await (
+      await ethers.getContractFactory("TrustScoring")
+    ).deploy(owner.address);
+    await trustScoring.connect(owner).setOracle(oracle.address, true);
+
+    token = await (
+      await ethers.getContractFactory("PayGramToken")
+    ).deploy(owner.address, 0);
+
+    payGramCore = await (
+      await ethers.getContractFactory("PayGramCore")
+    ).deploy(
+      owner.address,
+      employer.address,
+      await trustScoring.getAddress(),
+      await token.getAddress()
+    );
+  });
+
+  /**
+   * Funds the core, adds a medium-trust employee and runs payroll. Skips
+   * without FHE.
+   */
+  async function createDelayedPaymentOrSkip(ctx: Mocha.Context) {
+    try {
+      await token
+        .connect(owner)
+        .mint(await payGramCore.getAddress(), 1_000_000);
+      await payGramCore
+        .connect(employer)
+        .addEmployeePlaintext(employee.address, 3000, "designer");
+      await trustScoring
+        .connect(oracle)
+        .setTrustScorePlaintext(employee.address, 50);
+      await payGramCore.connect(employer).executePayroll();
+    } catch {
+      ctx.skip();
+    }
+  }
+
+  describe("withRetry", function () {
+    it("should return once an attempt succeeds", async function () {
+      let calls = 0;
+      const result = await withRetry(
+        async () => {
+          if (++calls < 3) throw new Error("nonce too low");
+          return "ok";
+        },
+        3,
+        1,
+        quiet.log
+      );
+      expect(result).to.equal("ok");
+      expect(calls).to.equal(3);
+    });
+
+    it("should rethrow after the last attempt", async function () {
+      let calls = 0;
+      await expect(
+        withRetry(
+          async () => {
+            calls++;
+            throw new Error("rpc down");
+          },
+          2,
+          1,
+          quiet.log
+        )
+      ).to.be.rejectedWith("rpc down");
+      expect(calls).to.equal(2);
+    });
+  });
+
+  describe("runKeeperTick", function () {
+    it("should send nothing when no payment has matured", async function () {
+      const core = payGramCore.connect(keeper);
+      const nonce = await keeper.getNonce();
+
+      const result = await runKeeperTick(core, quiet);
+
+      expect(result).to.deep.equal({ matured: [], released: 0, txHash: null });
+      expect(await keeper.getNonce()).to.equal(nonce);
+    });
+
+    it("should wait for the hold period (FHE path)", async function () {
+      await createDelayedPaymentOrSkip(this);
+
+      const result = await runKeeperTick(payGramCore.connect(keeper), quiet);
+      expect(result.matured).to.deep.equal([]);
+    });
+
+    it("should only report matured payments in dry-run mode (FHE path)", async function () {
+      await createDelayedPaymentOrSkip(this);
+      await time.increase(25 * 60 * 60);
+
+      const core = payGramCore.connect(keeper);
+      const nonce = await keeper.getNonce();
+      const result = await runKeeperTick(core, { ...quiet, dryRun: true });
+
+      expect(result.matured.length).to.be.greaterThan(0);
+      expect(result.released).to.equal(0);
+      expect(await keeper.getNonce()).to.equal(nonce);
+    });
+
+    it("should release matured payments (FHE path)", async function () {
+      await createDelayedPaymentOrSkip(this);
+      await time.increase(25 * 60 * 60);
+
+      const result = await runKeeperTick(payGramCore.connect(keeper), quiet);
+
+      expect(result.released).to.equal(result.matured.length);
+      expect(result.txHash).to.not.equal(null);
+      // The delayed parts are paid; escrow still waits for approval
+      for (const id of result.matured) {
+        const [, , , releaseTime] = await payGramCore.getPendingPayment(id);
+        expect(releaseTime).to.equal(0);
+      }
+    });
+  });
+});
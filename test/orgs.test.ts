@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PayGramFactory, PayGramCore } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  readMemberOrganizations,
+  readRegistryOrganizations,
+} from "../frontend/src/lib/orgs";
+
+/**
+ * Organization discovery (frontend/src/lib/orgs.ts) against a
+ * PayGramFactory on the in-process Hardhat node. Adding employees needs
+ * FHE, so that case auto-skips on vanilla Hardhat.
+ */
+describe("Organization Discovery", function () {
+  let factory: PayGramFactory;
+
+  let owner: HardhatEthersSigner;
+  let employerA: HardhatEthersSigner;
+  let employerB: HardhatEthersSigner;
+  let member: HardhatEthersSigner;
+
+  /** Mirrors PayGramCore.Role.Approver. */
+  const APPROVER = 2;
+
+  /** Creates an organization and returns its PayGramCore clone. */
+  async function createOrg(
+    employer: HardhatEthersSigner,
+    name: string
+  ): Promise<PayGramCore> {
+    const orgId = await factory.organizationCount();
+    await factory
+      .connect(employer)
+      .createOrganization(name, ethers.ZeroAddress, ethers.ZeroAddress);
+    const org = await factory.getOrganization(orgId);
+    return ethers.getContractAt("PayGramCore", org.core);
+  }
+
+  /** The factory as the untyped contract the frontend reads through. */
+  async function factoryContract() {
+    return new ethers.Contract(
+      await factory.getAddress(),
+      factory.interface,
+      ethers.provider
+    );
+  }
+
+  beforeEach(async function () {
+    [owner, employerA, employerB, member] = await ethers.getSigners();
+
+    const trustScoring = await (
+      await ethers.getContractFactory("TrustScoring")
+    ).deploy(owner.address);
+    const payGramToken = await (
+      await ethers.getContractFactory("PayGramToken")
+    ).deploy(owner.address, 0);
+    const implementation = await (
+      await ethers.getContractFactory("PayGramCore")
+    ).deploy(
+      owner.address,
+      owner.address,
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+
+    factory = await (
+      await ethers.getContractFactory("PayGramFactory")
+    ).deploy(
+      owner.address,
+      await implementation.getAddress(),
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+  });
+
+  it("should list the organizations an employer created", async function () {
+    const a = await createOrg(employerA, "Acme");
+    await createOrg(employerB, "Globex");
+
+    const orgs = await readRegistryOrganizations(
+      await factoryContract(),
+      employerA.address
+    );
+    expect(orgs.map((o) => o.address)).to.deep.equal([await a.getAddress()]);
+    expect(orgs[0]).to.include({ name: "Acme", source: "registry" });
+  });
+
+  it("should find organizations that granted the member a role", async function () {
+    await createOrg(employerA, "Acme");
+    const b = await createOrg(employerB, "Globex");
+    await b.connect(employerB).grantRole(member.address, APPROVER);
+
+    const orgs = await readMemberOrganizations(
+      await factoryContract(),
+      member.address
+    );
+    expect(orgs.map((o) => o.address)).to.deep.equal([await b.getAddress()]);
+    expect(orgs[0]).to.include({ name: "Globex", source: "registry" });
+  });
+
+  it("should find organizations with the member on the roster", async function () {
+    const a = await createOrg(employerA, "Acme");
+    await createOrg(employerB, "Globex");
+    try {
+      await a
+        .connect(employerA)
+        .addEmployeePlaintext(member.address, 5000, "engineer");
+    } catch {
+      this.skip();
+    }
+
+    const orgs = await readMemberOrganizations(
+      await factoryContract(),
+      member.address
+    );
+    expect(orgs.map((o) => o.address)).to.deep.equal([await a.getAddress()]);
+  });
+
+  it("should find nothing for an outsider", async function () {
+    await createOrg(employerA, "Acme");
+    expect(
+      await readMemberOrganizations(await factoryContract(), member.address)
+    ).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,287 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PayGramCore, PayGramToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  createPaymentIndex,
+  findDeploymentBlock,
+  queryPayments,
+  syncPaymentIndex,
+  STATUS_COMPLETED,
+  STATUS_ESCROWED,
+  STATUS_RELEASED,
+  type PaymentIndex,
+} from "../frontend/src/lib/paymentIndex";
+
+/**
+ * Payment event indexer (frontend/src/lib/paymentIndex.ts) against the
+ * in-process Hardhat node. Creating payments needs FHE, so those cases
+ * auto-skip on vanilla Hardhat.
+ */
+describe("Payment Index", function () {
+  let payGramCore: PayGramCore;
+  let payGramToken: PayGramToken;
+  let coreAddress: string;
+  let deployBlock: number;
+
+  let owner: HardhatEthersSigner;
+  let employer: HardhatEthersSigner;
+  let employee1: HardhatEthersSigner;
+  let employee2: HardhatEthersSigner;
+  let employee3: HardhatEthersSigner;
+
+  const HOLD = 25 * 60 * 60;
+
+  beforeEach(async function () {
+    [owner, employer, employee1, employee2, employee3] =
+      await ethers.getSigners();
+
+    const trustScoring = await (
+      await ethers.getContractFactory("TrustScoring")
+    ).deploy(owner.address);
+    payGramToken = await (
+      await ethers.getContractFactory("PayGramToken")
+    ).deploy(owner.address, 0);
+
+    payGramCore = await (
+      await ethers.getContractFactory("PayGramCore")
+    ).deploy(
+      owner.address,
+      employer.address,
+      await trustScoring.getAddress(),
+      await payGramToken.getAddress()
+    );
+    coreAddress = await payGramCore.getAddress();
+    deployBlock = (await payGramCore.deploymentTransaction()!.wait())!
+      .blockNumber;
+  });
+
+  /** The core as the untyped contract the indexer reads logs through. */
+  function coreContract() {
+    return new ethers.Contract(
+      coreAddress,
+      payGramCore.interface,
+      ethers.provider
+    );
+  }
+
+  function sync(index: PaymentIndex, maxBlockRange?: number) {
+    return syncPaymentIndex(index, coreContract(), ethers.provider, {
+      maxBlockRange,
+    });
+  }
+
+  /**
+   * Funds the core, adds the three employees and runs payroll, creating
+   * payments 0, 1 and 2. Skips without FHE.
+   */
+  async function runPayrollOrSkip(ctx: Mocha.Context) {
+    try {
+      await payGramToken.connect(owner).mint(coreAddress, 1_000_000);
+      for (const wallet of [employee1, employee2, employee3]) {
+        await payGramCore
+          .connect(employer)
+          .addEmployeePlaintext(wallet.address, 5000, "engineer");
+      }
+      await time.increase(10 * 24 * 60 * 60);
+      // Three employees take two chunks of PAYROLL_BATCH_SIZE
+      await payGramCore.connect(employer).executePayroll();
+      await payGramCore.connect(employer).executePayroll();
+    } catch {
+      ctx.skip();
+    }
+  }
+
+  describe("findDeploymentBlock", function () {
+    it("should find the block the contract was deployed in", async function () {
+      const latest = await ethers.provider.getBlockNumber();
+      expect(
+        await findDeploymentBlock(ethers.provider, coreAddress, latest)
+      ).to.equal(deployBlock);
+    });
+
+    it("should surface errors from the node", async function () {
+      const provider = {
+        getCode: async () => {
+          throw new Error("missing trie node");
+        },
+      } as unknown as Parameters<typeof findDeploymentBlock>[0];
+      await expect(
+        findDeploymentBlock(provider, coreAddress, 100)
+      ).to.be.rejectedWith("missing trie node");
+    });
+  });
+
+  describe("syncPaymentIndex", function () {
+    it("should start from a known start block", async function () {
+      await ethers.provider.send("hardhat_mine", ["0x5"]);
+      const index = createPaymentIndex(31337, coreAddress);
+      const synced = await syncPaymentIndex(
+        index,
+        coreContract(),
+        ethers.provider,
+        { startBlock: deployBlock + 3 }
+      );
+
+      // Taken as given rather than bisected
+      expect(synced.startBlock).to.equal(deployBlock + 3);
+      expect(synced.cursor).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("should index a payroll run", async function () {
+      await runPayrollOrSkip(this);
+
+      const index = await sync(createPaymentIndex(31337, coreAddress));
+
+      expect(index.startBlock).to.equal(deployBlock);
+      expect(Object.keys(index.payments)).to.have.lengthOf(3);
+      expect(index.payments[0].employee).to.equal(employee1.address);
+      expect(index.payments[0].status).to.equal(STATUS_ESCROWED);
+      expect(index.payments[0].releaseTime).to.be.gt(0);
+      expect(index.runs[1].paymentIds).to.deep.equal([0, 1, 2]);
+      expect(index.runs[1].employeeCount).to.equal(3);
+    });
+
+    it("should resume from its cursor without mutating the input", async function () {
+      await runPayrollOrSkip(this);
+      const first = await sync(createPaymentIndex(31337, coreAddress));
+      const cursor = first.cursor!;
+
+      await payGramCore.connect(employer).cancelPayment(0);
+      const second = await sync(first);
+
+      expect(second.cursor).to.equal(await ethers.provider.getBlockNumber());
+      expect(second.cursor).to.be.gt(cursor);
+      expect(second.payments[0].status).to.equal(STATUS_COMPLETED);
+      expect(first.cursor).to.equal(cursor);
+      expect(first.payments[0].status).to.equal(STATUS_ESCROWED);
+    });
+
+    it("should fetch logs in ranges of at most maxBlockRange", async function () {
+      await runPayrollOrSkip(this);
+
+      const contract = coreContract();
+      const ranges: [number, number][] = [];
+      const queryFilter = contract.queryFilter.bind(contract);
+      contract.queryFilter = (async (event, from, to) => {
+        ranges.push([Number(from), Number(to)]);
+        return queryFilter(event, from, to);
+      }) as typeof contract.queryFilter;
+
+      const index = createPaymentIndex(31337, coreAddress);
+      const chunked = await syncPaymentIndex(index, contract, ethers.provider, {
+        maxBlockRange: 2,
+      });
+      const whole = await sync(index);
+
+      const latest = await ethers.provider.getBlockNumber();
+      expect(ranges[0][0]).to.equal(deployBlock);
+      expect(ranges[ranges.length - 1][1]).to.equal(latest);
+      for (let i = 0; i < ranges.length; i++) {
+        expect(ranges[i][1] - ranges[i][0]).to.be.lessThan(2);
+        if (i > 0) expect(ranges[i][0]).to.equal(ranges[i - 1][1] + 1);
+      }
+      expect(chunked).to.deep.equal(whole);
+    });
+  });
+
+  describe("Status transitions", function () {
+    it("should mark a released payment", async function () {
+      await runPayrollOrSkip(this);
+      await time.increase(HOLD);
+      await payGramCore.releaseMatured(10);
+      await payGramCore.connect(employer).releasePayment(0);
+
+      const index = await sync(createPaymentIndex(31337, coreAddress));
+      const p = index.payments[0];
+      expect(p.status).to.equal(STATUS_RELEASED);
+      expect(p.releaseTime).to.equal(0);
+      expect(p.settledAt).to.equal(await time.latest());
+    });
+
+    it("should mark a cancelled payment and drop its release time", async function () {
+      await runPayrollOrSkip(this);
+      await payGramCore.connect(employer).cancelPayment(1);
+
+      const index = await sync(createPaymentIndex(31337, coreAddress));
+      const p = index.payments[1];
+      expect(p.status).to.equal(STATUS_COMPLETED);
+      expect(p.releaseTime).to.equal(0);
+      expect(p.settledAt).to.equal(await time.latest());
+    });
+
+    it("should count partial releases and keep the payment pending", async function () {
+      await runPayrollOrSkip(this);
+      await payGramCore.connect(employer).releasePartialPlaintext(2, 100);
+      await payGramCore.connect(employer).releasePartialPlaintext(2, 100);
+
+      const index = await sync(createPaymentIndex(31337, coreAddress));
+      const p = index.payments[2];
+      expect(p.status).to.equal(STATUS_ESCROWED);
+      expect(p.releasedTranches).to.equal(2);
+      expect(p.settledAt).to.equal(0);
+    });
+
+    it("should add split tranches to the parent's run", async function () {
+      await runPayrollOrSkip(this);
+      await payGramCore.connect(employer).splitPaymentPlaintext(2, [100, 200]);
+
+      const index = await sync(createPaymentIndex(31337, coreAddress));
+      for (const id of [3, 4]) {
+        const tranche = index.payments[id];
+        expect(tranche.parentId).to.equal(2);
+        expect(tranche.employee).to.equal(employee3.address);
+        expect(tranche.status).to.equal(STATUS_ESCROWED);
+        expect(tranche.releaseTime).to.equal(0);
+        expect(tranche.runId).to.equal(1);
+      }
+      expect(index.payments[2].releaseTime).to.be.gt(0);
+      expect(index.runs[1].paymentIds).to.deep.equal([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe("queryPayments", function () {
+    let index: PaymentIndex;
+
+    beforeEach(async function () {
+      await runPayrollOrSkip(this);
+      await payGramCore.connect(employer).cancelPayment(1);
+      await payGramCore.connect(employer).splitPaymentPlaintext(2, [100]);
+      index = await sync(createPaymentIndex(31337, coreAddress));
+    });
+
+    it("should page payments newest first", async function () {
+      const first = queryPayments(index, { pageSize: 3 });
+      expect(first.items.map((p) => p.id)).to.deep.equal([3, 2, 1]);
+      expect(first.total).to.equal(4);
+      expect(first.pageCount).to.equal(2);
+
+      const second = queryPayments(index, { pageSize: 3, page: 1 });
+      expect(second.items.map((p) => p.id)).to.deep.equal([0]);
+    });
+
+    it("should clamp out-of-range pages", async function () {
+      expect(queryPayments(index, { pageSize: 3, page: 9 }).page).to.equal(1);
+      expect(queryPayments(index, { pageSize: 3, page: -1 }).page).to.equal(0);
+    });
+
+    it("should filter by employee, status and run", async function () {
+      const byEmployee = queryPayments(index, {
+        employee: employee3.address.toLowerCase(),
+      });
+      expect(byEmployee.items.map((p) => p.id)).to.deep.equal([3, 2]);
+
+      const pending = queryPayments(index, { status: STATUS_ESCROWED });
+      expect(pending.items.map((p) => p.id)).to.deep.equal([3, 2, 0]);
+
+      const settled = queryPayments(index, {
+        status: [STATUS_RELEASED, STATUS_COMPLETED],
+      });
+      expect(settled.items.map((p) => p.id)).to.deep.equal([1]);
+
+      expect(queryPayments(index, { runId: 1 }).total).to.equal(4);
+      expect(queryPayments(index, { runId: 2 }).total).to.equal(0);
+    });
+  });
+});
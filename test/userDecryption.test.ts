@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PayGramCore } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  createEIP712Token,
+  decryptHandle,
+  setReencryptionBackend,
+} from "../frontend/src/lib/fhe";
+import { createLocalReencryptionBackend } from "../frontend/src/lib/fheLocal";
+
+/**
+ * User decryption (frontend/src/lib/fhe.ts) through the local
+ * re-encryption backend against the in-process Hardhat node. Creating and
+ * reading ciphertexts needs the mock FHEVM, so those cases auto-skip on
+ * vanilla Hardhat; signature checks run everywhere.
+ */
+describe("User Decryption", function () {
+  let payGramCore: PayGramCore;
+  let coreAddress: string;
+
+  let owner: HardhatEthersSigner;
+  let employer: HardhatEthersSigner;
+  let employee: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    [owner, employer, employee, other] = await ethers.getSigners();
+
+    const trustScoring = await (
+      await ethers.getContractFactory("TrustScoring")
+    ).deploy(owner.address);
+    const token = await (
+      await ethers.getContractFactory("PayGramToken")
+    ).deploy(owner.address, 0);
+
+    payGramCore = await (
+      await ethers.getContractFactory("PayGramCore")
+    ).deploy(
+      owner.address,
+      employer.address,
+      await trustScoring.getAddress(),
+      await token.getAddress()
+    );
+    coreAddress = await payGramCore.getAddress();
+
+    setReencryptionBackend(
+      createLocalReencryptionBackend({ provider: ethers.provider })
+    );
+  });
+
+  afterEach(function () {
+    setReencryptionBackend(null);
+  });
+
+  /**
+   * Adds `employee` with a plaintext salary and returns its handle.
+   * Skips if FHE is unavailable.
+   */
+  async function salaryHandleOrSkip(ctx: Mocha.Context, salary: number) {
+    try {
+      await payGramCore
+        .connect(employer)
+        .addEmployeePlaintext(employee.address, salary, "Engineer");
+    } catch {
+      ctx.skip();
+    }
+    return payGramCore.getEncryptedSalary(employee.address);
+  }
+
+  it("should sign a token for the contract", async function () {
+    const token = await createEIP712Token(coreAddress, employee);
+
+    expect(token).to.not.equal(null);
+    expect(token!.contractAddress).to.equal(coreAddress);
+    expect(token!.userAddress).to.equal(employee.address);
+    expect(token!.publicKey).to.match(/^[0-9a-f]{64}$/);
+  });
+
+  it("should decrypt the uninitialized handle to zero", async function () {
+    const token = await createEIP712Token(coreAddress, employee);
+    expect(await decryptHandle(ethers.ZeroHash, token!)).to.equal(0n);
+  });
+
+  it("should reject a token presented for another account", async function () {
+    const token = await createEIP712Token(coreAddress, employee);
+    await expect(
+      decryptHandle(ethers.toBeHex(1, 32), {
+        ...token!,
+        userAddress: other.address,
+      })
+    ).to.be.rejectedWith("Invalid EIP-712 signature");
+  });
+
+  it("should decrypt a handle the user holds a grant for", async function () {
+    const handle = await salaryHandleOrSkip(this, 5000);
+
+    const token = await createEIP712Token(coreAddress, employee);
+    expect(await decryptHandle(handle, token!)).to.equal(5000n);
+  });
+
+  it("should refuse a handle the user holds no grant for", async function () {
+    const handle = await salaryHandleOrSkip(this, 5000);
+
+    // Trivially encrypted values share a handle across contracts, so a
+    // signer another suite paid 5000 may hold a grant on it already
+    const stranger = ethers.Wallet.createRandom();
+    const token = await createEIP712Token(coreAddress, stranger);
+    await expect(decryptHandle(handle, token!)).to.be.rejectedWith(
+      "User is not authorized to decrypt this handle"
+    );
+  });
+});